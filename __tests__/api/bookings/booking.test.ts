@@ -0,0 +1,86 @@
+/**
+ * Editing a booking: only the customer name and dates can change, and new dates are checked for
+ * availability and priced by the server.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import Booking from '@/models/Booking';
+import Product from '@/models/Product';
+import { checkAvailability } from '@/lib/availability';
+import { PATCH } from '@/app/api/bookings/[id]/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), booking: vi.fn() },
+}));
+vi.mock('@/models/Booking', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/Product', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/lib/availability', () => ({ checkAvailability: vi.fn() }));
+
+const DAY = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(Date.UTC(2030, 0, 1) + days * DAY);
+
+// A pending booking of two days at ₹500 a day
+function fakeBooking() {
+  const booking: Record<string, any> = {
+    _id: 'booking-1',
+    productId: 'product-1',
+    customerEmail: 'customer@example.com',
+    customerName: 'Customer',
+    startDate: inDays(0),
+    endDate: inDays(2),
+    totalPrice: 1000,
+    status: 'pending',
+    isModified: vi.fn(() => true),
+    save: vi.fn(),
+  };
+  booking.populate = vi.fn(async () => booking);
+  return booking;
+}
+
+const patch = (body: Record<string, any>) =>
+  PATCH(new NextRequest('http://localhost/api/bookings/booking-1', { method: 'PATCH', body: JSON.stringify(body) }), { params: { id: 'booking-1' } });
+
+let booking: ReturnType<typeof fakeBooking>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  booking = fakeBooking();
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'customer-1', email: 'customer@example.com', role: 'customer' } });
+  vi.mocked(Booking.findById).mockReturnValue(booking as any);
+  vi.mocked(Product.findById).mockResolvedValue({ _id: 'product-1', name: 'Drill', pricePerDay: 500 } as any);
+  vi.mocked(checkAvailability).mockResolvedValue({ available: true, capacity: 1, reserved: 0, free: 1, requested: 1 });
+});
+
+describe('PATCH /api/bookings/[id]', () => {
+  it('refuses a total sent by the client', async () => {
+    const res = await patch({ totalPrice: 1 });
+
+    expect(res.status).toBe(400);
+    expect(booking.save).not.toHaveBeenCalled();
+    expect(booking.totalPrice).toBe(1000);
+  });
+
+  it('reprices the booking for its new dates', async () => {
+    const res = await patch({ endDate: inDays(4).toISOString() });
+
+    expect(res.status).toBe(200);
+    expect(checkAvailability).toHaveBeenCalledWith('product-1', inDays(0), inDays(4), expect.objectContaining({ excludeId: 'booking-1' }));
+    expect(booking.totalPrice).toBe(2000);
+    expect(booking.save).toHaveBeenCalled();
+  });
+
+  it('keeps the booking as it was when the new dates are taken', async () => {
+    vi.mocked(checkAvailability).mockResolvedValue({ available: false, capacity: 1, reserved: 1, free: 0, requested: 1 });
+
+    const res = await patch({ startDate: inDays(1).toISOString(), endDate: inDays(3).toISOString() });
+
+    expect(res.status).toBe(409);
+    expect(booking.save).not.toHaveBeenCalled();
+    expect(booking.startDate).toEqual(inDays(0));
+  });
+});
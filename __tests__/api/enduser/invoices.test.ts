@@ -0,0 +1,67 @@
+/**
+ * Bulk invoicing: an enduser invoices the selected orders in one go, and orders that can't be
+ * invoiced are reported back without failing the rest.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { invoiceEndUserOrder } from '@/lib/invoices';
+import { POST } from '@/app/api/enduser/invoices/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('@/lib/invoices', () => ({ invoiceEndUserOrder: vi.fn() }));
+
+const ENDUSER_ID = '64b0000000000000000000e1';
+const DELIVERED = '64b0000000000000000000a1';
+const CONFIRMED = '64b0000000000000000000a2';
+const BROKEN = '64b0000000000000000000a3';
+
+const invoiceOrders = (orders: unknown) =>
+  POST(new NextRequest('http://localhost/api/enduser/invoices', { method: 'POST', body: JSON.stringify({ orders }) }));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: ENDUSER_ID, email: 'owner@example.com', role: 'enduser' } });
+  vi.mocked(invoiceEndUserOrder).mockImplementation(async (_endUserId: string, orderKey: string) => {
+    if (orderKey === DELIVERED) return { invoices: [{ _id: 'invoice-1', invoiceNumber: 'INV/0001', orderNumber: 'ORD-000001', status: 'posted', total: 1180 }] };
+    if (orderKey === BROKEN) throw new Error('connection lost');
+    return { invoices: [], reason: 'Only delivered or returned orders can be invoiced' };
+  });
+});
+
+describe('POST /api/enduser/invoices', () => {
+  it('invoices each selected order once and reports the ones it could not', async () => {
+    const response = await invoiceOrders([DELIVERED, CONFIRMED, DELIVERED, BROKEN, 'not-an-id']);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(invoiceEndUserOrder).toHaveBeenCalledTimes(3);
+    expect(invoiceEndUserOrder).toHaveBeenCalledWith(ENDUSER_ID, DELIVERED);
+    expect(body.data.invoices).toEqual([{ _id: 'invoice-1', invoiceNumber: 'INV/0001', orderNumber: 'ORD-000001', status: 'posted', total: 1180 }]);
+    expect(body.data.skipped).toEqual([
+      { order: CONFIRMED, reason: 'Only delivered or returned orders can be invoiced' },
+      { order: BROKEN, reason: 'Failed to invoice' },
+      { order: 'not-an-id', reason: 'Order not found' },
+    ]);
+    expect(body.message).toBe('1 invoice posted');
+  });
+
+  it('needs at least one order', async () => {
+    expect((await invoiceOrders([])).status).toBe(400);
+    expect((await invoiceOrders(undefined)).status).toBe(400);
+    expect(invoiceEndUserOrder).not.toHaveBeenCalled();
+  });
+
+  it('is only for endusers', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'customer-1', role: 'customer' } });
+
+    expect((await invoiceOrders([DELIVERED])).status).toBe(401);
+    expect(invoiceEndUserOrder).not.toHaveBeenCalled();
+  });
+});
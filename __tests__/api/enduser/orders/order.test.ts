@@ -0,0 +1,117 @@
+/**
+ * Enduser order detail: an enduser only sees their own lines, and moves them through the rental
+ * workflow one allowed step at a time.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import RentalOrder from '@/models/RentalOrder';
+import Invoice from '@/models/Invoice';
+import Refund from '@/models/Refund';
+import { checkAvailability } from '@/lib/availability';
+import { notifyOrder } from '@/lib/notifications';
+import { GET, PATCH } from '@/app/api/enduser/orders/[id]/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), booking: vi.fn() },
+}));
+vi.mock('@/models/RentalOrder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/models/RentalOrder')>()),
+  default: { findOne: vi.fn(), find: vi.fn() },
+}));
+vi.mock('@/models/Order', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/Invoice', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/CreditNote', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Refund', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/lib/availability', () => ({ checkAvailability: vi.fn() }));
+vi.mock('@/lib/refunds', () => ({ cancelAndRefundOrder: vi.fn(), quoteRefund: vi.fn() }));
+vi.mock('@/lib/notifications', () => ({ notifyOrder: vi.fn() }));
+vi.mock('@/lib/invoices', () => ({ invoiceReturnedLateFees: vi.fn() }));
+
+const ORDER_ID = '64b0000000000000000000a1';
+const ENDUSER_ID = '64b0000000000000000000e1';
+
+// A line with no parent order, so reading it back needs only the invoice and refund lookups
+function fakeLine(status: string) {
+  const line: Record<string, any> = {
+    _id: ORDER_ID,
+    status,
+    productId: 'product-1',
+    quantity: 1,
+    startDate: new Date('2030-01-01'),
+    endDate: new Date('2030-01-03'),
+    canTransitionTo: vi.fn((to: string) => status === 'quotation' && ['confirmed', 'cancelled'].includes(to)),
+    updateStatus: vi.fn(),
+    save: vi.fn(),
+  };
+  line.populate = vi.fn(async () => line);
+  return line;
+}
+
+const request = (method: string, body?: Record<string, any>) =>
+  new NextRequest(`http://localhost/api/enduser/orders/${ORDER_ID}`, { method, body: body && JSON.stringify(body) });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: ENDUSER_ID, email: 'owner@example.com', name: 'Owner', role: 'enduser' } });
+  vi.mocked(Invoice.findOne).mockReturnValue({ select: async () => null } as any);
+  vi.mocked(Refund.findOne).mockResolvedValue(null);
+  vi.mocked(checkAvailability).mockResolvedValue({ available: true, capacity: 1, reserved: 0, free: 1, requested: 1 });
+});
+
+describe('GET /api/enduser/orders/[id]', () => {
+  it('only finds lines the enduser owns', async () => {
+    vi.mocked(RentalOrder.findOne).mockResolvedValue(null);
+
+    const response = await GET(request('GET'), { params: { id: ORDER_ID } });
+
+    expect(response.status).toBe(404);
+    expect(String((vi.mocked(RentalOrder.findOne).mock.calls[0][0] as any).endUserId)).toBe(ENDUSER_ID);
+  });
+
+  it('returns the line with the statuses it can move to next', async () => {
+    vi.mocked(RentalOrder.findOne).mockResolvedValue(fakeLine('quotation') as any);
+
+    const json = await (await GET(request('GET'), { params: { id: ORDER_ID } })).json();
+
+    expect(json.data.allowedTransitions).toEqual(['confirmed', 'cancelled']);
+  });
+});
+
+describe('PATCH /api/enduser/orders/[id]', () => {
+  it('confirms a quotation whose units are still free and tells the customer', async () => {
+    const line = fakeLine('quotation');
+    vi.mocked(RentalOrder.findOne).mockResolvedValue(line as any);
+
+    const response = await PATCH(request('PATCH', { status: 'confirmed' }), { params: { id: ORDER_ID } });
+
+    expect(response.status).toBe(200);
+    expect(line.updateStatus).toHaveBeenCalledWith('confirmed', 'Updated by owner@example.com', { id: ENDUSER_ID, name: 'Owner' });
+    expect(notifyOrder).toHaveBeenCalledWith(line, 'order_confirmed');
+  });
+
+  it('keeps a quotation open when its units were booked since', async () => {
+    const line = fakeLine('quotation');
+    vi.mocked(RentalOrder.findOne).mockResolvedValue(line as any);
+    vi.mocked(checkAvailability).mockResolvedValue({ available: false, capacity: 1, reserved: 1, free: 0, requested: 1 });
+
+    const response = await PATCH(request('PATCH', { status: 'confirmed' }), { params: { id: ORDER_ID } });
+
+    expect(response.status).toBe(409);
+    expect(line.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('refuses to skip a step', async () => {
+    const line = fakeLine('quotation');
+    vi.mocked(RentalOrder.findOne).mockResolvedValue(line as any);
+
+    const response = await PATCH(request('PATCH', { status: 'returned' }), { params: { id: ORDER_ID } });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Cannot move an order from "quotation" to "returned"');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Validating transfers: a done pickup delivers the rental order and a done return brings it back,
+ * and nothing moves when either change is not allowed.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import Transfer from '@/models/Transfer';
+import RentalOrder from '@/models/RentalOrder';
+import { invoiceReturnedLateFees } from '@/lib/invoices';
+import { POST } from '@/app/api/enduser/transfers/[id]/status/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), booking: vi.fn() },
+}));
+vi.mock('@/models/Transfer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/models/Transfer')>()),
+  default: { findOne: vi.fn() },
+}));
+vi.mock('@/models/RentalOrder', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/lib/invoices', () => ({ invoiceReturnedLateFees: vi.fn() }));
+
+const TRANSFER_ID = '64b0000000000000000000a1';
+const ENDUSER_ID = '64b0000000000000000000e1';
+
+function fakeTransfer(type: 'pickup' | 'return', status: string) {
+  return {
+    _id: TRANSFER_ID,
+    reference: type === 'pickup' ? 'PICKUP/OUT/0001' : 'RETURN/IN/0001',
+    type,
+    status,
+    rentalOrderId: 'rental-1',
+    canTransitionTo: vi.fn((to: string) => (status === 'ready' || status === 'waiting') && to === 'done'),
+    updateStatus: vi.fn(),
+  };
+}
+
+const fakeOrder = (status: string) => ({ _id: 'rental-1', status, updateStatus: vi.fn() });
+
+const post = (body: Record<string, any>) =>
+  POST(new NextRequest(`http://localhost/api/enduser/transfers/${TRANSFER_ID}/status`, { method: 'POST', body: JSON.stringify(body) }), { params: { id: TRANSFER_ID } });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: ENDUSER_ID, email: 'owner@example.com', name: 'Owner', role: 'enduser' } });
+});
+
+describe('POST /api/enduser/transfers/[id]/status', () => {
+  it('delivers the order when its pickup is validated', async () => {
+    const transfer = fakeTransfer('pickup', 'ready');
+    const order = fakeOrder('confirmed');
+    vi.mocked(Transfer.findOne).mockResolvedValue(transfer as any);
+    vi.mocked(RentalOrder.findById).mockResolvedValue(order as any);
+
+    const response = await post({ status: 'done' });
+
+    expect(response.status).toBe(200);
+    expect(order.updateStatus).toHaveBeenCalledWith('delivered', 'PICKUP/OUT/0001 validated by owner@example.com', { id: ENDUSER_ID, name: 'Owner' });
+    expect(transfer.updateStatus).toHaveBeenCalledWith('done', expect.any(String));
+    expect(invoiceReturnedLateFees).not.toHaveBeenCalled();
+  });
+
+  it('returns the order and invoices its late fees when its return is validated', async () => {
+    const order = fakeOrder('late');
+    vi.mocked(Transfer.findOne).mockResolvedValue(fakeTransfer('return', 'waiting') as any);
+    vi.mocked(RentalOrder.findById).mockResolvedValue(order as any);
+
+    expect((await post({ status: 'done' })).status).toBe(200);
+    expect(order.updateStatus).toHaveBeenCalledWith('returned', expect.any(String), expect.any(Object));
+    expect(invoiceReturnedLateFees).toHaveBeenCalledWith(order);
+  });
+
+  it('leaves the transfer as it is when the order cannot move', async () => {
+    const transfer = fakeTransfer('return', 'ready');
+    vi.mocked(Transfer.findOne).mockResolvedValue(transfer as any);
+    vi.mocked(RentalOrder.findById).mockResolvedValue(fakeOrder('confirmed') as any);
+
+    const response = await post({ status: 'done' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Order is "confirmed" and cannot be marked returned');
+    expect(transfer.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('refuses a status the transfer cannot move to', async () => {
+    vi.mocked(Transfer.findOne).mockResolvedValue(fakeTransfer('pickup', 'draft') as any);
+
+    const response = await post({ status: 'done' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Cannot move a pickup transfer from "draft" to "done"');
+    expect(RentalOrder.findById).not.toHaveBeenCalled();
+  });
+});
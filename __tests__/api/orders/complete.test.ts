@@ -0,0 +1,105 @@
+/**
+ * Order completion from the browser: orders are only placed for a captured payment, from the
+ * checkout session it paid for rather than from what the request sends.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import Payment from '@/models/Payment';
+import CheckoutSession from '@/models/CheckoutSession';
+import { placeOrders } from '@/lib/orders';
+import { POST } from '@/app/api/orders/complete/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/Payment', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/CheckoutSession', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/Order', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/User', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/lib/orders', () => ({ placeOrders: vi.fn() }));
+
+function fakePayment(fields: Record<string, any> = {}) {
+  return {
+    _id: 'payment-1',
+    razorpayOrderId: 'order_1',
+    status: 'captured',
+    amount: 1180,
+    customerId: 'customer-1',
+    checkoutSessionId: 'session-1',
+    rentalOrderIds: [] as string[],
+    ...fields,
+    claimOrderPlacement: vi.fn(async () => true),
+    releaseOrderPlacement: vi.fn(),
+    attachOrders: vi.fn(),
+  };
+}
+
+const checkout = {
+  items: [{ id: 'drill', quantity: 1, fromDate: '2026-11-01', toDate: '2026-11-03', duration: 'day', totalPrice: 1000 }],
+  couponCode: 'SAVE100',
+  deliveryMethod: 'delivery',
+  deliveryAddress: { state: 'Karnataka', phone: '9876543210' },
+  pricing: { deliveryCharge: 80, discount: 100 },
+  status: 'active',
+  save: vi.fn(),
+};
+
+const complete = (body: Record<string, any>) =>
+  POST(new NextRequest('http://localhost/api/orders/complete', { method: 'POST', body: JSON.stringify(body) }));
+
+let payment: ReturnType<typeof fakePayment>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  payment = fakePayment();
+  checkout.status = 'active';
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'customer-1', name: 'Customer', email: 'customer@example.com' } });
+  vi.mocked(Payment.findOne).mockResolvedValue(payment as any);
+  vi.mocked(CheckoutSession.findOne).mockResolvedValue(checkout as any);
+  vi.mocked(placeOrders).mockResolvedValue({ updated: [], orderIds: ['rental-1'], orderId: 'order-1', orderNumber: 'ORD-000001' });
+});
+
+describe('POST /api/orders/complete', () => {
+  it('places nothing for a Razorpay order that has not been paid', async () => {
+    payment = fakePayment({ status: 'created' });
+    vi.mocked(Payment.findOne).mockResolvedValue(payment as any);
+
+    const res = await complete({ razorpayOrderId: 'order_1' });
+
+    expect(res.status).toBe(409);
+    expect(payment.claimOrderPlacement).not.toHaveBeenCalled();
+    expect(placeOrders).not.toHaveBeenCalled();
+  });
+
+  it('places the items, coupon and delivery of the checkout session, ignoring the request\'s', async () => {
+    const res = await complete({
+      razorpayOrderId: 'order_1',
+      couponCode: 'EVERYTHINGFREE',
+      items: [{ productId: 'yacht', quantity: 5, totalPrice: 1 }],
+    });
+
+    expect(res.status).toBe(200);
+    const [items, buyer, options] = vi.mocked(placeOrders).mock.calls[0];
+    expect(items).toEqual([expect.objectContaining({ productId: 'drill', quantity: 1, totalPrice: 1000, deliveryAddress: checkout.deliveryAddress })]);
+    expect(buyer).toMatchObject({ id: 'customer-1', phone: '9876543210' });
+    expect(options).toMatchObject({ couponCode: 'SAVE100', couponDiscount: 100, deliveryMethod: 'delivery', deliveryCharge: 80, paidAmount: 1180, paymentStatus: 'paid' });
+    expect(payment.attachOrders).toHaveBeenCalledWith(['rental-1']);
+    expect(checkout.status).toBe('completed');
+  });
+
+  it('gives the placement claim back when the orders cannot be placed', async () => {
+    vi.mocked(placeOrders).mockResolvedValue({ error: 'Only 0 unit(s) of Drill available for the selected dates', status: 409 });
+
+    const res = await complete({ razorpayOrderId: 'order_1' });
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ success: false, error: expect.stringMatching(/Drill/) });
+    expect(payment.releaseOrderPlacement).toHaveBeenCalledWith('browser', expect.stringMatching(/Drill/));
+    expect(checkout.status).toBe('active');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Manual stock changes: the fleet can't shrink below the units customers have booked.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
+import { checkAvailability, getBookedUnits } from '@/lib/availability';
+import { POST } from '@/app/api/products/[id]/stock/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/Product', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/StockMovement', () => ({ default: { findByProduct: vi.fn() } }));
+vi.mock('@/lib/availability', () => ({ checkAvailability: vi.fn(), getBookedUnits: vi.fn() }));
+
+// Five units owned, three booked by customers over the coming weeks
+const product = () => ({ _id: 'product-1', name: 'Drill', endUserId: 'owner-1', quantityAvailable: 5, adjustStock: vi.fn() });
+
+const post = (body: Record<string, any>) =>
+  POST(new NextRequest('http://localhost/api/products/product-1/stock', { method: 'POST', body: JSON.stringify(body) }), { params: { id: 'product-1' } });
+
+let owned: ReturnType<typeof product>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  owned = product();
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'owner-1', email: 'owner@example.com', name: 'Owner', role: 'enduser' } });
+  vi.mocked(Product.findById).mockResolvedValue(owned as any);
+  vi.mocked(StockMovement.findByProduct).mockResolvedValue([] as any);
+  vi.mocked(checkAvailability).mockResolvedValue({ available: true, capacity: 5, reserved: 3, free: 2, requested: 1 });
+  vi.mocked(getBookedUnits).mockResolvedValue({ capacity: 5, booked: 3 });
+});
+
+describe('POST /api/products/[id]/stock', () => {
+  it('refuses to take booked units out of the fleet', async () => {
+    const response = await post({ type: 'decrease', quantity: 3, reason: 'Sold' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Cannot remove 3 units; 3 of the 5 are booked by customers');
+    expect(owned.adjustStock).not.toHaveBeenCalled();
+  });
+
+  it('removes units nobody has booked', async () => {
+    const response = await post({ type: 'decrease', quantity: 2, reason: 'Sold' });
+
+    expect(response.status).toBe(200);
+    expect(owned.adjustStock).toHaveBeenCalledWith(-2, expect.objectContaining({ type: 'decrease', reason: 'Sold' }));
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Accepting a quotation: its lines become confirmed orders while their units are free, and an
+ * expired quotation can't be accepted.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import Quotation from '@/models/Quotation';
+import RentalOrder from '@/models/RentalOrder';
+import { checkAvailability } from '@/lib/availability';
+import { notifyOrder } from '@/lib/notifications';
+import { POST } from '@/app/api/quotations/[id]/accept/route';
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }));
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), booking: vi.fn() },
+}));
+vi.mock('@/models/Quotation', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/lib/availability', () => ({ checkAvailability: vi.fn() }));
+vi.mock('@/lib/notifications', () => ({ notifyOrder: vi.fn() }));
+vi.mock('@/lib/inAppNotifications', () => ({ notifyNewOrder: vi.fn() }));
+
+const QUOTATION_ID = '64b0000000000000000000b1';
+const DAY = 24 * 60 * 60 * 1000;
+
+function fakeQuotation(validUntil = new Date(Date.now() + 7 * DAY)) {
+  return {
+    _id: QUOTATION_ID,
+    reference: 'QT/0001',
+    status: 'sent',
+    validUntil,
+    total: 2360,
+    updateStatus: vi.fn(),
+    cancelOpenOrders: vi.fn(),
+  };
+}
+
+const fakeLine = (id: string, name: string) => ({
+  _id: id,
+  productId: { _id: `product-${id}`, name },
+  quantity: 1,
+  startDate: new Date(Date.now() + DAY),
+  endDate: new Date(Date.now() + 3 * DAY),
+  updateStatus: vi.fn(),
+});
+
+const accept = () =>
+  POST(new NextRequest(`http://localhost/api/quotations/${QUOTATION_ID}/accept`, { method: 'POST' }), { params: { id: QUOTATION_ID } });
+
+let quotation: ReturnType<typeof fakeQuotation>;
+let lines: ReturnType<typeof fakeLine>[];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  quotation = fakeQuotation();
+  lines = [fakeLine('1', 'Drill'), fakeLine('2', 'Ladder')];
+  vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'customer-1', email: 'customer@example.com', name: 'Customer', role: 'customer' } });
+  vi.mocked(Quotation.findOne).mockResolvedValue(quotation as any);
+  vi.mocked(RentalOrder.find).mockReturnValue({ populate: async () => lines } as any);
+  vi.mocked(checkAvailability).mockResolvedValue({ available: true, capacity: 1, reserved: 0, free: 1, requested: 1 });
+});
+
+describe('POST /api/quotations/[id]/accept', () => {
+  it('confirms every line and marks the quotation accepted', async () => {
+    const response = await accept();
+
+    expect(response.status).toBe(200);
+    for (const line of lines) {
+      expect(line.updateStatus).toHaveBeenCalledWith('confirmed', 'QT/0001 accepted by customer@example.com', { id: 'customer-1', name: 'Customer' });
+    }
+    expect(notifyOrder).toHaveBeenCalledTimes(2);
+    expect(quotation.updateStatus).toHaveBeenCalledWith('accepted', expect.any(String));
+  });
+
+  it('stops at a line booked out for its dates, keeping the quotation open to retry', async () => {
+    vi.mocked(checkAvailability)
+      .mockResolvedValueOnce({ available: true, capacity: 1, reserved: 0, free: 1, requested: 1 })
+      .mockResolvedValueOnce({ available: false, capacity: 1, reserved: 1, free: 0, requested: 1 });
+
+    const response = await accept();
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe('Only 0 unit(s) of Ladder are available for the quoted dates');
+    expect(lines[0].updateStatus).toHaveBeenCalled();
+    expect(lines[1].updateStatus).not.toHaveBeenCalled();
+    expect(quotation.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('expires a quotation accepted after its date and cancels its orders', async () => {
+    quotation = fakeQuotation(new Date(Date.now() - DAY));
+    vi.mocked(Quotation.findOne).mockResolvedValue(quotation as any);
+
+    const response = await accept();
+
+    expect(response.status).toBe(409);
+    expect(quotation.cancelOpenOrders).toHaveBeenCalledWith('QT/0001 expired');
+    expect(quotation.updateStatus).toHaveBeenCalledWith('expired', 'Accepted after expiry date');
+    expect(RentalOrder.find).not.toHaveBeenCalled();
+  });
+});
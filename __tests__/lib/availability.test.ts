@@ -0,0 +1,74 @@
+/**
+ * Availability: units booked by date come off the fleet, and lines placed when checkout still took
+ * units off the shelf are added back to it so they are not counted twice.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import RentalOrder from '@/models/RentalOrder';
+import Booking from '@/models/Booking';
+import { checkAvailability, getBookedUnits } from '@/lib/availability';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/Product', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/Booking', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/RentalOrder', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/models/RentalOrder')>()),
+  default: { aggregate: vi.fn(), find: vi.fn() },
+}));
+
+const leanQuery = (result: any[]) => ({ select: () => ({ lean: async () => result }) });
+
+const start = new Date('2030-01-01');
+const end = new Date('2030-01-03');
+const line = (fields: Record<string, any>) => ({ startDate: start, endDate: end, quantity: 1, status: 'confirmed', ...fields });
+
+// The active lines on the product, with the $match on stockReleased applied the way MongoDB would
+function storeLines(lines: any[]) {
+  vi.mocked(RentalOrder.find).mockReturnValue(leanQuery(lines) as any);
+  vi.mocked(RentalOrder.aggregate).mockImplementation((async (pipeline: any[]) => {
+    const released = pipeline[0].$match.stockReleased;
+    const held = lines.filter((l) => (released.$ne !== undefined ? l.stockReleased !== released.$ne : l.stockReleased === released));
+    return held.length ? [{ units: held.reduce((sum, l) => sum + l.quantity, 0) }] : [];
+  }) as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(Booking.find).mockReturnValue(leanQuery([]) as any);
+});
+
+describe('checkAvailability', () => {
+  // A fleet of 2: one unit out on a line placed before lines recorded stockReleased, so 1 left on the shelf
+  const product = { _id: '64b000000000000000000011', quantityAvailable: 1 };
+
+  it('adds a legacy line\'s unit back before taking its booking off', async () => {
+    storeLines([line({})]);
+
+    const result = await checkAvailability(product._id, start, end, { product });
+
+    expect(result).toMatchObject({ capacity: 2, reserved: 1, free: 1, available: true });
+  });
+
+  it('counts a line booked by date against the fleet only once', async () => {
+    storeLines([line({ stockReleased: true }), line({})]);
+
+    const result = await checkAvailability(product._id, start, end, { product });
+
+    expect(result).toMatchObject({ capacity: 2, reserved: 2, free: 0, available: false });
+  });
+});
+
+describe('getBookedUnits', () => {
+  it('counts the most units booked at once from now on', async () => {
+    const product = { _id: '64b000000000000000000011', quantityAvailable: 3 };
+    // Two overlapping bookings next week, one on its own the week after
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    const later = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+    const window = (from: Date) => ({ startDate: from, endDate: new Date(from.getTime() + 2 * 24 * 60 * 60 * 1000) });
+    storeLines([line({ ...window(nextWeek), stockReleased: true }), line({ ...window(nextWeek), stockReleased: true }), line({ ...window(later), stockReleased: true })]);
+
+    expect(await getBookedUnits(product._id, product)).toEqual({ capacity: 3, booked: 2 });
+  });
+});
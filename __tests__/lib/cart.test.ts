@@ -0,0 +1,51 @@
+/**
+ * Cart cleanup after an order: only the lines ordered leave the cart, so the same product booked
+ * for other dates stays in it.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Cart from '@/models/Cart';
+import { removeOrderedLines } from '@/lib/cart';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/Cart', () => ({ default: { updateOne: vi.fn() }, MAX_CART_LINE_QUANTITY: 10 }));
+vi.mock('@/models/Product', () => ({ default: {} }));
+vi.mock('@/models/TaxPolicy', () => ({ default: {} }));
+
+const drill = new mongoose.Types.ObjectId();
+
+// The cart items a $pull of the given condition leaves, matched the way MongoDB matches array elements
+function keptAfter(items: any[]) {
+  const [, update] = vi.mocked(Cart.updateOne).mock.calls[0] as any[];
+  const ordered: any[] = update.$pull.items.$or;
+  return items.filter((item) => !ordered.some((line) =>
+    line.productId.equals(item.productId) && line.fromDate === item.fromDate && line.toDate === item.toDate
+  ));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('removeOrderedLines', () => {
+  it('keeps the same product booked for other dates', async () => {
+    const cart = [
+      { productId: drill, fromDate: '2030-01-01', toDate: '2030-01-03' },
+      { productId: drill, fromDate: '2030-02-01', toDate: '2030-02-03' },
+    ];
+
+    await removeOrderedLines('customer-1', [{ productId: drill.toString(), fromDate: '2030-01-01', toDate: '2030-01-03' }]);
+
+    expect(vi.mocked(Cart.updateOne).mock.calls[0][0]).toEqual({ customerId: 'customer-1' });
+    expect(keptAfter(cart)).toEqual([cart[1]]);
+  });
+
+  it('leaves the cart alone for lines ordered without dates', async () => {
+    await removeOrderedLines('customer-1', [{ productId: drill.toString(), fromDate: '', toDate: '' }]);
+
+    expect(Cart.updateOne).not.toHaveBeenCalled();
+  });
+});
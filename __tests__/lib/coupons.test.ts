@@ -0,0 +1,108 @@
+/**
+ * Coupon discount allocation: a coupon only discounts its owner's eligible lines, and the shares
+ * recorded on the lines add up to the discount charged.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Coupon from '@/models/Coupon';
+import CouponRedemption from '@/models/CouponRedemption';
+import Product from '@/models/Product';
+import { allocateDiscount, orderLineDiscounts, redeemCoupon, PricedLine } from '@/lib/coupons';
+
+vi.mock('@/models/Coupon', () => ({ default: { findByCode: vi.fn(), updateOne: vi.fn() } }));
+vi.mock('@/models/CouponRedemption', () => ({ default: { create: vi.fn() } }));
+vi.mock('@/models/Product', () => ({ default: { find: vi.fn() } }));
+
+const line = (productId: string, endUserId: string, total: number, category = 'tools') =>
+  ({ productId, endUserId, total, category }) as PricedLine;
+
+const coupon = { endUserId: 'owner-1', productIds: [] as string[], categories: [] as string[] };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('allocateDiscount', () => {
+  it('puts the whole discount on the coupon owner\'s lines, in proportion to their totals', () => {
+    const lines = [line('drill', 'owner-1', 600), line('ladder', 'owner-2', 1000), line('saw', 'owner-1', 400)];
+
+    expect(allocateDiscount(coupon, lines, 100)).toEqual([60, 0, 40]);
+  });
+
+  it('settles rounding on the last eligible line so the shares add up to the discount', () => {
+    const lines = [line('drill', 'owner-1', 100), line('saw', 'owner-1', 100), line('sander', 'owner-1', 100)];
+
+    const shares = allocateDiscount(coupon, lines, 100);
+
+    expect(shares).toEqual([33.33, 33.33, 33.34]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(100, 2);
+  });
+
+  it('follows the coupon\'s product and category restrictions', () => {
+    const lines = [line('drill', 'owner-1', 500), line('saw', 'owner-1', 500, 'garden'), line('sander', 'owner-1', 500)];
+
+    expect(allocateDiscount({ ...coupon, productIds: ['drill', 'saw'] }, lines, 50)).toEqual([25, 25, 0]);
+    expect(allocateDiscount({ ...coupon, categories: ['garden'] }, lines, 50)).toEqual([0, 50, 0]);
+  });
+
+  it('gives every line nothing when the coupon covers none of them or takes nothing off', () => {
+    const lines = [line('ladder', 'owner-2', 1000)];
+
+    expect(allocateDiscount(coupon, lines, 100)).toEqual([0]);
+    expect(allocateDiscount(coupon, [line('drill', 'owner-1', 1000)], 0)).toEqual([0]);
+  });
+
+  it('spreads the discount over every line when the coupon has been deleted', () => {
+    const lines = [line('drill', 'owner-1', 600), line('ladder', 'owner-2', 400)];
+
+    expect(allocateDiscount(null, lines, 100)).toEqual([60, 40]);
+  });
+});
+
+describe('orderLineDiscounts', () => {
+  const placed = (id: string, endUserId: string, totalPrice: number, discount?: number) =>
+    ({ _id: id, productId: id, endUserId, totalPrice, discount });
+
+  it('reads the shares recorded on the lines', async () => {
+    const order = { discount: 100, couponCode: 'SAVE100' };
+
+    expect(await orderLineDiscounts(order, [placed('drill', 'owner-1', 1000, 100), placed('ladder', 'owner-2', 500, 0)])).toEqual([100, 0]);
+    expect(Coupon.findByCode).not.toHaveBeenCalled();
+  });
+
+  it('works the shares out from the coupon for lines placed before they were recorded', async () => {
+    vi.mocked(Coupon.findByCode).mockResolvedValue(coupon as any);
+    vi.mocked(Product.find).mockReturnValue({
+      select: () => ({ lean: async () => [{ _id: 'drill', category: 'tools' }, { _id: 'ladder', category: 'tools' }] }),
+    } as any);
+
+    const shares = await orderLineDiscounts({ discount: 100, couponCode: 'SAVE100' }, [placed('drill', 'owner-1', 1000), placed('ladder', 'owner-2', 500)]);
+
+    expect(shares).toEqual([100, 0]);
+  });
+
+  it('spreads the discount over every line when the coupon no longer exists', async () => {
+    vi.mocked(Coupon.findByCode).mockResolvedValue(null);
+
+    const shares = await orderLineDiscounts({ discount: 90, couponCode: 'GONE' }, [placed('drill', 'owner-1', 1000), placed('ladder', 'owner-2', 500)]);
+
+    expect(shares).toEqual([60, 30]);
+  });
+});
+
+describe('redeemCoupon', () => {
+  // A coupon whose last use was taken by someone else after this customer checked out
+  const exhausted = () => ({ ...coupon, _id: 'coupon-1', code: 'SAVE100', claimUse: vi.fn(async () => false) });
+  const details = { customerId: 'customer-1', discount: 100, orderTotal: 1000, rentalOrderIds: ['rental-1'] };
+
+  it('turns the use down once the limit is reached', async () => {
+    expect(await redeemCoupon(exhausted(), details)).toBe(false);
+    expect(CouponRedemption.create).not.toHaveBeenCalled();
+  });
+
+  it('records a discount the customer already paid for, even past the limit', async () => {
+    expect(await redeemCoupon(exhausted(), { ...details, charged: true })).toBe(true);
+    expect(Coupon.updateOne).toHaveBeenCalledWith({ _id: 'coupon-1' }, { $inc: { usedCount: 1 } });
+    expect(CouponRedemption.create).toHaveBeenCalledWith(expect.objectContaining({ code: 'SAVE100', discount: 100 }));
+  });
+});
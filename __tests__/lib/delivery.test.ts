@@ -0,0 +1,94 @@
+/**
+ * Delivery charges: each enduser's policy prices delivery to an address (flat, by pincode zone or
+ * by distance) and turns away addresses they don't serve; a cart is delivered only when every
+ * enduser in it serves the address.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import DeliveryPolicy from '@/models/DeliveryPolicy';
+import { deliveryOptions } from '@/lib/checkout';
+import { quoteDelivery } from '@/lib/delivery';
+import type { PricedLine } from '@/lib/coupons';
+
+vi.mock('@/models/DeliveryPolicy', () => ({ default: { forEndUsers: vi.fn() } }));
+
+// MG Road, Bengaluru; Whitefield is about 16 km away and Mysuru about 125 km
+const STORE = { latitude: 12.9756, longitude: 77.605 };
+const WHITEFIELD = { zipCode: '560066', latitude: 12.9698, longitude: 77.75 };
+const MYSURU = { zipCode: '570001', latitude: 12.2958, longitude: 76.6394 };
+
+describe('quoteDelivery', () => {
+  it('delivers free anywhere for an enduser without a policy', () => {
+    expect(quoteDelivery(null, { zipCode: '110001' })).toEqual({ available: true, charge: 0 });
+  });
+
+  it('charges the flat rate only within the serviceable pincodes, written any way', () => {
+    const policy = { chargeType: 'flat' as const, flatCharge: 99, serviceablePincodes: ['560001', '560 066'] };
+
+    expect(quoteDelivery(policy, { zipCode: '560066' })).toEqual({ available: true, charge: 99 });
+    expect(quoteDelivery(policy, { pincode: ' 560 001' })).toEqual({ available: true, charge: 99 });
+    expect(quoteDelivery(policy, { zipCode: '570001' })).toEqual({ available: false, reason: 'Delivery is not available to 570001' });
+    expect(quoteDelivery(policy, {})).toEqual({ available: false, reason: 'A pincode is needed for delivery' });
+  });
+
+  it('charges by the zone the pincode falls in', () => {
+    const policy = {
+      chargeType: 'zone' as const,
+      zones: [{ name: 'Central', pincodes: ['560001'], charge: 40 }, { name: 'East', pincodes: ['560066'], charge: 120 }],
+    };
+
+    expect(quoteDelivery(policy, { zipCode: '560066' })).toEqual({ available: true, charge: 120, zone: 'East' });
+    expect(quoteDelivery(policy, { zipCode: '560100' })).toMatchObject({ available: false });
+  });
+
+  it('charges by the distance band from the store and stops at the furthest band', () => {
+    const policy = { chargeType: 'distance' as const, origin: STORE, distanceBands: [{ upToKm: 20, charge: 150 }, { upToKm: 5, charge: 50 }] };
+
+    expect(quoteDelivery(policy, WHITEFIELD)).toMatchObject({ available: true, charge: 150 });
+    expect(quoteDelivery(policy, MYSURU)).toEqual({ available: false, reason: 'Delivery is only available within 20 km' });
+    expect(quoteDelivery(policy, { zipCode: '560066' })).toEqual({ available: false, reason: 'Share your location to get a delivery charge' });
+  });
+
+  it('delivers free above the enduser\'s threshold', () => {
+    const policy = { flatCharge: 99, freeAbove: 2000 };
+
+    expect(quoteDelivery(policy, { zipCode: '560001' }, 1999)).toMatchObject({ charge: 99 });
+    expect(quoteDelivery(policy, { zipCode: '560001' }, 2000)).toMatchObject({ charge: 0 });
+  });
+
+  it('offers only pickup when delivery is switched off', () => {
+    expect(quoteDelivery({ deliveryEnabled: false }, { zipCode: '560001' })).toEqual({ available: false, reason: 'Delivery is not offered, only store pickup' });
+  });
+});
+
+describe('deliveryOptions', () => {
+  const line = (endUserId: string, total: number) => ({ endUserId, total }) as PricedLine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('adds up what each enduser in the cart charges to deliver their own lines', async () => {
+    vi.mocked(DeliveryPolicy.forEndUsers).mockResolvedValue(new Map([
+      ['owner-1', { flatCharge: 50, pickupAddress: 'Shop 1, MG Road' }],
+      ['owner-2', { flatCharge: 80, freeAbove: 1000 }],
+    ]));
+
+    const [pickup, delivery] = await deliveryOptions([line('owner-1', 500), line('owner-2', 600), line('owner-2', 600)], { zipCode: '560001' });
+
+    expect(pickup).toMatchObject({ method: 'pickup', available: true, charge: 0, pickupAddresses: ['Shop 1, MG Road'] });
+    // owner-2's lines come to 1200, above their free-delivery threshold
+    expect(delivery).toEqual({ method: 'delivery', available: true, charge: 50 });
+  });
+
+  it('turns delivery down when one enduser does not serve the address', async () => {
+    vi.mocked(DeliveryPolicy.forEndUsers).mockResolvedValue(new Map([
+      ['owner-2', { serviceablePincodes: ['560001'], pickupEnabled: false }],
+    ]));
+
+    const [pickup, delivery] = await deliveryOptions([line('owner-1', 500), line('owner-2', 600)], { zipCode: '570001' });
+
+    expect(pickup).toMatchObject({ available: false, reason: 'Store pickup is not offered for every item' });
+    expect(delivery).toEqual({ method: 'delivery', available: false, charge: 0, reason: 'Delivery is not available to 570001' });
+  });
+});
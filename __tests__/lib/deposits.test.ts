@@ -0,0 +1,110 @@
+/**
+ * Security deposits: collected into the ledger at checkout, then settled once by keeping the
+ * staff deductions and releasing the rest through the payment provider.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import DepositTransaction from '@/models/DepositTransaction';
+import Payment from '@/models/Payment';
+import RentalOrder from '@/models/RentalOrder';
+import { getPaymentProvider, PaymentProviderError } from '@/lib/paymentProvider';
+import { markLateFeeInvoicePaid } from '@/lib/invoices';
+import { collectDeposit, settleDeposit } from '@/lib/deposits';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), payment: vi.fn() },
+}));
+vi.mock('@/models/DepositTransaction', () => ({ default: { create: vi.fn(async (fields: any) => fields) } }));
+vi.mock('@/models/Payment', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { updateOne: vi.fn(), findOneAndUpdate: vi.fn() } }));
+vi.mock('@/lib/paymentProvider', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/paymentProvider')>()),
+  getPaymentProvider: vi.fn(),
+}));
+vi.mock('@/lib/invoices', () => ({ markLateFeeInvoicePaid: vi.fn() }));
+
+const provider = { name: 'razorpay', refund: vi.fn() };
+const payment = { razorpayPaymentId: 'pay_1', currency: 'INR', recordRefund: vi.fn() };
+const staff = { id: 'staff-1', name: 'Staff' };
+
+// A returned line with a ₹1000 deposit held
+const heldOrder = () => ({ _id: 'rental-1', endUserId: 'owner-1', customerId: 'customer-1', depositAmount: 1000, depositStatus: 'held' });
+
+const written = (type: string) => vi.mocked(DepositTransaction.create).mock.calls.map(([fields]: any[]) => fields).filter((fields) => fields.type === type);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getPaymentProvider).mockReturnValue(provider as any);
+  vi.mocked(Payment.findOne).mockResolvedValue(payment as any);
+  vi.mocked(RentalOrder.findOneAndUpdate).mockResolvedValue({ _id: 'rental-1' } as any);
+  provider.refund.mockResolvedValue({ refundId: 'rfnd_1', status: 'processed' });
+});
+
+describe('collectDeposit', () => {
+  it('records the deposit taken at checkout and marks it held', async () => {
+    const order = { ...heldOrder(), depositStatus: 'none' };
+
+    await collectDeposit(order, staff);
+
+    expect(written('collect')).toEqual([expect.objectContaining({ amount: 1000, balanceAfter: 1000, performedByName: 'Staff' })]);
+    expect(RentalOrder.updateOne).toHaveBeenCalledWith({ _id: 'rental-1' }, { $set: { depositStatus: 'held' } });
+    expect(order.depositStatus).toBe('held');
+  });
+
+  it('records nothing for a line without a deposit', async () => {
+    expect(await collectDeposit({ ...heldOrder(), depositAmount: 0 })).toBeNull();
+    expect(DepositTransaction.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('settleDeposit', () => {
+  it('keeps the deductions and releases the rest to the customer', async () => {
+    const deductions = [
+      { category: 'damage' as const, amount: 300, reason: 'Cracked lens cap' },
+      { category: 'late' as const, amount: 200, reason: 'Returned a day late' },
+    ];
+
+    const result = await settleDeposit(heldOrder(), deductions, { actor: staff });
+
+    expect(result).toMatchObject({ deducted: 500, released: 500 });
+    expect(provider.refund).toHaveBeenCalledWith(expect.objectContaining({ paymentId: 'pay_1', amount: 500 }));
+    expect(payment.recordRefund).toHaveBeenCalledWith('rfnd_1', 500);
+    expect(written('deduct').map((row) => row.balanceAfter)).toEqual([700, 500]);
+    expect(written('release')).toEqual([expect.objectContaining({ amount: 500, balanceAfter: 0, providerRefundId: 'rfnd_1' })]);
+    expect(markLateFeeInvoicePaid).toHaveBeenCalledWith('rental-1', 200);
+  });
+
+  it('turns down deductions larger than the deposit', async () => {
+    const result = await settleDeposit(heldOrder(), [{ category: 'damage', amount: 1200, reason: 'Broken' }]);
+
+    expect(result).toEqual({ error: 'Deductions (₹1200) exceed the ₹1000 deposit', status: 400 });
+    expect(RentalOrder.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('settles a deposit only once', async () => {
+    vi.mocked(RentalOrder.findOneAndUpdate).mockResolvedValue(null);
+
+    expect(await settleDeposit(heldOrder(), [])).toMatchObject({ status: 409 });
+    expect(provider.refund).not.toHaveBeenCalled();
+  });
+
+  it('puts the deposit back on hold and writes nothing when the provider refuses the release', async () => {
+    provider.refund.mockRejectedValue(new PaymentProviderError('Payment already fully refunded'));
+
+    const result = await settleDeposit(heldOrder(), []);
+
+    expect(result).toEqual({ error: 'Deposit release failed: Payment already fully refunded', status: 502 });
+    expect(RentalOrder.updateOne).toHaveBeenCalledWith({ _id: 'rental-1' }, { $set: { depositStatus: 'held' } });
+    expect(DepositTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('records a deposit handed back offline without calling the provider', async () => {
+    vi.mocked(Payment.findOne).mockResolvedValue(null);
+
+    const result = await settleDeposit(heldOrder(), [], { offline: true });
+
+    expect(result).toMatchObject({ deducted: 0, released: 1000 });
+    expect(provider.refund).not.toHaveBeenCalled();
+    expect(written('release')).toEqual([expect.objectContaining({ reason: 'Returned to customer offline' })]);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Low-stock alerts: the owner hears once, when an order takes the units free for its dates down to the
+ * threshold, not on every order after that.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import InAppNotification from '@/models/InAppNotification';
+import { LOW_STOCK_THRESHOLD, notifyLowAvailability } from '@/lib/inAppNotifications';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/InAppNotification', () => ({ default: { create: vi.fn() } }));
+
+const product = { _id: 'drill', name: 'Drill', endUserId: 'owner-1' };
+const start = new Date('2030-01-01');
+const end = new Date('2030-01-03');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('notifyLowAvailability', () => {
+  it('warns the owner when an order leaves few units free for its dates', async () => {
+    await notifyLowAvailability(product, start, end, LOW_STOCK_THRESHOLD + 1, 1);
+
+    expect(InAppNotification.create).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'owner-1',
+      kind: 'low_stock',
+      title: 'Drill is running low',
+      message: 'Only 1 unit left to rent from 1/1/2030 to 3/1/2030.',
+    }));
+  });
+
+  it('says so when an order books every unit left for those dates', async () => {
+    await notifyLowAvailability(product, start, end, LOW_STOCK_THRESHOLD + 1, 0);
+
+    expect(InAppNotification.create).toHaveBeenCalledWith(expect.objectContaining({ title: 'Drill is booked out' }));
+  });
+
+  it('stays quiet when plenty are left or the dates were already low', async () => {
+    await notifyLowAvailability(product, start, end, 10, LOW_STOCK_THRESHOLD + 1);
+    await notifyLowAvailability(product, start, end, LOW_STOCK_THRESHOLD, 1);
+
+    expect(InAppNotification.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Invoices: each enduser's lines at their taxable value, less the coupon discount on them, with GST
+ * charged on what is left; late fees invoiced at their final amount once a line is back; orders
+ * invoiced in bulk once delivered or returned.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import User from '@/models/User';
+import TaxPolicy from '@/models/TaxPolicy';
+import Invoice from '@/models/Invoice';
+import Order from '@/models/Order';
+import Product from '@/models/Product';
+import RentalOrder from '@/models/RentalOrder';
+import { accrueFinalLateFee } from '@/lib/lateReturns';
+import { settleOrder } from '@/lib/settlements';
+import { buildInvoice, invoiceEndUserOrder, invoiceReturnedLateFees } from '@/lib/invoices';
+import { calculateLineTax } from '@/lib/tax';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/User', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/TaxPolicy', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/Order', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/Product', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { findById: vi.fn(), find: vi.fn() } }));
+vi.mock('@/lib/lateReturns', () => ({ accrueFinalLateFee: vi.fn() }));
+vi.mock('@/lib/settlements', () => ({ settleOrder: vi.fn() }));
+
+const order = {
+  _id: '64b000000000000000000010',
+  orderNumber: 'ORD-000001',
+  customerId: '64b000000000000000000001',
+  customerName: 'Customer',
+  deliveryAddress: { state: 'Karnataka' },
+};
+
+const line = (id: string, totalPrice: number, inclusive: boolean) => ({
+  _id: id,
+  productId: { name: `Product ${id}`, category: 'tools' },
+  startDate: new Date('2026-11-01'),
+  endDate: new Date('2026-11-03'),
+  quantity: 1,
+  totalPrice,
+  tax: calculateLineTax(totalPrice, { label: 'GST', rate: 18, inclusive }),
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(User.findById).mockReturnValue({ select: () => ({ lean: async () => ({ name: 'Owner' }) }) } as any);
+  vi.mocked(TaxPolicy.findOne).mockReturnValue({ lean: async () => ({ state: 'Karnataka' }) } as any);
+});
+
+describe('buildInvoice', () => {
+  it('charges GST on a line after its coupon discount', async () => {
+    const drill = line('64b000000000000000000021', 1000, false);
+
+    const invoice = await buildInvoice(order, 'owner-1', [drill], new Map([[drill._id, 100]]));
+
+    expect(invoice).toMatchObject({ subtotal: 1000, discount: 100, taxTotal: 162, total: 1062 });
+    expect(invoice.lines[0]).toMatchObject({ amount: 1000, taxRate: 18, taxAmount: 162 });
+    expect(invoice.taxLines.map((tax: any) => [tax.label, tax.taxableValue, tax.amount])).toEqual([['CGST', 900, 81], ['SGST', 900, 81]]);
+  });
+
+  it('takes the discount off the taxable value of a tax-inclusive line', async () => {
+    const drill = line('64b000000000000000000021', 1180, true);
+
+    const invoice = await buildInvoice(order, 'owner-1', [drill], new Map([[drill._id, 118]]));
+
+    // The customer paid 1180 - 118 = 1062 with the tax inside
+    expect(invoice).toMatchObject({ subtotal: 1000, discount: 100, taxTotal: 162, total: 1062 });
+  });
+});
+
+describe('invoiceReturnedLateFees', () => {
+  const returned = () => ({
+    _id: '64b000000000000000000021',
+    orderId: order._id,
+    orderNumber: order.orderNumber,
+    productId: '64b000000000000000000031',
+    endUserId: '64b000000000000000000041',
+    status: 'returned',
+    endDate: new Date('2026-11-03'),
+    returnDate: new Date('2026-11-07'),
+    lateFees: 100,
+  });
+
+  let saved: any[];
+
+  beforeEach(() => {
+    saved = [];
+    vi.mocked(Order.findById).mockResolvedValue(order as any);
+    vi.mocked(Product.findById).mockReturnValue({ select: () => ({ lean: async () => ({ name: 'Drill', category: 'tools' }) }) } as any);
+    vi.spyOn(Invoice, 'findOne').mockResolvedValue(null);
+    vi.spyOn(Invoice.prototype, 'save').mockImplementation(async function (this: any) {
+      saved.push(this);
+      return this;
+    });
+    vi.spyOn(Invoice.prototype, 'updateStatus').mockResolvedValue(undefined as any);
+  });
+
+  it('invoices the fee accrued up to the return and settles the order with it', async () => {
+    const line = returned();
+    vi.mocked(accrueFinalLateFee).mockImplementation(async (order: any) => {
+      order.lateFees = 400;
+      return 300;
+    });
+    vi.mocked(RentalOrder.findById).mockReturnValue({ select: () => ({ lean: async () => ({ lateFees: 400 }) }) } as any);
+
+    await invoiceReturnedLateFees(line);
+
+    expect(accrueFinalLateFee).toHaveBeenCalledWith(line);
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ kind: 'late_fees', subtotal: 400, taxTotal: 4, total: 404 });
+    expect(settleOrder).toHaveBeenCalledWith(order._id);
+  });
+
+  it('invoices the fee as stored when a job run accrued more meanwhile', async () => {
+    vi.mocked(RentalOrder.findById).mockReturnValue({ select: () => ({ lean: async () => ({ lateFees: 500 }) }) } as any);
+
+    await invoiceReturnedLateFees(returned());
+
+    expect(saved[0]).toMatchObject({ subtotal: 500 });
+  });
+});
+
+describe('invoiceEndUserOrder', () => {
+  const ENDUSER_ID = '64b000000000000000000041';
+  const placed = (status: string) => ({ ...line('64b000000000000000000021', 1000, false), orderId: order._id, endUserId: ENDUSER_ID, status });
+
+  let saved: any[];
+
+  function linesOfOrder(lines: any[]) {
+    vi.mocked(RentalOrder.find).mockImplementation(((filter: any) => (
+      filter.endUserId ? { populate: async () => lines } : { lean: async () => lines }
+    )) as any);
+  }
+
+  beforeEach(() => {
+    saved = [];
+    vi.mocked(Order.findById).mockResolvedValue({ ...order, paymentStatus: 'paid', discount: 0 } as any);
+    vi.spyOn(Invoice, 'find').mockResolvedValue([]);
+    vi.spyOn(Invoice, 'distinct').mockResolvedValue([] as any);
+    vi.spyOn(Invoice.prototype, 'save').mockImplementation(async function (this: any) {
+      saved.push(this);
+      return this;
+    });
+    vi.spyOn(Invoice.prototype, 'updateStatus').mockImplementation(async function (this: any, status: unknown) {
+      this.status = status;
+      return this;
+    });
+  });
+
+  it('posts one invoice for the enduser\'s delivered lines of the order', async () => {
+    linesOfOrder([placed('delivered')]);
+
+    const result = await invoiceEndUserOrder(ENDUSER_ID, order._id);
+
+    expect(result.reason).toBeUndefined();
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ status: 'paid', subtotal: 1000, total: 1180 });
+  });
+
+  it('posts a draft already covering the lines instead of writing another invoice', async () => {
+    const draft = { status: 'draft', updateStatus: vi.fn() };
+    vi.mocked(Invoice.find).mockResolvedValue([draft] as any);
+    vi.mocked(Invoice.distinct).mockResolvedValue(['64b000000000000000000021'] as any);
+    linesOfOrder([placed('returned')]);
+
+    const result = await invoiceEndUserOrder(ENDUSER_ID, order._id);
+
+    expect(result.invoices).toEqual([draft]);
+    expect(draft.updateStatus).toHaveBeenCalledWith('posted');
+    expect(saved).toHaveLength(0);
+  });
+
+  it('says why an order was not invoiced', async () => {
+    linesOfOrder([placed('confirmed')]);
+    expect(await invoiceEndUserOrder(ENDUSER_ID, order._id)).toEqual({ invoices: [], reason: 'Only delivered or returned orders can be invoiced' });
+
+    vi.mocked(Invoice.distinct).mockResolvedValue(['64b000000000000000000021'] as any);
+    linesOfOrder([placed('delivered')]);
+    expect(await invoiceEndUserOrder(ENDUSER_ID, order._id)).toEqual({ invoices: [], reason: 'Already invoiced' });
+
+    linesOfOrder([]);
+    expect(await invoiceEndUserOrder(ENDUSER_ID, order._id)).toEqual({ invoices: [], reason: 'Order not found' });
+    expect(saved).toHaveLength(0);
+  });
+});
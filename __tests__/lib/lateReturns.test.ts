@@ -0,0 +1,86 @@
+/**
+ * Late fees: accrued from the end date under the product's rule, raised only, and brought up to the
+ * return once a late line comes back.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import RentalOrder from '@/models/RentalOrder';
+import { accrueFinalLateFee, accrueLateFee } from '@/lib/lateReturns';
+import type { LateFeeLookup } from '@/models/LateFeePolicy';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/RentalOrder', () => ({ default: { updateOne: vi.fn(), findLate: vi.fn(), find: vi.fn() } }));
+vi.mock('@/models/Booking', () => ({ default: { findLate: vi.fn() } }));
+
+const DAY = 24 * 60 * 60 * 1000;
+const endDate = new Date('2026-11-03T10:00:00Z');
+const daysLate = (days: number) => new Date(endDate.getTime() + days * DAY);
+
+// ₹100 per unit for every started day overdue, no grace
+const perDay: LateFeeLookup = { rule: { gracePeriodHours: 0, basis: 'flat', amount: 100, per: 'day', cap: null }, dailyRate: 500 };
+
+function line(fields: Record<string, any> = {}) {
+  return {
+    _id: 'rental-1',
+    status: 'late',
+    endDate,
+    quantity: 1,
+    lateFees: 0,
+    loadLateFeeRule: vi.fn(async () => perDay),
+    ...fields,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(RentalOrder.updateOne).mockResolvedValue({ modifiedCount: 1 } as any);
+});
+
+describe('accrueLateFee', () => {
+  it('raises the stored fee to what is owed now', async () => {
+    const order = line({ lateFees: 100 });
+
+    expect(await accrueLateFee(order, perDay, daysLate(2.5))).toBe(200);
+    expect(order.lateFees).toBe(300);
+    expect(vi.mocked(RentalOrder.updateOne).mock.calls[0][0]).toMatchObject({ _id: 'rental-1', lateFees: 100 });
+  });
+
+  it('never lowers a fee already accrued', async () => {
+    expect(await accrueLateFee(line({ lateFees: 500 }), perDay, daysLate(1))).toBe(0);
+    expect(RentalOrder.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('records nothing when another run accrued the fee first', async () => {
+    vi.mocked(RentalOrder.updateOne).mockResolvedValue({ modifiedCount: 0 } as any);
+    const order = line();
+
+    expect(await accrueLateFee(order, perDay, daysLate(1))).toBe(0);
+    expect(order.lateFees).toBe(0);
+  });
+});
+
+describe('accrueFinalLateFee', () => {
+  it('charges a returned line up to its return, though the job never marked it late', async () => {
+    const order = line({ status: 'returned', returnDate: daysLate(3.2) });
+
+    expect(await accrueFinalLateFee(order)).toBe(400);
+    expect(order.lateFees).toBe(400);
+    expect(vi.mocked(RentalOrder.updateOne).mock.calls[0][0]).toMatchObject({ status: { $in: expect.arrayContaining(['delivered', 'returned']) } });
+  });
+
+  it('adds the days since the job last ran', async () => {
+    const order = line({ status: 'returned', returnDate: daysLate(4.5), lateFees: 300 });
+
+    expect(await accrueFinalLateFee(order)).toBe(200);
+    expect(order.lateFees).toBe(500);
+  });
+
+  it('charges nothing for a line returned on time', async () => {
+    const order = line({ status: 'returned', returnDate: daysLate(-0.5) });
+
+    expect(await accrueFinalLateFee(order)).toBe(0);
+    expect(order.loadLateFeeRule).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Order notifications: each message is logged and sent once per order and type (overdue reminders
+ * once a day), and a failed send is retried by the reminder job.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Notification from '@/models/Notification';
+import RentalOrder from '@/models/RentalOrder';
+import User from '@/models/User';
+import { getNotificationTransport } from '@/lib/notificationTransport';
+import { renderOrderMessage } from '@/lib/notificationTemplates';
+import { notificationKey, runReminderJob, sendOrderNotification } from '@/lib/notifications';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('@/models/Notification', () => ({ default: { create: vi.fn(), findOneAndUpdate: vi.fn(), distinct: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Product', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/User', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/lib/notificationTransport', () => ({ getNotificationTransport: vi.fn() }));
+
+const transport = { name: 'file', send: vi.fn() };
+const NOW = new Date('2026-11-05T06:00:00Z');
+
+// A delivered line due back later today
+const line = (fields: Record<string, any> = {}) => ({
+  _id: 'rental-1',
+  orderNumber: 'ORD-000001',
+  customerName: 'Asha',
+  customerEmail: 'asha@example.com',
+  customerId: 'customer-1',
+  endUserId: 'owner-1',
+  productId: { _id: 'drill', name: 'Drill' },
+  quantity: 1,
+  startDate: new Date('2026-11-01T04:30:00Z'),
+  endDate: new Date('2026-11-05T12:30:00Z'),
+  totalPrice: 1000,
+  ...fields,
+});
+
+// The log entry as sendOrderNotification writes it
+const logged = (fields: Record<string, any>) => ({ ...fields, set(more: Record<string, any>) { Object.assign(this, more); }, save: vi.fn() });
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getNotificationTransport).mockReturnValue(transport as any);
+  vi.mocked(Notification.create).mockImplementation((async (fields: any) => logged(fields)) as any);
+  transport.send.mockResolvedValue({ messageId: 'msg-1' });
+});
+
+describe('notificationKey', () => {
+  it('keys a message per order and type, and an overdue reminder per day as well', () => {
+    expect(notificationKey('return_due', 'rental-1', NOW)).toBe('return_due:rental-1');
+    expect(notificationKey('overdue', 'rental-1', NOW)).toBe('overdue:rental-1:2026-11-05');
+    // Past midnight in India it is the next day's reminder
+    expect(notificationKey('overdue', 'rental-1', new Date('2026-11-05T19:00:00Z'))).toBe('overdue:rental-1:2026-11-06');
+  });
+});
+
+describe('sendOrderNotification', () => {
+  it('sends the message and logs it as sent', async () => {
+    expect(await sendOrderNotification(line(), 'return_due', NOW)).toBe('sent');
+
+    expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'asha@example.com', subject: 'Return due: Drill' }));
+    const entry = await vi.mocked(Notification.create).mock.results[0].value;
+    expect(entry).toMatchObject({ key: 'return_due:rental-1', transport: 'file', status: 'sent', messageId: 'msg-1' });
+  });
+
+  it('does not send a message that already went out', async () => {
+    vi.mocked(Notification.create).mockRejectedValue(duplicateKey());
+    vi.mocked(Notification.findOneAndUpdate).mockResolvedValue(null);
+
+    expect(await sendOrderNotification(line(), 'return_due', NOW)).toBe('duplicate');
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+
+  it('logs a failed send so a later run can retry it', async () => {
+    transport.send.mockRejectedValueOnce(new Error('SMTP connection refused'));
+
+    expect(await sendOrderNotification(line(), 'return_due', NOW)).toBe('failed');
+    const entry = await vi.mocked(Notification.create).mock.results[0].value;
+    expect(entry).toMatchObject({ status: 'failed', error: 'SMTP connection refused' });
+
+    // The retry takes over the failed entry while it has attempts left
+    vi.mocked(Notification.create).mockRejectedValue(duplicateKey());
+    vi.mocked(Notification.findOneAndUpdate).mockImplementation((async (_filter: any, update: any) => logged(update.$set)) as any);
+
+    expect(await sendOrderNotification(line(), 'return_due', NOW)).toBe('sent');
+    expect(vi.mocked(Notification.findOneAndUpdate).mock.calls[0][0]).toMatchObject({ key: 'return_due:rental-1', status: 'failed' });
+  });
+
+  it('skips a customer without an email address', async () => {
+    vi.mocked(User.findById).mockReturnValue({ select: () => ({ lean: async () => ({}) }) } as any);
+
+    expect(await sendOrderNotification(line({ customerEmail: undefined }), 'return_due', NOW)).toBe('skipped');
+    expect(transport.send).not.toHaveBeenCalled();
+  });
+});
+
+describe('renderOrderMessage', () => {
+  it('escapes customer and product names in the HTML body', () => {
+    const message = renderOrderMessage('overdue', { ...line(), customerName: '<b>Asha</b>', productName: 'Drill & bits', depositAmount: 0, lateFees: 250 });
+
+    expect(message.html).toContain('Hi &lt;b&gt;Asha&lt;/b&gt;,');
+    expect(message.html).toContain('Drill &amp; bits');
+    expect(message.text).toContain('Late fees so far: ₹250.');
+  });
+});
+
+describe('runReminderJob', () => {
+  it('reminds each order in its window once, leaving out messages already sent', async () => {
+    const pickup = line({ _id: 'rental-2', status: 'confirmed' });
+    vi.mocked(RentalOrder.find).mockImplementation(((filter: any) => ({
+      populate: async () => (filter.status === 'delivered' ? [line({ status: 'delivered' })] : filter.startDate ? [pickup] : []),
+    })) as any);
+    vi.mocked(Notification.distinct).mockResolvedValue(['pickup_tomorrow:rental-2'] as any);
+
+    const result = await runReminderJob(NOW);
+
+    expect(result).toMatchObject({ sent: 1, failed: 0, byType: { return_due: 1, pickup_tomorrow: 0 } });
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Order placement: the amount the customer paid must match the total recomputed from current
+ * prices, tax, the coupon, delivery and deposits before anything is written.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Order from '@/models/Order';
+import RentalOrder from '@/models/RentalOrder';
+import Product from '@/models/Product';
+import Coupon from '@/models/Coupon';
+import { priceCartLines } from '@/lib/checkout';
+import { evaluateCoupon } from '@/lib/coupons';
+import { checkAvailability } from '@/lib/availability';
+import { notifyLowAvailability } from '@/lib/inAppNotifications';
+import { notifyOrder } from '@/lib/notifications';
+import { removeOrderedLines } from '@/lib/cart';
+import { placeOrders } from '@/lib/orders';
+import { calculateLineTax, DEFAULT_TAX_RULE } from '@/lib/tax';
+import type { PricedLine } from '@/lib/coupons';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/Order', () => ({ default: { create: vi.fn(), nextOrderNumber: vi.fn(), deleteOne: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { create: vi.fn(), deleteMany: vi.fn() } }));
+vi.mock('@/models/Product', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/Coupon', () => ({ default: { findByCode: vi.fn() } }));
+vi.mock('@/lib/checkout', () => ({ priceCartLines: vi.fn() }));
+vi.mock('@/lib/coupons', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/coupons')>()),
+  evaluateCoupon: vi.fn(),
+  redeemCoupon: vi.fn(),
+}));
+vi.mock('@/lib/availability', () => ({ checkAvailability: vi.fn() }));
+vi.mock('@/lib/deposits', () => ({ collectDeposit: vi.fn() }));
+vi.mock('@/lib/notifications', () => ({ notifyOrder: vi.fn() }));
+vi.mock('@/lib/inAppNotifications', () => ({ notifyNewOrder: vi.fn(), notifyLowAvailability: vi.fn() }));
+vi.mock('@/lib/cart', () => ({ removeOrderedLines: vi.fn() }));
+vi.mock('@/lib/settlements', () => ({ settleOrder: vi.fn() }));
+vi.mock('@/lib/invoices', () => ({ invoiceOrder: vi.fn() }));
+
+// Taxed at the default 1% GST added on top of the line
+function pricedLine(productId: string, endUserId: string, total: number, deposit: number): PricedLine {
+  return {
+    productId,
+    productName: `Product ${productId}`,
+    category: 'tools',
+    endUserId,
+    quantity: 1,
+    startDate: new Date('2026-11-01'),
+    endDate: new Date('2026-11-03'),
+    total,
+    deposit,
+    tax: calculateLineTax(total, DEFAULT_TAX_RULE),
+  };
+}
+
+const items = [
+  { productId: 'drill', quantity: 1, startDate: '2026-11-01', endDate: '2026-11-03', totalPrice: 1000 },
+  { productId: 'ladder', quantity: 1, startDate: '2026-11-01', endDate: '2026-11-03', totalPrice: 500 },
+];
+const buyer = { id: '64b000000000000000000001', name: 'Customer', email: 'customer@example.com' };
+
+// Lines 1500 + tax 15 + deposit 200 + delivery 50
+const FULL_TOTAL = 1765;
+// ₹100 off the drill, whose tax is then charged on 900: lines 1400 + tax 14 + deposit 200 + delivery 50
+const DISCOUNTED_TOTAL = 1664;
+
+// Lets placement run to the end, with lines that behave like stored rental orders
+function placeable() {
+  vi.mocked(Order.create).mockResolvedValue({ _id: 'order-1', orderNumber: 'ORD-000001', set: vi.fn(), save: vi.fn() } as any);
+  let created = 0;
+  vi.mocked(RentalOrder.create).mockImplementation((async ([fields]: any[]) => [{
+    ...fields,
+    _id: `rental-${++created}`,
+    recordBooking: vi.fn(),
+    toObject: () => fields,
+  }]) as any);
+}
+
+// One unit of the product, with the given number free for the line's dates
+const free = (units: number) => ({ available: units >= 1, capacity: 1, reserved: 1 - units, free: units, requested: 1 });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(priceCartLines).mockResolvedValue({
+    lines: [pricedLine('drill', 'owner-1', 1000, 200), pricedLine('ladder', 'owner-2', 500, 0)],
+  });
+  vi.mocked(Order.nextOrderNumber).mockResolvedValue('ORD-000001');
+  // Stops placement right after the checks: a failed header write writes nothing else
+  vi.mocked(Order.create).mockRejectedValue(new Error('stop here'));
+});
+
+describe('placeOrders amount check', () => {
+  it('rejects a payment that does not cover the order and writes nothing', async () => {
+    const result = await placeOrders(items, buyer, { paidAmount: 1600, deliveryCharge: 50 });
+
+    expect(result).toMatchObject({ status: 409, expectedTotal: FULL_TOTAL });
+    expect(result.error).toMatch(/does not match the order total of ₹1765/);
+    expect(Order.create).not.toHaveBeenCalled();
+  });
+
+  it('goes on to place the order when the amount matches', async () => {
+    const result = await placeOrders(items, buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    expect(Order.create).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ error: 'Could not create the order', status: 500 });
+  });
+
+  it('tolerates paise of rounding between the charge and the recomputed total', async () => {
+    await placeOrders(items, buyer, { paidAmount: FULL_TOTAL + 0.01, deliveryCharge: 50 });
+
+    expect(Order.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('expects the coupon discount to have been taken off', async () => {
+    vi.mocked(evaluateCoupon).mockResolvedValue({
+      coupon: { endUserId: 'owner-1', productIds: [], categories: [] },
+      discount: 100,
+      eligibleSubtotal: 1000,
+    });
+
+    const undiscounted = await placeOrders(items, buyer, { couponCode: 'SAVE100', paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+    expect(undiscounted).toMatchObject({ status: 409, expectedTotal: DISCOUNTED_TOTAL });
+
+    await placeOrders(items, buyer, { couponCode: 'SAVE100', paidAmount: DISCOUNTED_TOTAL, deliveryCharge: 50 });
+    expect(Order.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('honours the discount charged at checkout when the coupon stopped applying since', async () => {
+    vi.mocked(evaluateCoupon).mockResolvedValue({ error: 'SAVE100 has expired' });
+    vi.mocked(Coupon.findByCode).mockResolvedValue({ endUserId: 'owner-1', productIds: [], categories: [] } as any);
+
+    await placeOrders(items, buyer, { couponCode: 'SAVE100', couponDiscount: 100, paidAmount: DISCOUNTED_TOTAL, deliveryCharge: 50 });
+
+    expect(Order.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('expects the full total for a coupon that no longer applies and was not charged', async () => {
+    vi.mocked(evaluateCoupon).mockResolvedValue({ error: 'SAVE100 has expired' });
+
+    const result = await placeOrders(items, buyer, { couponCode: 'SAVE100', paidAmount: DISCOUNTED_TOTAL, deliveryCharge: 50 });
+
+    expect(result).toMatchObject({ status: 409, expectedTotal: FULL_TOTAL });
+  });
+
+  it('rejects a line whose submitted price differs from the current price', async () => {
+    const result = await placeOrders([{ ...items[0], totalPrice: 900 }, items[1]], buyer, { paidAmount: FULL_TOTAL });
+
+    expect(result).toMatchObject({ status: 409, expectedTotal: 1000 });
+    expect(Order.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('placeOrders stock check', () => {
+  beforeEach(() => {
+    vi.mocked(Order.create).mockResolvedValue({ _id: 'order-1', orderNumber: 'ORD-000001' } as any);
+    vi.mocked(Product.findById).mockImplementation((async (id: string) => ({ _id: id, name: `Product ${id}`, endUserId: '64b0000000000000000000e1' })) as any);
+    let created = 0;
+    vi.mocked(RentalOrder.create).mockImplementation((async () => [{ _id: `rental-${++created}` }]) as any);
+  });
+
+  it('rolls the whole order back when another placement took the last unit after the check', async () => {
+    // Free when checked, gone once the line is stored: a racing order booked it in between
+    vi.mocked(checkAvailability).mockResolvedValueOnce(free(1)).mockResolvedValueOnce(free(0));
+
+    const result = await placeOrders(items, buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    expect(result).toMatchObject({ error: 'Only 0 unit(s) of Product drill available for the selected dates', status: 409 });
+    expect(vi.mocked(checkAvailability).mock.calls[1][3]).toMatchObject({ excludeId: 'rental-1' });
+    expect(RentalOrder.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['rental-1'] } });
+    expect(Order.deleteOne).toHaveBeenCalledWith({ _id: 'order-1' });
+  });
+
+  it('tells the owner how many units each line leaves free for its dates', async () => {
+    placeable();
+    // Three drills free before the order, one ladder
+    vi.mocked(checkAvailability)
+      .mockResolvedValueOnce({ ...free(1), free: 3 }).mockResolvedValueOnce({ ...free(1), free: 3 })
+      .mockResolvedValueOnce(free(1)).mockResolvedValueOnce(free(1));
+
+    const result = await placeOrders(items, buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    expect(result).toMatchObject({ orderIds: ['rental-1', 'rental-2'] });
+    const calls = vi.mocked(notifyLowAvailability).mock.calls.map(([product, , , before, after]) => [product._id, before, after]);
+    expect(calls).toEqual([['drill', 3, 2], ['ladder', 1, 0]]);
+  });
+
+  it('takes the ordered lines out of the cart by product and dates', async () => {
+    placeable();
+    vi.mocked(checkAvailability).mockResolvedValue(free(1));
+
+    await placeOrders(items, buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    expect(removeOrderedLines).toHaveBeenCalledWith(buyer.id, [
+      { productId: 'drill', fromDate: '2026-11-01', toDate: '2026-11-03' },
+      { productId: 'ladder', fromDate: '2026-11-01', toDate: '2026-11-03' },
+    ]);
+  });
+
+  it('records new lines as not holding units off the shelf', async () => {
+    vi.mocked(checkAvailability).mockResolvedValueOnce(free(1)).mockResolvedValueOnce(free(1)).mockResolvedValueOnce(free(0));
+
+    await placeOrders(items, buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    expect(vi.mocked(RentalOrder.create).mock.calls[0][0]).toEqual([expect.objectContaining({ stockReleased: true })]);
+  });
+});
+
+describe('placeOrders order header', () => {
+  beforeEach(() => {
+    placeable();
+    vi.mocked(Product.findById).mockImplementation((async (id: string) => ({
+      _id: id,
+      name: `Product ${id}`,
+      endUserId: id === 'drill' ? '64b0000000000000000000e1' : '64b0000000000000000000e2',
+    })) as any);
+    vi.mocked(checkAvailability).mockResolvedValue(free(1));
+  });
+
+  it('hangs every line off one order with a shared number and address', async () => {
+    const address = { name: 'Customer', state: 'Karnataka', zipCode: '560001' };
+
+    const result = await placeOrders(items.map((item) => ({ ...item, deliveryAddress: address })), buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    expect(result).toMatchObject({ orderId: 'order-1', orderNumber: 'ORD-000001', orderIds: ['rental-1', 'rental-2'] });
+    expect(Order.create).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(Order.create).mock.calls[0][0]).toMatchObject({ orderNumber: 'ORD-000001', deliveryAddress: { state: 'Karnataka', zipCode: '560001' } });
+    const lines = vi.mocked(RentalOrder.create).mock.calls.map(([[fields]]: any[]) => fields);
+    expect(lines.map((line) => [line.orderId, line.orderNumber])).toEqual([['order-1', 'ORD-000001'], ['order-1', 'ORD-000001']]);
+  });
+
+  it('totals the order over its lines and sends one confirmation for all of them', async () => {
+    await placeOrders(items, buyer, { paidAmount: FULL_TOTAL, deliveryCharge: 50 });
+
+    const header = await vi.mocked(Order.create).mock.results[0].value;
+    expect(header.set).toHaveBeenCalledWith(expect.objectContaining({
+      total: FULL_TOTAL,
+      lineCount: 2,
+      endUserIds: ['64b0000000000000000000e1', '64b0000000000000000000e2'],
+    }));
+    expect(notifyOrder).toHaveBeenCalledTimes(1);
+    expect(notifyOrder).toHaveBeenCalledWith(expect.objectContaining({ _id: 'rental-1' }), 'order_confirmed');
+  });
+});
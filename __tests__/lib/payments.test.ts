@@ -0,0 +1,151 @@
+/**
+ * Razorpay webhook handling: replayed deliveries, failed deliveries retried, and which of the
+ * browser and the webhook places a captured payment's orders.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Payment from '@/models/Payment';
+import CheckoutSession from '@/models/CheckoutSession';
+import User from '@/models/User';
+import Order from '@/models/Order';
+import { placeOrders } from '@/lib/orders';
+import { notifyPaymentReceived } from '@/lib/inAppNotifications';
+import { handleRazorpayEvent } from '@/lib/payments';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/models/Payment', () => ({ default: { findByRazorpayOrder: vi.fn(), findOne: vi.fn(), create: vi.fn() } }));
+vi.mock('@/models/CheckoutSession', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/User', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Order', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Refund', () => ({ default: { updateOne: vi.fn() } }));
+vi.mock('@/models/CreditNote', () => ({ default: { updateOne: vi.fn() } }));
+vi.mock('@/lib/orders', () => ({ placeOrders: vi.fn() }));
+vi.mock('@/lib/settlements', () => ({ settleOrder: vi.fn() }));
+vi.mock('@/lib/invoices', () => ({ invoiceOrder: vi.fn(), markOrderInvoicesPaid: vi.fn() }));
+vi.mock('@/lib/inAppNotifications', () => ({ notifyPaymentReceived: vi.fn() }));
+
+// A query whose .select() resolves to the given documents
+const selecting = (result: any) => ({ select: vi.fn().mockResolvedValue(result) }) as any;
+
+// A payment as the webhook finds it, remembering applied events and refunds like the model does
+function fakePayment(fields: Record<string, any> = {}) {
+  const events = new Set<string>();
+  const refunds = new Set<string>();
+  let placedBy: string | undefined = fields.ordersPlacedBy;
+  return {
+    _id: 'payment-1',
+    razorpayOrderId: 'order_1',
+    status: 'created',
+    amount: 1180,
+    customerId: 'customer-1',
+    customerEmail: 'customer@example.com',
+    checkoutSessionId: 'session-1',
+    rentalOrderIds: [] as string[],
+    ...fields,
+    save: vi.fn(),
+    syncOrderStatus: vi.fn(),
+    recordEvent: vi.fn(async (eventId: string) => !events.has(eventId) && !!events.add(eventId)),
+    forgetEvent: vi.fn(async (eventId: string) => { events.delete(eventId); }),
+    claimOrderPlacement: vi.fn(async (by: string) => !placedBy && !!(placedBy = by)),
+    releaseOrderPlacement: vi.fn(async () => { placedBy = undefined; }),
+    attachOrders: vi.fn(),
+    recordRefund: vi.fn(async (refundId: string) => !refunds.has(refundId) && !!refunds.add(refundId)),
+  };
+}
+
+const captured = {
+  event: 'payment.captured',
+  payload: { payment: { entity: { id: 'pay_1', order_id: 'order_1', amount: 118000, currency: 'INR' } } },
+};
+
+const checkout = {
+  items: [{ id: 'product-1', quantity: 1, fromDate: '2026-11-01', toDate: '2026-11-03', duration: 'day', totalPrice: 1000 }],
+  deliveryAddress: { state: 'Karnataka' },
+  pricing: { deliveryCharge: 0 },
+  save: vi.fn(),
+};
+
+let payment: ReturnType<typeof fakePayment>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  payment = fakePayment();
+  vi.mocked(Payment.findByRazorpayOrder).mockResolvedValue(payment as any);
+  vi.mocked(Payment.findOne).mockResolvedValue(payment as any);
+  vi.mocked(CheckoutSession.findOne).mockResolvedValue(checkout as any);
+  vi.mocked(User.findById).mockReturnValue(selecting({ name: 'Customer' }));
+  vi.mocked(Order.find).mockReturnValue(selecting([]));
+  vi.mocked(placeOrders).mockResolvedValue({ updated: [], orderIds: ['rental-1'], orderNumber: 'ORD-000001' });
+});
+
+describe('handleRazorpayEvent', () => {
+  it('applies a redelivered capture only once', async () => {
+    expect(await handleRazorpayEvent(captured, 'evt_1')).toBe('applied');
+    expect(await handleRazorpayEvent(captured, 'evt_1')).toBe('duplicate');
+
+    expect(payment.save).toHaveBeenCalledTimes(1);
+    expect(notifyPaymentReceived).toHaveBeenCalledTimes(1);
+    expect(placeOrders).toHaveBeenCalledTimes(1);
+    expect(payment.status).toBe('captured');
+  });
+
+  it('applies the retry of a delivery that failed', async () => {
+    vi.mocked(notifyPaymentReceived).mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(handleRazorpayEvent(captured, 'evt_1')).rejects.toThrow('connection reset');
+    expect(payment.forgetEvent).toHaveBeenCalledWith('evt_1');
+
+    expect(await handleRazorpayEvent(captured, 'evt_1')).toBe('applied');
+    expect(placeOrders).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts a refund once even when Razorpay sends it under another event ID', async () => {
+    payment = fakePayment({ status: 'captured', razorpayPaymentId: 'pay_1' });
+    vi.mocked(Payment.findOne).mockResolvedValue(payment as any);
+    const refunded = { event: 'refund.processed', payload: { refund: { entity: { id: 'rfnd_1', payment_id: 'pay_1', amount: 50000 } } } };
+
+    expect(await handleRazorpayEvent(refunded, 'evt_1')).toBe('applied');
+    expect(await handleRazorpayEvent(refunded, 'evt_2')).toBe('duplicate');
+    expect(payment.recordRefund).toHaveBeenCalledWith('rfnd_1', 500);
+    expect(payment.syncOrderStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores events for payments it does not know', async () => {
+    vi.mocked(Payment.findOne).mockResolvedValue(null);
+    const refunded = { event: 'refund.processed', payload: { refund: { entity: { id: 'rfnd_1', payment_id: 'pay_9', amount: 100 } } } };
+
+    expect(await handleRazorpayEvent(refunded, 'evt_1')).toBe('ignored');
+  });
+});
+
+describe('order placement on capture', () => {
+  it('places the orders and links them when the browser never came back', async () => {
+    await handleRazorpayEvent(captured, 'evt_1');
+
+    expect(payment.claimOrderPlacement).toHaveBeenCalledWith('webhook');
+    expect(vi.mocked(placeOrders).mock.calls[0][2]).toMatchObject({ paymentStatus: 'paid', paidAmount: 1180 });
+    expect(payment.attachOrders).toHaveBeenCalledWith(['rental-1']);
+    expect(checkout.save).toHaveBeenCalled();
+  });
+
+  it('leaves the orders to the browser when it claimed them first', async () => {
+    await payment.claimOrderPlacement('browser');
+
+    expect(await handleRazorpayEvent(captured, 'evt_1')).toBe('applied');
+    expect(placeOrders).not.toHaveBeenCalled();
+    expect(payment.attachOrders).not.toHaveBeenCalled();
+  });
+
+  it('gives the claim back when the orders cannot be placed', async () => {
+    vi.mocked(placeOrders).mockResolvedValueOnce({ error: 'Amount paid (₹1180) does not match the order total of ₹1280', status: 409 });
+
+    expect(await handleRazorpayEvent(captured, 'evt_1')).toBe('applied');
+    expect(payment.releaseOrderPlacement).toHaveBeenCalledWith('webhook', expect.stringMatching(/does not match/));
+    expect(payment.attachOrders).not.toHaveBeenCalled();
+    // The browser, coming back later, can still place them
+    expect(await payment.claimOrderPlacement('browser')).toBe(true);
+  });
+});
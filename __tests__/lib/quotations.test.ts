@@ -0,0 +1,42 @@
+/**
+ * Quotation lines: only the enduser's own products, with sane quantities and dates, priced at the
+ * product's best rate unless the enduser quotes a price.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Product from '@/models/Product';
+import { parseQuotationLines } from '@/lib/quotations';
+
+vi.mock('@/models/Product', () => ({ default: { findOne: vi.fn() } }));
+
+const PRODUCT_ID = '64b0000000000000000000c1';
+const drill = { _id: PRODUCT_ID, name: 'Drill', pricePerDay: 500 };
+const line = (fields: Record<string, any> = {}) => ({ productId: PRODUCT_ID, startDate: '2030-01-01T00:00:00Z', endDate: '2030-01-03T00:00:00Z', ...fields });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(Product.findOne).mockResolvedValue(drill as any);
+});
+
+describe('parseQuotationLines', () => {
+  it('prices a line at the product\'s rate when no price is quoted, and keeps a quoted one', async () => {
+    const result = await parseQuotationLines([line({ quantity: 2 }), line({ unitPrice: '750.555' })], 'owner-1');
+
+    expect(result.lines?.[0]).toMatchObject({ productName: 'Drill', quantity: 2, unitPrice: 1000, durationUnit: 'day' });
+    expect(result.lines?.[1]).toMatchObject({ quantity: 1, unitPrice: 750.56 });
+  });
+
+  it('only quotes the enduser\'s own products', async () => {
+    vi.mocked(Product.findOne).mockResolvedValue(null);
+
+    expect(await parseQuotationLines([line()], 'owner-2')).toEqual({ error: 'Line 1: product not found' });
+    expect(Product.findOne).toHaveBeenCalledWith({ _id: PRODUCT_ID, endUserId: 'owner-2' });
+  });
+
+  it('names the line that is wrong', async () => {
+    expect(await parseQuotationLines([], 'owner-1')).toEqual({ error: 'Add at least one product to the quotation' });
+    expect(await parseQuotationLines([line(), line({ quantity: 0 })], 'owner-1')).toEqual({ error: 'Line 2: quantity must be at least 1' });
+    expect(await parseQuotationLines([line({ endDate: '2029-12-31' })], 'owner-1')).toEqual({ error: 'Line 1: end date must be after start date' });
+    expect(await parseQuotationLines([line({ unitPrice: -1 })], 'owner-1')).toEqual({ error: 'Line 1: price cannot be negative' });
+  });
+});
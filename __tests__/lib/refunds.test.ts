@@ -0,0 +1,116 @@
+/**
+ * Cancellation refunds: the held deposit goes back in full whether or not the refund of the rental
+ * price goes through, and retrying a cancellation picks up whichever of the two failed.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Payment from '@/models/Payment';
+import Refund from '@/models/Refund';
+import RefundPolicy from '@/models/RefundPolicy';
+import { getPaymentProvider, PaymentProviderError } from '@/lib/paymentProvider';
+import { settleDeposit } from '@/lib/deposits';
+import { cancelAndRefundOrder } from '@/lib/refunds';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), payment: vi.fn() },
+}));
+vi.mock('@/models/Payment', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/models/Refund', () => ({ default: { findOne: vi.fn(), create: vi.fn(), deleteOne: vi.fn() } }));
+vi.mock('@/models/Order', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/RefundPolicy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/models/RefundPolicy')>()),
+  default: { forEndUser: vi.fn() },
+}));
+vi.mock('@/lib/paymentProvider', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/paymentProvider')>()),
+  getPaymentProvider: vi.fn(),
+}));
+vi.mock('@/lib/deposits', () => ({ settleDeposit: vi.fn() }));
+
+const provider = { name: 'razorpay', refund: vi.fn() };
+
+// A paid line starting in three days with a ₹500 deposit held
+function paidLine(fields: Record<string, any> = {}) {
+  return {
+    _id: 'rental-1',
+    status: 'confirmed',
+    paymentStatus: 'paid',
+    startDate: new Date(Date.now() + 72 * 60 * 60 * 1000),
+    totalPrice: 1000,
+    discount: 0,
+    depositAmount: 500,
+    depositStatus: 'held',
+    endUserId: 'owner-1',
+    customerId: 'customer-1',
+    canTransitionTo: vi.fn(() => true),
+    updateStatus: vi.fn(async function (this: any, status: string) {
+      this.status = status;
+    }),
+    save: vi.fn(),
+    ...fields,
+  };
+}
+
+function failedRefund() {
+  return { _id: 'refund-1', status: 'failed', amount: 1010, orderTotal: 1010, percent: 100, hoursBeforeStart: 72, currency: 'INR', save: vi.fn() };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getPaymentProvider).mockReturnValue(provider as any);
+  vi.mocked(Payment.findOne).mockResolvedValue({ _id: 'payment-1', amount: 1510, amountRefunded: 0, razorpayPaymentId: 'pay_1', recordRefund: vi.fn() } as any);
+  vi.mocked(Refund.findOne).mockResolvedValue(null);
+  vi.mocked(Refund.create).mockImplementation((async (fields: any) => ({ ...fields, _id: 'refund-1', save: vi.fn() })) as any);
+  vi.mocked(RefundPolicy.forEndUser).mockResolvedValue({ tiers: [{ hoursBefore: 24, percent: 100 }] } as any);
+  vi.mocked(settleDeposit).mockImplementation((async (order: any) => {
+    order.depositStatus = 'settled';
+    return { released: order.depositAmount };
+  }) as any);
+});
+
+describe('cancelAndRefundOrder', () => {
+  it('releases the deposit even when the refund of the rental price fails', async () => {
+    provider.refund.mockRejectedValue(new PaymentProviderError('Gateway timeout'));
+    const order = paidLine();
+
+    const result = await cancelAndRefundOrder(order);
+
+    expect(result).toMatchObject({ status: 502 });
+    expect(order.status).toBe('cancelled');
+    expect(settleDeposit).toHaveBeenCalledWith(order, [], expect.objectContaining({ reason: 'Order cancelled' }));
+    expect(order.depositStatus).toBe('settled');
+  });
+
+  it('releases a deposit still held when the refund is retried', async () => {
+    provider.refund.mockResolvedValue({ refundId: 'rfnd_1', status: 'processed' });
+    vi.mocked(Refund.findOne).mockResolvedValue(failedRefund() as any);
+    const order = paidLine({ status: 'cancelled' });
+
+    const result = await cancelAndRefundOrder(order);
+
+    expect(result.error).toBeUndefined();
+    expect(settleDeposit).toHaveBeenCalledTimes(1);
+    expect(provider.refund).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases a deposit still held on an order whose refund already went through', async () => {
+    vi.mocked(Refund.findOne).mockResolvedValue({ ...failedRefund(), status: 'processed' } as any);
+    const order = paidLine({ status: 'cancelled' });
+
+    const result = await cancelAndRefundOrder(order);
+
+    expect(result.error).toBeUndefined();
+    expect(order.depositStatus).toBe('settled');
+    expect(provider.refund).not.toHaveBeenCalled();
+  });
+
+  it('has nothing to retry once the refund and the deposit are both back', async () => {
+    vi.mocked(Refund.findOne).mockResolvedValue({ ...failedRefund(), status: 'processed' } as any);
+
+    const result = await cancelAndRefundOrder(paidLine({ status: 'cancelled', depositStatus: 'settled' }));
+
+    expect(result).toMatchObject({ error: 'Order is already cancelled and refunded', status: 409 });
+    expect(settleDeposit).not.toHaveBeenCalled();
+  });
+});
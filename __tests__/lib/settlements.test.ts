@@ -0,0 +1,208 @@
+/**
+ * Settlements: what each enduser in an order is owed after the coupon discount on their own lines,
+ * their part of any refund and the platform commission.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Order from '@/models/Order';
+import RentalOrder from '@/models/RentalOrder';
+import Refund from '@/models/Refund';
+import Settlement from '@/models/Settlement';
+import Coupon from '@/models/Coupon';
+import Product from '@/models/Product';
+import Invoice from '@/models/Invoice';
+import Payout from '@/models/Payout';
+import { runPayoutJob, settleOrder } from '@/lib/settlements';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+
+// A lean query resolving to the given documents
+const leanQuery = (result: any[]) => ({ select: () => ({ lean: async () => result }) });
+
+vi.mock('@/models/Order', () => ({ default: { findById: vi.fn() } }));
+vi.mock('@/models/RentalOrder', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Refund', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Invoice', () => ({
+  default: { distinct: vi.fn(async () => []), find: vi.fn(() => ({ select: () => ({ lean: async () => [] }) })) },
+}));
+vi.mock('@/models/CreditNote', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/DepositTransaction', () => ({
+  default: { find: vi.fn(() => ({ select: () => ({ lean: async () => [] }) })) },
+}));
+vi.mock('@/models/Payout', () => ({
+  default: { findOne: vi.fn(() => ({ sort: () => ({ select: () => ({ lean: async () => null }) }) })), create: vi.fn(), nextStatementNumber: vi.fn() },
+}));
+vi.mock('@/models/Coupon', () => ({ default: { findByCode: vi.fn() } }));
+vi.mock('@/models/CouponRedemption', () => ({ default: {} }));
+vi.mock('@/models/Product', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Settlement', () => {
+  class FakeSettlement {
+    isNew = true;
+    status?: string;
+    revision?: number;
+    availableAt?: Date;
+    commissionRate = 0;
+    constructor(fields: Record<string, any>) {
+      Object.assign(this, fields);
+    }
+    set(fields: Record<string, any>) {
+      Object.assign(this, fields);
+    }
+    isModified() {
+      return true;
+    }
+    async save() {
+      return this;
+    }
+  }
+  return { default: Object.assign(FakeSettlement, { findOne: vi.fn(), find: vi.fn(), distinct: vi.fn(), updateMany: vi.fn() }) };
+});
+
+const order = { _id: 'order-1', orderNumber: 'ORD-000001', paymentStatus: 'paid', discount: 100, couponCode: 'SAVE100' };
+
+// A delivered line taxed at 1% on top
+const line = (id: string, endUserId: string, totalPrice: number, discount?: number) => ({
+  _id: id,
+  productId: id,
+  endUserId,
+  totalPrice,
+  discount,
+  status: 'delivered',
+  updatedAt: new Date('2026-11-01'),
+  tax: { taxableValue: totalPrice, amount: totalPrice / 100, inclusive: false },
+});
+
+const settlementOf = (written: any[], endUserId: string) => written.find((settlement) => settlement.endUserId === endUserId);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  delete process.env.PLATFORM_COMMISSION_PERCENT;
+  vi.mocked(Order.findById).mockResolvedValue(order as any);
+  vi.mocked(Settlement.findOne).mockResolvedValue(null);
+  vi.mocked(Refund.find).mockReturnValue(leanQuery([]) as any);
+});
+
+describe('settleOrder', () => {
+  it('charges the coupon discount to the coupon owner only', async () => {
+    vi.mocked(RentalOrder.find).mockResolvedValue([line('drill', 'owner-1', 1000, 100), line('ladder', 'owner-2', 500, 0)] as any);
+
+    const written = await settleOrder('order-1');
+
+    expect(settlementOf(written, 'owner-1')).toMatchObject({ gross: 1000, discount: 100, commission: 90, net: 810, status: 'pending' });
+    expect(settlementOf(written, 'owner-2')).toMatchObject({ gross: 500, discount: 0, commission: 50, net: 450 });
+  });
+
+  it('works the discount out from the coupon for orders placed before shares were recorded', async () => {
+    vi.mocked(RentalOrder.find).mockResolvedValue([line('drill', 'owner-1', 1000), line('ladder', 'owner-2', 500)] as any);
+    vi.mocked(Coupon.findByCode).mockResolvedValue({ endUserId: 'owner-1', productIds: [], categories: [] } as any);
+    vi.mocked(Product.find).mockReturnValue(leanQuery([{ _id: 'drill', category: 'tools' }, { _id: 'ladder', category: 'tools' }]) as any);
+
+    const written = await settleOrder('order-1');
+
+    expect(settlementOf(written, 'owner-1')).toMatchObject({ discount: 100, net: 810 });
+    expect(settlementOf(written, 'owner-2')).toMatchObject({ discount: 0, net: 450 });
+  });
+
+  it('takes only the enduser\'s part of a refund, leaving the refunded tax with the platform', async () => {
+    vi.mocked(RentalOrder.find).mockResolvedValue([line('drill', 'owner-1', 1000, 100), line('ladder', 'owner-2', 500, 0)] as any);
+    // Half of what the customer paid for the drill: 1000 - 100 discount + 9 tax on the 900 left
+    vi.mocked(Refund.find).mockImplementation(((filter: any) => leanQuery(
+      filter.rentalOrderId.$in.includes('drill') ? [{ rentalOrderId: 'drill', amount: 454.5, orderTotal: 909 }] : []
+    )) as any);
+
+    const written = await settleOrder('order-1');
+
+    expect(settlementOf(written, 'owner-1')).toMatchObject({ refunded: 450, commission: 45, net: 405 });
+    expect(settlementOf(written, 'owner-2')).toMatchObject({ refunded: 0, net: 450 });
+  });
+
+  it('counts a returned line\'s final late fee at the taxable value it was invoiced at', async () => {
+    // Accrued up to the return: ₹472 with 18% GST inside it, ₹400 taxable
+    const late = { ...line('drill', 'owner-1', 1000, 0), status: 'returned', lateFees: 472, returnDate: new Date('2026-11-05') };
+    vi.mocked(RentalOrder.find).mockResolvedValue([late] as any);
+    vi.mocked(Invoice.find).mockReturnValueOnce(leanQuery([{ rentalOrderIds: ['drill'], subtotal: 400 }]) as any);
+
+    const written = await settleOrder('order-1');
+
+    expect(settlementOf(written, 'owner-1')).toMatchObject({ gross: 1000, lateFees: 400, commission: 140, net: 1260 });
+  });
+
+  it('counts the fee accrued so far while a late line is still out', async () => {
+    vi.mocked(RentalOrder.find).mockResolvedValue([{ ...line('drill', 'owner-1', 1000, 0), status: 'late', lateFees: 300 }] as any);
+
+    const written = await settleOrder('order-1');
+
+    expect(settlementOf(written, 'owner-1')).toMatchObject({ lateFees: 300, status: 'pending' });
+  });
+
+  describe('after the settlement was paid out', () => {
+    // What owner-1 was paid for the drill: 1000 - 100 discount - 10% commission
+    const paidOut = () => ({ orderId: 'order-1', orderNumber: 'ORD-000001', endUserId: 'owner-1', status: 'paid', commissionRate: 10, gross: 1000, lateFees: 0, discount: 100, refunded: 0, credited: 0, commission: 90, depositDeductions: 0, net: 810 });
+    const sorted = (rows: any[]) => ({ sort: async () => rows });
+
+    beforeEach(() => {
+      vi.mocked(RentalOrder.find).mockResolvedValue([{ ...line('drill', 'owner-1', 1000, 100), status: 'returned' }] as any);
+      vi.mocked(Settlement.findOne).mockResolvedValue(paidOut() as any);
+      vi.mocked(Settlement.find).mockReturnValue(sorted([]) as any);
+    });
+
+    it('carries a later refund into the next payout as a negative adjustment', async () => {
+      vi.mocked(Refund.find).mockReturnValue(leanQuery([{ rentalOrderId: 'drill', amount: 454.5, orderTotal: 909 }]) as any);
+
+      const [adjustment] = await settleOrder('order-1');
+
+      expect(adjustment).toMatchObject({ revision: 1, status: 'available', refunded: 450, commission: -45, net: -405, gross: 0, discount: 0 });
+    });
+
+    it('only takes back what earlier adjustments have not', async () => {
+      vi.mocked(Refund.find).mockReturnValue(leanQuery([{ rentalOrderId: 'drill', amount: 909, orderTotal: 909 }]) as any);
+      const earlier = { ...paidOut(), revision: 1, gross: 0, discount: 0, refunded: 450, commission: -45, net: -405 };
+      vi.mocked(Settlement.find).mockReturnValue(sorted([earlier]) as any);
+
+      const [adjustment] = await settleOrder('order-1');
+
+      expect(adjustment).toMatchObject({ revision: 2, refunded: 450, commission: -45, net: -405 });
+    });
+
+    it('writes no adjustment when nothing changed since the payout', async () => {
+      expect(await settleOrder('order-1')).toEqual([]);
+    });
+  });
+
+  it('writes nothing for an order that has not been paid', async () => {
+    vi.mocked(Order.findById).mockResolvedValue({ ...order, paymentStatus: 'pending' } as any);
+
+    expect(await settleOrder('order-1')).toEqual([]);
+    expect(RentalOrder.find).not.toHaveBeenCalled();
+  });
+});
+
+describe('runPayoutJob', () => {
+  beforeEach(() => {
+    // Nothing pending to refresh; owner-1 has settlements available
+    vi.mocked(Settlement.distinct).mockImplementation((async (field: string) => (field === 'endUserId' ? ['owner-1'] : [])) as any);
+    vi.mocked(Payout.create).mockImplementation((async (fields: any) => ({ ...fields, _id: 'payout-1' })) as any);
+  });
+
+  it('takes an adjustment for a refund after payout off the next payout', async () => {
+    vi.mocked(Settlement.find).mockResolvedValue([
+      { _id: 's-2', orderId: 'order-2', net: 900, gross: 1000, commission: 100 },
+      { _id: 's-1', orderId: 'order-1', revision: 1, net: -405, gross: 0, refunded: 450, commission: -45 },
+    ] as any);
+
+    await runPayoutJob(new Date('2026-12-01'));
+
+    expect(Payout.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 495, refunded: 450, commission: 55, orderCount: 2 }));
+    expect(Settlement.updateMany).toHaveBeenCalledWith({ _id: { $in: ['s-2', 's-1'] } }, { $set: { status: 'paid', payoutId: 'payout-1' } });
+  });
+
+  it('holds a balance taken below zero by an adjustment until more is earned', async () => {
+    vi.mocked(Settlement.find).mockResolvedValue([{ _id: 's-1', orderId: 'order-1', revision: 1, net: -405 }] as any);
+
+    await runPayoutJob(new Date('2026-12-01'));
+
+    expect(Payout.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tax on discounted lines: GST is charged on what is left of a line after its share of the coupon
+ * discount, at the rate and place of supply the line was taxed at.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { calculateLineTax, taxAfterDiscount } from '@/lib/tax';
+import { calculateCartTotals } from '@/lib/pricing';
+
+const gst = (rate: number, inclusive: boolean) => ({ label: 'GST', rate, inclusive });
+
+describe('taxAfterDiscount', () => {
+  it('taxes the discounted value of a line priced before tax', () => {
+    const tax = taxAfterDiscount(calculateLineTax(1000, gst(18, false)), 100);
+
+    expect(tax).toMatchObject({ taxableValue: 900, amount: 162, inclusive: false });
+    expect(tax.components).toEqual([
+      { label: 'CGST', rate: 9, taxableValue: 900, amount: 81 },
+      { label: 'SGST', rate: 9, taxableValue: 900, amount: 81 },
+    ]);
+  });
+
+  it('splits the discounted price of a tax-inclusive line into taxable value and tax', () => {
+    const tax = taxAfterDiscount(calculateLineTax(1180, gst(18, true)), 118);
+
+    expect(tax).toMatchObject({ taxableValue: 900, amount: 162, inclusive: true });
+  });
+
+  it('keeps the place of supply and the policy\'s tax label', () => {
+    const tax = taxAfterDiscount(calculateLineTax(1000, { label: 'VAT', rate: 10, inclusive: false }, 'inter_state'), 500);
+
+    expect(tax.components).toEqual([{ label: 'IVAT', rate: 10, taxableValue: 500, amount: 50 }]);
+  });
+
+  it('leaves an undiscounted line as it was', () => {
+    const tax = calculateLineTax(1000, gst(18, false));
+
+    expect(taxAfterDiscount(tax, 0)).toBe(tax);
+  });
+});
+
+describe('calculateCartTotals', () => {
+  it('charges tax on the discounted lines', () => {
+    const lines = [calculateLineTax(1000, gst(18, false)), calculateLineTax(1180, gst(18, true))];
+    const shares = [100, 118];
+
+    const totals = calculateCartTotals([1000, 1180], lines.map((tax, index) => taxAfterDiscount(tax, shares[index])), 218, 50, 200);
+
+    // 900 + 162 tax on top, 1062 with its tax inside, delivery and deposit
+    expect(totals).toMatchObject({ subtotal: 2180, discount: 218, tax: 324, taxIncluded: 162, total: 2374 });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Wishlist alerts: a customer who opted in hears about a lower daily price or a product coming
+ * back in stock once, compared with what they last saw.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Wishlist from '@/models/Wishlist';
+import Product from '@/models/Product';
+import { notifyBackInStock, notifyPriceDrop } from '@/lib/inAppNotifications';
+import { runWishlistAlertJob } from '@/lib/wishlist';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('@/models/Wishlist', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/models/Product', () => ({ default: { find: vi.fn() } }));
+vi.mock('@/lib/inAppNotifications', () => ({ notifyPriceDrop: vi.fn(), notifyBackInStock: vi.fn() }));
+
+const NOW = new Date('2026-11-05T06:00:00Z');
+
+// A saved product as the customer last saw it, moving its baseline on like the model does
+function entry(watchedPrice: number, watchedAvailable: boolean) {
+  return {
+    _id: 'entry-1',
+    productId: 'drill',
+    alerts: true,
+    watchedPrice,
+    watchedAvailable,
+    lastAlertAt: undefined as Date | undefined,
+    watch(product: any) {
+      this.watchedPrice = product.pricePerDay;
+      this.watchedAvailable = product.availability;
+    },
+    save: vi.fn(),
+  };
+}
+
+let entries: ReturnType<typeof entry>[];
+
+function productNow(pricePerDay: number, availability: boolean) {
+  vi.mocked(Product.find).mockReturnValue({ select: async () => [{ _id: 'drill', name: 'Drill', pricePerDay, availability }] } as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  entries = [entry(500, true)];
+  vi.mocked(Wishlist.find).mockImplementation((async () => entries) as any);
+});
+
+describe('runWishlistAlertJob', () => {
+  it('tells the customer about a price drop once', async () => {
+    productNow(400, true);
+
+    expect(await runWishlistAlertJob(NOW)).toEqual({ watched: 1, priceDrops: 1, backInStock: 0 });
+    expect(notifyPriceDrop).toHaveBeenCalledWith(entries[0], expect.objectContaining({ pricePerDay: 400 }), 500);
+    expect(entries[0]).toMatchObject({ watchedPrice: 400, lastAlertAt: NOW });
+
+    await runWishlistAlertJob(NOW);
+    expect(notifyPriceDrop).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells the customer when a sold-out product is back', async () => {
+    entries = [entry(500, false)];
+    productNow(500, true);
+
+    expect(await runWishlistAlertJob(NOW)).toMatchObject({ backInStock: 1 });
+    expect(notifyBackInStock).toHaveBeenCalledWith(entries[0], expect.objectContaining({ availability: true }), NOW);
+    expect(entries[0].watchedAvailable).toBe(true);
+  });
+
+  it('quietly moves the baseline on when the price rises or the product sells out', async () => {
+    productNow(600, false);
+
+    expect(await runWishlistAlertJob(NOW)).toEqual({ watched: 1, priceDrops: 0, backInStock: 0 });
+    expect(entries[0]).toMatchObject({ watchedPrice: 600, watchedAvailable: false, lastAlertAt: undefined });
+    expect(entries[0].save).toHaveBeenCalled();
+
+    // Dropping back to the old price is still a drop from what the customer last saw
+    productNow(500, false);
+    expect(await runWishlistAlertJob(NOW)).toMatchObject({ priceDrops: 1 });
+  });
+
+  it('saves nothing when nothing changed', async () => {
+    productNow(500, true);
+
+    await runWishlistAlertJob(NOW);
+
+    expect(entries[0].save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Booking model: the legacy booking lifecycle is enforced the same way as rental orders'.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Booking from '@/models/Booking';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn(), booking: vi.fn() },
+}));
+
+const booking = (status: string) => Booking.hydrate({ _id: new mongoose.Types.ObjectId(), status, statusHistory: [] });
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(Booking.prototype, 'save').mockImplementation(async function (this: any) { return this; });
+});
+
+describe('updateStatus', () => {
+  it('moves a confirmed booking on and records the change', async () => {
+    const confirmed = booking('confirmed');
+
+    await confirmed.updateStatus('returned', 'Back in the shop', { name: 'Owner' });
+
+    expect(confirmed.statusHistory[0]).toMatchObject({ from: 'confirmed', to: 'returned', changedByName: 'Owner', reason: 'Back in the shop' });
+  });
+
+  it('refuses a return before the booking was confirmed', async () => {
+    await expect(booking('pending').updateStatus('returned')).rejects.toThrow('Cannot move a booking from "pending" to "returned"');
+    expect(Booking.prototype.save).not.toHaveBeenCalled();
+  });
+});
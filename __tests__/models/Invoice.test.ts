@@ -0,0 +1,71 @@
+/**
+ * Invoice model: an invoice takes the next number of its enduser's sequence when posted, hands the
+ * number back when it can't be saved with it, and is final once paid or void.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Invoice from '@/models/Invoice';
+import Counter from '@/models/Counter';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+
+const endUserId = new mongoose.Types.ObjectId();
+
+const invoice = (status: string) => Invoice.hydrate({ _id: new mongoose.Types.ObjectId(), endUserId, status, total: 1180 });
+
+// One enduser's invoice sequence, taken and handed back the way the Counter statics do it
+let seq: number;
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  seq = 0;
+  vi.spyOn(Counter, 'next').mockImplementation(async () => ++seq);
+  vi.spyOn(Counter, 'release').mockImplementation(async (_name: string, released: number) => released === seq && !!seq--);
+  vi.spyOn(Invoice.prototype, 'validate').mockResolvedValue(undefined as any);
+  vi.spyOn(Invoice.prototype, 'save').mockImplementation(async function (this: any) { return this; });
+});
+
+describe('updateStatus', () => {
+  it('numbers invoices in order per enduser when they are posted', async () => {
+    const first = await invoice('draft').updateStatus('posted');
+    const second = await invoice('draft').updateStatus('posted');
+
+    expect([first.invoiceNumber, second.invoiceNumber]).toEqual(['INV/0001', 'INV/0002']);
+    expect(Counter.next).toHaveBeenCalledWith(`invoice:${endUserId}`);
+    expect(first.issuedAt).toBeInstanceOf(Date);
+    expect(first.dueDate!.getTime() - first.issuedAt!.getTime()).toBe(15 * 24 * 60 * 60 * 1000);
+  });
+
+  it('gives the number back when the posted invoice cannot be saved, leaving no gap', async () => {
+    vi.mocked(Invoice.prototype.save).mockRejectedValueOnce(new Error('connection lost'));
+    const failed = invoice('draft');
+
+    await expect(failed.updateStatus('posted')).rejects.toThrow('connection lost');
+    expect(failed.invoiceNumber).toBeUndefined();
+
+    expect((await invoice('draft').updateStatus('posted')).invoiceNumber).toBe('INV/0001');
+  });
+
+  it('takes no number for a draft that does not validate', async () => {
+    vi.mocked(Invoice.prototype.validate).mockRejectedValueOnce(new Error('Buyer email is required'));
+
+    await expect(invoice('draft').updateStatus('posted')).rejects.toThrow('Buyer email is required');
+    expect(Counter.next).not.toHaveBeenCalled();
+  });
+
+  it('keeps paid and void invoices as they are', async () => {
+    await expect(invoice('paid').updateStatus('void')).rejects.toThrow('Cannot move an invoice from "paid" to "void"');
+    await expect(invoice('void').updateStatus('posted')).rejects.toThrow('Cannot move an invoice from "void" to "posted"');
+    expect(Invoice.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('records why a posted invoice was voided', async () => {
+    const voided = await invoice('posted').updateStatus('void', 'Raised against the wrong customer');
+
+    expect(voided).toMatchObject({ status: 'void', voidReason: 'Raised against the wrong customer' });
+    expect(voided.voidedAt).toBeInstanceOf(Date);
+  });
+});
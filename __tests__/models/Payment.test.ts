@@ -0,0 +1,149 @@
+/**
+ * Payment model: the guarded writes behind webhook replay protection and the browser/webhook
+ * placement race. The collection is one stored record that applies each write atomically and
+ * only when its filter matches, the way MongoDB applies a single-document update.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Payment from '@/models/Payment';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+
+const paymentId = new mongoose.Types.ObjectId();
+let stored: Record<string, any>;
+
+function matches(filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = stored[field];
+    if (field === '_id') return String(condition) === String(value);
+    if (condition?.$ne !== undefined) return Array.isArray(value) ? !value.includes(condition.$ne) : value !== condition.$ne;
+    if (condition?.$exists !== undefined) return (value !== undefined) === condition.$exists;
+    if (condition?.$size !== undefined) return (value || []).length === condition.$size;
+    return value === condition;
+  });
+}
+
+function apply(update: Record<string, any>) {
+  for (const [field, value] of Object.entries(update.$set || {})) stored[field] = value;
+  for (const field of Object.keys(update.$unset || {})) delete stored[field];
+  for (const [field, value] of Object.entries(update.$push || {})) stored[field] = [...(stored[field] || []), value];
+  for (const [field, value] of Object.entries(update.$pull || {})) stored[field] = (stored[field] || []).filter((item: any) => item !== value);
+  for (const [field, value] of Object.entries(update.$inc || {})) stored[field] = (stored[field] || 0) + (value as number);
+}
+
+// Each call resolves on a later tick, so two callers really do interleave
+async function write(filter: Record<string, any>, update: Record<string, any>): Promise<boolean> {
+  await Promise.resolve();
+  if (!matches(filter)) return false;
+  apply(update);
+  return true;
+}
+
+// A copy of the payment as one request loaded it
+function loadPayment() {
+  return new Payment({ ...stored });
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  stored = {
+    _id: paymentId,
+    provider: 'razorpay',
+    razorpayOrderId: 'order_1',
+    amount: 1180,
+    currency: 'INR',
+    status: 'captured',
+    rentalOrderIds: [],
+    processedEventIds: [],
+    refundIds: [],
+    amountRefunded: 0,
+  };
+
+  vi.spyOn(Payment, 'updateOne').mockImplementation((async (filter: any, update: any) => ({
+    modifiedCount: (await write(filter, update)) ? 1 : 0,
+  })) as any);
+  vi.spyOn(Payment, 'findOneAndUpdate').mockImplementation((async (filter: any, update: any) => (
+    (await write(filter, update)) ? { ...stored } : null
+  )) as any);
+});
+
+describe('recordEvent', () => {
+  it('applies an event once however often it is delivered', async () => {
+    const payment = loadPayment();
+
+    expect(await payment.recordEvent('evt_1')).toBe(true);
+    expect(await payment.recordEvent('evt_1')).toBe(false);
+    expect(stored.processedEventIds).toEqual(['evt_1']);
+  });
+
+  it('lets only one of two simultaneous deliveries through', async () => {
+    const results = await Promise.all([loadPayment().recordEvent('evt_1'), loadPayment().recordEvent('evt_1')]);
+
+    expect(results.sort()).toEqual([false, true]);
+    expect(stored.processedEventIds).toEqual(['evt_1']);
+  });
+
+  it('accepts the retry of an event that was forgotten after failing', async () => {
+    const payment = loadPayment();
+    await payment.recordEvent('evt_1');
+    await payment.forgetEvent('evt_1');
+
+    expect(await payment.recordEvent('evt_1')).toBe(true);
+  });
+});
+
+describe('claimOrderPlacement', () => {
+  it('gives the orders to whichever of browser and webhook claims first', async () => {
+    const browser = loadPayment();
+    const webhook = loadPayment();
+
+    const [browserClaimed, webhookClaimed] = await Promise.all([
+      browser.claimOrderPlacement('browser'),
+      webhook.claimOrderPlacement('webhook'),
+    ]);
+
+    expect(browserClaimed).toBe(true);
+    expect(webhookClaimed).toBe(false);
+    expect(stored.ordersPlacedBy).toBe('browser');
+  });
+
+  it('lets the other path place the orders once a failed claim is released', async () => {
+    const webhook = loadPayment();
+    await webhook.claimOrderPlacement('webhook');
+    await webhook.releaseOrderPlacement('webhook', 'Only 0 unit(s) of Drill available for the selected dates');
+
+    expect(stored.placementError).toMatch(/Drill/);
+    expect(await loadPayment().claimOrderPlacement('browser')).toBe(true);
+    expect(stored.ordersPlacedBy).toBe('browser');
+  });
+
+  it('keeps the claim once orders are attached', async () => {
+    const browser = loadPayment();
+    await browser.claimOrderPlacement('browser');
+    stored.rentalOrderIds = [new mongoose.Types.ObjectId()];
+
+    await browser.releaseOrderPlacement('browser', 'late failure');
+
+    expect(stored.ordersPlacedBy).toBe('browser');
+    expect(await loadPayment().claimOrderPlacement('webhook')).toBe(false);
+  });
+});
+
+describe('recordRefund', () => {
+  it('counts a refund once and marks a fully refunded payment refunded', async () => {
+    const payment = loadPayment();
+
+    expect(await payment.recordRefund('rfnd_1', 1180)).toBe(true);
+    expect(await payment.recordRefund('rfnd_1', 1180)).toBe(false);
+    expect(stored.amountRefunded).toBe(1180);
+    expect(stored.status).toBe('refunded');
+  });
+
+  it('leaves a partly refunded payment partially_refunded', async () => {
+    expect(await loadPayment().recordRefund('rfnd_1', 180)).toBe(true);
+    expect(stored.status).toBe('partially_refunded');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Product stock changes: one atomic update per change, recorded in the ledger, switching the product
+ * off when it runs out and back on when units come back.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn() },
+}));
+vi.mock('@/lib/inAppNotifications', () => ({ notifyLowStock: vi.fn() }));
+
+const product = (quantityAvailable: number) =>
+  new Product({ _id: new mongoose.Types.ObjectId(), name: 'Drill', endUserId: new mongoose.Types.ObjectId(), quantityAvailable, availability: quantityAvailable > 0 });
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(Product, 'updateOne').mockResolvedValue({} as any);
+  vi.spyOn(StockMovement, 'create').mockResolvedValue({} as any);
+});
+
+describe('adjustStock', () => {
+  it('switches a product that had run out back on when units are returned', async () => {
+    vi.spyOn(Product, 'findOneAndUpdate').mockResolvedValue({ quantityAvailable: 1, availability: false } as any);
+    const drill = product(0);
+
+    await drill.adjustStock(1, { type: 'return', reason: 'Order returned', rentalOrderId: new mongoose.Types.ObjectId().toString() });
+
+    expect(Product.updateOne).toHaveBeenCalledWith({ _id: drill._id, quantityAvailable: { $gt: 0 } }, { $set: { availability: true } });
+    expect(drill).toMatchObject({ quantityAvailable: 1, availability: true });
+    expect(StockMovement.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'return', change: 1, balanceAfter: 1 }));
+  });
+
+  it('switches the product off when the last unit goes', async () => {
+    vi.spyOn(Product, 'findOneAndUpdate').mockResolvedValue({ quantityAvailable: 0, availability: true } as any);
+    const drill = product(1);
+
+    await drill.adjustStock(-1, { type: 'decrease', reason: 'Sold' });
+
+    expect(drill.availability).toBe(false);
+  });
+
+  it('refuses to take stock below zero', async () => {
+    vi.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(product(1).adjustStock(-2, { type: 'decrease', reason: 'Sold' })).rejects.toThrow('Insufficient stock for Drill');
+    expect(StockMovement.create).not.toHaveBeenCalled();
+  });
+});
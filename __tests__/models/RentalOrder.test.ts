@@ -0,0 +1,105 @@
+/**
+ * RentalOrder stock ledger: lines booked by date log the units they book and bring back without touching
+ * the fleet size, while lines placed when checkout took units off the shelf put them back on it.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import RentalOrder from '@/models/RentalOrder';
+import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
+import { StatusTransitionError } from '@/lib/statusTransitions';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn(), booking: vi.fn() },
+}));
+vi.mock('@/lib/inAppNotifications', () => ({ notifyOrderStatus: vi.fn(), notifyLowStock: vi.fn() }));
+
+const productId = new mongoose.Types.ObjectId();
+const actor = { id: '64b000000000000000000001', name: 'Owner' };
+
+// Two units owned, both on the shelf
+const product = () => new Product({ _id: productId, name: 'Drill', endUserId: new mongoose.Types.ObjectId(), quantityAvailable: 2 });
+
+function line(status: string, fields: Record<string, any> = {}) {
+  return RentalOrder.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    productId,
+    status,
+    quantity: 2,
+    startDate: new Date('2030-01-01'),
+    endDate: new Date('2030-01-03'),
+    statusHistory: [],
+    ...fields,
+  });
+}
+
+const movements = () => vi.mocked(StockMovement.create).mock.calls.map(([movement]) => movement as any);
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(RentalOrder.prototype, 'save').mockImplementation(async function (this: any) { return this; });
+  vi.spyOn(Product, 'findById').mockResolvedValue(product() as any);
+  vi.spyOn(StockMovement, 'create').mockResolvedValue({} as any);
+});
+
+describe('updateStatus transitions', () => {
+  it('records who moved the order, when and why', async () => {
+    const order = line('confirmed', { stockReleased: true });
+
+    await order.updateStatus('delivered', 'Picked up at the warehouse', actor);
+
+    expect(order.status).toBe('delivered');
+    expect(order.pickupDate).toBeInstanceOf(Date);
+    expect(order.statusHistory[0]).toMatchObject({ from: 'confirmed', to: 'delivered', changedByName: 'Owner', reason: 'Picked up at the warehouse' });
+    expect(String(order.statusHistory[0].changedBy)).toBe(actor.id);
+  });
+
+  it('refuses to skip the rental, leaving the order as it was', async () => {
+    const order = line('quotation');
+
+    await expect(order.updateStatus('returned')).rejects.toThrow(StatusTransitionError);
+    await expect(line('returned').updateStatus('cancelled')).rejects.toThrow('Cannot move an order from "returned" to "cancelled"');
+    expect(order.status).toBe('quotation');
+    expect(order.statusHistory).toHaveLength(0);
+    expect(RentalOrder.prototype.save).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateStatus stock ledger', () => {
+  it('logs the units a returned line brings back without changing the fleet', async () => {
+    await line('delivered', { stockReleased: true }).updateStatus('returned', 'Returned', actor);
+
+    expect(movements()).toEqual([expect.objectContaining({ type: 'return', quantity: 2, change: 0, balanceAfter: 2, performedByName: 'Owner' })]);
+  });
+
+  it('logs the units a confirmed quotation line books', async () => {
+    await line('quotation', { stockReleased: true }).updateStatus('confirmed', 'Accepted');
+
+    expect(movements()).toEqual([expect.objectContaining({ type: 'reserve', quantity: 2, change: 0 })]);
+  });
+
+  it('puts a legacy line\'s units back on the shelf when it is cancelled', async () => {
+    vi.spyOn(RentalOrder, 'findOneAndUpdate').mockResolvedValue({} as any);
+    vi.spyOn(Product, 'findOneAndUpdate').mockResolvedValue({ quantityAvailable: 4, availability: true } as any);
+
+    await line('confirmed').updateStatus('cancelled', 'Cancelled');
+
+    expect(movements()).toEqual([expect.objectContaining({ type: 'return', quantity: 2, change: 2, balanceAfter: 4 })]);
+  });
+});
+
+describe('releaseStock', () => {
+  it('puts a legacy line\'s units back only once however often it is called', async () => {
+    // The stored line is claimed by the first call; later calls find it already released
+    vi.spyOn(RentalOrder, 'findOneAndUpdate').mockResolvedValueOnce({} as any).mockResolvedValue(null);
+    const restock = vi.spyOn(Product, 'findOneAndUpdate').mockResolvedValue({ quantityAvailable: 4, availability: true } as any);
+    const order = line('returned');
+
+    expect(await order.releaseStock('Returned')).toBe(true);
+    expect(await order.releaseStock('Returned')).toBe(false);
+
+    expect(restock).toHaveBeenCalledTimes(1);
+    expect(order.stockReleased).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Transfer model: the pickup and return lifecycles, and the draft written from a rental order.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Transfer from '@/models/Transfer';
+import Counter from '@/models/Counter';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), http: vi.fn(), debug: vi.fn(), database: vi.fn(), booking: vi.fn() },
+}));
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(Transfer.prototype, 'save').mockImplementation(async function (this: any) { return this; });
+  vi.spyOn(Counter, 'next').mockResolvedValue(7);
+  vi.spyOn(Transfer, 'exists').mockResolvedValue(null);
+});
+
+describe('canTransitionTo', () => {
+  it('goes draft → ready → done for a pickup and draft → waiting → ready → done for a return', () => {
+    expect(new Transfer({ type: 'pickup', status: 'draft' }).canTransitionTo('ready')).toBe(true);
+    expect(new Transfer({ type: 'pickup', status: 'draft' }).canTransitionTo('done')).toBe(false);
+    expect(new Transfer({ type: 'return', status: 'draft' }).canTransitionTo('waiting')).toBe(true);
+    expect(new Transfer({ type: 'return', status: 'draft' }).canTransitionTo('ready')).toBe(false);
+    expect(new Transfer({ type: 'return', status: 'done' }).canTransitionTo('cancelled')).toBe(false);
+  });
+});
+
+describe('createFromOrder', () => {
+  const order = {
+    _id: new mongoose.Types.ObjectId(),
+    endUserId: new mongoose.Types.ObjectId(),
+    customerId: new mongoose.Types.ObjectId(),
+    customerName: 'Customer',
+    productId: { _id: new mongoose.Types.ObjectId(), name: 'Drill' },
+    quantity: 2,
+    totalPrice: 1180,
+    tax: { taxableValue: 1000, amount: 180 },
+    startDate: new Date('2030-01-01'),
+    endDate: new Date('2030-01-03'),
+    deliveryAddress: JSON.stringify({ address: '1 MG Road', city: 'Bengaluru' }),
+  };
+
+  it('drafts a pickup from the warehouse to the customer on the start date', async () => {
+    const transfer = await Transfer.createFromOrder(order, 'pickup');
+
+    expect(transfer).toMatchObject({ reference: 'PICKUP/OUT/0007', status: 'draft', sourceLocation: 'Warehouse', tax: 180 });
+    expect(transfer.scheduleDate).toEqual(order.startDate);
+    expect(transfer.lines[0]).toMatchObject({ productName: 'Drill', quantity: 2, unitPrice: 500, subTotal: 1000 });
+  });
+
+  it('drafts a return back to the warehouse on the end date', async () => {
+    const transfer = await Transfer.createFromOrder(order, 'return', { warehouseLocation: 'Depot 2' });
+
+    expect(transfer).toMatchObject({ reference: 'RETURN/IN/0007', destinationLocation: 'Depot 2' });
+    expect(transfer.scheduleDate).toEqual(order.endDate);
+  });
+});
@@ -7,10 +7,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Booking from '@/models/Booking';
+import Product from '@/models/Product';
 import { authOptions } from '@/lib/auth';
+import { checkAvailability } from '@/lib/availability';
+import { priceRental, PricingError } from '@/lib/pricing';
 import { logger } from '@/lib/logger';
 import { ApiResponse } from '@/types';
 
+// Fields a booking can be edited through; the price is worked out again from the dates, and status has its own path
+const EDITABLE_FIELDS = ['customerName', 'startDate', 'endDate'];
+
 /**
  * GET /api/bookings/[id]
  * Fetch a single booking by ID
@@ -87,7 +93,7 @@ export async function GET(
 
 /**
  * PATCH /api/bookings/[id]
- * Update booking status or details
+ * Update booking status or details. New dates are checked for availability and repriced.
  */
 export async function PATCH(
   request: NextRequest,
@@ -109,6 +115,17 @@ export async function PATCH(
     const body = await request.json();
     const { status, ...otherUpdates } = body;
 
+    // The total is always the server's; anything else outside the editable fields is refused rather than ignored
+    const refused = Object.keys(otherUpdates).filter((field) => !EDITABLE_FIELDS.includes(field));
+    if (refused.length > 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Cannot update ${refused.join(', ')} on a booking`,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
     const booking = await Booking.findById(params.id);
     
     if (!booking) {
@@ -120,29 +137,8 @@ export async function PATCH(
       return NextResponse.json(response, { status: 404 });
     }
 
-    // Authorization checks based on update type
-    if (status) {
-      // Only endusers can update booking status
-      if (session.user.role !== 'enduser') {
-        logger.warn('Unauthorized status update attempt', {
-          user: session.user.email,
-          bookingId: params.id,
-          attemptedStatus: status
-        });
-        
-        const response: ApiResponse = {
-          success: false,
-          error: 'Unauthorized. Only endusers can update booking status.',
-        };
-        
-        return NextResponse.json(response, { status: 403 });
-      }
-
-      // Update status using the model method for proper logging
-      await booking.updateStatus(status, `Updated by ${session.user.email}`);
-    }
-
-    // Handle other updates (customers can update their own bookings if pending)
+    // Handle other updates (customers can update their own bookings if pending); checked before the status
+    // changes so a rejected edit leaves the booking as it was
     if (Object.keys(otherUpdates).length > 0) {
       // Customers can only update their own pending bookings
       if (session.user.role === 'customer') {
@@ -165,8 +161,84 @@ export async function PATCH(
         }
       }
 
-      // Apply other updates
-      Object.assign(booking, otherUpdates);
+      if (otherUpdates.customerName !== undefined) {
+        booking.customerName = otherUpdates.customerName;
+      }
+
+      // New dates must be free for the product and are priced from its current rates
+      if (otherUpdates.startDate !== undefined || otherUpdates.endDate !== undefined) {
+        const start = new Date(otherUpdates.startDate ?? booking.startDate);
+        const end = new Date(otherUpdates.endDate ?? booking.endDate);
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'End date must be after start date',
+          };
+
+          return NextResponse.json(response, { status: 400 });
+        }
+
+        const product = await Product.findById(booking.productId);
+        if (!product) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Product not found',
+          };
+
+          return NextResponse.json(response, { status: 404 });
+        }
+
+        const availability = await checkAvailability(product._id, start, end, { product, excludeId: booking._id.toString() });
+        if (!availability.available) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Product is not available for the selected dates',
+          };
+
+          return NextResponse.json(response, { status: 409 });
+        }
+
+        booking.startDate = start;
+        booking.endDate = end;
+        booking.totalPrice = priceRental(product, start, end).total;
+      }
+    }
+
+    // Authorization checks based on update type
+    if (status) {
+      // Only endusers can update booking status
+      if (session.user.role !== 'enduser') {
+        logger.warn('Unauthorized status update attempt', {
+          user: session.user.email,
+          bookingId: params.id,
+          attemptedStatus: status
+        });
+        
+        const response: ApiResponse = {
+          success: false,
+          error: 'Unauthorized. Only endusers can update booking status.',
+        };
+        
+        return NextResponse.json(response, { status: 403 });
+      }
+
+      if (status !== booking.status && !booking.canTransitionTo(status)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Cannot move a booking from "${booking.status}" to "${status}"`,
+        };
+
+        return NextResponse.json(response, { status: 409 });
+      }
+
+      // Update status using the model method for proper logging and history
+      await booking.updateStatus(status, `Updated by ${session.user.email}`, {
+        id: session.user.id,
+        name: session.user.name,
+      });
+    }
+
+    if (booking.isModified()) {
       await booking.save();
     }
 
@@ -176,7 +248,7 @@ export async function PATCH(
 
     logger.booking('UPDATE', params.id, {
       updatedBy: session.user.email,
-      updates: { status, ...otherUpdates }
+      updates: { status, ...otherUpdates, totalPrice: booking.totalPrice }
     });
 
     const response: ApiResponse = {
@@ -188,6 +260,24 @@ export async function PATCH(
     return NextResponse.json(response);
   } catch (error) {
     logger.error('Error updating booking', { error, bookingId: params.id });
+
+    if (error instanceof PricingError) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
     
     // Handle validation errors
     if (error instanceof Error && error.name === 'ValidationError') {
@@ -256,12 +346,26 @@ export async function DELETE(
       return NextResponse.json(response, { status: 403 });
     }
 
+    if (booking.status !== 'cancelled' && !booking.canTransitionTo('cancelled')) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Cannot cancel a ${booking.status} booking`,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const originalStatus = booking.status;
+
     // Instead of deleting, update status to cancelled for audit trail
-    await booking.updateStatus('cancelled', `Cancelled by ${session.user.email}`);
+    await booking.updateStatus('cancelled', `Cancelled by ${session.user.email}`, {
+      id: session.user.id,
+      name: session.user.name,
+    });
 
     logger.booking('CANCEL', params.id, {
       cancelledBy: session.user.email,
-      originalStatus: booking.status
+      originalStatus
     });
 
     const response: ApiResponse = {
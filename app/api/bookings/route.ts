@@ -7,9 +7,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Booking from '@/models/Booking';
-import RentalOrder from '@/models/RentalOrder';
 import Product from '@/models/Product';
 import { authOptions } from '@/lib/auth';
+import { checkAvailability } from '@/lib/availability';
+import { priceRental, totalsMatch, PricingError } from '@/lib/pricing';
 import { logger } from '@/lib/logger';
 import { ApiResponse } from '@/types';
 
@@ -123,8 +124,8 @@ export async function POST(request: NextRequest) {
       totalPrice,
     } = body;
 
-    // Validate required fields
-    if (!productId || !customerName || !customerEmail || !startDate || !endDate || !totalPrice) {
+    // Validate required fields (the price is computed here; a client total is only checked)
+    if (!productId || !customerName || !customerEmail || !startDate || !endDate) {
       const response: ApiResponse = {
         success: false,
         error: 'Missing required fields',
@@ -177,26 +178,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Check availability for the requested dates
-    const conflictingOrders = await RentalOrder.find({
-      productId,
-      status: { $in: ['confirmed', 'reserved', 'delivered'] },
-      $or: [
-        {
-          startDate: { $lte: start },
-          endDate: { $gt: start },
-        },
-        {
-          startDate: { $lt: end },
-          endDate: { $gte: end },
-        },
-        {
-          startDate: { $gte: start },
-          endDate: { $lte: end },
-        },
-      ],
-    });
+    const availability = await checkAvailability(productId, start, end, { product });
 
-    if (conflictingOrders.length > 0) {
+    if (!availability.available) {
       const response: ApiResponse = {
         success: false,
         error: 'Product is not available for the selected dates',
@@ -205,6 +189,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(response, { status: 409 });
     }
 
+    // Price the booking from the product's rates; never trust the client's figure
+    const pricing = priceRental(product, start, end);
+
+    if (totalPrice !== undefined && totalPrice !== null && !totalsMatch(pricing.total, totalPrice)) {
+      logger.warn('Booking total mismatch', {
+        productId,
+        customer: customerEmail,
+        submitted: totalPrice,
+        expected: pricing.total,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        error: `Price mismatch: this booking costs ₹${pricing.total}`,
+        data: { expectedTotal: pricing.total, breakdown: pricing.breakdown },
+      };
+      
+      return NextResponse.json(response, { status: 409 });
+    }
+
     // Create new booking
     const booking = new Booking({
       productId,
@@ -212,7 +216,7 @@ export async function POST(request: NextRequest) {
       customerEmail,
       startDate: start,
       endDate: end,
-      totalPrice: parseFloat(totalPrice),
+      totalPrice: pricing.total,
       status: 'pending', // Default status
     });
 
@@ -226,7 +230,7 @@ export async function POST(request: NextRequest) {
       customer: customerEmail,
       startDate: start.toISOString(),
       endDate: end.toISOString(),
-      totalPrice,
+      totalPrice: pricing.total,
     });
 
     const response: ApiResponse = {
@@ -240,7 +244,7 @@ export async function POST(request: NextRequest) {
     logger.error('Error creating booking', { error });
     
     // Handle validation errors
-    if (error instanceof Error && error.name === 'ValidationError') {
+    if (error instanceof PricingError || (error instanceof Error && error.name === 'ValidationError')) {
       const response: ApiResponse = {
         success: false,
         error: error.message,
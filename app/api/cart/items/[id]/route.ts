@@ -0,0 +1,134 @@
+/**
+ * Cart Line API Route Handler
+ * Change or remove one line of the logged-in customer's cart
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Cart from '@/models/Cart';
+import { authOptions } from '@/lib/auth';
+import { readCartLine, viewCart } from '@/lib/cart';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * PATCH /api/cart/items/[id]
+ * Body: { quantity?, fromDate?, toDate?, duration? }; fields left out keep their value
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const cart = await Cart.findOne({ customerId: session.user.id });
+    const item = cart?.items.id(params.id);
+    if (!cart || !item) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Cart item not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const line = readCartLine({
+      productId: item.productId.toString(),
+      quantity: body?.quantity ?? item.quantity,
+      fromDate: body?.fromDate ?? item.fromDate,
+      toDate: body?.toDate ?? item.toDate,
+      duration: body?.duration ?? item.duration,
+    });
+    if (typeof line === 'string') {
+      const response: ApiResponse = {
+        success: false,
+        error: line,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    item.set({ quantity: line.quantity, fromDate: line.fromDate, toDate: line.toDate, duration: line.duration });
+    await cart.save();
+
+    logger.http('PATCH /api/cart/items', { user: session.user.email, itemId: params.id, quantity: line.quantity });
+
+    const response: ApiResponse = {
+      success: true,
+      data: await viewCart(cart),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('cart item update error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to update cart',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/cart/items/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const cart = await Cart.findOne({ customerId: session.user.id });
+    const item = cart?.items.id(params.id);
+    if (!cart || !item) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Cart item not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    item.deleteOne();
+    await cart.save();
+
+    logger.http('DELETE /api/cart/items', { user: session.user.email, itemId: params.id });
+
+    const response: ApiResponse = {
+      success: true,
+      data: await viewCart(cart),
+      message: 'Item removed from cart',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('cart item delete error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to remove item',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
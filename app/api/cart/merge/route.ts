@@ -0,0 +1,58 @@
+/**
+ * Cart Merge API Route Handler
+ * Moves the cart a customer built in the browser before logging in into their account cart
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { mergeGuestCart, viewCart } from '@/lib/cart';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+// A browser cart bigger than this is not a real cart
+const MAX_GUEST_LINES = 50;
+
+/**
+ * POST /api/cart/merge
+ * Body: { items: [{ productId, quantity, fromDate, toDate, duration }] } as kept in localStorage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const body = await request.json().catch(() => ({}));
+    const items: any[] = Array.isArray(body?.items) ? body.items.slice(0, MAX_GUEST_LINES) : [];
+
+    const { cart, merged, skipped } = await mergeGuestCart(session.user.id, items);
+
+    logger.http('POST /api/cart/merge', { user: session.user.email, merged, skipped });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { ...(await viewCart(cart)), merged, skipped },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('cart merge error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to merge cart',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Cart API Route Handler
+ * The logged-in customer's cart, kept on the server so it is the same on every device
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Cart from '@/models/Cart';
+import Product from '@/models/Product';
+import { authOptions } from '@/lib/auth';
+import { readCartLine, viewCart, cartItemCount } from '@/lib/cart';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/cart
+ * Every line re-priced and re-checked for availability; `summary=true` returns only the item count
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('summary') === 'true') {
+      const cart = await Cart.findOne({ customerId: session.user.id }).select('items.quantity').lean();
+
+      const response: ApiResponse = {
+        success: true,
+        data: { itemCount: cartItemCount(cart) },
+      };
+
+      return NextResponse.json(response);
+    }
+
+    const cart = await Cart.forCustomer(session.user.id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: await viewCart(cart),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('cart error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load cart',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cart
+ * Add a line: { productId, quantity, fromDate, toDate, duration }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const line = readCartLine(await request.json().catch(() => ({})));
+    if (typeof line === 'string') {
+      const response: ApiResponse = {
+        success: false,
+        error: line,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const product = await Product.findById(line.productId).select('_id').lean();
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const cart = await Cart.forCustomer(session.user.id);
+    cart.addLine(line);
+    await cart.save();
+
+    logger.http('POST /api/cart', { user: session.user.email, productId: line.productId, quantity: line.quantity });
+
+    const response: ApiResponse = {
+      success: true,
+      data: await viewCart(cart),
+      message: 'Added to cart',
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    logger.error('cart add error', { error: (error as any)?.message });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to add to cart',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/cart
+ * Empty the cart
+ */
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    await Cart.updateOne({ customerId: session.user.id }, { $set: { items: [] } });
+
+    logger.http('DELETE /api/cart', { user: session.user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { items: [], itemCount: 0, hasIssues: false },
+      message: 'Cart cleared',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('cart clear error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to clear cart',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Checkout Delivery Options API
+ * Tells the customer how the items in their checkout session can reach an address: store pickup,
+ * and delivery with its charge, or why either isn't available there
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import CheckoutSession from '@/models/CheckoutSession';
+import { deliveryOptions, priceCartLines } from '@/lib/checkout';
+import { logger } from '@/lib/logger';
+
+// POST: Delivery options for an address ({ sessionId, deliveryAddress })
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const body = await request.json();
+    const { sessionId, deliveryAddress } = body;
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+    }
+
+    const checkoutSession = await CheckoutSession.findOne({
+      sessionId,
+      userId: session.user.id,
+      status: 'active'
+    });
+
+    if (!checkoutSession) {
+      return NextResponse.json({ error: 'Checkout session not found or expired' }, { status: 404 });
+    }
+
+    const priced = await priceCartLines(checkoutSession.items.map((item: any) => item.toObject()));
+    if (priced.error !== undefined) {
+      return NextResponse.json({ error: priced.error }, { status: priced.status });
+    }
+
+    const options = await deliveryOptions(priced.lines, {
+      ...(deliveryAddress || {}),
+      zipCode: deliveryAddress?.zipCode || deliveryAddress?.pincode,
+    });
+
+    logger.http('POST /api/checkout/delivery', { user: session.user.email, options: options.map((option) => `${option.method}:${option.available}`) });
+    return NextResponse.json({ success: true, data: { options } });
+
+  } catch (error) {
+    logger.error('checkout delivery options error', { error });
+    return NextResponse.json({ error: 'Failed to load delivery options' }, { status: 500 });
+  }
+}
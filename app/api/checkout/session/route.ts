@@ -7,6 +7,9 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import dbConnect from '@/lib/mongodb';
 import CheckoutSession from '@/models/CheckoutSession';
+import { priceCart } from '@/lib/checkout';
+import { totalsMatch } from '@/lib/pricing';
+import { DELIVERY_METHODS } from '@/lib/delivery';
 import { v4 as uuidv4 } from 'uuid';
 
 // POST: Create or update checkout session
@@ -32,6 +35,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid pricing data' }, { status: 400 });
     }
 
+    // Recompute every line, the coupon and the order totals; the stored session becomes the price of record.
+    // Delivery is charged once the customer gives an address and picks a delivery method.
+    const priced = await priceCart(items, {
+      couponCode: couponCode || undefined,
+      customerId: session.user.id,
+    });
+    if (priced.error !== undefined) {
+      return NextResponse.json({ error: priced.error }, { status: priced.status });
+    }
+
+    const pricedItems = items.map((item: any, index: number) => {
+      const line = priced.lines[index];
+      return { ...item, id: line.productId, name: line.productName, totalPrice: line.total, deposit: line.deposit, endUserId: line.endUserId };
+    });
+
+    const mismatch = pricedItems.find((item: any, index: number) => !totalsMatch(priced.lines[index].total, items[index].totalPrice));
+    if (mismatch) {
+      return NextResponse.json({
+        error: `Price mismatch for ${mismatch.name}: expected ₹${mismatch.totalPrice}`,
+        expectedTotal: mismatch.totalPrice,
+      }, { status: 409 });
+    }
+
+    const serverPricing = priced.totals;
+    if (!totalsMatch(serverPricing.total, pricing.total)) {
+      return NextResponse.json({
+        error: `Price mismatch: order total is ₹${serverPricing.total}`,
+        pricing: serverPricing,
+      }, { status: 409 });
+    }
+
     // Generate session ID
     const sessionId = uuidv4();
 
@@ -39,9 +73,9 @@ export async function POST(request: NextRequest) {
     const checkoutSession = new CheckoutSession({
       sessionId,
       userId: session.user.id,
-      items,
-      pricing,
-      couponCode: couponCode || '',
+      items: pricedItems,
+      pricing: serverPricing,
+      couponCode: priced.coupon ? priced.coupon.code : '',
       status: 'active'
     });
 
@@ -98,7 +132,8 @@ export async function GET(request: NextRequest) {
         pricing: checkoutSession.pricing,
         couponCode: checkoutSession.couponCode,
         deliveryAddress: checkoutSession.deliveryAddress,
-        billingAddress: checkoutSession.billingAddress
+        billingAddress: checkoutSession.billingAddress,
+        deliveryMethod: checkoutSession.deliveryMethod
       }
     });
 
@@ -123,32 +158,55 @@ export async function PUT(request: NextRequest) {
     await dbConnect();
     
     const body = await request.json();
-    const { sessionId, deliveryAddress, billingAddress } = body;
+    const { sessionId, billingAddress, deliveryMethod } = body;
+    // The delivery form calls it pincode; orders store it as zipCode
+    const deliveryAddress = body.deliveryAddress
+      ? { ...body.deliveryAddress, zipCode: body.deliveryAddress.zipCode || body.deliveryAddress.pincode }
+      : undefined;
 
     if (!sessionId) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
 
-    // Update checkout session
-    const checkoutSession = await CheckoutSession.findOneAndUpdate(
-      {
-        sessionId,
-        userId: session.user.id,
-        status: 'active'
-      },
-      {
-        ...(deliveryAddress && { deliveryAddress }),
-        ...(billingAddress && { billingAddress })
-      },
-      { new: true }
-    );
+    if (deliveryMethod !== undefined && !DELIVERY_METHODS.includes(deliveryMethod)) {
+      return NextResponse.json({ error: 'Delivery method must be pickup or delivery' }, { status: 400 });
+    }
+
+    const checkoutSession = await CheckoutSession.findOne({
+      sessionId,
+      userId: session.user.id,
+      status: 'active'
+    });
 
     if (!checkoutSession) {
       return NextResponse.json({ error: 'Checkout session not found or expired' }, { status: 404 });
     }
 
+    if (deliveryAddress) checkoutSession.deliveryAddress = deliveryAddress;
+    if (billingAddress) checkoutSession.billingAddress = billingAddress;
+    if (deliveryMethod) checkoutSession.deliveryMethod = deliveryMethod;
+
+    // The delivery state decides CGST + SGST or IGST and the address decides the delivery charge,
+    // so the stored lines are priced again; an address the endusers don't deliver to is refused
+    if (deliveryAddress || deliveryMethod) {
+      const address = checkoutSession.deliveryAddress?.toObject?.() || checkoutSession.deliveryAddress || {};
+      const priced = await priceCart(checkoutSession.items.map((item: any) => item.toObject()), {
+        couponCode: checkoutSession.couponCode || undefined,
+        customerId: session.user.id,
+        deliveryState: address.state,
+        delivery: checkoutSession.deliveryMethod ? { method: checkoutSession.deliveryMethod, address } : undefined,
+      });
+      if (priced.error !== undefined) {
+        return NextResponse.json({ error: priced.error }, { status: priced.status });
+      }
+      checkoutSession.pricing = priced.totals;
+    }
+
+    await checkoutSession.save();
+
     return NextResponse.json({ 
       success: true,
+      data: { pricing: checkoutSession.pricing },
       message: 'Checkout session updated successfully'
     });
 
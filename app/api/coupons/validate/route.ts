@@ -0,0 +1,97 @@
+/**
+ * Coupon Validation API
+ * Checks a coupon code against the cart and returns the discount it gives
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import { priceCart } from '@/lib/checkout';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * POST /api/coupons/validate
+ * Body: { code, items: [{ id | productId, quantity, fromDate, toDate }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Authentication required',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const body = await request.json();
+    const code = typeof body?.code === 'string' ? body.code.trim() : '';
+    const items = Array.isArray(body?.items) ? body.items : [];
+
+    if (!code) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Please enter a coupon code',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (items.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Your cart is empty',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const priced = await priceCart(items, { couponCode: code, customerId: session.user.id });
+    if (priced.error !== undefined) {
+      logger.http('POST /api/coupons/validate rejected', { user: session.user.email, code, error: priced.error });
+
+      const response: ApiResponse = {
+        success: false,
+        error: priced.error,
+      };
+
+      return NextResponse.json(response, { status: priced.status });
+    }
+
+    logger.http('POST /api/coupons/validate', {
+      user: session.user.email,
+      code: priced.coupon.code,
+      discount: priced.totals.discount,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        code: priced.coupon.code,
+        description: priced.coupon.description,
+        discountType: priced.coupon.discountType,
+        discountValue: priced.coupon.discountValue,
+        discount: priced.totals.discount,
+        lineDiscounts: priced.lineDiscounts,
+        pricing: priced.totals,
+      },
+      message: `Coupon applied: ₹${priced.totals.discount} off`,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error validating coupon', { error });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to validate coupon',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Credit Note PDF API Route Handler
+ * Renders a stored credit note as a PDF on the server, alongside the invoice it adjusts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import CreditNote from '@/models/CreditNote';
+import { authOptions } from '@/lib/auth';
+import { invoiceOwnerFilter } from '@/lib/invoices';
+import { creditNoteFileName, renderCreditNotePdf } from '@/lib/invoicePdf';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+// jsPDF needs the Node runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/credit-notes/[id]/pdf
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const creditNote: any = mongoose.Types.ObjectId.isValid(params.id)
+      ? await CreditNote.findOne({ _id: params.id, ...invoiceOwnerFilter(session.user) }).lean()
+      : null;
+
+    if (!creditNote) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Credit note not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const pdf = renderCreditNotePdf(creditNote);
+
+    logger.http('GET /api/credit-notes/[id]/pdf', { creditNote: creditNote.creditNoteNumber, user: session.user.email });
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${creditNoteFileName(creditNote)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('Error rendering credit note PDF', { error: (error as any)?.message, creditNoteId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to render credit note',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Credit Notes API Route Handler
+ * Credit notes of the logged-in user: issued to them as a customer, or by them as an enduser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import CreditNote from '@/models/CreditNote';
+import { authOptions } from '@/lib/auth';
+import { invoiceOwnerFilter } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/credit-notes
+ * Newest credit notes first; `invoiceId` or `orderNumber` narrows the list
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+    const filter: any = invoiceOwnerFilter(session.user);
+    const invoiceId = searchParams.get('invoiceId');
+    if (invoiceId) {
+      if (!mongoose.Types.ObjectId.isValid(invoiceId)) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid invoice ID',
+        };
+
+        return NextResponse.json(response, { status: 400 });
+      }
+      filter.invoiceId = invoiceId;
+    }
+    if (searchParams.get('orderNumber')) filter.orderNumber = searchParams.get('orderNumber');
+
+    const [creditNotes, total] = await Promise.all([
+      CreditNote.find(filter).sort({ issuedAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      CreditNote.countDocuments(filter),
+    ]);
+
+    logger.http('GET /api/credit-notes', { user: session.user.email, count: creditNotes.length });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        creditNotes,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('credit notes error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load credit notes',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
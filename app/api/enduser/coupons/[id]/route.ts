@@ -0,0 +1,117 @@
+/**
+ * Single Coupon API
+ * Read, edit and delete a coupon owned by the logged-in enduser.
+ * Redeemed coupons are kept for reporting; deactivate them instead of deleting.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Coupon from '@/models/Coupon';
+import CouponRedemption from '@/models/CouponRedemption';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { pickCouponFields } from '@/lib/coupons';
+import { logger } from '@/lib/logger';
+
+async function findOwnedCoupon(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Coupon.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const coupon = await findOwnedCoupon(params.id, session.user.id);
+    if (!coupon) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+    await coupon.populate('productIds', 'name');
+
+    const redemptions = await CouponRedemption.find({ couponId: coupon._id })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .select('customerEmail discount orderTotal createdAt');
+
+    logger.http('GET /api/enduser/coupons/[id]', { user: session.user.email, couponId: params.id });
+    return NextResponse.json({ success: true, data: { coupon, redemptions } });
+  } catch (error) {
+    logger.error('enduser coupon fetch error', { error, couponId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load coupon' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const coupon = await findOwnedCoupon(params.id, session.user.id);
+    if (!coupon) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const picked = await pickCouponFields(body, session.user.id);
+    if (picked.error !== undefined) {
+      return NextResponse.json({ success: false, error: picked.error }, { status: 400 });
+    }
+
+    // Customers already hold the code, so it can't be renamed once used
+    if (picked.fields.code !== undefined && coupon.usedCount > 0 && String(picked.fields.code).toUpperCase() !== coupon.code) {
+      return NextResponse.json({ success: false, error: 'Cannot rename a coupon that has been redeemed' }, { status: 409 });
+    }
+
+    for (const [key, value] of Object.entries(picked.fields)) {
+      coupon.set(key, value);
+    }
+    await coupon.save();
+
+    logger.http('PATCH /api/enduser/coupons/[id]', { user: session.user.email, couponId: params.id, fields: Object.keys(picked.fields) });
+    return NextResponse.json({ success: true, data: coupon, message: 'Coupon updated successfully' });
+  } catch (error) {
+    logger.error('enduser coupon update error', { error, couponId: params.id });
+
+    if ((error as any)?.code === 11000) {
+      return NextResponse.json({ success: false, error: 'A coupon with this code already exists' }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update coupon' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const coupon = await findOwnedCoupon(params.id, session.user.id);
+    if (!coupon) {
+      return NextResponse.json({ success: false, error: 'Coupon not found' }, { status: 404 });
+    }
+    if (coupon.usedCount > 0) {
+      return NextResponse.json({ success: false, error: 'Coupon has been redeemed; deactivate it instead' }, { status: 409 });
+    }
+
+    await coupon.deleteOne();
+
+    logger.http('DELETE /api/enduser/coupons/[id]', { user: session.user.email, couponId: params.id, code: coupon.code });
+    return NextResponse.json({ success: true, message: 'Coupon deleted successfully' });
+  } catch (error) {
+    logger.error('enduser coupon delete error', { error, couponId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to delete coupon' }, { status: 500 });
+  }
+}
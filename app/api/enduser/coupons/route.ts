@@ -0,0 +1,94 @@
+/**
+ * Enduser Coupons API
+ * Lists the enduser's promotion codes and creates new ones
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Coupon from '@/models/Coupon';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { pickCouponFields } from '@/lib/coupons';
+import { logger } from '@/lib/logger';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const q = (searchParams.get('q') || '').trim();
+    const active = searchParams.get('active');
+
+    const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
+    if (q) filter.code = { $regex: q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    if (active === 'true' || active === 'false') filter.isActive = active === 'true';
+
+    const skip = (page - 1) * limit;
+    const [coupons, totalCount] = await Promise.all([
+      Coupon.find(filter)
+        .populate('productIds', 'name')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Coupon.countDocuments(filter),
+    ]);
+
+    logger.http('GET /api/enduser/coupons', { user: session.user.email, count: coupons.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        coupons,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('enduser coupons error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load coupons' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    const picked = await pickCouponFields(body, session.user.id);
+    if (picked.error !== undefined) {
+      return NextResponse.json({ success: false, error: picked.error }, { status: 400 });
+    }
+
+    const coupon = await Coupon.create({
+      ...picked.fields,
+      endUserId: new mongoose.Types.ObjectId(session.user.id),
+      usedCount: 0,
+    });
+
+    logger.http('POST /api/enduser/coupons', { user: session.user.email, code: coupon.code });
+    return NextResponse.json({ success: true, data: coupon, message: 'Coupon created successfully' }, { status: 201 });
+  } catch (error) {
+    logger.error('enduser coupon create error', { error });
+
+    if ((error as any)?.code === 11000) {
+      return NextResponse.json({ success: false, error: 'A coupon with this code already exists' }, { status: 409 });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to create coupon' }, { status: 500 });
+  }
+}
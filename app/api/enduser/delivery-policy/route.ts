@@ -0,0 +1,103 @@
+/**
+ * Enduser Delivery Policy API
+ * Reads and replaces the pickup and delivery options, charges and serviceable pincodes of the
+ * logged-in enduser
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import DeliveryPolicy from '@/models/DeliveryPolicy';
+import { DEFAULT_DELIVERY_POLICY, normalizePincode } from '@/lib/delivery';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+// Pincodes arrive as a list or as one comma/newline separated string
+function readPincodes(source: any): string[] {
+  const values = Array.isArray(source) ? source : String(source || '').split(/[\s,]+/);
+  return Array.from(new Set(values.map((value: any) => normalizePincode(value)).filter(Boolean)));
+}
+
+// A blank amount is left unset
+function readAmount(value: any): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+async function loadPolicy(endUserId: string) {
+  const policy = await DeliveryPolicy.findOne({ endUserId }).lean();
+  return policy || { ...DEFAULT_DELIVERY_POLICY, pickupAddress: '', serviceablePincodes: [], zones: [], distanceBands: [] };
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const policy = await loadPolicy(session.user.id);
+
+    logger.http('GET /api/enduser/delivery-policy', { user: session.user.email });
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    logger.error('enduser delivery policy error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load delivery policy' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    if (body?.zones !== undefined && !Array.isArray(body.zones)) {
+      return NextResponse.json({ success: false, error: 'zones must be a list' }, { status: 400 });
+    }
+    if (body?.distanceBands !== undefined && !Array.isArray(body.distanceBands)) {
+      return NextResponse.json({ success: false, error: 'distanceBands must be a list' }, { status: 400 });
+    }
+
+    const zones = (body.zones || []).map((zone: any) => ({
+      name: zone?.name,
+      pincodes: readPincodes(zone?.pincodes),
+      charge: readAmount(zone?.charge),
+    }));
+    const distanceBands = (body.distanceBands || []).map((band: any) => ({
+      upToKm: readAmount(band?.upToKm),
+      charge: readAmount(band?.charge),
+    }));
+    const latitude = readAmount(body?.origin?.latitude);
+    const longitude = readAmount(body?.origin?.longitude);
+
+    const policy = (await DeliveryPolicy.findOne({ endUserId: session.user.id })) || new DeliveryPolicy({ endUserId: session.user.id });
+    policy.set({
+      ...DEFAULT_DELIVERY_POLICY,
+      pickupEnabled: typeof body?.pickupEnabled === 'boolean' ? body.pickupEnabled : DEFAULT_DELIVERY_POLICY.pickupEnabled,
+      pickupAddress: typeof body?.pickupAddress === 'string' && body.pickupAddress.trim() ? body.pickupAddress : undefined,
+      deliveryEnabled: typeof body?.deliveryEnabled === 'boolean' ? body.deliveryEnabled : DEFAULT_DELIVERY_POLICY.deliveryEnabled,
+      chargeType: body?.chargeType || DEFAULT_DELIVERY_POLICY.chargeType,
+      flatCharge: readAmount(body?.flatCharge) ?? DEFAULT_DELIVERY_POLICY.flatCharge,
+      freeAbove: readAmount(body?.freeAbove),
+      serviceablePincodes: readPincodes(body?.serviceablePincodes),
+      zones,
+      origin: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+      distanceBands,
+    });
+    await policy.save();
+
+    logger.http('PUT /api/enduser/delivery-policy', { user: session.user.email, chargeType: policy.chargeType, zones: zones.length });
+    return NextResponse.json({ success: true, data: await loadPolicy(session.user.id), message: 'Delivery policy saved' });
+  } catch (error) {
+    logger.error('enduser delivery policy update error', { error });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to save delivery policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Invoice Credit Notes API
+ * Issues a credit note against one of the logged-in enduser's posted invoices: damage waived,
+ * early return, price match or another adjustment. The invoice itself stays as it was issued;
+ * a paid invoice's credit is refunded to the customer.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { issueCreditNote } from '@/lib/creditNotes';
+import { logger } from '@/lib/logger';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    const invoice = await Invoice.findOne({ _id: params.id, endUserId: new mongoose.Types.ObjectId(session.user.id) });
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const { amount, reason, note, rentalOrderId } = await req.json();
+    const result = await issueCreditNote(invoice, {
+      amount,
+      reason,
+      note: note?.trim() || undefined,
+      rentalOrderId,
+      actor: { id: session.user.id, name: session.user.name },
+    });
+    if (result.error !== undefined) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    logger.http('POST /api/enduser/invoices/[id]/credit-notes', {
+      user: session.user.email,
+      invoice: invoice.invoiceNumber,
+      creditNote: result.creditNote.creditNoteNumber,
+    });
+    return NextResponse.json({
+      success: true,
+      data: { creditNote: result.creditNote, invoice: result.invoice },
+      message: result.creditNote.refund
+        ? `Credit note ${result.creditNote.creditNoteNumber} issued and ₹${result.creditNote.refund.amount} refunded`
+        : `Credit note ${result.creditNote.creditNoteNumber} issued`,
+    }, { status: 201 });
+  } catch (error) {
+    logger.error('enduser credit note error', { error, invoiceId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to issue credit note' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Invoice Status API
+ * Posts a draft invoice (giving it the enduser's next number), marks a posted one paid,
+ * or voids one with a reason. Numbers of voided invoices are never reused.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { status, reason } = await req.json();
+    if (!['posted', 'paid', 'void'].includes(status)) {
+      return NextResponse.json({ success: false, error: 'Status must be "posted", "paid" or "void"' }, { status: 400 });
+    }
+    if (status === 'void' && !reason?.trim()) {
+      return NextResponse.json({ success: false, error: 'A reason is required to void an invoice' }, { status: 400 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+    const invoice = await Invoice.findOne({ _id: params.id, endUserId: new mongoose.Types.ObjectId(session.user.id) });
+    if (!invoice) {
+      return NextResponse.json({ success: false, error: 'Invoice not found' }, { status: 404 });
+    }
+
+    await invoice.updateStatus(status, reason?.trim());
+
+    logger.http('POST /api/enduser/invoices/[id]/status', { user: session.user.email, invoice: invoice.invoiceNumber, status });
+    return NextResponse.json({ success: true, data: invoice, message: `Invoice ${status}` });
+  } catch (error) {
+    logger.error('enduser invoice status error', { error, invoiceId: params.id });
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update invoice status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Enduser Bulk Invoicing API
+ * Invoices the selected delivered or returned orders of the logged-in enduser in one go,
+ * one invoice per order. Orders that can't be invoiced are reported back, not failed.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { invoiceEndUserOrder } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+
+// Orders one request may invoice
+const MAX_ORDERS = 100;
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { orders } = await req.json();
+    if (!Array.isArray(orders) || orders.length === 0) {
+      return NextResponse.json({ success: false, error: 'Select at least one order' }, { status: 400 });
+    }
+    if (orders.length > MAX_ORDERS) {
+      return NextResponse.json({ success: false, error: `At most ${MAX_ORDERS} orders can be invoiced at once` }, { status: 400 });
+    }
+
+    const invoices: any[] = [];
+    const skipped: { order: string; reason: string }[] = [];
+    for (const orderKey of Array.from(new Set<string>(orders.map(String)))) {
+      if (!mongoose.Types.ObjectId.isValid(orderKey)) {
+        skipped.push({ order: orderKey, reason: 'Order not found' });
+        continue;
+      }
+      try {
+        const result = await invoiceEndUserOrder(session.user.id, orderKey);
+        invoices.push(...result.invoices);
+        if (result.reason) skipped.push({ order: orderKey, reason: result.reason });
+      } catch (error) {
+        logger.error('bulk invoicing failed for order', { orderKey, error: (error as any)?.message });
+        skipped.push({ order: orderKey, reason: 'Failed to invoice' });
+      }
+    }
+
+    logger.http('POST /api/enduser/invoices', { user: session.user.email, invoiced: invoices.length, skipped: skipped.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        invoices: invoices.map((invoice) => ({
+          _id: invoice._id,
+          invoiceNumber: invoice.invoiceNumber,
+          orderNumber: invoice.orderNumber,
+          status: invoice.status,
+          total: invoice.total,
+        })),
+        skipped,
+      },
+      message: `${invoices.length} invoice${invoices.length === 1 ? '' : 's'} posted`,
+    });
+  } catch (error) {
+    logger.error('enduser bulk invoicing error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to create invoices' }, { status: 500 });
+  }
+}
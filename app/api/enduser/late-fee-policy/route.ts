@@ -0,0 +1,94 @@
+/**
+ * Enduser Late Fee Policy API
+ * Reads and replaces the late fee rules applied to the logged-in enduser's overdue rentals
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import LateFeePolicy, { DEFAULT_LATE_FEE_RULE, LateFeeOverride } from '@/models/LateFeePolicy';
+import Product from '@/models/Product';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+const RULE_FIELDS = ['gracePeriodHours', 'basis', 'amount', 'per', 'cap'] as const;
+
+// Copy the rule fields that were sent; blank numbers are left unset so they inherit
+function readRule(source: any) {
+  const rule: Record<string, any> = {};
+  for (const field of RULE_FIELDS) {
+    const value = source?.[field];
+    if (value === undefined || value === null || value === '') continue;
+    rule[field] = field === 'basis' || field === 'per' ? value : Number(value);
+  }
+  return rule;
+}
+
+async function loadPolicy(endUserId: string) {
+  const policy = await LateFeePolicy.findOne({ endUserId }).populate('overrides.productId', 'name category').lean();
+  return policy || { ...DEFAULT_LATE_FEE_RULE, overrides: [] };
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const policy = await loadPolicy(session.user.id);
+
+    logger.http('GET /api/enduser/late-fee-policy', { user: session.user.email });
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    logger.error('enduser late fee policy error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load late fee policy' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    if (body?.overrides !== undefined && !Array.isArray(body.overrides)) {
+      return NextResponse.json({ success: false, error: 'overrides must be a list' }, { status: 400 });
+    }
+
+    const overrides: LateFeeOverride[] = (body.overrides || []).map((override: any) => ({
+      ...readRule(override),
+      productId: override?.productId || undefined,
+      category: override?.productId ? undefined : override?.category || undefined,
+    }));
+
+    // Product overrides may only name the enduser's own products
+    const productIds = overrides.filter(o => o.productId).map(o => String(o.productId));
+    if (productIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return NextResponse.json({ success: false, error: 'Invalid product in overrides' }, { status: 400 });
+    }
+    const owned = await Product.countDocuments({ _id: { $in: productIds }, endUserId: session.user.id });
+    if (owned !== new Set(productIds).size) {
+      return NextResponse.json({ success: false, error: 'Overrides can only target your own products' }, { status: 400 });
+    }
+
+    const policy = (await LateFeePolicy.findOne({ endUserId: session.user.id })) || new LateFeePolicy({ endUserId: session.user.id });
+    policy.set({ ...DEFAULT_LATE_FEE_RULE, cap: undefined, ...readRule(body), overrides });
+    await policy.save();
+
+    logger.http('PUT /api/enduser/late-fee-policy', { user: session.user.email, overrides: overrides.length });
+    return NextResponse.json({ success: true, data: await loadPolicy(session.user.id), message: 'Late fee policy saved' });
+  } catch (error) {
+    logger.error('enduser late fee policy update error', { error });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to save late fee policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Enduser Notification Log API
+ * Lists the messages sent to customers about the logged-in enduser's orders
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Notification from '@/models/Notification';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { NOTIFICATION_TYPES } from '@/lib/notificationTemplates';
+import { logger } from '@/lib/logger';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const q = (searchParams.get('q') || '').trim();
+    const type = searchParams.get('type');
+    const status = searchParams.get('status');
+    const orderId = searchParams.get('orderId');
+
+    const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
+    if (q) filter.recipient = { $regex: q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    if (type && NOTIFICATION_TYPES.includes(type as any)) filter.type = type;
+    if (status && ['sending', 'sent', 'failed', 'skipped'].includes(status)) filter.status = status;
+    if (orderId && mongoose.Types.ObjectId.isValid(orderId)) filter.rentalOrderId = new mongoose.Types.ObjectId(orderId);
+
+    const skip = (page - 1) * limit;
+    const [notifications, totalCount] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Notification.countDocuments(filter),
+    ]);
+
+    logger.http('GET /api/enduser/notifications', { user: session.user.email, count: notifications.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        notifications,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('enduser notifications error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load notifications' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Enduser Order Deposit API
+ * Shows the security deposit ledger of an order owned by the logged-in enduser and
+ * settles the deposit after return: deductions are kept, the rest is released.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import DepositTransaction from '@/models/DepositTransaction';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { settleDeposit, DepositDeduction } from '@/lib/deposits';
+import { logger } from '@/lib/logger';
+
+const DEDUCTION_CATEGORIES = ['damage', 'late', 'cleaning', 'other'];
+
+async function findOwnedOrder(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return RentalOrder.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+async function depositSummary(order: any) {
+  return {
+    depositAmount: order.depositAmount || 0,
+    depositStatus: order.depositStatus,
+    lateFees: order.lateFees || 0,
+    transactions: await DepositTransaction.findByOrder(order._id),
+  };
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    logger.http('GET /api/enduser/orders/[id]/deposit', { user: session.user.email, orderId: params.id });
+    return NextResponse.json({ success: true, data: await depositSummary(order) });
+  } catch (error) {
+    logger.error('enduser order deposit error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load deposit' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+    if (order.status !== 'returned') {
+      return NextResponse.json({ success: false, error: 'The deposit is settled once the order is returned' }, { status: 409 });
+    }
+
+    const body = await req.json();
+    const deductions: DepositDeduction[] = Array.isArray(body?.deductions) ? body.deductions : [];
+    if (deductions.some((deduction) => !DEDUCTION_CATEGORIES.includes(deduction?.category))) {
+      return NextResponse.json({ success: false, error: `Deduction category must be one of: ${DEDUCTION_CATEGORIES.join(', ')}` }, { status: 400 });
+    }
+
+    const result = await settleDeposit(order, deductions, {
+      actor: { id: session.user.id, name: session.user.name || undefined },
+      offline: body?.offline === true,
+    });
+    if (result.error !== undefined) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    logger.http('POST /api/enduser/orders/[id]/deposit', { user: session.user.email, orderId: params.id, deducted: result.deducted, released: result.released });
+    return NextResponse.json({
+      success: true,
+      data: await depositSummary(order),
+      message: `Deposit settled: ₹${result.deducted} kept, ₹${result.released} released`,
+    });
+  } catch (error) {
+    logger.error('enduser order deposit settle error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to settle deposit' }, { status: 500 });
+  }
+}
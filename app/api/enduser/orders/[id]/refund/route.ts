@@ -0,0 +1,44 @@
+/**
+ * Enduser Order Refund API
+ * Retries the cancellation refund of an order owned by the logged-in enduser after the
+ * payment provider rejected it. Cancelling itself goes through PATCH /api/enduser/orders/[id].
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { cancelAndRefundOrder } from '@/lib/refunds';
+import { logger } from '@/lib/logger';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = mongoose.Types.ObjectId.isValid(params.id)
+      ? await RentalOrder.findOne({ _id: params.id, endUserId: new mongoose.Types.ObjectId(session.user.id) })
+      : null;
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+    if (order.status !== 'cancelled') {
+      return NextResponse.json({ success: false, error: 'Only cancelled orders can be refunded' }, { status: 409 });
+    }
+
+    const result = await cancelAndRefundOrder(order);
+    if (result.error !== undefined) {
+      return NextResponse.json({ success: false, error: result.error, data: { refund: result.refund } }, { status: result.status });
+    }
+
+    logger.http('POST /api/enduser/orders/[id]/refund', { user: session.user.email, orderId: params.id, amount: result.quote.amount });
+    return NextResponse.json({ success: true, data: { refund: result.refund }, message: 'Refund issued' });
+  } catch (error) {
+    logger.error('enduser order refund error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to refund order' }, { status: 500 });
+  }
+}
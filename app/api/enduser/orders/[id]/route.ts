@@ -0,0 +1,177 @@
+/**
+ * Single Enduser Order API
+ * Reads and updates a RentalOrder line owned by the logged-in enduser, including
+ * the quotation → confirmed → reserved → delivered → returned workflow.
+ * Reads also return the order the line belongs to, the enduser's other lines in it and the
+ * invoice the line is on with its credit notes.
+ * Cancelling a paid order refunds it through lib/refunds.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import RentalOrder, { ORDER_STATUS_TRANSITIONS, RentalOrderStatus } from '@/models/RentalOrder';
+import Refund from '@/models/Refund';
+import Order from '@/models/Order';
+import Invoice from '@/models/Invoice';
+import CreditNote from '@/models/CreditNote';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { checkAvailability } from '@/lib/availability';
+import { cancelAndRefundOrder, quoteRefund } from '@/lib/refunds';
+import { logger } from '@/lib/logger';
+import { notifyOrder } from '@/lib/notifications';
+import { invoiceReturnedLateFees } from '@/lib/invoices';
+
+// Fields staff may edit while the order is still open
+const EDITABLE_FIELDS = ['deliveryAddress', 'notes'];
+
+async function findOwnedOrder(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return RentalOrder.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+async function populateOrder(order: any) {
+  await order.populate([
+    { path: 'productId', select: 'name image category pricePerHour pricePerDay pricePerWeek pricePerMonth pricePerYear' },
+    { path: 'customerId', select: 'name email phone address companyName' },
+  ]);
+  // Other endusers' lines and the checkout's totals are not this enduser's business
+  const [orderHeader, orderLines] = order.orderId
+    ? await Promise.all([
+        Order.findById(order.orderId).select('orderNumber source deliveryAddress paymentStatus lineCount createdAt'),
+        RentalOrder.find({ orderId: order.orderId, endUserId: order.endUserId })
+          .select('productId quantity startDate endDate totalPrice status')
+          .populate('productId', 'name image')
+          .sort({ createdAt: 1 }),
+      ])
+    : [null, []];
+  const invoice = await Invoice.findOne({ rentalOrderIds: order._id, kind: { $ne: 'late_fees' }, status: { $ne: 'void' } }).select('invoiceNumber status total creditedTotal issuedAt');
+  return {
+    order,
+    orderHeader,
+    orderLines,
+    allowedTransitions: ORDER_STATUS_TRANSITIONS[order.status as RentalOrderStatus] || [],
+    refund: await Refund.findOne({ rentalOrderId: order._id }),
+    invoice,
+    creditNotes: invoice
+      ? await CreditNote.find({ invoiceId: invoice._id }).select('creditNoteNumber reason total issuedAt').sort({ issuedAt: 1 })
+      : [],
+    refundQuote: order.canTransitionTo('cancelled') ? await quoteRefund(order) : null,
+  };
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    logger.http('GET /api/enduser/orders/[id]', { user: session.user.email, orderId: params.id });
+    return NextResponse.json({ success: true, data: await populateOrder(order) });
+  } catch (error) {
+    logger.error('enduser order fetch error', { error, orderId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load order' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const order = await findOwnedOrder(params.id, session.user.id);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { status, reason } = body;
+    const finished = order.status === 'returned' || order.status === 'cancelled';
+
+    const updates: any = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) updates[field] = body[field];
+    }
+    if (Object.keys(updates).length > 0) {
+      if (finished) {
+        return NextResponse.json({ success: false, error: `Cannot edit a ${order.status} order` }, { status: 409 });
+      }
+      Object.assign(order, updates);
+      if (!status) await order.save();
+    }
+
+    if (status && status !== order.status) {
+      if (!order.canTransitionTo(status)) {
+        return NextResponse.json({
+          success: false,
+          error: `Cannot move an order from "${order.status}" to "${status}"`,
+        }, { status: 409 });
+      }
+
+      // A quotation only becomes an order if the units are still free for its dates
+      if (order.status === 'quotation' && status === 'confirmed') {
+        const availability = await checkAvailability(order.productId, order.startDate, order.endDate, {
+          quantity: order.quantity,
+          excludeId: order._id.toString(),
+        });
+        if (!availability.available) {
+          return NextResponse.json({
+            success: false,
+            error: `Only ${availability.free} unit(s) available for the selected dates`,
+          }, { status: 409 });
+        }
+      }
+
+      const actor = { id: session.user.id, name: session.user.name };
+      if (status === 'cancelled') {
+        // Cancelling a paid order refunds it under the refund policy (or in full when asked)
+        const result = await cancelAndRefundOrder(order, {
+          reason: reason || `Cancelled by ${session.user.email}`,
+          actor,
+          fullRefund: body.fullRefund === true,
+        });
+        if (result.error !== undefined) {
+          return NextResponse.json({ success: false, error: result.error, data: { refund: result.refund } }, { status: result.status });
+        }
+      } else {
+        const wasQuotation = order.status === 'quotation';
+        await order.updateStatus(status, reason || `Updated by ${session.user.email}`, actor);
+        if (wasQuotation && status === 'confirmed') {
+          notifyOrder(order, 'order_confirmed');
+        }
+        if (status === 'returned') {
+          await invoiceReturnedLateFees(order);
+        }
+      }
+    }
+
+    logger.http('PATCH /api/enduser/orders/[id]', { user: session.user.email, orderId: params.id, status });
+    return NextResponse.json({ success: true, data: await populateOrder(order), message: 'Order updated' });
+  } catch (error) {
+    logger.error('enduser order update error', { error, orderId: params.id });
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    if ((error as any)?.code === 11000) {
+      return NextResponse.json({ success: false, error: 'This order is already being refunded' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update order' }, { status: 500 });
+  }
+}
@@ -1,13 +1,18 @@
 /**
  * Enduser Orders API
- * Returns paginated RentalOrder documents for the logged-in enduser with filters.
+ * Returns the logged-in enduser's orders, paginated and filtered, one row per order with the
+ * enduser's own lines in it. The row's status summarizes its lines (see summarizeOrderStatus);
+ * its invoice status comes from the enduser's invoices for those lines (see lib/invoices).
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import RentalOrder from '@/models/RentalOrder';
+import Product from '@/models/Product';
+import { summarizeOrderStatus } from '@/models/Order';
 import mongoose from 'mongoose';
 import { authOptions } from '@/lib/auth';
+import { orderInvoiceStatusStages, ORDER_INVOICE_STATUSES } from '@/lib/invoices';
 import { logger } from '@/lib/logger';
 
 export async function GET(req: NextRequest) {
@@ -22,42 +27,102 @@ export async function GET(req: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '16', 10);
     const status = searchParams.get('status');
-    const invoiceStatus = searchParams.get('invoice'); // placeholder
+    const invoiceStatus = searchParams.get('invoice');
     const q = searchParams.get('q');
 
+    if (invoiceStatus && invoiceStatus !== 'ALL' && !ORDER_INVOICE_STATUSES.includes(invoiceStatus)) {
+      return NextResponse.json({ success: false, error: `Invoice status must be one of: ${ORDER_INVOICE_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
     const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
-    if (status && status !== 'ALL') filter.status = status;
-    if (q) filter.$or = [ { customerName: { $regex: q, $options: 'i' } }, { customerEmail: { $regex: q, $options: 'i' } } ];
+    if (q) {
+      filter.$or = [
+        { customerName: { $regex: q, $options: 'i' } },
+        { customerEmail: { $regex: q, $options: 'i' } },
+        { orderNumber: { $regex: q, $options: 'i' } },
+      ];
+    }
+
+    // One row per order: this enduser's lines grouped under their order (lines from before orders had headers stand alone)
+    const grouped: any[] = [
+      { $match: filter },
+      { $sort: { createdAt: 1 } },
+      {
+        $group: {
+          _id: { $ifNull: ['$orderId', '$_id'] },
+          orderId: { $first: '$orderId' },
+          orderNumber: { $first: '$orderNumber' },
+          firstLineId: { $first: '$_id' },
+          customerName: { $first: '$customerName' },
+          customerEmail: { $first: '$customerEmail' },
+          paymentStatus: { $first: '$paymentStatus' },
+          createdAt: { $first: '$createdAt' },
+          totalPrice: { $sum: '$totalPrice' },
+          lines: {
+            $push: {
+              _id: '$_id',
+              productId: '$productId',
+              quantity: '$quantity',
+              startDate: '$startDate',
+              endDate: '$endDate',
+              totalPrice: '$totalPrice',
+              status: '$status',
+              pickupDate: '$pickupDate',
+              returnDate: '$returnDate',
+            },
+          },
+        },
+      },
+    ];
+    // An order is listed under a status when any of its lines is in it
+    if (status && status !== 'ALL') grouped.push({ $match: { 'lines.status': status } });
+    grouped.push(...orderInvoiceStatusStages(session.user.id));
 
-    // DEBUG: Log query details
-    console.log('=== ENDUSER ORDERS DEBUG ===');
-    console.log('Session user:', { id: session.user.id, email: session.user.email, role: session.user.role });
-    console.log('Filter:', filter);
+    // Counts per invoice status for the sidebar, before narrowing to one of them
+    const invoiceCounts: Record<string, number> = Object.fromEntries(ORDER_INVOICE_STATUSES.map((key) => [key, 0]));
+    const countedByInvoice = await RentalOrder.aggregate([...grouped, { $group: { _id: '$invoiceStatus', count: { $sum: 1 } } }]);
+    countedByInvoice.forEach((row: any) => { invoiceCounts[row._id] = row.count; });
+
+    if (invoiceStatus && invoiceStatus !== 'ALL') grouped.push({ $match: { invoiceStatus } });
 
     const skip = (page - 1) * limit;
-    const [orders, totalCount] = await Promise.all([
-      RentalOrder.find(filter)
-        .populate('productId', 'name image category')
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(limit),
-      RentalOrder.countDocuments(filter),
+    const [rows, counted] = await Promise.all([
+      RentalOrder.aggregate([...grouped, { $sort: { createdAt: -1 } }, { $skip: skip }, { $limit: limit }]),
+      RentalOrder.aggregate([...grouped, { $count: 'total' }]),
     ]);
+    const totalCount = counted[0]?.total || 0;
 
-    console.log('Found orders count:', orders.length);
-    if (orders.length > 0) {
-      console.log('Sample orders:', orders.slice(0, 2).map(o => ({
-        id: o._id,
-        endUserId: o.endUserId,
-        customerId: o.customerId,
-        customerName: o.customerName
-      })));
-    }
+    const productIds = rows.flatMap((row) => row.lines.map((line: any) => line.productId));
+    const products = await Product.find({ _id: { $in: productIds } }).select('name image category').lean();
+    const productsById = new Map<string, any>(products.map((product: any) => [product._id.toString(), product]));
+
+    const orders = rows.map((row) => {
+      const lines = row.lines.map((line: any) => ({ ...line, productId: productsById.get(line.productId?.toString()) || null }));
+      return {
+        _id: row.firstLineId,
+        orderId: row.orderId,
+        orderNumber: row.orderNumber || `R${row.firstLineId.toString().slice(-6).toUpperCase()}`,
+        customerName: row.customerName,
+        customerEmail: row.customerEmail,
+        paymentStatus: row.paymentStatus,
+        createdAt: row.createdAt,
+        totalPrice: Math.round(row.totalPrice * 100) / 100,
+        status: summarizeOrderStatus(lines.map((line: any) => line.status)),
+        invoiceStatus: row.invoiceStatus,
+        // Kept for screens that show a single product per row
+        productId: lines[0]?.productId,
+        pickupDate: lines[0]?.pickupDate,
+        returnDate: lines[0]?.returnDate,
+        lineCount: lines.length,
+        lines,
+      };
+    });
 
     return NextResponse.json({
       success: true,
       data: {
         orders,
+        invoiceCounts,
         pagination: {
           currentPage: page,
           totalPages: Math.ceil(totalCount / limit),
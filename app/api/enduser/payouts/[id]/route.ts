@@ -0,0 +1,37 @@
+/**
+ * Enduser Payout Statement API
+ * One payout statement of the logged-in enduser with the order settlements it paid
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Payout from '@/models/Payout';
+import Settlement from '@/models/Settlement';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const payout = mongoose.Types.ObjectId.isValid(params.id)
+      ? await Payout.findOne({ _id: params.id, endUserId: session.user.id })
+      : null;
+    if (!payout) {
+      return NextResponse.json({ success: false, error: 'Payout statement not found' }, { status: 404 });
+    }
+
+    const settlements = await Settlement.find({ payoutId: payout._id }).sort({ availableAt: 1 });
+
+    logger.http('GET /api/enduser/payouts/[id]', { user: session.user.email, statement: payout.statementNumber });
+    return NextResponse.json({ success: true, data: { payout, settlements } });
+  } catch (error) {
+    logger.error('enduser payout statement error', { error, payoutId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load payout statement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Enduser Payouts API
+ * What the logged-in enduser is owed: pending, available and paid balances, the per-order
+ * settlements behind them and the payout statements already paid
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Settlement from '@/models/Settlement';
+import Payout from '@/models/Payout';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { commissionPercent, payoutBalances, refreshPendingSettlements, PAYOUT_HOLD_DAYS } from '@/lib/settlements';
+import { logger } from '@/lib/logger';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const status = searchParams.get('status');
+
+    // Count returns and refunds since the last payout run before showing balances
+    await refreshPendingSettlements(session.user.id);
+
+    const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
+    if (status && ['pending', 'available', 'paid'].includes(status)) filter.status = status;
+
+    const skip = (page - 1) * limit;
+    const [balances, settlements, totalCount, payouts] = await Promise.all([
+      payoutBalances(session.user.id),
+      Settlement.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Settlement.countDocuments(filter),
+      Payout.find({ endUserId: session.user.id })
+        .select('-settlementIds')
+        .sort({ paidAt: -1 })
+        .limit(12),
+    ]);
+
+    logger.http('GET /api/enduser/payouts', { user: session.user.email, ...balances });
+    return NextResponse.json({
+      success: true,
+      data: {
+        balances,
+        commissionRate: commissionPercent(),
+        holdDays: PAYOUT_HOLD_DAYS,
+        settlements,
+        payouts,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('enduser payouts error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load payouts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Single Quotation API
+ * Read, edit and delete a quotation owned by the logged-in enduser.
+ * Only drafts can be edited or deleted; sent quotations are cancelled through the status route.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Quotation from '@/models/Quotation';
+import RentalOrder from '@/models/RentalOrder';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { parseQuotationLines } from '@/lib/quotations';
+import { logger } from '@/lib/logger';
+
+// Header fields staff may edit on a draft
+const EDITABLE_FIELDS = ['deliveryAddress', 'notes', 'terms'];
+
+async function findOwnedQuotation(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Quotation.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const quotation = await findOwnedQuotation(params.id, session.user.id);
+    if (!quotation) {
+      return NextResponse.json({ success: false, error: 'Quotation not found' }, { status: 404 });
+    }
+    await quotation.populate('lines.rentalOrderId', 'status startDate endDate quantity totalPrice');
+
+    logger.http('GET /api/enduser/quotations/[id]', { user: session.user.email, quotationId: params.id });
+    return NextResponse.json({ success: true, data: quotation });
+  } catch (error) {
+    logger.error('enduser quotation fetch error', { error, quotationId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load quotation' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const quotation = await findOwnedQuotation(params.id, session.user.id);
+    if (!quotation) {
+      return NextResponse.json({ success: false, error: 'Quotation not found' }, { status: 404 });
+    }
+    if (quotation.status !== 'draft') {
+      return NextResponse.json({ success: false, error: `Cannot edit a ${quotation.status} quotation` }, { status: 409 });
+    }
+
+    const body = await req.json();
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) quotation.set(field, body[field]);
+    }
+
+    if (body.validUntil !== undefined) {
+      const expiry = new Date(body.validUntil);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        return NextResponse.json({ success: false, error: 'Expiry date must be in the future' }, { status: 400 });
+      }
+      quotation.validUntil = expiry;
+    }
+
+    if (body.lines !== undefined) {
+      const parsed = await parseQuotationLines(body.lines, session.user.id);
+      if (parsed.error) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+      }
+      quotation.set('lines', parsed.lines);
+    }
+
+    await quotation.save();
+    // Backing orders copy the lines and delivery address, so rebuild them after any edit
+    await quotation.syncOrders();
+
+    logger.http('PATCH /api/enduser/quotations/[id]', { user: session.user.email, quotationId: params.id });
+    return NextResponse.json({ success: true, data: quotation, message: 'Quotation updated' });
+  } catch (error) {
+    logger.error('enduser quotation update error', { error, quotationId: params.id });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update quotation' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const quotation = await findOwnedQuotation(params.id, session.user.id);
+    if (!quotation) {
+      return NextResponse.json({ success: false, error: 'Quotation not found' }, { status: 404 });
+    }
+    if (quotation.status !== 'draft') {
+      return NextResponse.json({ success: false, error: 'Only draft quotations can be deleted' }, { status: 409 });
+    }
+
+    await RentalOrder.deleteMany({ quotationId: quotation._id, status: 'quotation' });
+    await quotation.deleteOne();
+
+    logger.http('DELETE /api/enduser/quotations/[id]', { user: session.user.email, quotationId: params.id });
+    return NextResponse.json({ success: true, message: 'Quotation deleted' });
+  } catch (error) {
+    logger.error('enduser quotation delete error', { error, quotationId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to delete quotation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Quotation Status API
+ * Sends a draft quotation to its customer, or cancels a draft/sent one.
+ * Cancelling also cancels the rental orders of lines that were never confirmed.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Quotation from '@/models/Quotation';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+// Statuses staff can set here; acceptance comes from the customer and expiry from the clock
+const STAFF_STATUSES = ['sent', 'cancelled'];
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { status, reason } = await req.json();
+    if (!STAFF_STATUSES.includes(status)) {
+      return NextResponse.json({ success: false, error: 'Status must be "sent" or "cancelled"' }, { status: 400 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Quotation not found' }, { status: 404 });
+    }
+    const quotation = await Quotation.findOne({ _id: params.id, endUserId: new mongoose.Types.ObjectId(session.user.id) });
+    if (!quotation) {
+      return NextResponse.json({ success: false, error: 'Quotation not found' }, { status: 404 });
+    }
+
+    if (!quotation.canTransitionTo(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot move a quotation from "${quotation.status}" to "${status}"`,
+      }, { status: 409 });
+    }
+
+    if (status === 'sent' && quotation.validUntil <= new Date()) {
+      return NextResponse.json({ success: false, error: 'Quotation has already expired; update the expiry date first' }, { status: 409 });
+    }
+
+    const actor = { id: session.user.id, name: session.user.name };
+    if (status === 'cancelled') {
+      await quotation.cancelOpenOrders(reason || `${quotation.reference} cancelled by ${session.user.email}`, actor);
+    }
+    await quotation.updateStatus(status, reason || `Updated by ${session.user.email}`);
+
+    logger.http('POST /api/enduser/quotations/[id]/status', { user: session.user.email, quotationId: params.id, status });
+    return NextResponse.json({ success: true, data: quotation, message: `Quotation ${status}` });
+  } catch (error) {
+    logger.error('enduser quotation status error', { error, quotationId: params.id });
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update quotation status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Enduser Quotations API
+ * Lists and drafts quotations for the logged-in enduser's customers.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Quotation from '@/models/Quotation';
+import RentalOrder from '@/models/RentalOrder';
+import Order from '@/models/Order';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { parseQuotationLines } from '@/lib/quotations';
+import { logger } from '@/lib/logger';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const status = searchParams.get('status');
+    const q = searchParams.get('q');
+
+    const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
+    if (status && status !== 'ALL') filter.status = status;
+    if (q) {
+      filter.$or = [
+        { reference: { $regex: q, $options: 'i' } },
+        { customerName: { $regex: q, $options: 'i' } },
+        { customerEmail: { $regex: q, $options: 'i' } },
+      ];
+    }
+
+    const skip = (page - 1) * limit;
+    const [quotations, totalCount] = await Promise.all([
+      Quotation.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Quotation.countDocuments(filter),
+    ]);
+
+    logger.http('GET /api/enduser/quotations', { user: session.user.email, count: quotations.length });
+    return NextResponse.json({
+      success: true,
+      data: {
+        quotations,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('enduser quotations error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load quotations' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    const { customerEmail, validUntil, notes, terms, deliveryAddress } = body;
+
+    if (!customerEmail) {
+      return NextResponse.json({ success: false, error: 'Customer email is required' }, { status: 400 });
+    }
+    const customer = await User.findOne({ email: String(customerEmail).toLowerCase().trim(), role: 'customer' });
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'No customer account found with that email' }, { status: 404 });
+    }
+
+    const expiry = new Date(validUntil);
+    if (!validUntil || isNaN(expiry.getTime()) || expiry <= new Date()) {
+      return NextResponse.json({ success: false, error: 'Expiry date must be in the future' }, { status: 400 });
+    }
+
+    const parsed = await parseQuotationLines(body.lines, session.user.id);
+    if (parsed.error) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const quotation = await Quotation.create({
+      reference: await Quotation.nextReference(session.user.id),
+      status: 'draft',
+      endUserId: session.user.id,
+      customerId: customer._id,
+      customerName: customer.name,
+      customerEmail: customer.email,
+      customerPhone: customer.phone,
+      deliveryAddress: deliveryAddress || customer.address,
+      validUntil: expiry,
+      lines: parsed.lines,
+      notes,
+      terms,
+    });
+
+    try {
+      await quotation.syncOrders();
+    } catch (error) {
+      // Don't leave a quotation behind without the orders that back it
+      await RentalOrder.deleteMany({ quotationId: quotation._id, status: 'quotation' });
+      await Order.deleteMany({ quotationId: quotation._id });
+      await Quotation.deleteOne({ _id: quotation._id });
+      throw error;
+    }
+
+    logger.info('Quotation created', {
+      reference: quotation.reference,
+      customer: customer.email,
+      total: quotation.total,
+      createdBy: session.user.email,
+    });
+    return NextResponse.json({ success: true, data: quotation, message: 'Quotation created' }, { status: 201 });
+  } catch (error) {
+    logger.error('enduser quotation create error', { error });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to create quotation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Enduser Refund Policy API
+ * Reads and replaces the cancellation tiers applied to the logged-in enduser's orders
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import RefundPolicy, { RefundTier } from '@/models/RefundPolicy';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const policy = await RefundPolicy.forEndUser(session.user.id);
+
+    logger.http('GET /api/enduser/refund-policy', { user: session.user.email });
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    logger.error('enduser refund policy error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load refund policy' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    if (!Array.isArray(body?.tiers)) {
+      return NextResponse.json({ success: false, error: 'tiers must be a list of { hoursBefore, percent }' }, { status: 400 });
+    }
+    const tiers: RefundTier[] = body.tiers.map((tier: any) => ({
+      hoursBefore: Number(tier?.hoursBefore),
+      percent: Number(tier?.percent),
+    }));
+
+    const policy = (await RefundPolicy.findOne({ endUserId: session.user.id })) || new RefundPolicy({ endUserId: session.user.id });
+    policy.tiers = tiers;
+    if (typeof body.allowCustomerCancellation === 'boolean') {
+      policy.allowCustomerCancellation = body.allowCustomerCancellation;
+    }
+    await policy.save();
+
+    logger.http('PUT /api/enduser/refund-policy', { user: session.user.email, tiers: tiers.length });
+    return NextResponse.json({ success: true, data: policy, message: 'Refund policy saved' });
+  } catch (error) {
+    logger.error('enduser refund policy update error', { error });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to save refund policy' }, { status: 500 });
+  }
+}
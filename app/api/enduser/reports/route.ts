@@ -1,14 +1,23 @@
 /**
  * Enduser Reports API
- * Returns time-series revenue and orders grouped by day/week/month
+ * Returns time-series revenue and orders grouped by day/week/month. Revenue is the taxable value
+ * of the lines and the GST charged on them is reported beside it as `tax`, with a summary by
+ * component (CGST, SGST, IGST) in `meta.taxLines`. Credit notes issued in a bucket are reported
+ * as negative `credits` and taken off that bucket's revenue and tax.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import RentalOrder from '@/models/RentalOrder';
+import CreditNote from '@/models/CreditNote';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
 import mongoose from 'mongoose';
+import { roundMoney } from '@/lib/pricing';
+import { TaxComponent } from '@/lib/tax';
+
+// Lines of one order count once; lines from before orders had headers are orders of their own
+const ORDER_KEY = { $ifNull: ['$orderId', '$_id'] };
 
 export async function GET(req: NextRequest) {
   try {
@@ -28,23 +37,84 @@ export async function GET(req: NextRequest) {
     const endUserId = new mongoose.Types.ObjectId(session.user.id);
 
     // Build group stage by bucket
-    let groupId: any = {};
-    if (groupBy === 'month') {
-      groupId = { y: { $year: '$createdAt' }, m: { $month: '$createdAt' } };
-    } else if (groupBy === 'week') {
-      groupId = { y: { $year: '$createdAt' }, w: { $isoWeek: '$createdAt' } };
-    } else {
-      groupId = { y: { $year: '$createdAt' }, m: { $month: '$createdAt' }, d: { $dayOfMonth: '$createdAt' } };
-    }
+    const bucketOf = (field: string): any => {
+      if (groupBy === 'month') {
+        return { y: { $year: field }, m: { $month: field } };
+      } else if (groupBy === 'week') {
+        return { y: { $year: field }, w: { $isoWeek: field } };
+      }
+      return { y: { $year: field }, m: { $month: field }, d: { $dayOfMonth: field } };
+    };
 
-    const rows = await RentalOrder.aggregate([
-      { $match: { endUserId, createdAt: { $gte: start, $lte: end }, status: { $ne: 'cancelled' } } },
-      { $group: { _id: groupId, orders: { $sum: 1 }, revenue: { $sum: '$totalPrice' } } },
-      { $sort: { '_id.y': 1, '_id.m': 1, '_id.w': 1, '_id.d': 1 } }
+    const orderMatch = { endUserId, createdAt: { $gte: start, $lte: end }, status: { $ne: 'cancelled' } };
+    const creditMatch = { endUserId, issuedAt: { $gte: start, $lte: end } };
+    const [orderRows, creditRows, orderTaxLines, creditTaxLines] = await Promise.all([
+      // Lines from before tax rules have no tax recorded; their whole price counts as revenue
+      RentalOrder.aggregate([
+        { $match: orderMatch },
+        {
+          $group: {
+            _id: bucketOf('$createdAt'),
+            orders: { $addToSet: ORDER_KEY },
+            revenue: { $sum: { $ifNull: ['$tax.taxableValue', '$totalPrice'] } },
+            tax: { $sum: { $ifNull: ['$tax.amount', 0] } },
+          },
+        },
+        { $addFields: { orders: { $size: '$orders' } } },
+      ]),
+      // Credit notes count against revenue and tax when issued
+      CreditNote.aggregate([
+        { $match: creditMatch },
+        { $group: { _id: bucketOf('$issuedAt'), creditNotes: { $sum: 1 }, credited: { $sum: '$subtotal' }, taxCredited: { $sum: '$taxTotal' } } },
+      ]),
+      RentalOrder.aggregate([
+        { $match: orderMatch },
+        { $unwind: '$tax.components' },
+        { $group: { _id: { label: '$tax.components.label', rate: '$tax.components.rate' }, taxableValue: { $sum: '$tax.components.taxableValue' }, amount: { $sum: '$tax.components.amount' } } },
+      ]),
+      CreditNote.aggregate([
+        { $match: creditMatch },
+        { $unwind: '$taxLines' },
+        { $group: { _id: { label: '$taxLines.label', rate: '$taxLines.rate' }, taxableValue: { $sum: '$taxLines.taxableValue' }, amount: { $sum: '$taxLines.amount' } } },
+      ]),
     ]);
 
+    // GST by component and rate for the period, net of credit notes
+    const taxLines = new Map<string, TaxComponent>();
+    const addTaxRows = (taxRows: any[], sign: number) => taxRows.forEach((row: any) => {
+      const key = `${row._id.label}@${row._id.rate}`;
+      const line = taxLines.get(key) || { label: row._id.label, rate: row._id.rate, taxableValue: 0, amount: 0 };
+      line.taxableValue = roundMoney(line.taxableValue + sign * row.taxableValue);
+      line.amount = roundMoney(line.amount + sign * row.amount);
+      taxLines.set(key, line);
+    });
+    addTaxRows(orderTaxLines, 1);
+    addTaxRows(creditTaxLines, -1);
+
+    // Merge the two series on their bucket, oldest first
+    const buckets = new Map<string, any>();
+    orderRows.forEach((row: any) => {
+      buckets.set(JSON.stringify(row._id), { _id: row._id, orders: row.orders, grossRevenue: row.revenue, credits: 0, creditNotes: 0, grossTax: row.tax, taxCredits: 0 });
+    });
+    creditRows.forEach((row: any) => {
+      const key = JSON.stringify(row._id);
+      const bucket = buckets.get(key) || { _id: row._id, orders: 0, grossRevenue: 0, credits: 0, creditNotes: 0, grossTax: 0, taxCredits: 0 };
+      bucket.credits = -roundMoney(row.credited);
+      bucket.creditNotes = row.creditNotes;
+      bucket.taxCredits = -roundMoney(row.taxCredited);
+      buckets.set(key, bucket);
+    });
+    const rows = Array.from(buckets.values())
+      .map(({ grossTax, taxCredits, ...bucket }) => ({
+        ...bucket,
+        grossRevenue: roundMoney(bucket.grossRevenue),
+        revenue: roundMoney(bucket.grossRevenue + bucket.credits),
+        tax: roundMoney(grossTax + taxCredits),
+      }))
+      .sort((a, b) => (a._id.y - b._id.y) || ((a._id.m || 0) - (b._id.m || 0)) || ((a._id.w || 0) - (b._id.w || 0)) || ((a._id.d || 0) - (b._id.d || 0)));
+
     logger.http('GET /api/enduser/reports', { user: session.user.email, groupBy, points: rows.length });
-    return NextResponse.json({ success: true, data: rows, meta: { groupBy, start, end } });
+    return NextResponse.json({ success: true, data: rows, meta: { groupBy, start, end, taxLines: Array.from(taxLines.values()) } });
   } catch (error) {
     logger.error('enduser reports error', { error });
     return NextResponse.json({ success: false, error: 'Failed to load reports' }, { status: 500 });
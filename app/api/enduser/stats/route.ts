@@ -2,7 +2,7 @@
  * Enduser Stats API
  * Computes business dashboard KPIs and leaderboards from live data.
  * - Auth: enduser only
- * - Source: RentalOrder + Product
+ * - Source: RentalOrder + Product; order counts are per order, not per line
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
@@ -12,6 +12,9 @@ import Product from '@/models/Product';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
 
+// Lines of one order count once; lines from before orders had headers are orders of their own
+const ORDER_KEY = { $ifNull: ['$orderId', '$_id'] };
+
 export async function GET(req: NextRequest) {
   try {
     // Ensure only authenticated endusers can access
@@ -38,17 +41,22 @@ export async function GET(req: NextRequest) {
       revenueAgg,
       topCategoriesAgg,
       topProductsAgg,
-      topCustomersAgg
+      topCustomersAgg,
+      lateAgg
     ] = await Promise.all([
-      // Quotations within period
-      RentalOrder.countDocuments({ endUserId: new (require('mongoose').Types.ObjectId)(endUserId), status: 'quotation', createdAt: { $gte: start } }),
+      // Quotations within period (one per order, however many lines it has)
+      RentalOrder.aggregate([
+        { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), status: 'quotation', createdAt: { $gte: start } } },
+        { $group: { _id: ORDER_KEY } },
+        { $count: 'count' }
+      ]),
 
-      // Active/confirmed rentals within period
-      RentalOrder.countDocuments({
-        endUserId: new (require('mongoose').Types.ObjectId)(endUserId),
-        status: { $in: ['confirmed', 'reserved', 'delivered'] },
-        createdAt: { $gte: start },
-      }),
+      // Active/confirmed rentals within period, counted per order
+      RentalOrder.aggregate([
+        { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), status: { $in: ['confirmed', 'reserved', 'delivered'] }, createdAt: { $gte: start } } },
+        { $group: { _id: ORDER_KEY } },
+        { $count: 'count' }
+      ]),
 
       // Revenue: sum totalPrice for monetized statuses
       RentalOrder.aggregate([
@@ -80,20 +88,28 @@ export async function GET(req: NextRequest) {
       // Top Customers by orders and revenue
       RentalOrder.aggregate([
         { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), createdAt: { $gte: start }, status: { $ne: 'cancelled' } } },
-        { $group: { _id: '$customerEmail', ordered: { $sum: 1 }, revenue: { $sum: '$totalPrice' } } },
-        { $project: { customer: '$_id', _id: 0, ordered: 1, revenue: 1 } },
+        { $group: { _id: '$customerEmail', orders: { $addToSet: ORDER_KEY }, revenue: { $sum: '$totalPrice' } } },
+        { $project: { customer: '$_id', _id: 0, ordered: { $size: '$orders' }, revenue: 1 } },
         { $sort: { ordered: -1 } },
         { $limit: 5 }
+      ]),
+
+      // Orders currently late (flagged by the late return job) and the fees accrued on them
+      RentalOrder.aggregate([
+        { $match: { endUserId: new (require('mongoose').Types.ObjectId)(endUserId), status: 'late' } },
+        { $group: { _id: null, count: { $sum: 1 }, fees: { $sum: '$lateFees' } } }
       ])
     ]);
 
     const payload = {
-      quotations: quotationCount,
-      rentals: rentalsCount,
+      quotations: quotationCount?.[0]?.count || 0,
+      rentals: rentalsCount?.[0]?.count || 0,
       revenue: revenueAgg?.[0]?.total || 0,
       topCategories: topCategoriesAgg.map((c: any) => ({ category: c._id, ordered: c.ordered, revenue: c.revenue })),
       topProducts: topProductsAgg,
       topCustomers: topCustomersAgg,
+      lateReturns: lateAgg?.[0]?.count || 0,
+      lateFees: lateAgg?.[0]?.fees || 0,
     };
 
     logger.http('GET /api/enduser/stats', { user: session.user.email, periodDays, revenue: payload.revenue });
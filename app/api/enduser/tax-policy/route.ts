@@ -0,0 +1,84 @@
+/**
+ * Enduser Tax Policy API
+ * Reads and replaces the GST registration and rates applied to the logged-in enduser's rentals
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import TaxPolicy from '@/models/TaxPolicy';
+import { DEFAULT_TAX_RULE, TaxCategoryRule } from '@/lib/tax';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+// Copy the rule fields that were sent; a blank rate is left unset so it inherits
+function readRule(source: any) {
+  const rule: Record<string, any> = {};
+  if (source?.rate !== undefined && source?.rate !== null && source?.rate !== '') rule.rate = Number(source.rate);
+  if (typeof source?.inclusive === 'boolean') rule.inclusive = source.inclusive;
+  return rule;
+}
+
+async function loadPolicy(endUserId: string) {
+  const policy = await TaxPolicy.findOne({ endUserId }).lean();
+  return policy || { ...DEFAULT_TAX_RULE, gstin: '', state: '', overrides: [] };
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const policy = await loadPolicy(session.user.id);
+
+    logger.http('GET /api/enduser/tax-policy', { user: session.user.email });
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    logger.error('enduser tax policy error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load tax policy' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    if (body?.overrides !== undefined && !Array.isArray(body.overrides)) {
+      return NextResponse.json({ success: false, error: 'overrides must be a list' }, { status: 400 });
+    }
+
+    const overrides: TaxCategoryRule[] = (body.overrides || []).map((override: any) => ({
+      ...readRule(override),
+      category: override?.category || undefined,
+    }));
+
+    const policy = (await TaxPolicy.findOne({ endUserId: session.user.id })) || new TaxPolicy({ endUserId: session.user.id });
+    policy.set({
+      ...DEFAULT_TAX_RULE,
+      ...readRule(body),
+      label: typeof body?.label === 'string' && body.label.trim() ? body.label : DEFAULT_TAX_RULE.label,
+      gstin: typeof body?.gstin === 'string' && body.gstin.trim() ? body.gstin : undefined,
+      state: typeof body?.state === 'string' && body.state.trim() ? body.state : undefined,
+      overrides,
+    });
+    await policy.save();
+
+    logger.http('PUT /api/enduser/tax-policy', { user: session.user.email, overrides: overrides.length });
+    return NextResponse.json({ success: true, data: await loadPolicy(session.user.id), message: 'Tax policy saved' });
+  } catch (error) {
+    logger.error('enduser tax policy update error', { error });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to save tax policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Single Transfer API
+ * Read, edit and delete a pickup/return transfer owned by the logged-in enduser.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Transfer from '@/models/Transfer';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+// Fields staff may edit before a transfer is done
+const EDITABLE_FIELDS = ['scheduleDate', 'responsible', 'sourceLocation', 'destinationLocation', 'deliveryAddress', 'invoiceAddress', 'notes'];
+
+async function findOwnedTransfer(id: string, endUserId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Transfer.findOne({ _id: id, endUserId: new mongoose.Types.ObjectId(endUserId) });
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const transfer = await findOwnedTransfer(params.id, session.user.id);
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+    await transfer.populate('rentalOrderId', 'status startDate endDate totalPrice pickupDate returnDate');
+
+    logger.http('GET /api/enduser/transfers/[id]', { user: session.user.email, transferId: params.id });
+    return NextResponse.json({ success: true, data: transfer });
+  } catch (error) {
+    logger.error('enduser transfer fetch error', { error, transferId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to load transfer' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const transfer = await findOwnedTransfer(params.id, session.user.id);
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+    if (transfer.status === 'done' || transfer.status === 'cancelled') {
+      return NextResponse.json({ success: false, error: `Cannot edit a ${transfer.status} transfer` }, { status: 409 });
+    }
+
+    const body = await req.json();
+    const updates: any = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) updates[field] = body[field];
+    }
+    if (updates.scheduleDate) updates.scheduleDate = new Date(updates.scheduleDate);
+
+    Object.assign(transfer, updates);
+    await transfer.save();
+
+    logger.http('PATCH /api/enduser/transfers/[id]', { user: session.user.email, transferId: params.id, fields: Object.keys(updates) });
+    return NextResponse.json({ success: true, data: transfer, message: 'Transfer updated successfully' });
+  } catch (error) {
+    logger.error('enduser transfer update error', { error, transferId: params.id });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update transfer' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const transfer = await findOwnedTransfer(params.id, session.user.id);
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+    // Only drafts are deleted outright; anything further along is cancelled for the audit trail
+    if (transfer.status !== 'draft') {
+      return NextResponse.json({ success: false, error: 'Only draft transfers can be deleted. Cancel it instead.' }, { status: 409 });
+    }
+
+    await transfer.deleteOne();
+
+    logger.http('DELETE /api/enduser/transfers/[id]', { user: session.user.email, transferId: params.id });
+    return NextResponse.json({ success: true, message: 'Transfer deleted successfully' });
+  } catch (error) {
+    logger.error('enduser transfer delete error', { error, transferId: params.id });
+    return NextResponse.json({ success: false, error: 'Failed to delete transfer' }, { status: 500 });
+  }
+}
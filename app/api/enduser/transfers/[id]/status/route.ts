@@ -0,0 +1,89 @@
+/**
+ * Transfer Status API
+ * Moves a transfer through its draft → ready/waiting → done lifecycle.
+ * Validating (done) a pickup marks the RentalOrder delivered; validating a return marks it returned.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Transfer from '@/models/Transfer';
+import RentalOrder from '@/models/RentalOrder';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { invoiceReturnedLateFees } from '@/lib/invoices';
+
+// Order status each transfer type moves the order to, and the statuses it may come from
+const ORDER_STATUS_ON_DONE = {
+  pickup: { to: 'delivered', from: ['confirmed', 'reserved'] },
+  return: { to: 'returned', from: ['delivered', 'late'] },
+};
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { status, reason } = await req.json();
+    if (!status) {
+      return NextResponse.json({ success: false, error: 'Status is required' }, { status: 400 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+    const transfer = await Transfer.findOne({ _id: params.id, endUserId: new mongoose.Types.ObjectId(session.user.id) });
+    if (!transfer) {
+      return NextResponse.json({ success: false, error: 'Transfer not found' }, { status: 404 });
+    }
+
+    if (!transfer.canTransitionTo(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot move a ${transfer.type} transfer from "${transfer.status}" to "${status}"`,
+      }, { status: 409 });
+    }
+
+    // Validating the transfer moves the underlying order first, so a rejected order change leaves the transfer untouched
+    if (status === 'done') {
+      const rule = ORDER_STATUS_ON_DONE[transfer.type as 'pickup' | 'return'];
+      const order = await RentalOrder.findById(transfer.rentalOrderId);
+      if (!order) {
+        return NextResponse.json({ success: false, error: 'Rental order not found' }, { status: 404 });
+      }
+      if (!rule.from.includes(order.status)) {
+        return NextResponse.json({
+          success: false,
+          error: `Order is "${order.status}" and cannot be marked ${rule.to}`,
+        }, { status: 409 });
+      }
+      await order.updateStatus(rule.to, reason || `${transfer.reference} validated by ${session.user.email}`, {
+        id: session.user.id,
+        name: session.user.name,
+      });
+      if (rule.to === 'returned') {
+        await invoiceReturnedLateFees(order);
+      }
+    }
+
+    await transfer.updateStatus(status, reason || `Updated by ${session.user.email}`);
+
+    logger.http('POST /api/enduser/transfers/[id]/status', { user: session.user.email, transferId: params.id, status });
+    return NextResponse.json({ success: true, data: transfer, message: `Transfer marked ${status}` });
+  } catch (error) {
+    logger.error('enduser transfer status error', { error, transferId: params.id });
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to update transfer status' }, { status: 500 });
+  }
+}
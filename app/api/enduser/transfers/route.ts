@@ -0,0 +1,128 @@
+/**
+ * Enduser Transfers API
+ * Lists pickup/return transfers for the logged-in enduser and generates new ones from RentalOrders.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Transfer from '@/models/Transfer';
+import RentalOrder from '@/models/RentalOrder';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+// Order statuses a transfer of each type can be generated from
+const SOURCE_STATUSES = {
+  pickup: ['confirmed', 'reserved'],
+  return: ['delivered', 'late'],
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const type = searchParams.get('type');
+    const status = searchParams.get('status');
+    const orderId = searchParams.get('orderId');
+
+    const filter: any = { endUserId: new mongoose.Types.ObjectId(session.user.id) };
+    if (type === 'pickup' || type === 'return') filter.type = type;
+    if (status && status !== 'ALL') filter.status = status;
+    if (orderId && mongoose.Types.ObjectId.isValid(orderId)) filter.rentalOrderId = new mongoose.Types.ObjectId(orderId);
+
+    const skip = (page - 1) * limit;
+    const [transfers, totalCount] = await Promise.all([
+      Transfer.find(filter)
+        .populate('rentalOrderId', 'status startDate endDate totalPrice')
+        .sort({ scheduleDate: 1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Transfer.countDocuments(filter),
+    ]);
+
+    logger.http('GET /api/enduser/transfers', { user: session.user.email, count: transfers.length, type, status });
+    return NextResponse.json({
+      success: true,
+      data: {
+        transfers,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount,
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('enduser transfers error', { error });
+    return NextResponse.json({ success: false, error: 'Failed to load transfers' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    await connectDB();
+
+    const body = await req.json();
+    const { orderId } = body || {};
+    if (!orderId || !mongoose.Types.ObjectId.isValid(orderId)) {
+      return NextResponse.json({ success: false, error: 'Valid orderId is required' }, { status: 400 });
+    }
+
+    const order = await RentalOrder.findOne({
+      _id: orderId,
+      endUserId: new mongoose.Types.ObjectId(session.user.id),
+    }).populate('productId', 'name');
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Order not found' }, { status: 404 });
+    }
+
+    // Infer the transfer type from the order status when not given
+    const type: 'pickup' | 'return' = body.type === 'pickup' || body.type === 'return'
+      ? body.type
+      : SOURCE_STATUSES.return.includes(order.status) ? 'return' : 'pickup';
+
+    if (!SOURCE_STATUSES[type].includes(order.status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot create a ${type} transfer for an order in "${order.status}" status`,
+      }, { status: 409 });
+    }
+
+    const existing = await Transfer.findOne({ rentalOrderId: order._id, type, status: { $ne: 'cancelled' } });
+    if (existing) {
+      return NextResponse.json({
+        success: false,
+        error: `A ${type} transfer already exists for this order (${existing.reference})`,
+      }, { status: 409 });
+    }
+
+    const endUser = await User.findById(session.user.id).select('name address');
+    const transfer = await Transfer.createFromOrder(order, type, {
+      responsible: body.responsible || endUser?.name || session.user.name,
+      warehouseLocation: body.warehouseLocation || endUser?.address,
+    });
+
+    logger.http('POST /api/enduser/transfers', { user: session.user.email, order: orderId, type, reference: transfer.reference });
+    return NextResponse.json({ success: true, data: transfer, message: 'Transfer created successfully' }, { status: 201 });
+  } catch (error) {
+    logger.error('enduser transfer create error', { error });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: false, error: 'Failed to create transfer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Invoice PDF API Route Handler
+ * Renders a stored invoice as a PDF on the server, so it can be downloaded again at any time
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import { authOptions } from '@/lib/auth';
+import { invoiceOwnerFilter } from '@/lib/invoices';
+import { invoiceFileName, renderInvoicePdf } from '@/lib/invoicePdf';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+// jsPDF needs the Node runtime
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/invoices/[id]/pdf
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const invoice: any = mongoose.Types.ObjectId.isValid(params.id)
+      ? await Invoice.findOne({ _id: params.id, ...invoiceOwnerFilter(session.user) }).lean()
+      : null;
+
+    if (!invoice || (session.user.role !== 'enduser' && invoice.status === 'draft')) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invoice not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+
+    logger.http('GET /api/invoices/[id]/pdf', { invoice: invoice.invoiceNumber, user: session.user.email });
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoiceFileName(invoice)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('Error rendering invoice PDF', { error: (error as any)?.message, invoiceId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to render invoice',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
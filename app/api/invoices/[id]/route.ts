@@ -0,0 +1,70 @@
+/**
+ * Single Invoice API Route Handler
+ * One invoice of the logged-in customer or enduser, with the credit notes issued against it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import CreditNote from '@/models/CreditNote';
+import { authOptions } from '@/lib/auth';
+import { invoiceOwnerFilter } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/invoices/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const invoice = mongoose.Types.ObjectId.isValid(params.id)
+      ? await Invoice.findOne({ _id: params.id, ...invoiceOwnerFilter(session.user) }).lean()
+      : null;
+
+    if (!invoice || (session.user.role !== 'enduser' && (invoice as any).status === 'draft')) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invoice not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    logger.http('GET /api/invoices/[id]', { invoiceId: params.id, user: session.user.email });
+
+    const creditNotes = await CreditNote.find({ invoiceId: (invoice as any)._id }).sort({ issuedAt: 1 }).lean();
+
+    const response: ApiResponse = {
+      success: true,
+      data: { ...invoice, creditNotes },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching invoice', { error, invoiceId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch invoice',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
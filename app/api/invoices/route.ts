@@ -0,0 +1,71 @@
+/**
+ * Invoices API Route Handler
+ * Invoices of the logged-in user: billed to them as a customer, or issued by them as an enduser
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Invoice from '@/models/Invoice';
+import { authOptions } from '@/lib/auth';
+import { invoiceOwnerFilter } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/invoices
+ * Newest invoices first; `orderNumber` narrows to one order, `status` to one invoice status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+    const filter: any = invoiceOwnerFilter(session.user);
+    if (searchParams.get('orderNumber')) filter.orderNumber = searchParams.get('orderNumber');
+    const status = searchParams.get('status');
+    if (status) filter.status = status;
+    // Customers never see an enduser's drafts
+    if (session.user.role !== 'enduser') filter.status = { $ne: 'draft', ...(status ? { $eq: status } : {}) };
+
+    const [invoices, total] = await Promise.all([
+      Invoice.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).lean(),
+      Invoice.countDocuments(filter),
+    ]);
+
+    logger.http('GET /api/invoices', { user: session.user.email, count: invoices.length });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        invoices,
+        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('invoices error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load invoices',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
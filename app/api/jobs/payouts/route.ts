@@ -0,0 +1,30 @@
+/**
+ * Payout Job Trigger
+ * Internal endpoint for the scheduler (cron, Vercel Cron or `npm run jobs:payouts`).
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { rejectUnlessScheduler } from '@/lib/cronAuth';
+import { runPayoutJob } from '@/lib/settlements';
+
+async function run(request: NextRequest) {
+  const rejected = rejectUnlessScheduler(request);
+  if (rejected) return rejected;
+
+  try {
+    await connectDB();
+    const result = await runPayoutJob();
+
+    logger.http('POST /api/jobs/payouts', result);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('payout job error', { error: (error as any)?.message });
+    return NextResponse.json({ success: false, error: 'Payout job failed' }, { status: 500 });
+  }
+}
+
+// Vercel Cron calls with GET; other schedulers may POST
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,30 @@
+/**
+ * Reminder Job Trigger
+ * Internal endpoint for the scheduler (cron, Vercel Cron or `npm run jobs:reminders`).
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { rejectUnlessScheduler } from '@/lib/cronAuth';
+import { runReminderJob } from '@/lib/notifications';
+
+async function run(request: NextRequest) {
+  const rejected = rejectUnlessScheduler(request);
+  if (rejected) return rejected;
+
+  try {
+    await connectDB();
+    const result = await runReminderJob();
+
+    logger.http('POST /api/jobs/reminders', result);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('reminder job error', { error: (error as any)?.message });
+    return NextResponse.json({ success: false, error: 'Reminder job failed' }, { status: 500 });
+  }
+}
+
+// Vercel Cron calls with GET; other schedulers may POST
+export const GET = run;
+export const POST = run;
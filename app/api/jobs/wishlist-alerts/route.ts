@@ -0,0 +1,30 @@
+/**
+ * Wishlist Alert Job Trigger
+ * Internal endpoint for the scheduler (cron, Vercel Cron or `npm run jobs:wishlist-alerts`).
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { rejectUnlessScheduler } from '@/lib/cronAuth';
+import { runWishlistAlertJob } from '@/lib/wishlist';
+
+async function run(request: NextRequest) {
+  const rejected = rejectUnlessScheduler(request);
+  if (rejected) return rejected;
+
+  try {
+    await connectDB();
+    const result = await runWishlistAlertJob();
+
+    logger.http('POST /api/jobs/wishlist-alerts', result);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('wishlist alert job error', { error: (error as any)?.message });
+    return NextResponse.json({ success: false, error: 'Wishlist alert job failed' }, { status: 500 });
+  }
+}
+
+// Vercel Cron calls with GET; other schedulers may POST
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,113 @@
+/**
+ * Notifications API Route Handler
+ * The logged-in user's in-app notification feed (the bell icon) and its read state
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import InAppNotification from '@/models/InAppNotification';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/notifications
+ * Newest notifications first plus the unread count; `unread=true` lists unread ones only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+    const filter: any = { userId: session.user.id };
+    if (searchParams.get('unread') === 'true') filter.readAt = null;
+
+    const [notifications, unreadCount] = await Promise.all([
+      InAppNotification.find(filter).sort({ createdAt: -1 }).limit(limit).lean(),
+      InAppNotification.countUnread(session.user.id),
+    ]);
+
+    const response: ApiResponse = {
+      success: true,
+      data: { notifications, unreadCount },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('notifications error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load notifications',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark notifications read: `{ ids: [...] }` for specific ones, or no ids for all of them
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const body = await request.json().catch(() => ({}));
+    const ids: string[] | undefined = Array.isArray(body?.ids) ? body.ids : undefined;
+    if (ids && ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid notification ID',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const result = await InAppNotification.markRead(session.user.id, ids);
+    const unreadCount = await InAppNotification.countUnread(session.user.id);
+
+    logger.http('PATCH /api/notifications', { user: session.user.email, marked: result.modifiedCount });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { unreadCount },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('notifications update error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to update notifications',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Order Cancellation API Route Handler
+ * Lets a customer see what cancelling one of their rental orders would refund, and cancel it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import RentalOrder from '@/models/RentalOrder';
+import RefundPolicy from '@/models/RefundPolicy';
+import { authOptions } from '@/lib/auth';
+import { cancelAndRefundOrder, quoteRefund } from '@/lib/refunds';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+async function findCustomerOrder(id: string, customerId: string) {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return RentalOrder.findOne({ _id: id, customerId, status: { $ne: 'quotation' } });
+}
+
+/**
+ * GET /api/orders/[id]/cancel
+ * Preview the refund the enduser's policy gives for cancelling now
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const order = await findCustomerOrder(params.id, session.user.id);
+    if (!order) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Order not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const policy = await RefundPolicy.forEndUser(order.endUserId);
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        cancellable: policy.allowCustomerCancellation && order.canTransitionTo('cancelled'),
+        quote: await quoteRefund(order),
+        tiers: policy.tiers,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('cancellation quote error', { error, orderId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load cancellation details',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/orders/[id]/cancel
+ * Cancel the order and refund it under the enduser's refund policy
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const order = await findCustomerOrder(params.id, session.user.id);
+    if (!order) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Order not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const policy = await RefundPolicy.forEndUser(order.endUserId);
+    if (!policy.allowCustomerCancellation) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'This rental can only be cancelled by contacting the vendor',
+      };
+
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await cancelAndRefundOrder(order, {
+      reason: typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : 'Cancelled by customer',
+      actor: { id: session.user.id, name: session.user.name || undefined },
+    });
+
+    if (result.error !== undefined) {
+      const response: ApiResponse = {
+        success: false,
+        error: result.error,
+      };
+
+      return NextResponse.json(response, { status: result.status });
+    }
+
+    logger.http('POST /api/orders/[id]/cancel', { user: session.user.email, orderId: params.id, refund: result.quote.amount });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { order: result.order, refund: result.refund, quote: result.quote },
+      message: result.refund
+        ? `Order cancelled. ₹${result.quote.amount} (${result.quote.percent}%) will be refunded.`
+        : 'Order cancelled. No refund is due under the cancellation policy.',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('order cancel error', { error, orderId: params.id });
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    if ((error as any)?.code === 11000) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'This order is already being cancelled',
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to cancel order',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,130 +1,87 @@
 /**
  * Order Completion API
- * Consumes inventory for purchased items, flips availability when stock is 0,
- * and optionally creates RentalOrder documents for each cart line.
+ * Creates one Order with a RentalOrder line for each cart line. Each line books its units for the
+ * rental dates; the fleet size is left alone and the availability engine works out what is free.
+ * The items, coupon, delivery method and address are read from the checkout session the payment was
+ * made for, never from the request; line prices are recomputed by the pricing engine.
+ * Orders are only placed once the Payment (razorpayOrderId) is captured and its amount matches the
+ * recomputed total, and are linked to it, unless the webhook already placed them.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
-import Product from '@/models/Product';
-import RentalOrder from '@/models/RentalOrder';
+import Payment from '@/models/Payment';
+import CheckoutSession from '@/models/CheckoutSession';
+import Order from '@/models/Order';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
-import mongoose from 'mongoose';
+import { placeCheckoutOrders } from '@/lib/payments';
 
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.user) {
       return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
     }
 
     await connectDB();
     const body = await req.json();
-    const items: Array<{ productId: string; quantity: number; startDate?: string; endDate?: string; durationUnit?: string; pricePerUnit?: number; totalPrice?: number; deliveryAddress?: any; endUserId?: string; }>
-      = Array.isArray(body?.items) ? body.items : [];
     const customer = body?.customer || {};
 
-
-
-    if (items.length === 0) {
-      return NextResponse.json({ success: false, error: 'No items' }, { status: 400 });
+    // Orders paid through Razorpay are placed once, by this call or by the webhook
+    if (!body?.razorpayOrderId) {
+      return NextResponse.json({ success: false, error: 'Payment required' }, { status: 400 });
+    }
+    const payment = await Payment.findOne({ razorpayOrderId: body.razorpayOrderId, customerId: session.user.id });
+    if (!payment) {
+      return NextResponse.json({ success: false, error: 'Payment not found' }, { status: 404 });
+    }
+    // A created Razorpay order is not money received: /api/payments/verify or the webhook marks it captured
+    if (payment.status !== 'captured') {
+      return NextResponse.json({ success: false, error: 'Payment has not been captured' }, { status: 409 });
+    }
+    const checkout = payment.checkoutSessionId
+      ? await CheckoutSession.findOne({ sessionId: payment.checkoutSessionId, userId: session.user.id })
+      : null;
+    if (!checkout) {
+      return NextResponse.json({ success: false, error: 'Checkout session not found' }, { status: 404 });
     }
 
-    // Dev-friendly stock deductions without MongoDB transactions (standalone MongoDB doesn't support them)
-    const updated: any[] = [];
-    const createdOrders: string[] = [];
-
-    try {
-      for (const it of items) {
-        const qty = Math.max(1, Number(it.quantity) || 1);
-        const product = await Product.findById(it.productId);
-        if (!product) {
-          throw new Error('Product not found');
-        }
-        if (product.quantityAvailable < qty) {
-          throw new Error(`Insufficient stock for ${product.name}`);
-        }
-
-        // Update inventory
-        product.quantityAvailable = product.quantityAvailable - qty;
-        if (product.quantityAvailable <= 0) {
-          product.quantityAvailable = 0;
-          product.availability = false;
-        }
-        await product.save();
-        updated.push({ productId: product._id.toString(), quantityAvailable: product.quantityAvailable, availability: product.availability });
-
-        // Create RentalOrder snapshot (non-blocking)
-        try {
-          // Ensure dates are in the future to avoid validation issues
-          const now = new Date();
-          const defaultStart = new Date(now.getTime() + 24*60*60*1000); // Tomorrow
-          const defaultEnd = new Date(now.getTime() + 48*60*60*1000); // Day after tomorrow
-          
-          const start = it.startDate ? new Date(it.startDate) : defaultStart;
-          const end = it.endDate ? new Date(it.endDate) : defaultEnd;
-          
-          // If start date is in the past, push it to tomorrow
-          if (start < now) {
-            start.setTime(defaultStart.getTime());
-          }
-          
-          // Ensure end date is after start date
-          if (end <= start) {
-            end.setTime(start.getTime() + 24*60*60*1000);
-          }
-
-          // Prefer product.endUserId from DB to avoid client-side type issues (e.g., "[object Object]")
-          const endUserIdFromProduct: any = (product as any).endUserId;
-          const phone = customer.phone || (it as any)?.deliveryAddress?.phone || '';
-
-          const orderData = {
-            productId: product._id,
-            customerId: new mongoose.Types.ObjectId(session.user.id),
-            endUserId: new mongoose.Types.ObjectId(endUserIdFromProduct), // Ensure proper ObjectId conversion
-            customerName: customer.name || session.user.name,
-            customerEmail: customer.email || session.user.email,
-            customerPhone: phone.trim() ? phone.trim() : undefined,
-            startDate: start,
-            endDate: end,
-            duration: 1,
-            durationUnit: (it.durationUnit || 'day') as any,
-            totalPrice: Number(it.totalPrice || it.pricePerUnit || 0),
-            status: 'confirmed',
-            paymentStatus: 'paid',
-            deliveryAddress: JSON.stringify((it as any)?.deliveryAddress || {}),
-          } as any;
+    if (!(await payment.claimOrderPlacement('browser'))) {
+      logger.http('POST /api/orders/complete (already placed)', { user: session.user.email, razorpayOrderId: body.razorpayOrderId });
+      const placed: any = await Order.findOne({ paymentId: payment._id }).select('orderNumber').lean();
+      return NextResponse.json({
+        success: true,
+        updated: [],
+        ordersCreated: payment.rentalOrderIds.length,
+        orderIds: payment.rentalOrderIds.map((id: any) => id.toString()),
+        orderId: placed?._id?.toString(),
+        orderNumber: placed?.orderNumber,
+      });
+    }
 
-          const rentalOrder = await RentalOrder.create([orderData]);
-          if (rentalOrder && rentalOrder[0]) {
-            createdOrders.push(rentalOrder[0]._id.toString());
-            console.log('✅ Order created successfully:', rentalOrder[0]._id.toString());
-          }
-        } catch (e) {
-          // continue even if order creation fails; stock change is primary
-          console.error('❌ Order creation failed for item:', {
-            error: (e as any)?.message,
-            itemData: it,
-            validationErrors: (e as any)?.errors,
-            productEndUserId: (product as any).endUserId
-          });
-          logger.error('rental order create failed on complete', {
-            error: (e as any)?.message,
-            sessionUserId: session.user.id,
-            itemData: it,
-            productEndUserId: (product as any).endUserId
-          });
-        }
-      }
+    const result = await placeCheckoutOrders(payment, checkout, 'browser', {
+      id: session.user.id,
+      name: customer.name || session.user.name,
+      email: customer.email || session.user.email,
+      phone: checkout.deliveryAddress?.phone || customer.phone,
+    });
 
-      logger.http('POST /api/orders/complete (no-tx)', { user: session.user.email, items: items.length, ordersCreated: createdOrders.length });
-      return NextResponse.json({ success: true, updated, ordersCreated: createdOrders.length, orderIds: createdOrders });
-    } catch (opErr) {
-      logger.error('order complete failed (no-tx)', { error: (opErr as any)?.message });
-      return NextResponse.json({ success: false, error: (opErr as any)?.message || 'Stock update failed' }, { status: 409 });
+    if (result.error !== undefined) {
+      // Nothing was placed, so the webhook or a retry may try again
+      return NextResponse.json({ success: false, error: result.error, expectedTotal: result.expectedTotal }, { status: result.status });
     }
+
+    logger.http('POST /api/orders/complete (no-tx)', { user: session.user.email, items: checkout.items.length, ordersCreated: result.orderIds.length, orderNumber: result.orderNumber });
+    return NextResponse.json({
+      success: true,
+      updated: result.updated,
+      ordersCreated: result.orderIds.length,
+      orderIds: result.orderIds,
+      orderId: result.orderId,
+      orderNumber: result.orderNumber,
+    });
   } catch (error) {
     logger.error('order complete exception', { error });
     return NextResponse.json({ success: false, error: 'Internal error' }, { status: 500 });
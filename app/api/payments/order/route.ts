@@ -1,6 +1,17 @@
+/**
+ * Payment Order API
+ * Creates a Razorpay order for the total of the customer's checkout session and the Payment record that links them
+ */
 import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
 import Razorpay from 'razorpay';
 import { v4 as uuidv4 } from 'uuid';
+import dbConnect from '@/lib/mongodb';
+import { authOptions } from '@/lib/auth';
+import Payment from '@/models/Payment';
+import CheckoutSession from '@/models/CheckoutSession';
+import { logger } from '@/lib/logger';
+import { totalsMatch } from '@/lib/pricing';
 
 const razorpay = new Razorpay({
   key_id: process.env.RAZORPAY_KEY_ID as string,
@@ -8,20 +19,53 @@ const razorpay = new Razorpay({
 });
 
 export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
   const body = await request.json();
-  const amount = body.amount;
+  const amount = Number(body.amount);
   if (!amount || amount <= 0) return NextResponse.json({ error: 'Invalid amount' }, { status: 400 });
   try {
+    await dbConnect();
+
+    // A checkout session is the price of record: every payment is for one, at its server-computed total
+    if (typeof body.sessionId !== 'string' || !body.sessionId) {
+      return NextResponse.json({ error: 'Checkout session required' }, { status: 400 });
+    }
+    const checkout = await CheckoutSession.findOne({ sessionId: body.sessionId, userId: session.user.id, status: 'active' });
+    if (!checkout) {
+      return NextResponse.json({ error: 'Checkout session not found or expired' }, { status: 404 });
+    }
+    if (!checkout.deliveryMethod) {
+      return NextResponse.json({ error: 'Choose pickup or delivery before paying' }, { status: 400 });
+    }
+    if (!totalsMatch(checkout.pricing.total, amount)) {
+      return NextResponse.json({ error: `Price mismatch: order total is ₹${checkout.pricing.total}`, expectedTotal: checkout.pricing.total }, { status: 409 });
+    }
+
     const options = {
-      amount: amount * 100, // amount in the smallest currency unit
+      amount: Math.round(amount * 100), // amount in the smallest currency unit
       currency: 'INR',
       receipt: `rcpt_${uuidv4().replace(/-/g, '')}`,
     };
-    console.log('Creating Razorpay order with options:', options);
     const order = await razorpay.orders.create(options);
+
+    // Webhooks find the customer and their cart through this record
+    await Payment.create({
+      razorpayOrderId: order.id,
+      amount,
+      currency: order.currency,
+      customerId: session.user.id,
+      customerEmail: session.user.email,
+      checkoutSessionId: body.sessionId,
+    });
+
+    logger.http('POST /api/payments/order', { user: session.user.email, razorpayOrderId: order.id, amount });
     return NextResponse.json(order);
   } catch (err: any) {
-    console.error('Razorpay order creation failed:', err);
+    logger.error('Razorpay order creation failed', { error: err?.message || err });
     return NextResponse.json({ error: 'Failed to create order', details: err.message || err }, { status: 500 });
   }
 }
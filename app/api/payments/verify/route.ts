@@ -1,26 +1,34 @@
+/**
+ * Payment Verification API
+ * Browser-side Razorpay callback: checks the checkout signature and marks the payment captured.
+ * The webhook applies the same change if the browser never gets here.
+ */
 import { NextResponse } from 'next/server';
-import crypto from 'crypto';
 import dbConnect from '@/lib/mongodb';
-import BookingModel from '@/models/Booking';
+import Payment from '@/models/Payment';
+import { logger } from '@/lib/logger';
+import { markPaymentCaptured, verifyPaymentSignature } from '@/lib/payments';
 
 export async function POST(request: Request) {
   const body = await request.json();
-  const { razorpay_order_id, razorpay_payment_id, razorpay_signature, bookingId } = body;
+  const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = body;
 
-  const generatedSignature = razorpay_order_id + '|' + razorpay_payment_id;
-
-  const expectedSignature = crypto
-    .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-    .update(generatedSignature.toString())
-    .digest('hex');
-
-  const isAuthentic = expectedSignature === razorpay_signature;
+  if (!razorpay_order_id || !razorpay_payment_id || !verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature)) {
+    logger.warn('razorpay verify signature mismatch', { razorpayOrderId: razorpay_order_id });
+    return NextResponse.json({ ok: false }, { status: 400 });
+  }
 
-  if (isAuthentic) {
+  try {
     await dbConnect();
-    await BookingModel.findByIdAndUpdate(bookingId, { status: 'confirmed', paymentId: razorpay_payment_id });
+    const payment = await Payment.findByRazorpayOrder(razorpay_order_id);
+    if (payment) {
+      await markPaymentCaptured(payment, razorpay_payment_id);
+    } else {
+      logger.warn('verified payment has no Payment record', { razorpayOrderId: razorpay_order_id });
+    }
     return NextResponse.json({ ok: true });
-  } else {
-    return NextResponse.json({ ok: false }, { status: 400 });
+  } catch (error) {
+    logger.error('payment verify error', { error: (error as any)?.message, razorpayOrderId: razorpay_order_id });
+    return NextResponse.json({ ok: false, error: 'Failed to record payment' }, { status: 500 });
   }
 }
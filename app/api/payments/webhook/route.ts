@@ -0,0 +1,48 @@
+/**
+ * Razorpay Webhook Receiver
+ * Verifies X-Razorpay-Signature against the raw body and applies payment.captured,
+ * payment.failed and refund.processed events. Redelivered events are acknowledged without effect.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { logger } from '@/lib/logger';
+import { handleRazorpayEvent, verifyWebhookSignature } from '@/lib/payments';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error('RAZORPAY_WEBHOOK_SECRET is not configured');
+    return NextResponse.json({ success: false, error: 'Webhook not configured' }, { status: 500 });
+  }
+
+  // The signature covers the exact bytes Razorpay sent, so read the body as text before parsing
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-razorpay-signature') || '';
+  if (!verifyWebhookSignature(rawBody, signature, secret)) {
+    logger.warn('razorpay webhook signature mismatch');
+    return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 400 });
+  }
+
+  let event: any;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
+  }
+
+  // Razorpay repeats the event ID on every redelivery of the same event
+  const entityId = event?.payload?.refund?.entity?.id || event?.payload?.payment?.entity?.id;
+  const eventId = request.headers.get('x-razorpay-event-id') || `${event?.event}:${entityId}`;
+
+  try {
+    await connectDB();
+    const result = await handleRazorpayEvent(event, eventId);
+
+    logger.http('POST /api/payments/webhook', { event: event?.event, eventId, result });
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    // A 5xx makes Razorpay retry the event later
+    logger.error('razorpay webhook error', { error: (error as any)?.message, event: event?.event, eventId });
+    return NextResponse.json({ success: false, error: 'Failed to process webhook' }, { status: 500 });
+  }
+}
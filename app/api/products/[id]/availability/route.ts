@@ -0,0 +1,94 @@
+/**
+ * Product Availability API Route Handler
+ * Units free for a rental window, and free units per slot for calendars
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import { logger } from '@/lib/logger';
+import { checkAvailability, getAvailabilitySlots, AvailabilitySlotSize } from '@/lib/availability';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/products/[id]/availability?startDate=&endDate=&quantity=&slot=day
+ * Returns whether the requested quantity is free for the window; with `slot`, also units free per slot
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const quantity = parseInt(searchParams.get('quantity') || '1', 10);
+    const slot = searchParams.get('slot') as AvailabilitySlotSize | null;
+
+    if (!startDate || !endDate) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'startDate and endDate are required',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'End date must be after start date',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const product = await Product.findById(params.id);
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const availability = await checkAvailability(product._id, start, end, { quantity, product });
+    const slots = slot && ['hour', 'day', 'week'].includes(slot)
+      ? await getAvailabilitySlots(product._id, start, end, slot)
+      : undefined;
+
+    logger.http('GET /api/products/[id]/availability', {
+      productId: params.id,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      quantity,
+      free: availability.free,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        ...availability,
+        // A product switched off by its owner is never bookable, whatever the calendar says
+        available: availability.available && product.availability,
+        slots,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error checking product availability', { error, productId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to check availability',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
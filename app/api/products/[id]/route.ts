@@ -8,6 +8,7 @@ import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Product from '@/models/Product';
 import { authOptions } from '@/lib/auth';
+import { getBookedUnits } from '@/lib/availability';
 import { logger } from '@/lib/logger';
 import { ApiResponse } from '@/types';
 
@@ -104,13 +105,49 @@ export async function PUT(
     }
 
     const body = await request.json();
+
+    // Stock changes go through the ledger instead of a direct overwrite
+    const { quantityAvailable, ...productUpdates } = body;
+
+    // Units booked by customers can't be taken out of the fleet
+    if (quantityAvailable !== undefined && parseInt(quantityAvailable) < existingProduct.quantityAvailable) {
+      const removing = existingProduct.quantityAvailable - parseInt(quantityAvailable);
+      const { capacity, booked } = await getBookedUnits(existingProduct._id, existingProduct);
+      if (capacity - removing < booked) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Cannot remove ${removing} units; ${booked} of the ${capacity} are booked by customers`,
+        };
+
+        return NextResponse.json(response, { status: 409 });
+      }
+    }
     
-    const product = await Product.findByIdAndUpdate(
+    let product = await Product.findByIdAndUpdate(
       params.id,
-      body,
+      productUpdates,
       { new: true, runValidators: true }
     );
 
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product not found',
+      };
+      
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    if (quantityAvailable !== undefined) {
+      const stockChange = parseInt(quantityAvailable) - product.quantityAvailable;
+      product = await product.adjustStock(stockChange, {
+        type: stockChange > 0 ? 'increase' : 'decrease',
+        reason: 'Stock edited on product form',
+        userId: session.user.id,
+        userName: session.user.name,
+      });
+    }
+
     logger.info('Product updated', {
       productId: params.id,
       name: product.name,
@@ -211,9 +248,6 @@ export async function PATCH(
     if (body.category !== undefined) {
       updateFields.category = body.category;
     }
-    if (body.quantityAvailable !== undefined) {
-      updateFields.quantityAvailable = parseInt(body.quantityAvailable);
-    }
     // Add price fields if provided
     if (body.pricePerHour !== undefined) {
       updateFields.pricePerHour = parseFloat(body.pricePerHour) || undefined;
@@ -230,13 +264,37 @@ export async function PATCH(
     if (body.pricePerYear !== undefined) {
       updateFields.pricePerYear = parseFloat(body.pricePerYear) || undefined;
     }
+    if (body.securityDeposit !== undefined) {
+      updateFields.securityDeposit = parseFloat(body.securityDeposit) || 0;
+    }
     
-    const product = await Product.findByIdAndUpdate(
+    let product = await Product.findByIdAndUpdate(
       params.id,
       updateFields,
       { new: true, runValidators: true }
     );
 
+    if (!product) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product not found',
+      };
+      
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    // Stock changes go through the ledger instead of a direct overwrite
+    if (body.quantityAvailable !== undefined) {
+      const stockChange = parseInt(body.quantityAvailable) - product.quantityAvailable;
+      product = await product.adjustStock(stockChange, {
+        type: stockChange > 0 ? 'increase' : 'decrease',
+        reason: 'Stock edited on product form',
+        userId: session.user.id,
+        userName: session.user.name,
+      });
+      updateFields.quantityAvailable = product.quantityAvailable;
+    }
+
     logger.info('Product updated', {
       productId: params.id,
       name: product?.name,
@@ -321,11 +379,11 @@ export async function DELETE(
       return NextResponse.json(response, { status: 403 });
     }
     
-    const product = await Product.findByIdAndDelete(params.id);
+    await Product.findByIdAndDelete(params.id);
 
     logger.info('Product deleted', {
       productId: params.id,
-      name: product.name,
+      name: existingProduct.name,
       deletedBy: session.user.email,
     });
 
@@ -0,0 +1,298 @@
+/**
+ * Product Stock API Route Handler
+ * Stock ledger, manual adjustments and min/max thresholds for a single product
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
+import { authOptions } from '@/lib/auth';
+import { checkAvailability, getBookedUnits } from '@/lib/availability';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * Load a product and make sure the session user owns it
+ */
+async function loadOwnedProduct(productId: string, userId: string) {
+  const product = await Product.findById(productId);
+  if (!product) {
+    return { error: NextResponse.json({ success: false, error: 'Product not found' } as ApiResponse, { status: 404 }) };
+  }
+  if (product.endUserId.toString() !== userId) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: 'Unauthorized. You can only manage stock for your own products.' } as ApiResponse,
+        { status: 403 }
+      ),
+    };
+  }
+  return { product };
+}
+
+/**
+ * Build the stock summary returned by every handler
+ */
+async function buildStockSummary(product: any, historyLimit: number) {
+  const now = new Date();
+  const [usage, history] = await Promise.all([
+    checkAvailability(product._id, now, new Date(now.getTime() + 60 * 1000), { product }),
+    StockMovement.findByProduct(product._id.toString(), historyLimit),
+  ]);
+  // Units out with customers or booked right now; the rest can be rented today
+  const capacity = usage.capacity;
+  const reservedStock = usage.reserved;
+
+  return {
+    productId: product._id.toString(),
+    productName: product.name,
+    currentStock: capacity,
+    reservedStock,
+    availableStock: usage.free,
+    minimumStock: product.minimumStock ?? 0,
+    maximumStock: product.maximumStock ?? 100,
+    lastUpdated: product.updatedAt,
+    stockHistory: history.map((m: any) => ({
+      date: m.createdAt,
+      action: m.type,
+      quantity: m.quantity,
+      balanceAfter: m.balanceAfter,
+      reason: m.reason,
+      updatedBy: m.performedByName,
+      rentalOrderId: m.rentalOrderId,
+    })),
+  };
+}
+
+/**
+ * GET /api/products/[id]/stock
+ * Current stock levels and movement history (owner only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Business owner access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { product, error } = await loadOwnedProduct(params.id, session.user.id);
+    if (error) return error;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 200);
+
+    const data = await buildStockSummary(product, limit);
+
+    logger.http('GET /api/products/[id]/stock', { productId: params.id, user: session.user.email });
+
+    const response: ApiResponse = {
+      success: true,
+      data,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching product stock', { error, productId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch product stock',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/products/[id]/stock
+ * Manually increase or decrease stock with a reason (owner only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Business owner access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { product, error } = await loadOwnedProduct(params.id, session.user.id);
+    if (error) return error;
+
+    const body = await request.json();
+    const { type, reason } = body;
+    const quantity = parseInt(body.quantity, 10);
+
+    if (type !== 'increase' && type !== 'decrease') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Adjustment type must be "increase" or "decrease"',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!quantity || quantity <= 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Quantity must be a positive number',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (type === 'decrease' && quantity > product.quantityAvailable) {
+      const response: ApiResponse = {
+        success: false,
+        error: `Cannot remove ${quantity} units; only ${product.quantityAvailable} available`,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    if (type === 'decrease') {
+      const { capacity, booked } = await getBookedUnits(product._id, product);
+      if (capacity - quantity < booked) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Cannot remove ${quantity} units; ${booked} of the ${capacity} are booked by customers`,
+        };
+
+        return NextResponse.json(response, { status: 409 });
+      }
+    }
+
+    await product.adjustStock(type === 'increase' ? quantity : -quantity, {
+      type,
+      reason: reason?.trim() || `Stock ${type}`,
+      userId: session.user.id,
+      userName: session.user.name,
+    });
+
+    const data = await buildStockSummary(product, 20);
+
+    logger.info('Product stock adjusted', {
+      productId: params.id,
+      type,
+      quantity,
+      updatedBy: session.user.email,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data,
+      message: 'Stock updated successfully',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error adjusting product stock', { error, productId: params.id });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to update stock',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/products/[id]/stock
+ * Update minimum/maximum stock thresholds (owner only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'enduser') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Business owner access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { product, error } = await loadOwnedProduct(params.id, session.user.id);
+    if (error) return error;
+
+    const body = await request.json();
+    if (body.minimumStock !== undefined) {
+      product.minimumStock = parseInt(body.minimumStock, 10);
+    }
+    if (body.maximumStock !== undefined) {
+      product.maximumStock = parseInt(body.maximumStock, 10);
+    }
+
+    await product.save();
+
+    const data = await buildStockSummary(product, 20);
+
+    logger.info('Product stock limits updated', {
+      productId: params.id,
+      minimumStock: product.minimumStock,
+      maximumStock: product.maximumStock,
+      updatedBy: session.user.email,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data,
+      message: 'Stock limits updated successfully',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error updating stock limits', { error, productId: params.id });
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to update stock limits',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import connectDB from '@/lib/mongodb';
 import Product from '@/models/Product';
+import StockMovement from '@/models/StockMovement';
 import { authOptions } from '@/lib/auth';
 import { logger } from '@/lib/logger';
 import { ApiResponse } from '@/types';
@@ -135,6 +136,7 @@ export async function POST(request: NextRequest) {
       pricePerWeek,
       pricePerMonth,
       pricePerYear,
+      securityDeposit,
       quantityAvailable,
       units,
       availability = true,
@@ -194,11 +196,27 @@ export async function POST(request: NextRequest) {
     if (pricePerYear && pricePerYear > 0) {
       productData.pricePerYear = parseFloat(pricePerYear);
     }
+    if (securityDeposit && securityDeposit > 0) {
+      productData.securityDeposit = parseFloat(securityDeposit);
+    }
 
     const product = new Product(productData);
 
     await product.save();
 
+    // Record the opening balance so the stock ledger adds up from day one
+    await StockMovement.create({
+      productId: product._id,
+      endUserId: product.endUserId,
+      type: 'increase',
+      quantity: product.quantityAvailable,
+      change: product.quantityAvailable,
+      balanceAfter: product.quantityAvailable,
+      reason: 'Initial stock',
+      performedBy: session.user.id,
+      performedByName: session.user.name,
+    });
+
     logger.info('New product created', {
       productId: product._id,
       name: product.name,
@@ -0,0 +1,136 @@
+/**
+ * Quotation Acceptance API Route Handler
+ * Lets a customer accept a quotation, which confirms the rental orders behind its lines
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Quotation from '@/models/Quotation';
+import RentalOrder from '@/models/RentalOrder';
+import { authOptions } from '@/lib/auth';
+import { checkAvailability } from '@/lib/availability';
+import { logger } from '@/lib/logger';
+import { notifyOrder } from '@/lib/notifications';
+import { notifyNewOrder } from '@/lib/inAppNotifications';
+import { ApiResponse } from '@/types';
+
+/**
+ * POST /api/quotations/[id]/accept
+ * Accept a sent quotation. Lines are confirmed one by one, so if one line is booked out for its dates
+ * the customer can retry later and only the remaining lines are confirmed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const quotation = mongoose.Types.ObjectId.isValid(params.id)
+      ? await Quotation.findOne({ _id: params.id, customerId: session.user.id, status: { $ne: 'draft' } })
+      : null;
+
+    if (!quotation) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Quotation not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    if (quotation.status !== 'sent') {
+      const response: ApiResponse = {
+        success: false,
+        error: `This quotation is ${quotation.status} and can no longer be accepted`,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const actor = { id: session.user.id, name: session.user.name };
+
+    if (quotation.validUntil < new Date()) {
+      await quotation.cancelOpenOrders(`${quotation.reference} expired`);
+      await quotation.updateStatus('expired', 'Accepted after expiry date');
+
+      const response: ApiResponse = {
+        success: false,
+        error: `This quotation expired on ${quotation.validUntil.toLocaleDateString()}`,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const pendingOrders = await RentalOrder.find({ quotationId: quotation._id, status: 'quotation' })
+      .populate<{ productId: { _id: mongoose.Types.ObjectId; name: string } }>('productId', 'name');
+
+    for (const order of pendingOrders) {
+      const productName = order.productId?.name || 'product';
+      const availability = await checkAvailability(order.productId._id, order.startDate, order.endDate, {
+        quantity: order.quantity,
+        excludeId: order._id.toString(),
+      });
+
+      if (!availability.available) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Only ${availability.free} unit(s) of ${productName} are available for the quoted dates`,
+        };
+
+        return NextResponse.json(response, { status: 409 });
+      }
+
+      await order.updateStatus('confirmed', `${quotation.reference} accepted by ${session.user.email}`, actor);
+      notifyOrder(order, 'order_confirmed');
+      await notifyNewOrder(order, productName);
+    }
+
+    await quotation.updateStatus('accepted', `Accepted by ${session.user.email}`);
+
+    logger.info('Quotation accepted', {
+      reference: quotation.reference,
+      customer: session.user.email,
+      orders: pendingOrders.length,
+      total: quotation.total,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: quotation,
+      message: 'Quotation accepted. Your rental orders are confirmed.',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error accepting quotation', { error, quotationId: params.id });
+
+    if (error instanceof Error && error.name === 'StatusTransitionError') {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to accept quotation',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
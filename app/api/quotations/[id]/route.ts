@@ -0,0 +1,71 @@
+/**
+ * Single Customer Quotation API Route Handler
+ * Read a quotation sent to the logged-in customer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Quotation from '@/models/Quotation';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/quotations/[id]
+ * Fetch a single quotation sent to the current customer
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const quotation = mongoose.Types.ObjectId.isValid(params.id)
+      ? await Quotation.findOne({ _id: params.id, customerId: session.user.id, status: { $ne: 'draft' } })
+        .populate('endUserId', 'name companyName email phone address')
+      : null;
+
+    if (!quotation) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Quotation not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    logger.http('GET /api/quotations/[id]', {
+      quotationId: params.id,
+      user: session.user.email,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: quotation,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching quotation', { error, quotationId: params.id });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch quotation',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Customer Quotations API Route Handler
+ * Quotations sent to the logged-in customer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import connectDB from '@/lib/mongodb';
+import Quotation from '@/models/Quotation';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * GET /api/quotations
+ * List quotations sent to the current customer (drafts stay private to the business)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const query: any = {
+      customerId: session.user.id,
+      status: { $ne: 'draft' },
+    };
+    if (status && status !== 'draft') {
+      query.status = status;
+    }
+
+    const quotations = await Quotation.find(query)
+      .populate('endUserId', 'name companyName email phone address')
+      .sort({ createdAt: -1 });
+
+    logger.http('GET /api/quotations', {
+      user: session.user.email,
+      count: quotations.length,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: quotations,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('Error fetching customer quotations', { error });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to fetch quotations',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
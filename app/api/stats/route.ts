@@ -80,10 +80,9 @@ export async function GET(request: NextRequest) {
         endDate: { $gte: new Date() }
       }),
 
-      // Late returns
+      // Late returns, as flagged by the late return job
       Booking.countDocuments({
-        status: 'confirmed',
-        endDate: { $lt: new Date() }
+        status: 'late'
       }),
 
       // Monthly revenue breakdown
@@ -183,7 +182,7 @@ export async function GET(request: NextRequest) {
       lateReturns,
       monthlyRevenue,
       popularProducts,
-      recentBookings: recentBookingsData,
+      recentBookings: recentBookingsData.map((booking) => booking.toJSON<DashboardStats['recentBookings'][number]>()),
     };
 
     logger.http('GET /api/stats', {
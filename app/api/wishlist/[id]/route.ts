@@ -0,0 +1,130 @@
+/**
+ * Wishlist Entry API Route Handler
+ * Alerts on or off for one saved product, or take it off the wishlist. `[id]` is the product ID.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Wishlist from '@/models/Wishlist';
+import Product from '@/models/Product';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+/**
+ * PATCH /api/wishlist/[id]
+ * Body: { alerts: boolean }. Turning alerts on watches from the product's current price and stock.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body?.alerts !== 'boolean') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'alerts must be true or false',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    await connectDB();
+
+    const entry = mongoose.Types.ObjectId.isValid(params.id)
+      ? await Wishlist.findOne({ customerId: session.user.id, productId: params.id })
+      : null;
+    if (!entry) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product is not on your wishlist',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    if (body.alerts && !entry.alerts) {
+      const product = await Product.findById(params.id).select('pricePerDay availability');
+      entry.watch(product);
+    }
+    entry.alerts = body.alerts;
+    await entry.save();
+
+    logger.http('PATCH /api/wishlist/[id]', { user: session.user.email, productId: params.id, alerts: body.alerts });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { productId: params.id, alerts: entry.alerts },
+      message: entry.alerts ? "We'll let you know about price drops and restocks" : 'Alerts turned off',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('wishlist update error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to update wishlist',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/wishlist/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid product ID',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    await connectDB();
+
+    await Wishlist.deleteOne({ customerId: session.user.id, productId: params.id });
+
+    logger.http('DELETE /api/wishlist/[id]', { user: session.user.email, productId: params.id });
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Removed from wishlist',
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('wishlist remove error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to remove from wishlist',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
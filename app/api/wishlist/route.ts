@@ -0,0 +1,166 @@
+/**
+ * Wishlist API Route Handler
+ * The logged-in customer's saved products
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Wishlist from '@/models/Wishlist';
+import Product from '@/models/Product';
+import { authOptions } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { ApiResponse } from '@/types';
+
+// More saved products than this in one request is not a real wishlist
+const MAX_IMPORT = 100;
+
+/**
+ * GET /api/wishlist
+ * Saved products, newest first, with their current details
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const entries = await Wishlist.find({ customerId: session.user.id })
+      .sort({ createdAt: -1 })
+      .populate('productId')
+      .lean();
+
+    // Products deleted by their owner drop off the wishlist
+    const gone = entries.filter((entry: any) => !entry.productId).map((entry: any) => entry._id);
+    if (gone.length > 0) {
+      await Wishlist.deleteMany({ _id: { $in: gone } });
+    }
+
+    const items = entries
+      .filter((entry: any) => entry.productId)
+      .map((entry: any) => ({
+        _id: entry._id,
+        productId: entry.productId._id,
+        alerts: entry.alerts,
+        addedAt: entry.createdAt,
+        product: entry.productId,
+      }));
+
+    const response: ApiResponse = {
+      success: true,
+      data: { items },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logger.error('wishlist error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to load wishlist',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/wishlist
+ * Save a product: { productId, alerts? }, or several at once: { productIds: [...] }
+ * (used to bring over a wishlist kept in the browser)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'customer') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Unauthorized. Customer access required.',
+      };
+
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    await connectDB();
+
+    const body = await request.json().catch(() => ({}));
+    const requested: string[] = (Array.isArray(body?.productIds) ? body.productIds : [body?.productId])
+      .slice(0, MAX_IMPORT)
+      .map((id: any) => String(id || ''));
+    const ids = Array.from(new Set(requested.filter((id) => mongoose.Types.ObjectId.isValid(id))));
+
+    if (ids.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Invalid product ID',
+      };
+
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const products = await Product.find({ _id: { $in: ids } }).select('name pricePerDay availability');
+    if (products.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Product not found',
+      };
+
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    let added = 0;
+    for (const product of products) {
+      const existing = await Wishlist.findOne({ customerId: session.user.id, productId: product._id });
+      if (existing) {
+        if (typeof body?.alerts === 'boolean' && existing.alerts !== body.alerts) {
+          existing.alerts = body.alerts;
+          existing.watch(product);
+          await existing.save();
+        }
+        continue;
+      }
+
+      const entry = new Wishlist({
+        customerId: session.user.id,
+        productId: product._id,
+        alerts: body?.alerts === true,
+      });
+      entry.watch(product);
+      try {
+        await entry.save();
+        added++;
+      } catch (error) {
+        // Saved from another tab in the meantime
+        if ((error as any)?.code !== 11000) throw error;
+      }
+    }
+
+    logger.http('POST /api/wishlist', { user: session.user.email, requested: ids.length, added });
+
+    const response: ApiResponse = {
+      success: true,
+      data: { added },
+      message: added > 0 ? 'Added to wishlist' : 'Already in wishlist',
+    };
+
+    return NextResponse.json(response, { status: added > 0 ? 201 : 200 });
+  } catch (error) {
+    logger.error('wishlist add error', { error: (error as any)?.message });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Failed to add to wishlist',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,10 +1,10 @@
 /**
  * Cart/Review Order Page
- * Shows cart items, allows quantity adjustment, and proceeds to checkout
+ * Shows the customer's server-side cart re-priced as of now, allows quantity and date changes, and proceeds to checkout
  */
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
@@ -14,22 +14,51 @@ import {
   Minus, 
   Heart, 
   Trash2, 
-  ChevronRight 
+  ChevronRight,
+  AlertTriangle
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { calculateCartTotals } from '@/lib/pricing';
+import { taxAfterDiscount, type LineTax } from '@/lib/tax';
+import { announceCartChange, CART_UPDATED_EVENT } from '@/lib/cartClient';
+import { saveToWishlist } from '@/lib/wishlistClient';
 
 interface CartItem {
+  _id: string;
   productId: string;
   name: string;
-  image: string;
+  image?: string;
   quantity: number;
   duration: string;
   fromDate: string;
   toDate: string;
-  pricePerUnit: number;
   totalPrice: number;
+  unitTotal: number; // price of one unit for the whole window
+  tax?: LineTax; // worked out by the server from the enduser's tax policy
+  securityDeposit: number; // refundable deposit per unit
   endUserId?: string; // Include endUserId for order tracking
-  pricePerDay?: number; // For backward compatibility with older cart items
+  pricePerDay?: number;
+  previousPrice?: number; // line total before the latest price change
+  available: boolean;
+  issue?: string; // why the line can't be checked out as it stands
+}
+
+// Ask the server what a coupon is worth for these items
+async function validateCoupon(code: string, items: CartItem[]) {
+  const response = await fetch('/api/coupons/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      code,
+      items: items.map((item) => ({
+        id: item.productId,
+        quantity: item.quantity,
+        fromDate: item.fromDate,
+        toDate: item.toDate,
+      })),
+    }),
+  });
+  return response.json();
 }
 
 export default function CartPage() {
@@ -39,7 +68,8 @@ export default function CartPage() {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [couponCode, setCouponCode] = useState('');
-  const [discount, setDiscount] = useState(0);
+  // lineDiscounts: the coupon's share of each cart line, in cart order; tax is charged on what is left
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; discount: number; lineDiscounts: number[] } | null>(null);
 
   // Redirect if not customer
   useEffect(() => {
@@ -49,43 +79,20 @@ export default function CartPage() {
     }
   }, [session, status, router]);
 
-  // Load cart from localStorage
-  useEffect(() => {
+  // Load the cart; the server re-prices every line and re-checks it against stock
+  const loadCart = useCallback(async () => {
     try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      setCartItems(cart);
-      
-      // Clean up old localStorage data to prevent quota issues
-      const cleanupOldData = () => {
-        try {
-          // Remove old checkout data that might be lingering
-          const checkoutDataStr = localStorage.getItem('checkoutData');
-          if (checkoutDataStr && checkoutDataStr.length > 50000) { // If > 50KB
-            localStorage.removeItem('checkoutData');
-            console.log('Cleaned up large checkout data');
-          }
-          
-          // Clean up old order data older than 7 days
-          const orderData = localStorage.getItem('orderData');
-          if (orderData) {
-            try {
-              const parsed = JSON.parse(orderData);
-              const orderDate = new Date(parsed.timestamp || 0);
-              const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-              if (orderDate < weekAgo) {
-                localStorage.removeItem('orderData');
-                console.log('Cleaned up old order data');
-              }
-            } catch {
-              localStorage.removeItem('orderData');
-            }
-          }
-        } catch (error) {
-          console.warn('Error during localStorage cleanup:', error);
-        }
-      };
-      
-      cleanupOldData();
+      const response = await fetch('/api/cart');
+      const result = await response.json();
+      if (result.success) {
+        const items: CartItem[] = result.data.items;
+        setCartItems(items);
+        items
+          .filter((item) => item.previousPrice !== undefined)
+          .forEach((item) => toast(`${item.name} now costs ₹${item.totalPrice.toFixed(2)} (was ₹${item.previousPrice!.toFixed(2)})`, { icon: 'ℹ️' }));
+      } else {
+        toast.error(result.error || 'Failed to load cart');
+      }
     } catch (error) {
       console.error('Error loading cart:', error);
     } finally {
@@ -93,49 +100,69 @@ export default function CartPage() {
     }
   }, []);
 
-  // Update cart in localStorage
-  const updateCart = (newCart: CartItem[]) => {
-    setCartItems(newCart);
-    localStorage.setItem('cart', JSON.stringify(newCart));
-    
-    // Dispatch custom event to update cart count in navbar
-    window.dispatchEvent(new Event('cartUpdated'));
+  useEffect(() => {
+    if (session?.user?.role !== 'customer') return;
+    loadCart();
+
+    // The navbar merges a pre-login cart after this page has loaded; pick those lines up too
+    window.addEventListener(CART_UPDATED_EVENT, loadCart);
+    return () => window.removeEventListener(CART_UPDATED_EVENT, loadCart);
+  }, [session?.user?.role, loadCart]);
+
+  // Apply a cart returned by the API
+  const applyCartResponse = (result: any) => {
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update cart');
+      return false;
+    }
+    setCartItems(result.data.items);
+    announceCartChange();
+    return true;
+  };
+
+  // Change one line's quantity or dates
+  const updateItem = async (item: CartItem, changes: { quantity?: number; fromDate?: string; toDate?: string }) => {
+    try {
+      const response = await fetch(`/api/cart/items/${item._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      applyCartResponse(await response.json());
+    } catch (error) {
+      console.error('Error updating cart:', error);
+      toast.error('Failed to update cart');
+    }
   };
 
   // Update quantity
-  const updateQuantity = (index: number, newQuantity: number) => {
+  const updateQuantity = (item: CartItem, newQuantity: number) => {
     if (newQuantity < 1) return;
-    
-    const updatedCart = [...cartItems];
-    updatedCart[index].quantity = newQuantity;
-    
-    // Recalculate total price based on available price information
-    if (updatedCart[index].pricePerUnit) {
-      updatedCart[index].totalPrice = updatedCart[index].pricePerUnit * newQuantity;
-    } else if (updatedCart[index].pricePerDay) {
-      updatedCart[index].totalPrice = updatedCart[index].pricePerDay * newQuantity;
-    }
-    
-    updateCart(updatedCart);
+    updateItem(item, { quantity: newQuantity });
   };
 
   // Remove item from cart
-  const removeItem = (index: number) => {
-    const updatedCart = cartItems.filter((_, i) => i !== index);
-    updateCart(updatedCart);
-    toast.success('Item removed from cart');
+  const removeItem = async (item: CartItem, notify: boolean = true) => {
+    try {
+      const response = await fetch(`/api/cart/items/${item._id}`, { method: 'DELETE' });
+      if (applyCartResponse(await response.json()) && notify) {
+        toast.success('Item removed from cart');
+      }
+    } catch (error) {
+      console.error('Error removing item:', error);
+      toast.error('Failed to remove item');
+    }
   };
 
   // Move to wishlist
-  const moveToWishlist = (index: number) => {
-    const item = cartItems[index];
+  const moveToWishlist = async (item: CartItem) => {
     try {
-      const wishlist = JSON.parse(localStorage.getItem('wishlist') || '[]');
-      if (!wishlist.includes(item.productId)) {
-        wishlist.push(item.productId);
-        localStorage.setItem('wishlist', JSON.stringify(wishlist));
+      const result = await saveToWishlist(item.productId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to move to wishlist');
+        return;
       }
-      removeItem(index);
+      await removeItem(item, false);
       toast.success('Moved to wishlist');
     } catch (error) {
       console.error('Error moving to wishlist:', error);
@@ -144,37 +171,60 @@ export default function CartPage() {
   };
 
   // Apply coupon
-  const applyCoupon = () => {
+  const applyCoupon = async () => {
     if (!couponCode.trim()) {
       toast.error('Please enter a coupon code');
       return;
     }
-    
-    // Mock coupon validation
-    const validCoupons: { [key: string]: number } = {
-      'SAVE10': 10,
-      'WELCOME20': 20,
-      'DISCOUNT15': 15
-    };
-    
-    const discountPercent = validCoupons[couponCode.toUpperCase()];
-    if (discountPercent) {
-      setDiscount(discountPercent);
-      toast.success(`Coupon applied! ${discountPercent}% discount`);
-    } else {
-      toast.error('Invalid coupon code');
+
+    try {
+      const result = await validateCoupon(couponCode.trim(), cartItems);
+      if (result.success) {
+        setAppliedCoupon({ code: result.data.code, discount: result.data.discount, lineDiscounts: result.data.lineDiscounts || [] });
+        toast.success(result.message || 'Coupon applied!');
+      } else {
+        setAppliedCoupon(null);
+        toast.error(result.error || 'Invalid coupon code');
+      }
+    } catch (error) {
+      console.error('Error validating coupon:', error);
+      toast.error('Failed to apply coupon');
     }
   };
 
-  // Calculate totals
-  const subtotal = cartItems.reduce((sum, item) => {
-    const itemPrice = item.totalPrice || (item.pricePerDay || 0) * (item.quantity || 1);
-    return sum + itemPrice;
-  }, 0);
-  const discountAmount = (subtotal * discount) / 100;
-  const deliveryCharge = 0; // Free delivery as shown in wireframe
-  const tax = Math.round(subtotal * 0.01); // 1% tax
-  const total = subtotal - discountAmount + deliveryCharge + tax;
+  // Re-check an applied coupon whenever the cart changes; the discount depends on the items
+  const appliedCode = appliedCoupon?.code;
+  useEffect(() => {
+    if (!appliedCode) return;
+    if (cartItems.length === 0) {
+      setAppliedCoupon(null);
+      return;
+    }
+
+    validateCoupon(appliedCode, cartItems)
+      .then((result) => {
+        if (result.success) {
+          const { code, discount, lineDiscounts = [] } = result.data;
+          // Left alone if the coupon was removed or replaced while this check was running
+          setAppliedCoupon((current) => (current && current.code === code ? { code, discount, lineDiscounts } : current));
+        } else {
+          setAppliedCoupon(null);
+          toast.error(result.error || 'Coupon removed');
+        }
+      })
+      .catch(() => setAppliedCoupon(null));
+  }, [cartItems, appliedCode]);
+
+  // Calculate totals without delivery, which depends on the address and is priced at checkout;
+  // checkout recomputes these on the server
+  const { subtotal, discount: discountAmount, deliveryCharge, tax, taxIncluded, deposit, total } = calculateCartTotals(
+    cartItems.map((item) => item.totalPrice),
+    cartItems.flatMap((item, index) => (item.tax ? [taxAfterDiscount(item.tax, appliedCoupon?.lineDiscounts[index] || 0)] : [])),
+    appliedCoupon?.discount || 0,
+    0,
+    cartItems.reduce((sum, item) => sum + item.securityDeposit * item.quantity, 0)
+  );
+  const hasIssues = cartItems.some((item) => !!item.issue);
 
   // Proceed to checkout
   const proceedToCheckout = async () => {
@@ -182,13 +232,18 @@ export default function CartPage() {
       toast.error('Your cart is empty');
       return;
     }
+
+    if (hasIssues) {
+      toast.error('Some items need attention before checkout');
+      return;
+    }
     
     // Prepare checkout data for database storage
     const checkoutData = {
       items: cartItems.map(item => ({
         id: item.productId,
         name: item.name,
-        pricePerDay: item.pricePerDay || item.pricePerUnit || 0,
+        pricePerDay: item.pricePerDay || 0,
         quantity: item.quantity,
         duration: item.duration,
         totalPrice: item.totalPrice,
@@ -202,9 +257,11 @@ export default function CartPage() {
         discount: discountAmount,
         deliveryCharge,
         tax,
+        taxIncluded,
+        deposit,
         total
       },
-      couponCode: discount > 0 ? couponCode : ''
+      couponCode: appliedCoupon?.code || ''
     };
     
     try {
@@ -227,7 +284,8 @@ export default function CartPage() {
       }
     } catch (error) {
       console.error('Failed to store checkout data:', error);
-      toast.error('Failed to proceed to checkout. Please try again.');
+      // Price mismatches come back from the server with the correct figure
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to proceed to checkout. Please try again.');
     }
   };
 
@@ -270,8 +328,8 @@ export default function CartPage() {
               <h2 className="text-2xl font-bold text-gray-900 mb-6">Order Overview</h2>
               
               <div className="space-y-6">
-                {cartItems.map((item, index) => (
-                  <div key={index} className="bg-white border border-gray-200 rounded-lg p-6">
+                {cartItems.map((item) => (
+                  <div key={item._id} className={`bg-white border rounded-lg p-6 ${item.issue ? 'border-red-300' : 'border-gray-200'}`}>
                     <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-4 sm:space-y-0 sm:space-x-6">
                       {/* Product Image */}
                       <div className="relative w-24 h-24 flex-shrink-0">
@@ -289,14 +347,36 @@ export default function CartPage() {
                           {item.name}
                         </h3>
                         <p className="text-primary-800 font-bold text-xl mb-2">
-                          ₹{item.totalPrice ? item.totalPrice.toFixed(2) : (item.pricePerDay || 0).toFixed(2)}
+                          ₹{item.totalPrice.toFixed(2)}
+                          {item.previousPrice !== undefined && (
+                            <span className="ml-2 text-sm font-normal text-gray-500 line-through">₹{item.previousPrice.toFixed(2)}</span>
+                          )}
                         </p>
                         <div className="text-sm text-gray-600 space-y-1">
-                          {item.duration && <p>Duration: {item.duration}</p>}
-                          {item.fromDate && item.toDate && <p>From: {item.fromDate} To: {item.toDate}</p>}
-                          {item.pricePerUnit && item.duration && <p>Rate: ₹{item.pricePerUnit}/{item.duration}</p>}
-                          {!item.duration && <p>Price: ₹{item.pricePerDay || 0}/day</p>}
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span>From</span>
+                            <input
+                              type="date"
+                              value={item.fromDate.slice(0, 10)}
+                              onChange={(e) => e.target.value && updateItem(item, { fromDate: e.target.value })}
+                              className="border border-gray-300 rounded px-2 py-1 text-sm"
+                            />
+                            <span>To</span>
+                            <input
+                              type="date"
+                              value={item.toDate.slice(0, 10)}
+                              onChange={(e) => e.target.value && updateItem(item, { toDate: e.target.value })}
+                              className="border border-gray-300 rounded px-2 py-1 text-sm"
+                            />
+                          </div>
+                          {item.quantity > 1 && <p>₹{item.unitTotal.toFixed(2)} per unit for these dates</p>}
                         </div>
+                        {item.issue && (
+                          <p className="mt-2 flex items-center text-sm text-red-600">
+                            <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+                            {item.issue}
+                          </p>
+                        )}
                       </div>
 
                       {/* Quantity Controls */}
@@ -304,7 +384,7 @@ export default function CartPage() {
                         <div className="flex items-center space-x-2">
                           <span className="text-sm text-gray-600">Qty</span>
                           <button
-                            onClick={() => updateQuantity(index, item.quantity - 1)}
+                            onClick={() => updateQuantity(item, item.quantity - 1)}
                             className="p-1 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
                           >
                             <Minus className="h-4 w-4" />
@@ -313,7 +393,7 @@ export default function CartPage() {
                             {item.quantity}
                           </span>
                           <button
-                            onClick={() => updateQuantity(index, item.quantity + 1)}
+                            onClick={() => updateQuantity(item, item.quantity + 1)}
                             className="p-1 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
                           >
                             <Plus className="h-4 w-4" />
@@ -323,14 +403,14 @@ export default function CartPage() {
                         {/* Action Buttons */}
                         <div className="flex space-x-2">
                           <button
-                            onClick={() => moveToWishlist(index)}
+                            onClick={() => moveToWishlist(item)}
                             className="p-2 text-gray-600 hover:text-primary-800 transition-colors"
                             title="Move to wishlist"
                           >
                             <Heart className="h-5 w-5" />
                           </button>
                           <button
-                            onClick={() => removeItem(index)}
+                            onClick={() => removeItem(item)}
                             className="p-2 text-gray-600 hover:text-red-600 transition-colors"
                             title="Remove item"
                           >
@@ -355,24 +435,29 @@ export default function CartPage() {
                     <span>₹{subtotal.toFixed(2)}</span>
                   </div>
                   
-                  {discount > 0 && (
+                  {appliedCoupon && (
                     <div className="flex justify-between text-green-600">
-                      <span>Discount ({discount}%)</span>
+                      <span>Discount ({appliedCoupon.code})</span>
                       <span>-₹{discountAmount.toFixed(2)}</span>
                     </div>
                   )}
                   
                   <div className="flex justify-between text-gray-600">
                     <span>Delivery Charge</span>
-                    <span className="text-green-600">
-                      {deliveryCharge === 0 ? 'Free' : `₹${deliveryCharge}`}
-                    </span>
+                    <span className="text-gray-500">Calculated at checkout</span>
                   </div>
                   
                   <div className="flex justify-between text-gray-600">
-                    <span>Taxes</span>
+                    <span>Taxes{taxIncluded > 0 ? ' (incl.)' : ''}</span>
                     <span>₹{tax}</span>
                   </div>
+
+                  {deposit > 0 && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Security Deposit (refundable)</span>
+                      <span>₹{deposit.toFixed(2)}</span>
+                    </div>
+                  )}
                   
                   <div className="border-t border-gray-200 pt-3">
                     <div className="flex justify-between text-lg font-bold text-gray-900">
@@ -405,9 +490,13 @@ export default function CartPage() {
                 </div>
 
                 {/* Proceed to Checkout */}
+                {hasIssues && (
+                  <p className="text-sm text-red-600 mb-3">Update or remove the highlighted items to continue.</p>
+                )}
                 <button
                   onClick={proceedToCheckout}
-                  className="w-full bg-primary-800 text-white py-3 rounded-md font-medium hover:bg-primary-700 transition-colors"
+                  disabled={hasIssues}
+                  className="w-full bg-primary-800 text-white py-3 rounded-md font-medium hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Proceed to checkout
                 </button>
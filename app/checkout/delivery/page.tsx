@@ -1,6 +1,7 @@
 /**
  * Delivery Address Page
- * Collects delivery and billing address information
+ * Collects delivery and billing address information and offers the pickup and delivery options
+ * the sellers have for the address, priced on the server
  */
 'use client';
 
@@ -30,43 +31,89 @@ interface CheckoutData {
     discount: number;
     deliveryCharge: number;
     tax: number;
+    taxIncluded?: number;
+    taxLines?: { label: string; rate: number; amount: number }[];
+    deposit?: number;
     total: number;
   };
   couponCode: string;
   bookingId: string;
+  deliveryMethod?: DeliveryMethod;
 }
 
+interface AddressForm {
+  name: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  pincode: string;
+  landmark: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+interface DeliveryOption {
+  method: DeliveryMethod;
+  available: boolean;
+  charge: number;
+  reason?: string;
+  pickupAddresses?: string[];
+}
+
+type DeliveryMethod = 'pickup' | 'delivery';
+
+const METHOD_NAMES: Record<DeliveryMethod, string> = {
+  pickup: 'Store Pickup',
+  delivery: 'Home Delivery',
+};
+
+const emptyAddress = (name: string = ''): AddressForm => ({
+  name,
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  pincode: '',
+  landmark: ''
+});
+
+// Saved addresses keep the pincode as zipCode
+const toAddressForm = (saved: any): AddressForm => ({
+  ...emptyAddress(),
+  ...saved,
+  pincode: saved.pincode || saved.zipCode || '',
+  landmark: saved.landmark || '',
+});
+
+// Tax already inside tax-inclusive prices is part of the subtotal, so only the rest is added
+const orderTotal = (pricing: CheckoutData['pricing'], deliveryCharge: number) =>
+  pricing.subtotal - pricing.discount + deliveryCharge + pricing.tax - (pricing.taxIncluded || 0) + (pricing.deposit || 0);
+
 export default function DeliveryPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   
   const [checkoutData, setCheckoutData] = useState<CheckoutData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [deliveryAddress, setDeliveryAddress] = useState({
-    name: '',
-    phone: '',
-    address: '',
-    city: '',
-    state: '',
-    pincode: '',
-    landmark: ''
-  });
-  const [billingAddress, setBillingAddress] = useState({
-    name: '',
-    phone: '',
-    address: '',
-    city: '',
-    state: '',
-    pincode: '',
-    landmark: ''
-  });
+  const [deliveryAddress, setDeliveryAddress] = useState<AddressForm>(emptyAddress());
+  const [billingAddress, setBillingAddress] = useState<AddressForm>(emptyAddress());
   const [sameAsDelivery, setSameAsDelivery] = useState(true);
   const [selectedDeliveryMethod, setSelectedDeliveryMethod] = useState('');
-  const [deliveryMethods] = useState([
-    { id: 'standard', name: 'Standard Delivery', time: '3-5 days', price: 0 },
-    { id: 'express', name: 'Express Delivery', time: '1-2 days', price: 50 },
-    { id: 'same-day', name: 'Same Day Delivery', time: 'Same day', price: 100 }
-  ]);
+  const [deliveryOptions, setDeliveryOptions] = useState<DeliveryOption[]>([]);
+  const [checkingDelivery, setCheckingDelivery] = useState(false);
+
+  const deliveryMethods = deliveryOptions.map((option) => ({
+    id: option.method,
+    name: METHOD_NAMES[option.method],
+    price: option.charge,
+    available: option.available,
+    time: !option.available
+      ? option.reason || 'Not available'
+      : option.method === 'pickup'
+        ? option.pickupAddresses?.length ? `Collect from ${option.pickupAddresses.join('; ')}` : 'Collect from the store'
+        : 'Delivered to your address',
+  }));
 
   // Redirect if not customer
   useEffect(() => {
@@ -95,33 +142,19 @@ export default function DeliveryPage() {
           
           // Pre-fill with saved address data or user data
           if (result.data.deliveryAddress) {
-            setDeliveryAddress(result.data.deliveryAddress);
+            setDeliveryAddress(toAddressForm(result.data.deliveryAddress));
           } else if (session?.user) {
-            const userData = {
-              name: session.user.name || '',
-              phone: '',
-              address: '',
-              city: '',
-              state: '',
-              pincode: '',
-              landmark: ''
-            };
-            setDeliveryAddress(userData);
+            setDeliveryAddress(emptyAddress(session.user.name || ''));
           }
           
           if (result.data.billingAddress) {
-            setBillingAddress(result.data.billingAddress);
+            setBillingAddress(toAddressForm(result.data.billingAddress));
           } else if (session?.user) {
-            const userData = {
-              name: session.user.name || '',
-              phone: '',
-              address: '',
-              city: '',
-              state: '',
-              pincode: '',
-              landmark: ''
-            };
-            setBillingAddress(userData);
+            setBillingAddress(emptyAddress(session.user.name || ''));
+          }
+
+          if (result.data.deliveryMethod) {
+            setSelectedDeliveryMethod(result.data.deliveryMethod);
           }
         } else {
           throw new Error(result.error || 'Failed to load checkout data');
@@ -140,6 +173,61 @@ export default function DeliveryPage() {
     }
   }, [session, router]);
 
+  // The sellers' pickup and delivery options for the address, priced on the server
+  useEffect(() => {
+    if (!checkoutData) return;
+    const sessionId = localStorage.getItem('checkoutSessionId');
+    if (!sessionId) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setCheckingDelivery(true);
+        const response = await fetch('/api/checkout/delivery', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sessionId,
+            deliveryAddress: {
+              pincode: deliveryAddress.pincode,
+              latitude: deliveryAddress.latitude,
+              longitude: deliveryAddress.longitude,
+            },
+          }),
+        });
+        const result = await response.json();
+        if (result.success) {
+          const options: DeliveryOption[] = result.data.options;
+          setDeliveryOptions(options);
+          setSelectedDeliveryMethod((current) =>
+            options.some((option) => option.method === current && option.available) ? current : ''
+          );
+        }
+      } catch (error) {
+        console.error('Error loading delivery options:', error);
+      } finally {
+        setCheckingDelivery(false);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [checkoutData, deliveryAddress.pincode, deliveryAddress.latitude, deliveryAddress.longitude]);
+
+  // Delivery charged by distance needs the customer's location
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available in this browser');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => setDeliveryAddress((current) => ({
+        ...current,
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      })),
+      () => toast.error('Could not get your location')
+    );
+  };
+
   // Handle same as delivery toggle
   useEffect(() => {
     if (sameAsDelivery) {
@@ -149,10 +237,10 @@ export default function DeliveryPage() {
 
   // Validate form
   const validateForm = () => {
-    const requiredFields = ['name', 'phone', 'address', 'city', 'state', 'pincode'];
+    const requiredFields = ['name', 'phone', 'address', 'city', 'state', 'pincode'] as const;
     
     for (const field of requiredFields) {
-      if (!deliveryAddress[field as keyof typeof deliveryAddress].trim()) {
+      if (!deliveryAddress[field].trim()) {
         toast.error(`Please fill in ${field.replace(/([A-Z])/g, ' $1').toLowerCase()}`);
         return false;
       }
@@ -160,7 +248,7 @@ export default function DeliveryPage() {
     
     if (!sameAsDelivery) {
       for (const field of requiredFields) {
-        if (!billingAddress[field as keyof typeof billingAddress].trim()) {
+        if (!billingAddress[field].trim()) {
           toast.error(`Please fill in billing ${field.replace(/([A-Z])/g, ' $1').toLowerCase()}`);
           return false;
         }
@@ -172,26 +260,55 @@ export default function DeliveryPage() {
       return false;
     }
     
+    const method = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
+    if (!method?.available) {
+      toast.error(method?.time || 'The selected delivery method is not available');
+      return false;
+    }
+    
     return true;
   };
 
+  // Save the addresses and delivery method; the server prices the delivery and splits the tax
+  // for the delivery state, and returns the pricing to pay
+  const saveDelivery = async () => {
+    const sessionId = localStorage.getItem('checkoutSessionId');
+    if (!sessionId) {
+      throw new Error('Checkout session not found');
+    }
+
+    const saveResponse = await fetch('/api/checkout/session', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId,
+        deliveryAddress,
+        billingAddress: sameAsDelivery ? deliveryAddress : billingAddress,
+        deliveryMethod: selectedDeliveryMethod
+      })
+    });
+    const saved = await saveResponse.json();
+    if (!saveResponse.ok) {
+      throw new Error(saved.error || 'Failed to save addresses');
+    }
+    return saved.data?.pricing || checkoutData!.pricing;
+  };
+
   const handleCheckout = async () => {
     if (!checkoutData) {
       toast.error('Order details not loaded yet.');
       return;
     }
+    if (!validateForm()) return;
 
     try {
-      const selectedMethod = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
-      const updatedPricing = {
-        ...checkoutData.pricing,
-        deliveryCharge: selectedMethod?.price || 0,
-        total: checkoutData.pricing.subtotal - checkoutData.pricing.discount + (selectedMethod?.price || 0) + checkoutData.pricing.tax
-      };
+      const pricing = await saveDelivery();
+      const method = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
+      const selectedMethod = method && { id: method.id, name: method.name, price: pricing.deliveryCharge };
       
       const orderData = {
         ...checkoutData,
-        pricing: updatedPricing,
+        pricing,
         addresses: {
           delivery: deliveryAddress,
           billing: sameAsDelivery ? deliveryAddress : billingAddress
@@ -199,7 +316,10 @@ export default function DeliveryPage() {
         deliveryMethod: selectedMethod
       };
 
-      const orderRes = await axios.post('/api/payments/order', { amount: orderData.pricing.total });
+      const orderRes = await axios.post('/api/payments/order', {
+        amount: orderData.pricing.total,
+        sessionId: localStorage.getItem('checkoutSessionId'),
+      });
       const order = orderRes.data;
       const options: any = {
         key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
@@ -225,11 +345,7 @@ export default function DeliveryPage() {
               deliveryAddress: deliveryAddress,
               billingAddress: sameAsDelivery ? deliveryAddress : billingAddress,
               items: checkoutData.items,
-              pricing: {
-                ...checkoutData.pricing,
-                deliveryCharge: selectedMethod?.price || 0,
-                total: checkoutData.pricing.subtotal - checkoutData.pricing.discount + (selectedMethod?.price || 0) + checkoutData.pricing.tax
-              },
+              pricing,
               paymentMethod: 'Razorpay',
               deliveryMethod: selectedMethod,
             } as any;
@@ -237,8 +353,10 @@ export default function DeliveryPage() {
             try {
               localStorage.setItem('orderData', JSON.stringify(completeOrderData));
               // Consume inventory on server
-              await axios.post('/api/orders/complete', {
+              const completed = await axios.post('/api/orders/complete', {
                 customer: { name: session?.user?.name, email: session?.user?.email },
+                couponCode: checkoutData.couponCode || undefined,
+                razorpayOrderId: response.razorpay_order_id,
                 items: (checkoutData.items || []).map((it: any) => ({
                   productId: it.id || it.productId, // Handle both new and legacy format
                   quantity: it.quantity || 1,
@@ -251,7 +369,11 @@ export default function DeliveryPage() {
                   deliveryAddress: deliveryAddress,
                 })),
               });
-              localStorage.removeItem('cart');
+              // The success page shows the order number the server gave the order
+              if (completed.data?.orderNumber) {
+                completeOrderData.orderNumber = completed.data.orderNumber;
+                localStorage.setItem('orderData', JSON.stringify(completeOrderData));
+              }
               localStorage.removeItem('checkoutSessionId');
               window.dispatchEvent(new Event('cartUpdated'));
             } catch (error) {
@@ -289,27 +411,13 @@ export default function DeliveryPage() {
         return;
       }
 
-      // Save addresses to database
-      await fetch('/api/checkout/session', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId,
-          deliveryAddress,
-          billingAddress: sameAsDelivery ? deliveryAddress : billingAddress
-        })
-      });
-
-      const selectedMethod = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
-      const updatedPricing = {
-        ...checkoutData.pricing,
-        deliveryCharge: selectedMethod?.price || 0,
-        total: checkoutData.pricing.subtotal - checkoutData.pricing.discount + (selectedMethod?.price || 0) + checkoutData.pricing.tax
-      };
+      const pricing = await saveDelivery();
+      const method = deliveryMethods.find(m => m.id === selectedDeliveryMethod);
+      const selectedMethod = method && { id: method.id, name: method.name, price: pricing.deliveryCharge };
       
       const orderData = {
         ...checkoutData,
-        pricing: updatedPricing,
+        pricing,
         addresses: {
           delivery: deliveryAddress,
           billing: sameAsDelivery ? deliveryAddress : billingAddress
@@ -320,9 +428,9 @@ export default function DeliveryPage() {
       
       localStorage.setItem('orderData', JSON.stringify(orderData));
       router.push('/checkout/payment');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving addresses:', error);
-      toast.error('Failed to save addresses. Please try again.');
+      toast.error(error.message || 'Failed to save addresses. Please try again.');
     }
   };
 
@@ -469,6 +577,21 @@ export default function DeliveryPage() {
                   placeholder="Nearby landmark"
                 />
               </div>
+
+              <div className="mt-4 flex items-center justify-between text-sm">
+                <span className="text-gray-600">
+                  {deliveryAddress.latitude !== undefined && deliveryAddress.longitude !== undefined
+                    ? `Location: ${deliveryAddress.latitude.toFixed(4)}, ${deliveryAddress.longitude.toFixed(4)}`
+                    : 'Some stores charge delivery by distance'}
+                </span>
+                <button
+                  type="button"
+                  onClick={useCurrentLocation}
+                  className="text-primary-800 font-medium hover:underline"
+                >
+                  Use my current location
+                </button>
+              </div>
             </div>
 
             {/* Billing Address */}
@@ -578,13 +701,22 @@ export default function DeliveryPage() {
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Choose Delivery Method</h3>
               
               <div className="space-y-3">
+                {checkingDelivery && deliveryMethods.length === 0 && (
+                  <p className="text-sm text-gray-500">Checking delivery options...</p>
+                )}
                 {deliveryMethods.map((method) => (
-                  <label key={method.id} className="flex items-center space-x-3 p-3 border border-gray-200 rounded-md hover:bg-gray-50 cursor-pointer">
+                  <label
+                    key={method.id}
+                    className={`flex items-center space-x-3 p-3 border border-gray-200 rounded-md ${
+                      method.available ? 'hover:bg-gray-50 cursor-pointer' : 'opacity-60 cursor-not-allowed'
+                    }`}
+                  >
                     <input
                       type="radio"
                       name="deliveryMethod"
                       value={method.id}
                       checked={selectedDeliveryMethod === method.id}
+                      disabled={!method.available}
                       onChange={(e) => setSelectedDeliveryMethod(e.target.value)}
                       className="text-primary-800 focus:ring-primary-500"
                     />
@@ -592,7 +724,7 @@ export default function DeliveryPage() {
                       <div className="flex justify-between items-center">
                         <span className="font-medium text-gray-900">{method.name}</span>
                         <span className="text-primary-800 font-semibold">
-                          {method.price === 0 ? '₹0' : `₹${method.price}`}
+                          {method.available ? `₹${method.price}` : 'Unavailable'}
                         </span>
                       </div>
                       <p className="text-sm text-gray-600">{method.time}</p>
@@ -628,15 +760,29 @@ export default function DeliveryPage() {
                   <span>₹{checkoutData.pricing.subtotal.toFixed(2)}</span>
                 </div>
                 
+                {selectedDeliveryMethod && (
+                  <div className="flex justify-between text-red-600">
+                    <span>Delivery</span>
+                    <span>₹{(deliveryMethods.find(m => m.id === selectedDeliveryMethod)?.price || 0).toFixed(2)}</span>
+                  </div>
+                )}
+
                 <div className="flex justify-between text-red-600">
-                  <span>Taxes</span>
+                  <span>Taxes{(checkoutData.pricing.taxIncluded || 0) > 0 ? ' (incl.)' : ''}</span>
                   <span>₹{checkoutData.pricing.tax}</span>
                 </div>
+
+                {(checkoutData.pricing.deposit || 0) > 0 && (
+                  <div className="flex justify-between text-red-600">
+                    <span>Security Deposit (refundable)</span>
+                    <span>₹{(checkoutData.pricing.deposit || 0).toFixed(2)}</span>
+                  </div>
+                )}
                 
                 <div className="border-t border-gray-200 pt-3">
                   <div className="flex justify-between text-lg font-bold text-red-600">
                     <span>Total</span>
-                    <span>₹{(checkoutData.pricing.subtotal + checkoutData.pricing.tax + (deliveryMethods.find(m => m.id === selectedDeliveryMethod)?.price || 0)).toFixed(2)}</span>
+                    <span>₹{orderTotal(checkoutData.pricing, deliveryMethods.find(m => m.id === selectedDeliveryMethod)?.price || 0).toFixed(2)}</span>
                   </div>
                 </div>
               </div>
@@ -36,6 +36,9 @@ interface OrderData {
     discount: number;
     deliveryCharge: number;
     tax: number;
+    taxIncluded?: number;
+    taxLines?: { label: string; rate: number; amount: number }[];
+    deposit?: number;
     total: number;
   };
   couponCode: string;
@@ -63,6 +66,8 @@ export default function PaymentPage() {
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState('credit-card');
   const [processing, setProcessing] = useState(false);
   const [showMobileCheckout, setShowMobileCheckout] = useState(false);
+  // Set when the payment went through but the order could not be placed
+  const [placementFailure, setPlacementFailure] = useState<{ error: string; paymentId: string } | null>(null);
   
   // Payment form states
   const [cardDetails, setCardDetails] = useState({
@@ -197,7 +202,8 @@ export default function PaymentPage() {
     return true;
   };
 
-  // Process payment
+  // Process payment: cards, UPI and wallets are all taken through Razorpay Checkout, since orders
+  // are only placed against a payment the gateway captured
   const processPayment = async () => {
     if (!validatePaymentForm()) return;
     if (!orderData) {
@@ -206,76 +212,9 @@ export default function PaymentPage() {
     }
     
     setProcessing(true);
-    
+    setPlacementFailure(null);
     try {
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Create order in database (mock)
-      const orderPayload = {
-        items: orderData.items,
-        addresses: orderData.addresses,
-        deliveryMethod: orderData.deliveryMethod,
-        paymentMethod: selectedPaymentMethod,
-        pricing: orderData.pricing,
-        status: 'confirmed'
-      };
-      
-      // Save order data for invoice generation
-      const completeOrderData = {
-        orderNumber: `ORD-${Date.now().toString().slice(-6)}`,
-        orderDate: new Date().toLocaleDateString(),
-        customerPhone: orderData.addresses?.delivery?.phone || '',
-        deliveryAddress: orderData.addresses?.delivery || {},
-        billingAddress: orderData.addresses?.billing || orderData.addresses?.delivery || {},
-        items: orderData.items || [],
-        pricing: orderData.pricing || {},
-        paymentMethod: selectedPaymentMethod,
-        deliveryMethod: orderData.deliveryMethod || 'Standard Delivery'
-      };
-      
-      localStorage.setItem('orderData', JSON.stringify(completeOrderData));
-      // Consume inventory and create orders on server so stock/availability updates and dashboards populate
-      try {
-        const resp = await fetch('/api/orders/complete', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            customer: { name: session?.user?.name, email: session?.user?.email },
-            items: (orderData.items || []).map((it: any) => ({
-              productId: it.id || it.productId, // Handle both new and legacy format
-              quantity: it.quantity || 1,
-              startDate: it.fromDate,
-              endDate: it.toDate,
-              durationUnit: it.duration,
-              pricePerUnit: it.pricePerDay || it.pricePerUnit, // Handle new format
-              totalPrice: it.totalPrice,
-              endUserId: it.endUserId,
-              deliveryAddress: orderData?.addresses?.delivery,
-            })),
-          }),
-        });
-        if (!resp.ok) {
-          const err = await resp.json().catch(()=>({error:'Inventory error'}));
-          toast.error(err.error || 'Inventory update failed');
-        }
-      } catch {}
-      
-      // Clear cart and checkout data
-      localStorage.removeItem('cart');
-      localStorage.removeItem('checkoutData');
-      // Broadcast cart update so Navbar badge refreshes immediately in this tab
-      try {
-        window.dispatchEvent(new Event('cartUpdated'));
-      } catch (_) {
-        // no-op
-      }
-      
-      toast.success('Payment successful! Order confirmed');
-      router.push('/orders/success');
-    } catch (error) {
-      console.error('Payment error:', error);
-      toast.error('Payment failed. Please try again.');
+      await makeRazorpayPayment();
     } finally {
       setProcessing(false);
     }
@@ -292,7 +231,10 @@ export default function PaymentPage() {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ amount: orderData.pricing.total }),
+      body: JSON.stringify({
+        amount: orderData.pricing.total,
+        sessionId: localStorage.getItem('checkoutSessionId'),
+      }),
     });
 
     const order = await res.json();
@@ -334,35 +276,35 @@ export default function PaymentPage() {
             deliveryMethod: orderData.deliveryMethod || 'Standard Delivery',
           };
 
+          // Orders are placed from the checkout session the payment was made for
+          let placed: any = null;
+          let placementError = '';
           try {
-            localStorage.setItem('orderData', JSON.stringify(completeOrderData));
-            // Consume inventory and create orders (same as card flow)
-            try {
-              const resp = await fetch('/api/orders/complete', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  customer: { name: session?.user?.name, email: session?.user?.email },
-                  items: (orderData.items || []).map((it: any) => ({
-                    productId: it.id || it.productId, // Handle both new and legacy format
-                    quantity: it.quantity || 1,
-                    startDate: it.fromDate,
-                    endDate: it.toDate,
-                    durationUnit: it.duration,
-                    pricePerUnit: it.pricePerDay || it.pricePerUnit, // Handle new format
-                    totalPrice: it.totalPrice,
-                    endUserId: it.endUserId,
-                    deliveryAddress: orderData?.addresses?.delivery,
-                  })),
-                }),
-              });
-              if (!resp.ok) {
-                // Surface inventory issues to the user
-                const err = await resp.json().catch(()=>({error:'Inventory error'}));
-                toast.error(err.error || 'Inventory update failed');
-              }
-            } catch {}
-            localStorage.removeItem('cart');
+            const resp = await fetch('/api/orders/complete', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                customer: { name: session?.user?.name, email: session?.user?.email },
+                razorpayOrderId: response.razorpay_order_id,
+              }),
+            });
+            placed = await resp.json().catch(() => null);
+            if (!resp.ok || !placed?.success) {
+              placementError = placed?.error || 'Your order could not be placed';
+            }
+          } catch {
+            placementError = 'Your order could not be placed';
+          }
+
+          if (placementError) {
+            // The money was taken, so the customer needs the reference to follow it up with support
+            setPlacementFailure({ error: placementError, paymentId: response.razorpay_payment_id });
+            toast.error(placementError);
+            return;
+          }
+
+          try {
+            localStorage.setItem('orderData', JSON.stringify({ ...completeOrderData, orderNumber: placed?.orderNumber || completeOrderData.orderNumber }));
             localStorage.removeItem('checkoutData');
             window.dispatchEvent(new Event('cartUpdated'));
           } catch {}
@@ -430,6 +372,17 @@ export default function PaymentPage() {
           <div className="lg:col-span-2">
             <div className="bg-white border border-gray-200 rounded-lg p-6">
               <h2 className="text-xl font-bold text-red-600 mb-6">Confirm Order</h2>
+
+              {placementFailure && (
+                <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                  <p className="font-semibold">Your payment was received but the order could not be placed.</p>
+                  <p className="mt-1">{placementFailure.error}</p>
+                  <p className="mt-1">
+                    Payment reference: <span className="font-mono">{placementFailure.paymentId}</span>. Please contact support with
+                    this reference.
+                  </p>
+                </div>
+              )}
               
               {/* Payment Method Selection */}
               <div className="mb-6">
@@ -598,9 +551,22 @@ export default function PaymentPage() {
                 </div>
                 
                 <div className="flex justify-between text-red-600">
-                  <span>Taxes</span>
+                  <span>Taxes{(orderData.pricing.taxIncluded || 0) > 0 ? ' (incl.)' : ''}</span>
                   <span>₹{orderData.pricing.tax}</span>
                 </div>
+                {(orderData.pricing.taxLines || []).map((taxLine) => (
+                  <div key={`${taxLine.label}-${taxLine.rate}`} className="flex justify-between text-xs text-gray-500 pl-3">
+                    <span>{taxLine.label} @ {taxLine.rate}%</span>
+                    <span>₹{taxLine.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+
+                {(orderData.pricing.deposit || 0) > 0 && (
+                  <div className="flex justify-between text-red-600">
+                    <span>Security Deposit (refundable)</span>
+                    <span>₹{(orderData.pricing.deposit || 0).toFixed(2)}</span>
+                  </div>
+                )}
                 
                 <div className="border-t border-gray-200 pt-3">
                   <div className="flex justify-between text-lg font-bold text-red-600">
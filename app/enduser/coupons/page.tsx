@@ -0,0 +1,453 @@
+/**
+ * End User Coupons Page
+ * Create and manage promotion codes for the enduser's products
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Search, Plus, Tag, Trash2, Power, X } from 'lucide-react';
+
+const CATEGORIES = ['Photography', 'Tools', 'Sports', 'Electronics', 'Furniture', 'Equipment', 'Vehicles', 'Other'];
+
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: string;
+  maxDiscount: string;
+  minOrderValue: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  validFrom: string;
+  validUntil: string;
+  productIds: string[];
+  categories: string[];
+}
+
+const emptyForm = (): CouponForm => ({
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  discountValue: '',
+  maxDiscount: '',
+  minOrderValue: '',
+  usageLimit: '',
+  perCustomerLimit: '1',
+  validFrom: new Date().toISOString().slice(0, 10),
+  validUntil: '',
+  productIds: [],
+  categories: [],
+});
+
+// Empty inputs mean "no limit"
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export default function EndUserCoupons() {
+  const [coupons, setCoupons] = useState<any[]>([]);
+  const [products, setProducts] = useState<Array<{ _id: string; name: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CouponForm>(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ limit: '100' });
+        if (searchTerm) params.set('q', searchTerm);
+        const res = await fetch(`/api/enduser/coupons?${params.toString()}`);
+        const json = await res.json();
+        if (json?.success) {
+          setCoupons(json.data.coupons || []);
+        } else {
+          toast.error(json?.error || 'Failed to load coupons');
+        }
+      } catch (e) {
+        toast.error('Failed to load coupons');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [searchTerm, refreshKey]);
+
+  useEffect(() => {
+    const loadProducts = async () => {
+      try {
+        const res = await fetch('/api/products?myProducts=true');
+        const json = await res.json();
+        if (json?.success) setProducts(json.data || []);
+      } catch (e) {
+        // Product restrictions are optional; the form still works without the list
+      }
+    };
+    loadProducts();
+  }, []);
+
+  const toggleInList = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const res = await fetch('/api/enduser/coupons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || undefined,
+          discountType: form.discountType,
+          discountValue: Number(form.discountValue),
+          maxDiscount: optionalNumber(form.maxDiscount),
+          minOrderValue: optionalNumber(form.minOrderValue) || 0,
+          usageLimit: optionalNumber(form.usageLimit),
+          perCustomerLimit: optionalNumber(form.perCustomerLimit),
+          validFrom: form.validFrom ? new Date(`${form.validFrom}T00:00:00`).toISOString() : undefined,
+          validUntil: form.validUntil ? new Date(`${form.validUntil}T23:59:59`).toISOString() : undefined,
+          productIds: form.productIds,
+          categories: form.categories,
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(`Coupon ${json.data.code} created`);
+        setForm(emptyForm());
+        setShowForm(false);
+        setRefreshKey((k) => k + 1);
+      } else {
+        toast.error(json?.error || 'Failed to create coupon');
+      }
+    } catch (e) {
+      toast.error('Failed to create coupon');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (coupon: any) => {
+    try {
+      const res = await fetch(`/api/enduser/coupons/${coupon._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !coupon.isActive }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(coupon.isActive ? 'Coupon deactivated' : 'Coupon activated');
+        setRefreshKey((k) => k + 1);
+      } else {
+        toast.error(json?.error || 'Failed to update coupon');
+      }
+    } catch (e) {
+      toast.error('Failed to update coupon');
+    }
+  };
+
+  const deleteCoupon = async (coupon: any) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+    try {
+      const res = await fetch(`/api/enduser/coupons/${coupon._id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success('Coupon deleted');
+        setRefreshKey((k) => k + 1);
+      } else {
+        toast.error(json?.error || 'Failed to delete coupon');
+      }
+    } catch (e) {
+      toast.error('Failed to delete coupon');
+    }
+  };
+
+  const describeDiscount = (coupon: any) =>
+    coupon.discountType === 'percentage'
+      ? `${coupon.discountValue}% off${coupon.maxDiscount ? ` (max ₹${coupon.maxDiscount})` : ''}`
+      : `₹${coupon.discountValue} off`;
+
+  const describeScope = (coupon: any) => {
+    const parts: string[] = [];
+    if (coupon.productIds?.length) parts.push(coupon.productIds.map((p: any) => p.name || p).join(', '));
+    if (coupon.categories?.length) parts.push(coupon.categories.join(', '));
+    return parts.length ? parts.join(' · ') : 'All products';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setShowForm((v) => !v)}
+                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                {showForm ? <X className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                {showForm ? 'Close' : 'New Coupon'}
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Coupons</h1>
+            </div>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search codes..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 w-64"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {showForm && (
+          <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  required
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="DIWALI25"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg uppercase"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Discount</label>
+                <div className="flex space-x-2">
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponForm['discountType'] })}
+                    className="px-2 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="percentage">%</option>
+                    <option value="fixed">₹</option>
+                  </select>
+                  <input
+                    type="number"
+                    required
+                    min={0.01}
+                    step="0.01"
+                    value={form.discountValue}
+                    onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max discount (₹)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.maxDiscount}
+                  disabled={form.discountType === 'fixed'}
+                  onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })}
+                  placeholder="No cap"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum order (₹)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.minOrderValue}
+                  onChange={(e) => setForm({ ...form, minOrderValue: e.target.value })}
+                  placeholder="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Total uses</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.usageLimit}
+                  onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Uses per customer</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.perCustomerLimit}
+                  onChange={(e) => setForm({ ...form, perCustomerLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Valid from</label>
+                <input
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Valid until</label>
+                <input
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Shown to customers when the code is applied"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Limit to categories</p>
+                <div className="flex flex-wrap gap-2">
+                  {CATEGORIES.map((category) => (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => setForm({ ...form, categories: toggleInList(form.categories, category) })}
+                      className={`px-3 py-1 rounded-full text-sm border ${
+                        form.categories.includes(category) ? 'bg-primary-100 text-primary-800 border-primary-300' : 'text-gray-600 border-gray-300'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Limit to products</p>
+                <div className="max-h-32 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                  {products.length === 0 && <p className="text-sm text-gray-500">No products</p>}
+                  {products.map((product) => (
+                    <label key={product._id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.productIds.includes(product._id)}
+                        onChange={() => setForm({ ...form, productIds: toggleInList(form.productIds, product._id) })}
+                      />
+                      <span>{product.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave both empty to apply to all your products.</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'Saving...' : 'Create Coupon'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="loading-spinner w-8 h-8"></div>
+            </div>
+          ) : coupons.length === 0 ? (
+            <div className="p-12 text-center">
+              <Tag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No coupons yet</p>
+              <p className="text-sm text-gray-500 mt-1">Create a code to run a promotion.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Validity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {coupons.map((coupon) => (
+                    <tr key={coupon._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{coupon.code}</div>
+                        {coupon.description && <div className="text-xs text-gray-500">{coupon.description}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{describeDiscount(coupon)}</div>
+                        {coupon.minOrderValue > 0 && <div className="text-xs text-gray-500">Min. order ₹{coupon.minOrderValue}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{describeScope(coupon)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {new Date(coupon.validFrom).toLocaleDateString()} – {coupon.validUntil ? new Date(coupon.validUntil).toLocaleDateString() : 'No end'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          coupon.isRedeemable ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {coupon.isRedeemable ? 'Live' : coupon.isActive ? 'Not live' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => toggleActive(coupon)}
+                            title={coupon.isActive ? 'Deactivate' : 'Activate'}
+                            className={`p-1 ${coupon.isActive ? 'text-green-600 hover:text-green-800' : 'text-gray-400 hover:text-gray-600'}`}
+                          >
+                            <Power className="w-4 h-4" />
+                          </button>
+                          {coupon.usedCount === 0 && (
+                            <button
+                              onClick={() => deleteCoupon(coupon)}
+                              title="Delete coupon"
+                              className="p-1 text-gray-400 hover:text-red-600"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
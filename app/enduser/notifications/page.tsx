@@ -0,0 +1,196 @@
+/**
+ * End User Customer Messages Page
+ * Log of confirmations and pickup/return reminders sent to customers about the enduser's orders
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { Search, Mail, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const TYPE_LABELS: Record<string, string> = {
+  order_confirmed: 'Order confirmed',
+  pickup_tomorrow: 'Pickup reminder',
+  return_due: 'Return due',
+  overdue: 'Overdue',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  sent: 'bg-green-100 text-green-800',
+  sending: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-800',
+};
+
+export default function EndUserNotifications() {
+  const [notifications, setNotifications] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [type, setType] = useState('');
+  const [status, setStatus] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ page: String(page), limit: '20' });
+        if (searchTerm) params.set('q', searchTerm);
+        if (type) params.set('type', type);
+        if (status) params.set('status', status);
+        const res = await fetch(`/api/enduser/notifications?${params.toString()}`);
+        const json = await res.json();
+        if (json?.success) {
+          setNotifications(json.data.notifications || []);
+          setTotalPages(json.data.pagination?.totalPages || 1);
+        } else {
+          toast.error(json?.error || 'Failed to load messages');
+        }
+      } catch (e) {
+        toast.error('Failed to load messages');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [searchTerm, type, status, page]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-xl font-semibold text-gray-900">Customer Messages</h1>
+
+            <div className="flex items-center space-x-3">
+              <select
+                value={type}
+                onChange={(e) => { setType(e.target.value); setPage(1); }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">All messages</option>
+                {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={status}
+                onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">Any status</option>
+                <option value="sent">Sent</option>
+                <option value="failed">Failed</option>
+                <option value="skipped">Skipped</option>
+              </select>
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search recipient..."
+                  value={searchTerm}
+                  onChange={(e) => { setSearchTerm(e.target.value); setPage(1); }}
+                  className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 w-64"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="loading-spinner w-8 h-8"></div>
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="p-12 text-center">
+              <Mail className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No messages yet</p>
+              <p className="text-sm text-gray-500 mt-1">Order confirmations and pickup/return reminders show up here once sent.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {notifications.map((notification) => (
+                    <tr
+                      key={notification._id}
+                      onClick={() => setExpanded(expanded === notification._id ? null : notification._id)}
+                      className="hover:bg-gray-50 cursor-pointer align-top"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {new Date(notification.sentAt || notification.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{TYPE_LABELS[notification.type] || notification.type}</div>
+                        <div className="text-gray-600">{notification.subject}</div>
+                        {expanded === notification._id && (
+                          <pre className="mt-2 whitespace-pre-wrap font-sans text-gray-700 bg-gray-50 rounded p-3">{notification.body}</pre>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{notification.recipient || '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {notification.rentalOrderId && (
+                          <Link
+                            href={`/enduser/orders/${notification.rentalOrderId}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-primary-600 hover:text-primary-800"
+                          >
+                            R{String(notification.rentalOrderId).slice(-6).toUpperCase()}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[notification.status] || STATUS_STYLES.skipped}`}>
+                          {notification.status}
+                        </span>
+                        {notification.attempts > 1 && <div className="text-xs text-gray-500 mt-1">{notification.attempts} attempts</div>}
+                        {notification.error && <div className="text-xs text-red-600 mt-1 max-w-xs whitespace-normal">{notification.error}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex justify-center items-center space-x-4 mt-6">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="p-2 border border-gray-300 rounded-lg disabled:opacity-50"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="p-2 border border-gray-300 rounded-lg disabled:opacity-50"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,37 +7,42 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
+import toast from 'react-hot-toast';
 import {
   ChevronLeft,
   ChevronRight,
   Settings,
-  Send,
   Printer,
   CheckCircle,
   XCircle,
-  Edit,
   Truck,
   Package,
   IndianRupee,
   Calendar,
   MapPin,
   User,
-  FileText
+  FileText,
+  RotateCcw,
+  Download
 } from 'lucide-react';
 
+type OrderStatus = 'quotation' | 'confirmed' | 'reserved' | 'delivered' | 'returned' | 'late' | 'cancelled';
+
 interface RentalOrder {
   id: string;
+  orderNumber: string;
   customer: string;
   customerEmail: string;
+  customerPhone?: string;
   invoiceAddress: string;
   deliveryAddress: string;
-  rentalTemplate: string;
-  expiration: string;
   rentalOrderDate: string;
-  pricelist: string;
   rentalPeriod: string;
   rentalDuration: string;
-  status: 'quotation' | 'quotation_sent' | 'rental_order';
+  pickupDate?: string;
+  returnDate?: string;
+  status: OrderStatus;
+  paymentStatus: string;
   orderLines: Array<{
     product: string;
     quantity: number;
@@ -47,72 +52,425 @@ interface RentalOrder {
   }>;
   untaxedTotal: number;
   tax: number;
+  lateFees: number;
+  total: number;
+  notes: string;
+  history: Array<{
+    from?: string;
+    to: string;
+    by: string;
+    reason?: string;
+    at: string;
+  }>;
+}
+
+// This enduser's other lines in the same order
+interface OtherLine {
+  id: string;
+  product: string;
+  quantity: number;
+  rentalPeriod: string;
+  status: OrderStatus;
   total: number;
-  termsConditions: string;
+}
+
+interface RefundInfo {
+  amount: number;
+  percent: number;
+  status: 'pending' | 'processed' | 'failed';
+  failureReason?: string;
+}
+
+// Main workflow shown in the progress bar; late and cancelled are shown as badges
+const WORKFLOW_STEPS: Array<{ status: OrderStatus; label: string }> = [
+  { status: 'quotation', label: 'Quotation' },
+  { status: 'confirmed', label: 'Confirmed' },
+  { status: 'reserved', label: 'Reserved' },
+  { status: 'delivered', label: 'Delivered' },
+  { status: 'returned', label: 'Returned' },
+];
+
+// Button shown for each status the order can move to
+const TRANSITION_ACTIONS: Record<string, { label: string; className: string }> = {
+  confirmed: { label: 'Confirm', className: 'bg-green-600 text-white hover:bg-green-700' },
+  reserved: { label: 'Reserve', className: 'bg-blue-600 text-white hover:bg-blue-700' },
+  delivered: { label: 'Mark Delivered', className: 'bg-primary-600 text-white hover:bg-primary-700' },
+  late: { label: 'Mark Late', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  returned: { label: 'Mark Returned', className: 'bg-green-600 text-white hover:bg-green-700' },
+};
+
+function formatAddress(raw?: string): string {
+  if (!raw) return '—';
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') {
+      return [parsed.name, parsed.address, parsed.city, parsed.state, parsed.zipCode, parsed.country]
+        .filter(Boolean)
+        .join(', ');
+    }
+  } catch {
+    // Not JSON, use as-is
+  }
+  return raw;
+}
+
+function toViewModel(o: any): RentalOrder {
+  const quantity = o.quantity || 1;
+  const untaxedTotal = o.totalPrice || 0;
+  const lateFees = o.lateFees || 0;
+  const customer = o.customerId && typeof o.customerId === 'object' ? o.customerId : null;
+
+  return {
+    id: o._id,
+    orderNumber: o.orderNumber || `R${String(o._id).slice(-6).toUpperCase()}`,
+    customer: o.customerName,
+    customerEmail: o.customerEmail,
+    customerPhone: o.customerPhone || customer?.phone,
+    invoiceAddress: customer?.address || '—',
+    deliveryAddress: formatAddress(o.deliveryAddress),
+    rentalOrderDate: new Date(o.createdAt).toLocaleDateString(),
+    rentalPeriod: `${new Date(o.startDate).toLocaleString()} → ${new Date(o.endDate).toLocaleString()}`,
+    rentalDuration: `${o.duration} ${o.durationUnit}${o.duration === 1 ? '' : 's'}`,
+    pickupDate: o.pickupDate ? new Date(o.pickupDate).toLocaleString() : undefined,
+    returnDate: o.returnDate ? new Date(o.returnDate).toLocaleString() : undefined,
+    status: o.status,
+    paymentStatus: o.paymentStatus,
+    orderLines: [
+      {
+        product: o.productId?.name || 'Product',
+        quantity,
+        unitPrice: Math.round((untaxedTotal / quantity) * 100) / 100,
+        tax: 0,
+        subTotal: untaxedTotal,
+      },
+    ],
+    untaxedTotal,
+    tax: 0,
+    lateFees,
+    total: untaxedTotal + lateFees,
+    notes: o.notes || '',
+    history: (o.statusHistory || []).map((h: any) => ({
+      from: h.from,
+      to: h.to,
+      by: h.changedByName || 'System',
+      reason: h.reason,
+      at: new Date(h.changedAt).toLocaleString(),
+    })),
+  };
+}
+
+interface DepositLedger {
+  depositAmount: number;
+  depositStatus: 'none' | 'held' | 'settled';
+  lateFees: number;
+  transactions: Array<{
+    _id: string;
+    type: 'collect' | 'deduct' | 'release';
+    category?: string;
+    amount: number;
+    balanceAfter: number;
+    reason: string;
+    performedByName: string;
+    createdAt: string;
+  }>;
+}
+
+type DeductionRow = { category: string; amount: number; reason: string };
+
+// Security deposit ledger, with the settlement form once the order is returned
+function DepositPanel({ orderId, returned }: { orderId: string; returned: boolean }) {
+  const [ledger, setLedger] = useState<DepositLedger | null>(null);
+  const [deductions, setDeductions] = useState<DeductionRow[]>([]);
+  const [offline, setOffline] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/enduser/orders/${orderId}/deposit`)
+      .then((res) => res.json())
+      .then((json) => {
+        if (!json?.success) return;
+        setLedger(json.data);
+        // Late fees are the usual deduction, so start with them filled in
+        if (json.data.lateFees > 0) {
+          setDeductions([{ category: 'late', amount: json.data.lateFees, reason: 'Late return fees' }]);
+        }
+      })
+      .catch(() => toast.error('Failed to load deposit'));
+  }, [orderId]);
+
+  const updateRow = (index: number, changes: Partial<DeductionRow>) => {
+    setDeductions((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const settle = async () => {
+    if (!ledger) return;
+    const kept = deductions.reduce((sum, row) => sum + (Number(row.amount) || 0), 0);
+    if (!confirm(`Keep ₹${kept} and release ₹${Math.max(0, ledger.depositAmount - kept)} to the customer?`)) return;
+
+    try {
+      setSaving(true);
+      const res = await fetch(`/api/enduser/orders/${orderId}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deductions, offline }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        setLedger(json.data);
+        toast.success(json.message || 'Deposit settled');
+      } else {
+        toast.error(json?.error || 'Failed to settle deposit');
+      }
+    } catch (e) {
+      toast.error('Failed to settle deposit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!ledger) {
+    return <p className="text-sm text-gray-500">Loading deposit…</p>;
+  }
+  if (ledger.depositAmount <= 0) {
+    return <p className="text-sm text-gray-500">No security deposit was taken for this order.</p>;
+  }
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-gray-900">
+          Deposit: <span className="font-medium">₹{ledger.depositAmount}</span>
+        </p>
+        <span className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 capitalize">
+          {ledger.depositStatus}
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {ledger.transactions.map((entry) => (
+          <li key={entry._id} className="flex items-start justify-between border-b border-gray-100 pb-2">
+            <div>
+              <p className="text-gray-900 capitalize">
+                {entry.type}{entry.category ? ` (${entry.category})` : ''}: ₹{entry.amount}
+              </p>
+              <p className="text-xs text-gray-500">{entry.reason}</p>
+            </div>
+            <div className="text-right text-xs text-gray-500">
+              <p>Balance ₹{entry.balanceAfter}</p>
+              <p>{entry.performedByName} · {new Date(entry.createdAt).toLocaleString()}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {ledger.depositStatus === 'held' && !returned && (
+        <p className="text-gray-500">The deposit can be settled once the order is returned.</p>
+      )}
+
+      {ledger.depositStatus === 'held' && returned && (
+        <div className="space-y-3">
+          <p className="font-medium text-gray-900">Settle deposit</p>
+          {deductions.map((row, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <select
+                value={row.category}
+                onChange={(e) => updateRow(index, { category: e.target.value })}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="damage">Damage</option>
+                <option value="late">Late return</option>
+                <option value="cleaning">Cleaning</option>
+                <option value="other">Other</option>
+              </select>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={row.amount}
+                onChange={(e) => updateRow(index, { amount: parseFloat(e.target.value) || 0 })}
+                className="w-24 border border-gray-300 rounded px-2 py-1"
+              />
+              <input
+                type="text"
+                value={row.reason}
+                onChange={(e) => updateRow(index, { reason: e.target.value })}
+                placeholder="Reason"
+                className="flex-1 border border-gray-300 rounded px-2 py-1"
+              />
+              <button
+                onClick={() => setDeductions((rows) => rows.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+              >
+                <XCircle className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDeductions((rows) => [...rows, { category: 'damage', amount: 0, reason: '' }])}
+            className="text-primary-600 hover:text-primary-700"
+          >
+            + Add deduction
+          </button>
+          <label className="flex items-center space-x-2 text-gray-600">
+            <input type="checkbox" checked={offline} onChange={(e) => setOffline(e.target.checked)} />
+            <span>Returned to the customer outside the payment gateway</span>
+          </label>
+          <button
+            onClick={settle}
+            disabled={saving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            Settle deposit
+          </button>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function RentalOrderView() {
   const router = useRouter();
   const params = useParams();
   const [order, setOrder] = useState<RentalOrder | null>(null);
-  const [currentStatus, setCurrentStatus] = useState<'quotation' | 'quotation_sent' | 'rental_order'>('quotation');
-  const [isConfirmed, setIsConfirmed] = useState(false);
+  const [allowedTransitions, setAllowedTransitions] = useState<string[]>([]);
+  const [refund, setRefund] = useState<RefundInfo | null>(null);
+  const [refundQuote, setRefundQuote] = useState<{ percent: number; amount: number } | null>(null);
+  const [otherLines, setOtherLines] = useState<OtherLine[]>([]);
+  const [orderLineCount, setOrderLineCount] = useState(1);
+  const [invoice, setInvoice] = useState<{ _id: string; invoiceNumber?: string; status: string; total: number; creditedTotal?: number } | null>(null);
+  const [creditNotes, setCreditNotes] = useState<{ _id: string; creditNoteNumber: string; reason: string; total: number }[]>([]);
+  const [creditForm, setCreditForm] = useState<{ amount: string; reason: string; note: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [activeTab, setActiveTab] = useState<'lines' | 'details' | 'deposit' | 'notes'>('lines');
+
+  const applyResponse = (data: any) => {
+    setOrder(toViewModel(data.order));
+    setAllowedTransitions(data.allowedTransitions || []);
+    setRefund(data.refund || null);
+    setRefundQuote(data.refundQuote || null);
+    setOrderLineCount(data.orderHeader?.lineCount || 1);
+    setInvoice(data.invoice || null);
+    setCreditNotes(data.creditNotes || []);
+    setOtherLines((data.orderLines || [])
+      .filter((line: any) => line._id !== data.order._id)
+      .map((line: any) => ({
+        id: line._id,
+        product: line.productId?.name || 'Product',
+        quantity: line.quantity || 1,
+        rentalPeriod: `${new Date(line.startDate).toLocaleDateString()} → ${new Date(line.endDate).toLocaleDateString()}`,
+        status: line.status,
+        total: line.totalPrice || 0,
+      })));
+  };
 
-  // Mock data based on wireframes
   useEffect(() => {
-    const mockOrder: RentalOrder = {
-      id: params.id as string || 'R0001',
-      customer: 'Customer Name',
-      customerEmail: 'customer@example.com',
-      invoiceAddress: '123 Main Street, City, State 12345',
-      deliveryAddress: '456 Delivery Avenue, City, State 67890',
-      rentalTemplate: 'Standard Rental Template',
-      expiration: '2024-12-31',
-      rentalOrderDate: '2024-01-15',
-      pricelist: 'Standard Pricing',
-      rentalPeriod: '7 days',
-      rentalDuration: '1 week',
-      status: 'quotation',
-      orderLines: [
-        {
-          product: 'Product 1',
-          quantity: 5,
-          unitPrice: 200,
-          tax: 0,
-          subTotal: 1000
+    const load = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/enduser/orders/${params.id}`);
+        const json = await res.json();
+        if (json?.success) {
+          applyResponse(json.data);
+        } else {
+          toast.error(json?.error || 'Failed to load order');
         }
-      ],
-      untaxedTotal: 1000,
-      tax: 0,
-      total: 1000,
-      termsConditions: 'Standard terms and conditions apply for this rental agreement.'
+      } catch (e) {
+        toast.error('Failed to load order');
+      } finally {
+        setLoading(false);
+      }
     };
-    setOrder(mockOrder);
-    setCurrentStatus(mockOrder.status);
+    load();
   }, [params.id]);
 
-  const handleStatusChange = (newStatus: 'quotation' | 'quotation_sent' | 'rental_order') => {
-    setCurrentStatus(newStatus);
-    if (order) {
-      setOrder({ ...order, status: newStatus });
+  const handleStatusChange = async (newStatus: string) => {
+    if (newStatus === 'cancelled') {
+      const refundNote = refundQuote?.amount
+        ? ` The customer will be refunded ₹${refundQuote.amount} (${refundQuote.percent}%) under your refund policy.`
+        : '';
+      if (!confirm(`Cancel this order? Held stock will be returned.${refundNote}`)) return;
+    }
+
+    try {
+      setUpdating(true);
+      const res = await fetch(`/api/enduser/orders/${params.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        applyResponse(json.data);
+        toast.success(`Order ${newStatus}`);
+      } else {
+        toast.error(json?.error || 'Failed to update order');
+      }
+    } catch (e) {
+      toast.error('Failed to update order');
+    } finally {
+      setUpdating(false);
     }
   };
 
-  const handleConfirm = () => {
-    setIsConfirmed(true);
-    handleStatusChange('rental_order');
+  const handleRetryRefund = async () => {
+    try {
+      setUpdating(true);
+      const res = await fetch(`/api/enduser/orders/${params.id}/refund`, { method: 'POST' });
+      const json = await res.json();
+      if (json?.data?.refund) setRefund(json.data.refund);
+      if (json?.success) {
+        toast.success('Refund issued');
+      } else {
+        toast.error(json?.error || 'Refund failed');
+      }
+    } catch (e) {
+      toast.error('Refund failed');
+    } finally {
+      setUpdating(false);
+    }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'quotation': return 'bg-yellow-500';
-      case 'quotation_sent': return 'bg-blue-500'; 
-      case 'rental_order': return 'bg-green-500';
-      default: return 'bg-gray-500';
+  // Credit this line on its invoice; the invoice itself is never edited
+  const handleIssueCreditNote = async () => {
+    if (!invoice || !creditForm) return;
+    try {
+      setUpdating(true);
+      const res = await fetch(`/api/enduser/invoices/${invoice._id}/credit-notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: Number(creditForm.amount),
+          reason: creditForm.reason,
+          note: creditForm.note,
+          rentalOrderId: params.id,
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        setInvoice({ ...invoice, creditedTotal: json.data.invoice.creditedTotal });
+        setCreditNotes([...creditNotes, json.data.creditNote]);
+        setCreditForm(null);
+        toast.success(json.message);
+      } else {
+        toast.error(json?.error || 'Failed to issue credit note');
+      }
+    } catch (e) {
+      toast.error('Failed to issue credit note');
+    } finally {
+      setUpdating(false);
     }
   };
 
-  if (!order) {
+  const getStepClass = (step: OrderStatus) => {
+    if (!order) return 'text-gray-500 bg-gray-200';
+    const currentIndex = WORKFLOW_STEPS.findIndex(s => s.status === (order.status === 'late' ? 'delivered' : order.status));
+    const stepIndex = WORKFLOW_STEPS.findIndex(s => s.status === step);
+    if (order.status !== 'cancelled' && stepIndex <= currentIndex) return 'text-white bg-green-500';
+    return 'text-gray-500 bg-gray-200';
+  };
+
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="loading-spinner w-8 h-8"></div>
@@ -120,6 +478,24 @@ export default function RentalOrderView() {
     );
   }
 
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center">
+        <Package className="w-12 h-12 text-gray-300 mb-4" />
+        <p className="text-gray-600 mb-4">Order not found</p>
+        <button
+          onClick={() => router.push('/enduser/orders')}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+        >
+          Back to orders
+        </button>
+      </div>
+    );
+  }
+
+  const canCancel = allowedTransitions.includes('cancelled');
+  const forwardTransitions = allowedTransitions.filter(s => s !== 'cancelled');
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -136,64 +512,55 @@ export default function RentalOrderView() {
               <h1 className="text-xl font-semibold text-gray-900">Rental Orders</h1>
               <Settings className="w-5 h-5 text-gray-400" />
             </div>
-
-            <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-600">1/80</span>
-              <button className="p-1 hover:bg-gray-100 rounded">
-                <ChevronLeft className="w-4 h-4" />
-              </button>
-              <button className="p-1 hover:bg-gray-100 rounded">
-                <ChevronRight className="w-4 h-4" />
-              </button>
-            </div>
           </div>
 
           {/* Action Buttons */}
           <div className="flex items-center justify-between mt-6">
             <div className="flex items-center space-x-3">
-              <button className="flex items-center px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors">
-                <Send className="w-4 h-4 mr-2" />
-                Sent
-              </button>
-              <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <Printer className="w-4 h-4 mr-2" />
-                Print
-              </button>
+              {forwardTransitions.map((status) => {
+                const action = TRANSITION_ACTIONS[status];
+                if (!action) return null;
+                return (
+                  <button
+                    key={status}
+                    onClick={() => handleStatusChange(status)}
+                    disabled={updating}
+                    className={`flex items-center px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${action.className}`}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {action.label}
+                  </button>
+                );
+              })}
               <button
-                onClick={handleConfirm}
-                disabled={isConfirmed}
-                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                onClick={() => window.print()}
+                className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
               >
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Confirm
-              </button>
-              <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                <XCircle className="w-4 h-4 mr-2" />
-                Cancel
+                <Printer className="w-4 h-4 mr-2" />
+                Print
               </button>
+              {canCancel && (
+                <button
+                  onClick={() => handleStatusChange('cancelled')}
+                  disabled={updating}
+                  className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel
+                </button>
+              )}
             </div>
 
             {/* Status Progress */}
             <div className="flex items-center space-x-2">
-              <div className={`px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor('quotation')}`}>
-                Quotation
-              </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentStatus === 'quotation_sent' || currentStatus === 'rental_order' 
-                  ? `text-white ${getStatusColor('quotation_sent')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                Quotation Sent
-              </div>
-              <ChevronRight className="w-4 h-4 text-gray-400" />
-              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                currentStatus === 'rental_order' 
-                  ? `text-white ${getStatusColor('rental_order')}` 
-                  : 'text-gray-500 bg-gray-200'
-              }`}>
-                Rental Order
-              </div>
+              {WORKFLOW_STEPS.map((step, index) => (
+                <div key={step.status} className="flex items-center space-x-2">
+                  {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+                  <div className={`px-3 py-1 rounded-full text-xs font-medium ${getStepClass(step.status)}`}>
+                    {step.label}
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         </div>
@@ -206,20 +573,114 @@ export default function RentalOrderView() {
           <div className="p-6 border-b border-gray-200">
             <div className="flex justify-between items-start">
               <div>
-                <h2 className="text-2xl font-bold text-gray-900">{order.id}</h2>
-                {isConfirmed && (
-                  <div className="mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                    <CheckCircle className="w-4 h-4 mr-1" />
-                    Confirmed
+                <h2 className="text-2xl font-bold text-gray-900">{order.orderNumber}</h2>
+                {orderLineCount > 1 && (
+                  <p className="mt-1 text-sm text-gray-500">One of {orderLineCount} items in this order</p>
+                )}
+                {invoice && (
+                  <a
+                    href={`/api/invoices/${invoice._id}/pdf`}
+                    className="mt-1 inline-flex items-center text-sm text-primary-700 hover:underline"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    Invoice {invoice.invoiceNumber || '(draft)'} — {invoice.status}
+                  </a>
+                )}
+                {creditNotes.map((creditNote) => (
+                  <a
+                    key={creditNote._id}
+                    href={`/api/credit-notes/${creditNote._id}/pdf`}
+                    className="mt-1 ml-4 inline-flex items-center text-sm text-red-700 hover:underline"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    Credit note {creditNote.creditNoteNumber} — −₹{creditNote.total}
+                  </a>
+                ))}
+                {invoice && ['posted', 'paid'].includes(invoice.status) && !creditForm && (
+                  <button
+                    onClick={() => setCreditForm({ amount: '', reason: 'damage_waived', note: '' })}
+                    className="mt-1 ml-4 text-sm text-gray-600 hover:text-gray-900 hover:underline"
+                  >
+                    Issue credit note
+                  </button>
+                )}
+                {creditForm && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Amount before tax"
+                      value={creditForm.amount}
+                      onChange={(e) => setCreditForm({ ...creditForm, amount: e.target.value })}
+                      className="w-40 px-2 py-1 border border-gray-300 rounded-lg"
+                    />
+                    <select
+                      value={creditForm.reason}
+                      onChange={(e) => setCreditForm({ ...creditForm, reason: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-lg"
+                    >
+                      <option value="damage_waived">Damage waived</option>
+                      <option value="early_return">Early return</option>
+                      <option value="price_match">Price match</option>
+                      <option value="other">Other</option>
+                    </select>
+                    <input
+                      type="text"
+                      placeholder="Note (optional)"
+                      value={creditForm.note}
+                      onChange={(e) => setCreditForm({ ...creditForm, note: e.target.value })}
+                      className="w-56 px-2 py-1 border border-gray-300 rounded-lg"
+                    />
+                    <button
+                      onClick={handleIssueCreditNote}
+                      disabled={updating || !(Number(creditForm.amount) > 0)}
+                      className="px-3 py-1 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      Issue
+                    </button>
+                    <button onClick={() => setCreditForm(null)} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+                      Cancel
+                    </button>
+                    <span className="text-xs text-gray-500">
+                      ₹{Math.max(0, (invoice?.total || 0) - (invoice?.creditedTotal || 0))} left to credit, tax included
+                    </span>
+                  </div>
+                )}
+                {order.status === 'cancelled' && (
+                  <div className="mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Cancelled
+                  </div>
+                )}
+                {refund && (
+                  <div className="mt-2 flex items-center space-x-3 text-sm">
+                    <span className={refund.status === 'failed' ? 'text-red-600' : 'text-gray-600'}>
+                      <RotateCcw className="w-4 h-4 inline mr-1" />
+                      Refund ₹{refund.amount} ({refund.percent}%) — {refund.status}
+                      {refund.failureReason ? `: ${refund.failureReason}` : ''}
+                    </span>
+                    {refund.status === 'failed' && (
+                      <button
+                        onClick={handleRetryRefund}
+                        disabled={updating}
+                        className="px-3 py-1 text-xs border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Retry refund
+                      </button>
+                    )}
+                  </div>
+                )}
+                {order.status === 'late' && (
+                  <div className="mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                    <Calendar className="w-4 h-4 mr-1" />
+                    Late
                   </div>
                 )}
               </div>
-              <button
-                disabled={isConfirmed}
-                className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                Update Prices
-              </button>
+              <span className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700 capitalize">
+                Payment: {order.paymentStatus}
+              </span>
             </div>
           </div>
 
@@ -234,6 +695,7 @@ export default function RentalOrderView() {
                     Customer:
                   </label>
                   <p className="text-gray-900">{order.customer}</p>
+                  <p className="text-sm text-gray-500">{order.customerEmail}</p>
                 </div>
 
                 <div>
@@ -251,26 +713,10 @@ export default function RentalOrderView() {
                   </label>
                   <p className="text-gray-900">{order.deliveryAddress}</p>
                 </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <FileText className="w-4 h-4 inline mr-2" />
-                    Rental Template:
-                  </label>
-                  <p className="text-gray-900">{order.rentalTemplate}</p>
-                </div>
               </div>
 
               {/* Right Column */}
               <div className="space-y-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <Calendar className="w-4 h-4 inline mr-2" />
-                    Expiration:
-                  </label>
-                  <p className="text-gray-900">{order.expiration}</p>
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Calendar className="w-4 h-4 inline mr-2" />
@@ -279,14 +725,6 @@ export default function RentalOrderView() {
                   <p className="text-gray-900">{order.rentalOrderDate}</p>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    <IndianRupee className="w-4 h-4 inline mr-2" />
-                    Pricelist:
-                  </label>
-                  <p className="text-gray-900">{order.pricelist}</p>
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <Calendar className="w-4 h-4 inline mr-2" />
@@ -309,52 +747,124 @@ export default function RentalOrderView() {
           {/* Order Lines Tabs */}
           <div className="border-t border-gray-200">
             <div className="flex space-x-8 px-6">
-              <button className="border-b-2 border-primary-500 py-4 text-sm font-medium text-primary-600">
-                Order lines
-              </button>
-              <button className="py-4 text-sm font-medium text-gray-500 hover:text-gray-700">
-                Other details
-              </button>
-              <button className="py-4 text-sm font-medium text-gray-500 hover:text-gray-700">
-                Rental Notes
-              </button>
+              {([
+                ['lines', 'Order lines'],
+                ['details', 'Other details'],
+                ['deposit', 'Deposit'],
+                ['notes', 'Rental Notes'],
+              ] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={activeTab === tab
+                    ? 'border-b-2 border-primary-500 py-4 text-sm font-medium text-primary-600'
+                    : 'py-4 text-sm font-medium text-gray-500 hover:text-gray-700'}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* Order Lines Table */}
           <div className="p-6">
-            <div className="overflow-x-auto">
-              <table className="min-w-full">
-                <thead>
-                  <tr className="border-b border-gray-200">
-                    <th className="text-left py-3 text-sm font-medium text-gray-500">Product</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Quantity</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Unit Price</th>
-                    <th className="text-center py-3 text-sm font-medium text-gray-500">Tax</th>
-                    <th className="text-right py-3 text-sm font-medium text-gray-500">Sub Total</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {order.orderLines.map((line, index) => (
-                    <tr key={index} className="border-b border-gray-100">
-                      <td className="py-4 text-sm font-medium text-gray-900">{line.product}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">{line.quantity}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">{line.unitPrice}</td>
-                      <td className="py-4 text-sm text-gray-600 text-center">-</td>
-                      <td className="py-4 text-sm text-gray-600 text-right">{line.subTotal}</td>
+            {activeTab === 'lines' && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 text-sm font-medium text-gray-500">Product</th>
+                      <th className="text-center py-3 text-sm font-medium text-gray-500">Quantity</th>
+                      <th className="text-center py-3 text-sm font-medium text-gray-500">Unit Price</th>
+                      <th className="text-center py-3 text-sm font-medium text-gray-500">Tax</th>
+                      <th className="text-right py-3 text-sm font-medium text-gray-500">Sub Total</th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody>
+                    {order.orderLines.map((line, index) => (
+                      <tr key={index} className="border-b border-gray-100">
+                        <td className="py-4 text-sm font-medium text-gray-900">{line.product}</td>
+                        <td className="py-4 text-sm text-gray-600 text-center">{line.quantity}</td>
+                        <td className="py-4 text-sm text-gray-600 text-center">{line.unitPrice}</td>
+                        <td className="py-4 text-sm text-gray-600 text-center">-</td>
+                        <td className="py-4 text-sm text-gray-600 text-right">{line.subTotal}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
 
-            {/* Terms & Conditions */}
-            <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
-              <div className="border border-gray-200 rounded-lg p-4">
-                <h4 className="font-medium text-gray-900 mb-2">Terms & Conditions</h4>
-                <p className="text-sm text-gray-600">{order.termsConditions}</p>
+                {otherLines.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Other items in this order</h4>
+                    <table className="min-w-full">
+                      <tbody>
+                        {otherLines.map((line) => (
+                          <tr
+                            key={line.id}
+                            className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                            onClick={() => router.push(`/enduser/orders/${line.id}`)}
+                          >
+                            <td className="py-3 text-sm font-medium text-gray-900">{line.product}</td>
+                            <td className="py-3 text-sm text-gray-600 text-center">{line.quantity}</td>
+                            <td className="py-3 text-sm text-gray-600 text-center">{line.rentalPeriod}</td>
+                            <td className="py-3 text-sm text-gray-600 text-center capitalize">{line.status}</td>
+                            <td className="py-3 text-sm text-gray-600 text-right">₹{line.total}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'details' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                <div>
+                  <span className="text-gray-500">Phone:</span>
+                  <p className="text-gray-900">{order.customerPhone || '—'}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">Picked up:</span>
+                  <p className="text-gray-900">{order.pickupDate || '—'}</p>
+                </div>
+                <div>
+                  <span className="text-gray-500">Returned:</span>
+                  <p className="text-gray-900">{order.returnDate || '—'}</p>
+                </div>
+                <div className="md:col-span-2">
+                  <span className="text-gray-500">Status history:</span>
+                  <ul className="mt-2 space-y-2">
+                    {order.history.map((entry, index) => (
+                      <li key={index} className="flex items-start justify-between border-b border-gray-100 pb-2">
+                        <div>
+                          <p className="text-gray-900 capitalize">
+                            {entry.from && entry.from !== entry.to ? `${entry.from} → ${entry.to}` : entry.to}
+                          </p>
+                          {entry.reason && <p className="text-xs text-gray-500">{entry.reason}</p>}
+                        </div>
+                        <div className="text-right text-xs text-gray-500">
+                          <p>{entry.by}</p>
+                          <p>{entry.at}</p>
+                        </div>
+                      </li>
+                    ))}
+                    {order.history.length === 0 && <li className="text-gray-500">No status changes recorded.</li>}
+                  </ul>
+                </div>
               </div>
+            )}
+
+            {activeTab === 'deposit' && (
+              <DepositPanel orderId={order.id} returned={order.status === 'returned'} />
+            )}
+
+            {activeTab === 'notes' && (
+              <p className="text-sm text-gray-600 whitespace-pre-line">{order.notes || 'No notes for this order.'}</p>
+            )}
 
+            {/* Totals */}
+            <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div />
               <div className="text-right space-y-2">
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-600">Untaxed Total:</span>
@@ -370,6 +880,15 @@ export default function RentalOrderView() {
                     {order.tax}
                   </span>
                 </div>
+                {order.lateFees > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-600">Late Fees:</span>
+                    <span className="text-sm font-medium flex items-center">
+                      <IndianRupee className="w-4 h-4 mr-1" />
+                      {order.lateFees}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between border-t pt-2">
                   <span className="text-lg font-semibold text-gray-900">Total:</span>
                   <span className="text-lg font-semibold text-gray-900 flex items-center">
@@ -382,27 +901,34 @@ export default function RentalOrderView() {
           </div>
 
           {/* Additional Actions */}
-          {isConfirmed && (
+          {['confirmed', 'reserved', 'delivered', 'late'].includes(order.status) && (
             <div className="border-t border-gray-200 p-6">
               <div className="flex items-center space-x-4">
+                {['confirmed', 'reserved'].includes(order.status) && (
+                  <button
+                    onClick={() => router.push(`/enduser/transfer?type=pickup&orderId=${order.id}`)}
+                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    <Truck className="w-4 h-4 mr-2" />
+                    Pickup
+                  </button>
+                )}
+                {['delivered', 'late'].includes(order.status) && (
+                  <button
+                    onClick={() => router.push(`/enduser/transfer?type=return&orderId=${order.id}`)}
+                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Return
+                  </button>
+                )}
                 <button
                   onClick={() => router.push(`/enduser/orders/${order.id}/invoice`)}
-                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
                 >
                   <FileText className="w-4 h-4 mr-2" />
                   Invoice
                 </button>
-                <button
-                  onClick={() => router.push(`/enduser/transfer?type=pickup&orderId=${order.id}`)}
-                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                >
-                  <Truck className="w-4 h-4 mr-2" />
-                  Pickup
-                </button>
-                <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
-                  <Printer className="w-4 h-4 mr-2" />
-                  Print
-                </button>
               </div>
             </div>
           )}
@@ -1,6 +1,6 @@
 /**
  * End User Orders Page
- * Rental orders management with card and list views, status filters
+ * Rental orders management with card and list views, status filters and bulk invoicing
  */
 
 'use client';
@@ -20,19 +20,45 @@ import {
   Edit,
   Trash2,
   Copy,
-  IndianRupee
+  IndianRupee,
+  FileText
 } from 'lucide-react';
 
+type InvoiceStatus = 'nothing_to_invoice' | 'to_invoice' | 'invoiced' | 'partially_paid' | 'paid' | 'overdue';
+
+const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  nothing_to_invoice: 'Nothing to invoice',
+  to_invoice: 'To invoice',
+  invoiced: 'Invoiced',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+};
+
+const INVOICE_STATUS_STYLES: Record<InvoiceStatus, string> = {
+  nothing_to_invoice: 'bg-gray-100 text-gray-600',
+  to_invoice: 'bg-orange-100 text-orange-800',
+  invoiced: 'bg-blue-100 text-blue-800',
+  partially_paid: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  overdue: 'bg-red-100 text-red-800',
+};
+
+// Rental statuses whose orders can be invoiced in bulk: handed over or back
+const BULK_INVOICE_STATUSES = ['pickedup', 'late', 'returned'];
+
 interface RentalOrder {
   id: string;
   customer: string;
   amount: number;
-  status: 'quotation' | 'quotation_sent' | 'reserved' | 'pickedup' | 'returned';
-  invoiceStatus: 'nothing_to_invoice' | 'to_invoice' | 'fully_invoiced';
+  orderKey: string;
+  status: 'quotation' | 'quotation_sent' | 'reserved' | 'pickedup' | 'late' | 'returned';
+  invoiceStatus: InvoiceStatus;
   orderDate: string;
   pickupDate?: string;
   returnDate?: string;
   orderReference: string;
+  lineCount: number;
   createdBy: string;
 }
 
@@ -46,6 +72,10 @@ export default function EndUserOrders() {
   const itemsPerPage = 16;
 
   const [orders, setOrders] = useState<RentalOrder[]>([]);
+  const [invoiceCounts, setInvoiceCounts] = useState<Record<string, number>>({});
+  const [selectedOrders, setSelectedOrders] = useState<string[]>([]);
+  const [invoicing, setInvoicing] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -56,23 +86,28 @@ export default function EndUserOrders() {
         params.set('page', String(currentPage));
         params.set('limit', String(itemsPerPage));
         if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+        if (selectedInvoiceStatus !== 'ALL') params.set('invoice', selectedInvoiceStatus);
         if (searchTerm) params.set('q', searchTerm);
         const res = await fetch(`/api/enduser/orders?${params.toString()}`);
         const json = await res.json();
         if (json?.success) {
           const apiOrders = (json.data.orders || []).map((o: any) => ({
             id: o._id,
+            orderKey: o.orderId || o._id,
             customer: o.customerName,
             amount: o.totalPrice,
             status: (o.status === 'delivered' ? 'pickedup' : o.status) as any,
-            invoiceStatus: 'to_invoice',
+            invoiceStatus: o.invoiceStatus || 'nothing_to_invoice',
             orderDate: new Date(o.createdAt).toISOString().slice(0,10),
             pickupDate: o.pickupDate ? new Date(o.pickupDate).toLocaleDateString() : undefined,
             returnDate: o.returnDate ? new Date(o.returnDate).toLocaleDateString() : undefined,
-            orderReference: o._id,
+            orderReference: o.orderNumber || o._id,
+            lineCount: o.lineCount || 1,
             createdBy: o.endUserId?.name || '—',
           }));
           setOrders(apiOrders);
+          setInvoiceCounts(json.data.invoiceCounts || {});
+          setSelectedOrders([]);
         } else {
           toast.error('Failed to load orders');
         }
@@ -84,7 +119,7 @@ export default function EndUserOrders() {
     };
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage, itemsPerPage, selectedStatus, searchTerm]);
+  }, [currentPage, itemsPerPage, selectedStatus, selectedInvoiceStatus, searchTerm, reloadKey]);
 
   // Status counts
   const statusCounts = {
@@ -95,10 +130,45 @@ export default function EndUserOrders() {
     returned: orders.filter(o => o.status === 'returned').length,
   };
 
-  const invoiceStatusCounts = {
-    'fully_invoiced': orders.filter(o => o.invoiceStatus === 'fully_invoiced').length,
-    'nothing_to_invoice': orders.filter(o => o.invoiceStatus === 'nothing_to_invoice').length,
-    'to_invoice': orders.filter(o => o.invoiceStatus === 'to_invoice').length,
+  const invoiceStatusCounts: Record<string, number> = {
+    ALL: Object.values(invoiceCounts).reduce((total, count) => total + count, 0),
+    ...invoiceCounts,
+  };
+
+  const canBulkInvoice = (order: RentalOrder) =>
+    order.invoiceStatus === 'to_invoice' && BULK_INVOICE_STATUSES.includes(order.status);
+
+  const toggleSelected = (orderKey: string) => {
+    setSelectedOrders((current) => current.includes(orderKey)
+      ? current.filter((key) => key !== orderKey)
+      : [...current, orderKey]);
+  };
+
+  // Invoice the selected delivered or returned orders, one invoice each
+  const handleBulkInvoice = async () => {
+    if (selectedOrders.length === 0) return;
+    try {
+      setInvoicing(true);
+      const res = await fetch('/api/enduser/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orders: selectedOrders }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(json.message);
+        if (json.data.skipped?.length) {
+          toast.error(`${json.data.skipped.length} order${json.data.skipped.length === 1 ? '' : 's'} skipped: ${json.data.skipped[0].reason}`);
+        }
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(json?.error || 'Failed to create invoices');
+      }
+    } catch (e) {
+      toast.error('Failed to create invoices');
+    } finally {
+      setInvoicing(false);
+    }
   };
 
   // Filter orders
@@ -119,6 +189,7 @@ export default function EndUserOrders() {
       quotation_sent: 'bg-purple-100 text-purple-800',
       reserved: 'bg-green-100 text-green-800',
       pickedup: 'bg-yellow-100 text-yellow-800',
+      late: 'bg-orange-100 text-orange-800',
       returned: 'bg-red-100 text-red-800'
     };
     
@@ -127,6 +198,7 @@ export default function EndUserOrders() {
       quotation_sent: 'Quotation Sent',
       reserved: 'Reserved',
       pickedup: 'Picked Up',
+      late: 'Late',
       returned: 'Returned'
     };
 
@@ -145,7 +217,7 @@ export default function EndUserOrders() {
           <div className="flex justify-between items-center">
             <div className="flex items-center space-x-4">
               <button
-                onClick={() => router.push('/enduser/orders/create')}
+                onClick={() => router.push('/enduser/quotations/new')}
                 className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
               >
                 <Plus className="w-4 h-4 mr-2" />
@@ -153,6 +225,16 @@ export default function EndUserOrders() {
               </button>
               <h1 className="text-xl font-semibold text-gray-900">Rental Orders</h1>
               <Settings className="w-5 h-5 text-gray-400" />
+              {selectedOrders.length > 0 && (
+                <button
+                  onClick={handleBulkInvoice}
+                  disabled={invoicing}
+                  className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  {invoicing ? 'Invoicing...' : `Create Invoices (${selectedOrders.length})`}
+                </button>
+              )}
             </div>
 
             <div className="flex items-center space-x-4">
@@ -241,14 +323,14 @@ export default function EndUserOrders() {
                 {Object.entries(invoiceStatusCounts).map(([status, count]) => (
                   <button
                     key={status}
-                    onClick={() => setSelectedInvoiceStatus(status)}
+                    onClick={() => { setSelectedInvoiceStatus(status); setCurrentPage(1); }}
                     className={`w-full flex justify-between items-center px-3 py-2 text-sm rounded-lg transition-colors ${
                       selectedInvoiceStatus === status
                         ? 'bg-primary-100 text-primary-800'
                         : 'text-gray-700 hover:bg-gray-100'
                     }`}
                   >
-                    <span className="capitalize">{status.replace('_', ' ')}</span>
+                    <span>{INVOICE_STATUS_LABELS[status as InvoiceStatus] || 'All'}</span>
                     <span className="text-gray-500">{count}</span>
                   </button>
                 ))}
@@ -286,9 +368,15 @@ export default function EndUserOrders() {
 
                     <div className="space-y-2 mb-4">
                       <div className="text-xs text-gray-500">
-                        {order.id}
+                        {order.orderReference}
+                        {order.lineCount > 1 && ` · ${order.lineCount} items`}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {getStatusBadge(order.status)}
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${INVOICE_STATUS_STYLES[order.invoiceStatus]}`}>
+                          {INVOICE_STATUS_LABELS[order.invoiceStatus]}
+                        </span>
                       </div>
-                      {getStatusBadge(order.status)}
                       {order.pickupDate && (
                         <div className="text-xs text-red-600">
                           Pickup: {order.pickupDate}
@@ -319,7 +407,13 @@ export default function EndUserOrders() {
                     <thead className="bg-gray-50">
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          <input type="checkbox" className="rounded border-gray-300" />
+                          <input
+                            type="checkbox"
+                            className="rounded border-gray-300"
+                            title="Select all orders that can be invoiced"
+                            checked={paginatedOrders.some(canBulkInvoice) && paginatedOrders.filter(canBulkInvoice).every((o) => selectedOrders.includes(o.orderKey))}
+                            onChange={(e) => setSelectedOrders(e.target.checked ? paginatedOrders.filter(canBulkInvoice).map((o) => o.orderKey) : [])}
+                          />
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Order Reference
@@ -333,6 +427,9 @@ export default function EndUserOrders() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Rental Status
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Invoice Status
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Tax
                         </th>
@@ -348,11 +445,20 @@ export default function EndUserOrders() {
                           className="hover:bg-gray-50 cursor-pointer"
                           onClick={() => router.push(`/enduser/orders/${order.id}`)}
                         >
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <input type="checkbox" className="rounded border-gray-300" />
+                          <td className="px-6 py-4 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              className="rounded border-gray-300 disabled:opacity-40"
+                              disabled={!canBulkInvoice(order)}
+                              checked={selectedOrders.includes(order.orderKey)}
+                              onChange={() => toggleSelected(order.orderKey)}
+                            />
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                             {order.orderReference}
+                            {order.lineCount > 1 && (
+                              <span className="ml-2 text-xs font-normal text-gray-500">{order.lineCount} items</span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {order.customer}
@@ -364,6 +470,11 @@ export default function EndUserOrders() {
                           <td className="px-6 py-4 whitespace-nowrap">
                             {getStatusBadge(order.status)}
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${INVOICE_STATUS_STYLES[order.invoiceStatus]}`}>
+                              {INVOICE_STATUS_LABELS[order.invoiceStatus]}
+                            </span>
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             -
                           </td>
@@ -410,9 +521,12 @@ export default function EndUserOrders() {
           <div className="mt-6">
             <h4 className="font-medium text-gray-900 mb-2">Invoice state on rental order level</h4>
             <div className="space-y-1 text-sm text-gray-600">
-              <div><strong>Nothing to invoice</strong> - when order just created, and rental order is not confirmed</div>
-              <div><strong>To invoice</strong> - rental order is confirmed but not create invoice</div>
-              <div><strong>Fully invoiced</strong> - Invoice has been created for this rental order</div>
+              <div><strong>Nothing to invoice</strong> - rental order is still a quotation, or was cancelled</div>
+              <div><strong>To invoice</strong> - rental order is confirmed but not fully invoiced; select delivered or returned orders in the list view to invoice them together</div>
+              <div><strong>Invoiced</strong> - invoice posted and waiting for payment</div>
+              <div><strong>Partially paid</strong> - part of the order has been paid</div>
+              <div><strong>Paid</strong> - every invoice for this rental order is paid</div>
+              <div><strong>Overdue</strong> - an invoice is unpaid past its due date</div>
             </div>
           </div>
         </div>
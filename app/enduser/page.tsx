@@ -19,7 +19,8 @@ import {
   FileText,
   Search,
   ChevronDown,
-  IndianRupee
+  IndianRupee,
+  Clock
 } from 'lucide-react';
 import { logger } from '@/lib/logger';
 import toast from 'react-hot-toast';
@@ -35,6 +36,8 @@ export default function EndUserDashboard() {
     quotations: 0,
     rentals: 0,
     revenue: 0,
+    lateReturns: 0,
+    lateFees: 0,
     topCategories: [] as Array<{ category: string; ordered: number; revenue: number }>,
     topProducts: [] as Array<{ product: string; ordered: number; revenue: number }>,
     topCustomers: [] as Array<{ customer: string; ordered: number; revenue: number }>,
@@ -140,7 +143,7 @@ export default function EndUserDashboard() {
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* KPI Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           {/* Quotations */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <div className="flex items-center justify-between">
@@ -192,6 +195,27 @@ export default function EndUserDashboard() {
               </div>
             </div>
           </div>
+
+          {/* Late Returns */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
+                  Late Returns
+                </h3>
+                <p className="text-3xl font-bold text-gray-900 mt-2">
+                  {dashboardData.lateReturns}
+                </p>
+                <p className="text-sm text-gray-500 mt-1 flex items-center">
+                  <IndianRupee className="h-3 w-3 mr-0.5" />
+                  {dashboardData.lateFees.toLocaleString()} in late fees
+                </p>
+              </div>
+              <div className="bg-orange-100 p-3 rounded-lg">
+                <Clock className="h-6 w-6 text-orange-600" />
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Analytics Tables */}
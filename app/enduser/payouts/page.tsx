@@ -0,0 +1,256 @@
+/**
+ * End User Payouts Page
+ * Balances owed by the platform, the per-order earnings behind them and past payout statements
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Wallet, Clock, CheckCircle, ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  available: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+const formatMoney = (amount: number) => `₹${(amount || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+// Discounts, refunds and commission are taken off; on an adjustment they can come back
+const formatDeduction = (amount: number) => (amount < 0 ? `+${formatMoney(-amount)}` : `−${formatMoney(amount)}`);
+const settlementLabel = (settlement: any) => (settlement.revision ? `${settlement.orderNumber} (adjustment)` : settlement.orderNumber);
+
+export default function EndUserPayouts() {
+  const [balances, setBalances] = useState({ pending: 0, available: 0, paid: 0 });
+  const [commissionRate, setCommissionRate] = useState(0);
+  const [holdDays, setHoldDays] = useState(0);
+  const [settlements, setSettlements] = useState<any[]>([]);
+  const [payouts, setPayouts] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [statement, setStatement] = useState<{ payout: any; settlements: any[] } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ page: String(page), limit: '20' });
+        if (status) params.set('status', status);
+        const res = await fetch(`/api/enduser/payouts?${params.toString()}`);
+        const json = await res.json();
+        if (json?.success) {
+          setBalances(json.data.balances);
+          setCommissionRate(json.data.commissionRate);
+          setHoldDays(json.data.holdDays);
+          setSettlements(json.data.settlements || []);
+          setPayouts(json.data.payouts || []);
+          setTotalPages(json.data.pagination?.totalPages || 1);
+        } else {
+          toast.error(json?.error || 'Failed to load payouts');
+        }
+      } catch (e) {
+        toast.error('Failed to load payouts');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [status, page]);
+
+  const openStatement = async (id: string) => {
+    if (statement?.payout?._id === id) {
+      setStatement(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/enduser/payouts/${id}`);
+      const json = await res.json();
+      if (json?.success) {
+        setStatement(json.data);
+      } else {
+        toast.error(json?.error || 'Failed to load statement');
+      }
+    } catch (e) {
+      toast.error('Failed to load statement');
+    }
+  };
+
+  const cards = [
+    { label: 'Pending', amount: balances.pending, icon: Clock, note: `Rentals still running, or returned less than ${holdDays} days ago` },
+    { label: 'Available', amount: balances.available, icon: Wallet, note: 'Included in the next payout' },
+    { label: 'Paid', amount: balances.paid, icon: CheckCircle, note: 'Paid out so far' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-xl font-semibold text-gray-900">Payouts</h1>
+            <p className="text-sm text-gray-500">Platform commission: {commissionRate}% of rental charges</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Balances */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {cards.map(({ label, amount, icon: Icon, note }) => (
+            <div key={label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-500">{label}</span>
+                <Icon className="w-5 h-5 text-gray-400" />
+              </div>
+              <div className="mt-2 text-2xl font-bold text-gray-900">{formatMoney(amount)}</div>
+              <p className="mt-1 text-xs text-gray-500">{note}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Earnings per order */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <h2 className="font-semibold text-gray-900">Earnings by order</h2>
+            <select
+              value={status}
+              onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Any status</option>
+              <option value="pending">Pending</option>
+              <option value="available">Available</option>
+              <option value="paid">Paid</option>
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="loading-spinner w-8 h-8"></div>
+            </div>
+          ) : settlements.length === 0 ? (
+            <div className="p-12 text-center">
+              <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No earnings yet</p>
+              <p className="text-sm text-gray-500 mt-1">Paid orders for your products show up here.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rentals</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Refunded / credited</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Deposit kept</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">You earn</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {settlements.map((settlement) => (
+                    <tr key={settlement._id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{settlementLabel(settlement)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">{formatMoney(settlement.gross + (settlement.lateFees || 0))}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">{settlement.discount ? formatDeduction(settlement.discount) : '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">{settlement.refunded || settlement.credited ? formatDeduction((settlement.refunded || 0) + (settlement.credited || 0)) : '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">
+                        {formatDeduction(settlement.commission)} <span className="text-xs text-gray-400">({settlement.commissionRate}%)</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">{settlement.depositDeductions ? formatMoney(settlement.depositDeductions) : '—'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">{formatMoney(settlement.net)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[settlement.status]}`}>
+                          {settlement.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-center items-center space-x-4 py-4 border-t border-gray-200">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="p-2 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="p-2 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Payout statements */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Payout statements</h2>
+          </div>
+          {payouts.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No payouts yet. Available earnings are paid out on the next payout run.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {payouts.map((payout) => (
+                <li key={payout._id} className="px-6 py-4">
+                  <button onClick={() => openStatement(payout._id)} className="w-full flex items-center justify-between text-left">
+                    <div className="flex items-center space-x-3">
+                      <FileText className="w-5 h-5 text-gray-400" />
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{payout.statementNumber}</div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(payout.periodStart).toLocaleDateString()} – {new Date(payout.periodEnd).toLocaleDateString()} · {payout.orderCount} order{payout.orderCount === 1 ? '' : 's'}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm font-semibold text-gray-900">{formatMoney(payout.amount)}</div>
+                      <div className="text-xs text-gray-500">Paid {new Date(payout.paidAt).toLocaleDateString()}</div>
+                    </div>
+                  </button>
+
+                  {statement?.payout?._id === payout._id && (
+                    <div className="mt-4 bg-gray-50 rounded-lg p-4 text-sm">
+                      <table className="min-w-full">
+                        <tbody>
+                          {statement?.settlements.map((settlement) => (
+                            <tr key={settlement._id}>
+                              <td className="py-1 text-gray-900">{settlementLabel(settlement)}</td>
+                              <td className="py-1 text-gray-600 text-right">{formatMoney(settlement.net)}</td>
+                            </tr>
+                          ))}
+                          <tr className="border-t border-gray-200"><td className="pt-2 text-gray-600">Rental charges</td><td className="pt-2 text-right">{formatMoney(payout.gross)}</td></tr>
+                          {payout.lateFees ? <tr><td className="text-gray-600">Late fees</td><td className="text-right">{formatMoney(payout.lateFees)}</td></tr> : null}
+                          <tr><td className="text-gray-600">Discounts</td><td className="text-right">−{formatMoney(payout.discount)}</td></tr>
+                          <tr><td className="text-gray-600">Refunds</td><td className="text-right">−{formatMoney(payout.refunded)}</td></tr>
+                          {payout.credited ? <tr><td className="text-gray-600">Credit notes</td><td className="text-right">−{formatMoney(payout.credited)}</td></tr> : null}
+                          <tr><td className="text-gray-600">Platform commission</td><td className="text-right">−{formatMoney(payout.commission)}</td></tr>
+                          <tr><td className="text-gray-600">Deposit deductions kept</td><td className="text-right">{formatMoney(payout.depositDeductions)}</td></tr>
+                          <tr className="font-semibold"><td className="pt-1">Paid out</td><td className="pt-1 text-right">{formatMoney(payout.amount)}</td></tr>
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,872 @@
+/**
+ * End User Policies Page
+ * Edit the cancellation refund tiers, the late fee policy, the GST rules and the pickup and delivery
+ * options applied to the enduser's orders
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Plus, Trash2, ScrollText, Clock, Receipt, Truck } from 'lucide-react';
+
+const CATEGORIES = ['Photography', 'Tools', 'Sports', 'Electronics', 'Furniture', 'Equipment', 'Vehicles', 'Other'];
+
+interface TierRow {
+  hoursBefore: string;
+  percent: string;
+}
+
+interface RuleForm {
+  gracePeriodHours: string;
+  basis: 'flat' | 'percentage' | '';
+  amount: string;
+  per: 'day' | 'hour' | '';
+  cap: string;
+}
+
+interface OverrideRow extends RuleForm {
+  target: string; // "product:<id>" or "category:<name>"
+}
+
+interface TaxForm {
+  gstin: string;
+  state: string;
+  label: string;
+  rate: string;
+  inclusive: boolean;
+}
+
+interface TaxOverrideRow {
+  category: string;
+  rate: string;
+  inclusive: '' | 'inclusive' | 'exclusive';
+}
+
+interface DeliveryForm {
+  pickupEnabled: boolean;
+  pickupAddress: string;
+  deliveryEnabled: boolean;
+  chargeType: 'flat' | 'zone' | 'distance';
+  flatCharge: string;
+  freeAbove: string;
+  serviceablePincodes: string; // comma separated
+  latitude: string;
+  longitude: string;
+}
+
+interface ZoneRow {
+  name: string;
+  pincodes: string; // comma separated
+  charge: string;
+}
+
+interface BandRow {
+  upToKm: string;
+  charge: string;
+}
+
+const toInput = (value: any) => (value === undefined || value === null ? '' : String(value));
+
+const ruleToForm = (rule: any): RuleForm => ({
+  gracePeriodHours: toInput(rule?.gracePeriodHours),
+  basis: rule?.basis || '',
+  amount: toInput(rule?.amount),
+  per: rule?.per || '',
+  cap: toInput(rule?.cap),
+});
+
+// Empty inputs are sent as blank so the server leaves them unset
+const formToRule = (form: RuleForm) => ({
+  gracePeriodHours: form.gracePeriodHours,
+  basis: form.basis,
+  amount: form.amount,
+  per: form.per,
+  cap: form.cap,
+});
+
+export default function EndUserPolicies() {
+  const [loading, setLoading] = useState(true);
+  const [products, setProducts] = useState<Array<{ _id: string; name: string }>>([]);
+  const [tiers, setTiers] = useState<TierRow[]>([]);
+  const [allowCustomerCancellation, setAllowCustomerCancellation] = useState(true);
+  const [lateFee, setLateFee] = useState<RuleForm>(ruleToForm(null));
+  const [overrides, setOverrides] = useState<OverrideRow[]>([]);
+  const [savingRefunds, setSavingRefunds] = useState(false);
+  const [savingLateFees, setSavingLateFees] = useState(false);
+  const [tax, setTax] = useState<TaxForm>({ gstin: '', state: '', label: 'GST', rate: '', inclusive: false });
+  const [taxOverrides, setTaxOverrides] = useState<TaxOverrideRow[]>([]);
+  const [savingTax, setSavingTax] = useState(false);
+  const [delivery, setDelivery] = useState<DeliveryForm>({
+    pickupEnabled: true,
+    pickupAddress: '',
+    deliveryEnabled: true,
+    chargeType: 'flat',
+    flatCharge: '0',
+    freeAbove: '',
+    serviceablePincodes: '',
+    latitude: '',
+    longitude: '',
+  });
+  const [zones, setZones] = useState<ZoneRow[]>([]);
+  const [bands, setBands] = useState<BandRow[]>([]);
+  const [savingDelivery, setSavingDelivery] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [refundRes, lateFeeRes, taxRes, deliveryRes, productsRes] = await Promise.all([
+          fetch('/api/enduser/refund-policy'),
+          fetch('/api/enduser/late-fee-policy'),
+          fetch('/api/enduser/tax-policy'),
+          fetch('/api/enduser/delivery-policy'),
+          fetch('/api/products?myProducts=true'),
+        ]);
+        const [refundJson, lateFeeJson, taxJson, deliveryJson, productsJson] = await Promise.all([
+          refundRes.json(),
+          lateFeeRes.json(),
+          taxRes.json(),
+          deliveryRes.json(),
+          productsRes.json(),
+        ]);
+
+        if (refundJson?.success) {
+          setTiers(refundJson.data.tiers.map((tier: any) => ({ hoursBefore: String(tier.hoursBefore), percent: String(tier.percent) })));
+          setAllowCustomerCancellation(refundJson.data.allowCustomerCancellation);
+        } else {
+          toast.error(refundJson?.error || 'Failed to load refund policy');
+        }
+
+        if (lateFeeJson?.success) {
+          setLateFee(ruleToForm(lateFeeJson.data));
+          setOverrides((lateFeeJson.data.overrides || []).map((override: any) => ({
+            ...ruleToForm(override),
+            target: override.productId ? `product:${override.productId._id || override.productId}` : `category:${override.category}`,
+          })));
+        } else {
+          toast.error(lateFeeJson?.error || 'Failed to load late fee policy');
+        }
+
+        if (taxJson?.success) {
+          setTax({
+            gstin: taxJson.data.gstin || '',
+            state: taxJson.data.state || '',
+            label: taxJson.data.label || 'GST',
+            rate: toInput(taxJson.data.rate),
+            inclusive: !!taxJson.data.inclusive,
+          });
+          setTaxOverrides((taxJson.data.overrides || []).map((override: any) => ({
+            category: override.category,
+            rate: toInput(override.rate),
+            inclusive: override.inclusive === undefined || override.inclusive === null ? '' : override.inclusive ? 'inclusive' : 'exclusive',
+          })));
+        } else {
+          toast.error(taxJson?.error || 'Failed to load tax policy');
+        }
+
+        if (deliveryJson?.success) {
+          const policy = deliveryJson.data;
+          setDelivery({
+            pickupEnabled: policy.pickupEnabled !== false,
+            pickupAddress: policy.pickupAddress || '',
+            deliveryEnabled: policy.deliveryEnabled !== false,
+            chargeType: policy.chargeType || 'flat',
+            flatCharge: toInput(policy.flatCharge),
+            freeAbove: toInput(policy.freeAbove),
+            serviceablePincodes: (policy.serviceablePincodes || []).join(', '),
+            latitude: toInput(policy.origin?.latitude),
+            longitude: toInput(policy.origin?.longitude),
+          });
+          setZones((policy.zones || []).map((zone: any) => ({ name: zone.name, pincodes: zone.pincodes.join(', '), charge: toInput(zone.charge) })));
+          setBands((policy.distanceBands || []).map((band: any) => ({ upToKm: toInput(band.upToKm), charge: toInput(band.charge) })));
+        } else {
+          toast.error(deliveryJson?.error || 'Failed to load delivery policy');
+        }
+
+        if (productsJson?.success) setProducts(productsJson.data || []);
+      } catch (e) {
+        toast.error('Failed to load policies');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const saveRefundPolicy = async () => {
+    try {
+      setSavingRefunds(true);
+      const res = await fetch('/api/enduser/refund-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tiers: tiers.map((tier) => ({ hoursBefore: Number(tier.hoursBefore), percent: Number(tier.percent) })),
+          allowCustomerCancellation,
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success('Refund policy saved');
+      } else {
+        toast.error(json?.error || 'Failed to save refund policy');
+      }
+    } catch (e) {
+      toast.error('Failed to save refund policy');
+    } finally {
+      setSavingRefunds(false);
+    }
+  };
+
+  const saveLateFeePolicy = async () => {
+    try {
+      setSavingLateFees(true);
+      const res = await fetch('/api/enduser/late-fee-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formToRule(lateFee),
+          overrides: overrides.map((override) => {
+            const [kind, value] = override.target.split(/:(.*)/);
+            return {
+              ...formToRule(override),
+              productId: kind === 'product' ? value : undefined,
+              category: kind === 'category' ? value : undefined,
+            };
+          }),
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success('Late fee policy saved');
+      } else {
+        toast.error(json?.error || 'Failed to save late fee policy');
+      }
+    } catch (e) {
+      toast.error('Failed to save late fee policy');
+    } finally {
+      setSavingLateFees(false);
+    }
+  };
+
+  const saveTaxPolicy = async () => {
+    try {
+      setSavingTax(true);
+      const res = await fetch('/api/enduser/tax-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...tax,
+          overrides: taxOverrides.map((override) => ({
+            category: override.category,
+            rate: override.rate,
+            inclusive: override.inclusive === '' ? undefined : override.inclusive === 'inclusive',
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success('Tax policy saved');
+      } else {
+        toast.error(json?.error || 'Failed to save tax policy');
+      }
+    } catch (e) {
+      toast.error('Failed to save tax policy');
+    } finally {
+      setSavingTax(false);
+    }
+  };
+
+  const saveDeliveryPolicy = async () => {
+    try {
+      setSavingDelivery(true);
+      const res = await fetch('/api/enduser/delivery-policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pickupEnabled: delivery.pickupEnabled,
+          pickupAddress: delivery.pickupAddress,
+          deliveryEnabled: delivery.deliveryEnabled,
+          chargeType: delivery.chargeType,
+          flatCharge: delivery.flatCharge,
+          freeAbove: delivery.freeAbove,
+          serviceablePincodes: delivery.serviceablePincodes,
+          zones,
+          origin: { latitude: delivery.latitude, longitude: delivery.longitude },
+          distanceBands: bands,
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success('Delivery policy saved');
+      } else {
+        toast.error(json?.error || 'Failed to save delivery policy');
+      }
+    } catch (e) {
+      toast.error('Failed to save delivery policy');
+    } finally {
+      setSavingDelivery(false);
+    }
+  };
+
+  const updateZone = (index: number, changes: Partial<ZoneRow>) =>
+    setZones(zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+
+  const updateBand = (index: number, changes: Partial<BandRow>) =>
+    setBands(bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+
+  const updateTaxOverride = (index: number, changes: Partial<TaxOverrideRow>) =>
+    setTaxOverrides(taxOverrides.map((override, i) => (i === index ? { ...override, ...changes } : override)));
+
+  const updateOverride = (index: number, changes: Partial<OverrideRow>) =>
+    setOverrides(overrides.map((override, i) => (i === index ? { ...override, ...changes } : override)));
+
+  const renderRuleInputs = (rule: RuleForm, onChange: (changes: Partial<RuleForm>) => void, inherit: boolean) => (
+    <>
+      <select
+        value={rule.basis}
+        onChange={(e) => onChange({ basis: e.target.value as RuleForm['basis'] })}
+        className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      >
+        {inherit && <option value="">Inherit</option>}
+        <option value="flat">₹ flat</option>
+        <option value="percentage">% of daily rate</option>
+      </select>
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={rule.amount}
+        onChange={(e) => onChange({ amount: e.target.value })}
+        placeholder={inherit ? 'Inherit' : 'Amount'}
+        className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <select
+        value={rule.per}
+        onChange={(e) => onChange({ per: e.target.value as RuleForm['per'] })}
+        className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      >
+        {inherit && <option value="">Inherit</option>}
+        <option value="day">per day</option>
+        <option value="hour">per hour</option>
+      </select>
+      <input
+        type="number"
+        min={0}
+        value={rule.gracePeriodHours}
+        onChange={(e) => onChange({ gracePeriodHours: e.target.value })}
+        placeholder={inherit ? 'Inherit' : '0'}
+        title="Grace period (hours)"
+        className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={rule.cap}
+        onChange={(e) => onChange({ cap: e.target.value })}
+        placeholder={inherit ? 'Inherit' : 'No cap'}
+        title="Cap per unit (₹)"
+        className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+      />
+    </>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-xl font-semibold text-gray-900">Rental Policies</h1>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Cancellation refunds */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center">
+            <ScrollText className="w-5 h-5 text-purple-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Cancellation Refunds</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Customers cancelling at least this many hours before the rental starts get this share of the order back. No tier met means no refund.
+          </p>
+
+          <div className="space-y-2">
+            {tiers.map((tier, index) => (
+              <div key={index} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="number"
+                  min={0}
+                  value={tier.hoursBefore}
+                  onChange={(e) => setTiers(tiers.map((t, i) => (i === index ? { ...t, hoursBefore: e.target.value } : t)))}
+                  className="w-24 px-2 py-2 border border-gray-300 rounded-lg"
+                />
+                <span className="text-gray-600">hours or more before start →</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={tier.percent}
+                  onChange={(e) => setTiers(tiers.map((t, i) => (i === index ? { ...t, percent: e.target.value } : t)))}
+                  className="w-20 px-2 py-2 border border-gray-300 rounded-lg"
+                />
+                <span className="text-gray-600">% refunded</span>
+                <button
+                  type="button"
+                  onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                  title="Remove tier"
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setTiers([...tiers, { hoursBefore: '', percent: '' }])}
+              className="flex items-center text-sm text-purple-600 hover:text-purple-800"
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add tier
+            </button>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={allowCustomerCancellation}
+              onChange={(e) => setAllowCustomerCancellation(e.target.checked)}
+            />
+            <span>Customers can cancel their own orders</span>
+          </label>
+
+          <div className="flex justify-end">
+            <button
+              onClick={saveRefundPolicy}
+              disabled={savingRefunds}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              {savingRefunds ? 'Saving...' : 'Save Refund Policy'}
+            </button>
+          </div>
+        </div>
+
+        {/* Late fees */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center">
+            <Clock className="w-5 h-5 text-purple-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Late Fees</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Charged per unit for every started day or hour a rental is overdue, once the grace period (hours) has passed. The cap limits what one unit can be charged in total.
+          </p>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Default</p>
+            <div className="flex flex-wrap items-center gap-2">
+              {renderRuleInputs(lateFee, (changes) => setLateFee({ ...lateFee, ...changes }), false)}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Fee · amount · period · grace hours · cap per unit</p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Overrides</p>
+            <div className="space-y-2">
+              {overrides.length === 0 && <p className="text-sm text-gray-500">Every product uses the default.</p>}
+              {overrides.map((override, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={override.target}
+                    onChange={(e) => updateOverride(index, { target: e.target.value })}
+                    className="px-2 py-2 border border-gray-300 rounded-lg text-sm w-48"
+                  >
+                    <optgroup label="Categories">
+                      {CATEGORIES.map((category) => (
+                        <option key={category} value={`category:${category}`}>{category}</option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Products">
+                      {products.map((product) => (
+                        <option key={product._id} value={`product:${product._id}`}>{product.name}</option>
+                      ))}
+                    </optgroup>
+                  </select>
+                  {renderRuleInputs(override, (changes) => updateOverride(index, changes), true)}
+                  <button
+                    type="button"
+                    onClick={() => setOverrides(overrides.filter((_, i) => i !== index))}
+                    title="Remove override"
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setOverrides([...overrides, { ...ruleToForm(null), target: `category:${CATEGORIES[0]}` }])}
+                className="flex items-center text-sm text-purple-600 hover:text-purple-800"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add override
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">A product override wins over its category&apos;s; blank fields inherit the default.</p>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={saveLateFeePolicy}
+              disabled={savingLateFees}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              {savingLateFees ? 'Saving...' : 'Save Late Fee Policy'}
+            </button>
+          </div>
+        </div>
+
+        {/* Tax */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center">
+            <Receipt className="w-5 h-5 text-purple-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Tax (GST)</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Charged on every rental line. Deliveries within your state are split into CGST and SGST; deliveries to another state are charged IGST.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={tax.gstin}
+              onChange={(e) => setTax({ ...tax, gstin: e.target.value.toUpperCase() })}
+              placeholder="GSTIN"
+              maxLength={15}
+              className="w-48 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              value={tax.state}
+              onChange={(e) => setTax({ ...tax, state: e.target.value })}
+              placeholder="Registered state"
+              className="w-48 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Default</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={tax.rate}
+                onChange={(e) => setTax({ ...tax, rate: e.target.value })}
+                placeholder="Rate"
+                className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+              <span className="text-sm text-gray-600">%</span>
+              <select
+                value={tax.inclusive ? 'inclusive' : 'exclusive'}
+                onChange={(e) => setTax({ ...tax, inclusive: e.target.value === 'inclusive' })}
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="exclusive">added to prices</option>
+                <option value="inclusive">included in prices</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Category overrides</p>
+            <div className="space-y-2">
+              {taxOverrides.length === 0 && <p className="text-sm text-gray-500">Every category uses the default.</p>}
+              {taxOverrides.map((override, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={override.category}
+                    onChange={(e) => updateTaxOverride(index, { category: e.target.value })}
+                    className="px-2 py-2 border border-gray-300 rounded-lg text-sm w-48"
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    value={override.rate}
+                    onChange={(e) => updateTaxOverride(index, { rate: e.target.value })}
+                    placeholder="Inherit"
+                    className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <span className="text-sm text-gray-600">%</span>
+                  <select
+                    value={override.inclusive}
+                    onChange={(e) => updateTaxOverride(index, { inclusive: e.target.value as TaxOverrideRow['inclusive'] })}
+                    className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Inherit</option>
+                    <option value="exclusive">added to prices</option>
+                    <option value="inclusive">included in prices</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setTaxOverrides(taxOverrides.filter((_, i) => i !== index))}
+                    title="Remove override"
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setTaxOverrides([...taxOverrides, { category: CATEGORIES[0], rate: '', inclusive: '' }])}
+                className="flex items-center text-sm text-purple-600 hover:text-purple-800"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add override
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Blank fields inherit the default. Orders already placed keep the tax they were charged.</p>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={saveTaxPolicy}
+              disabled={savingTax}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              {savingTax ? 'Saving...' : 'Save Tax Policy'}
+            </button>
+          </div>
+        </div>
+
+        {/* Delivery */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center">
+            <Truck className="w-5 h-5 text-purple-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Delivery</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            How customers get your rentals. Checkout only offers delivery to the pincodes you serve and adds the charge for the address.
+          </p>
+
+          <div className="space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={delivery.pickupEnabled}
+                onChange={(e) => setDelivery({ ...delivery, pickupEnabled: e.target.checked })}
+              />
+              <span>Customers can collect from the store</span>
+            </label>
+            {delivery.pickupEnabled && (
+              <input
+                type="text"
+                value={delivery.pickupAddress}
+                onChange={(e) => setDelivery({ ...delivery, pickupAddress: e.target.value })}
+                placeholder="Pickup address"
+                maxLength={200}
+                className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            )}
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={delivery.deliveryEnabled}
+                onChange={(e) => setDelivery({ ...delivery, deliveryEnabled: e.target.checked })}
+              />
+              <span>Deliver to the customer</span>
+            </label>
+          </div>
+
+          {delivery.deliveryEnabled && (
+            <>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Serviceable pincodes</p>
+                <textarea
+                  value={delivery.serviceablePincodes}
+                  onChange={(e) => setDelivery({ ...delivery, serviceablePincodes: e.target.value })}
+                  placeholder="560001, 560002, ..."
+                  rows={2}
+                  className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave blank to deliver to every pincode.</p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={delivery.chargeType}
+                  onChange={(e) => setDelivery({ ...delivery, chargeType: e.target.value as DeliveryForm['chargeType'] })}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="flat">Flat rate</option>
+                  <option value="zone">By pincode zone</option>
+                  <option value="distance">By distance from the store</option>
+                </select>
+                {delivery.chargeType === 'flat' && (
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={delivery.flatCharge}
+                    onChange={(e) => setDelivery({ ...delivery, flatCharge: e.target.value })}
+                    placeholder="₹ charge"
+                    className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                )}
+                <span className="text-sm text-gray-600">free above ₹</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={delivery.freeAbove}
+                  onChange={(e) => setDelivery({ ...delivery, freeAbove: e.target.value })}
+                  placeholder="Never"
+                  className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+
+              {delivery.chargeType === 'zone' && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Zones</p>
+                  <div className="space-y-2">
+                    {zones.length === 0 && <p className="text-sm text-gray-500">No zones yet.</p>}
+                    {zones.map((zone, index) => (
+                      <div key={index} className="flex flex-wrap items-center gap-2">
+                        <input
+                          type="text"
+                          value={zone.name}
+                          onChange={(e) => updateZone(index, { name: e.target.value })}
+                          placeholder="Zone name"
+                          className="w-36 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={zone.pincodes}
+                          onChange={(e) => updateZone(index, { pincodes: e.target.value })}
+                          placeholder="Pincodes, comma separated"
+                          className="flex-1 min-w-[12rem] px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={zone.charge}
+                          onChange={(e) => updateZone(index, { charge: e.target.value })}
+                          placeholder="₹ charge"
+                          className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setZones(zones.filter((_, i) => i !== index))}
+                          title="Remove zone"
+                          className="p-1 text-gray-400 hover:text-red-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setZones([...zones, { name: '', pincodes: '', charge: '' }])}
+                      className="flex items-center text-sm text-purple-600 hover:text-purple-800"
+                    >
+                      <Plus className="w-4 h-4 mr-1" /> Add zone
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Pincodes outside every zone can't be delivered to.</p>
+                </div>
+              )}
+
+              {delivery.chargeType === 'distance' && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Store location</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="number"
+                      step="any"
+                      value={delivery.latitude}
+                      onChange={(e) => setDelivery({ ...delivery, latitude: e.target.value })}
+                      placeholder="Latitude"
+                      className="w-36 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={delivery.longitude}
+                      onChange={(e) => setDelivery({ ...delivery, longitude: e.target.value })}
+                      placeholder="Longitude"
+                      className="w-36 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                  <p className="text-sm font-medium text-gray-700">Distance bands</p>
+                  {bands.length === 0 && <p className="text-sm text-gray-500">No bands yet.</p>}
+                  {bands.map((band, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-gray-600">Up to</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.1"
+                        value={band.upToKm}
+                        onChange={(e) => updateBand(index, { upToKm: e.target.value })}
+                        className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <span className="text-sm text-gray-600">km costs ₹</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={band.charge}
+                        onChange={(e) => updateBand(index, { charge: e.target.value })}
+                        className="w-24 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setBands(bands.filter((_, i) => i !== index))}
+                        title="Remove band"
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setBands([...bands, { upToKm: '', charge: '' }])}
+                    className="flex items-center text-sm text-purple-600 hover:text-purple-800"
+                  >
+                    <Plus className="w-4 h-4 mr-1" /> Add band
+                  </button>
+                  <p className="text-xs text-gray-500">Customers share their location at checkout; addresses beyond the last band can't be delivered to.</p>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={saveDeliveryPolicy}
+              disabled={savingDelivery}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              {savingDelivery ? 'Saving...' : 'Save Delivery Policy'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -37,6 +37,7 @@ interface ProductFormData {
   pricePerWeek?: number;
   pricePerMonth?: number;
   pricePerYear?: number;
+  securityDeposit: number;
   quantityAvailable: number;
   units: string[]; // Available rental periods chosen (first one will be primary)
   availability: boolean;
@@ -65,6 +66,7 @@ export default function EditProductPage() {
     pricePerWeek: undefined,
     pricePerMonth: undefined,
     pricePerYear: undefined,
+    securityDeposit: 0,
     quantityAvailable: 1,
     units: ['day'],
     availability: true,
@@ -142,6 +144,7 @@ export default function EditProductPage() {
           pricePerWeek: p.pricePerWeek ?? undefined,
           pricePerMonth: p.pricePerMonth ?? undefined,
           pricePerYear: p.pricePerYear ?? undefined,
+          securityDeposit: p.securityDeposit ?? 0,
           quantityAvailable: p.quantityAvailable ?? 1,
           units: dedupUnits.length > 0 ? dedupUnits : ['day'],
           availability: Boolean(p.availability),
@@ -243,6 +246,7 @@ export default function EditProductPage() {
         quantityAvailable: formData.quantityAvailable,
         availability: formData.availability,
         units: formData.units[0], // Primary unit
+        securityDeposit: formData.securityDeposit || 0,
       };
       if (formData.pricePerHour && formData.pricePerHour > 0) payload.pricePerHour = formData.pricePerHour;
       if (formData.pricePerDay && formData.pricePerDay > 0) payload.pricePerDay = formData.pricePerDay;
@@ -562,6 +566,28 @@ export default function EditProductPage() {
                   </div>
                 </div>
 
+                {/* Security Deposit */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    Security Deposit
+                  </label>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Per unit, refunded on return:</span>
+                    <div className="flex items-center">
+                      <IndianRupee className="w-4 h-4 text-gray-400 mr-1" />
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={formData.securityDeposit}
+                        onChange={(e) => handleInputChange('securityDeposit', parseFloat(e.target.value) || 0)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                        placeholder="0.00"
+                      />
+                    </div>
+                  </div>
+                </div>
+
                 {/* Help Text */}
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <div className="flex items-start">
@@ -7,6 +7,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
+import toast from 'react-hot-toast';
 import {
   ArrowLeft,
   Settings,
@@ -38,6 +39,7 @@ interface StockData {
     date: string;
     action: 'increase' | 'decrease' | 'reserve' | 'return';
     quantity: number;
+    balanceAfter?: number;
     reason: string;
     updatedBy: string;
   }>;
@@ -57,48 +59,30 @@ export default function UpdateStock() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
-  // Mock data - In real app, fetch from API
+  const applyStockData = (data: StockData) => {
+    setStockData(data);
+    setMinimumStock(data.minimumStock);
+    setMaximumStock(data.maximumStock);
+  };
+
   useEffect(() => {
-    const mockData: StockData = {
-      productId: productId,
-      productName: 'Professional Camera Kit',
-      currentStock: 5,
-      reservedStock: 2,
-      availableStock: 3,
-      minimumStock: 2,
-      maximumStock: 20,
-      lastUpdated: '2024-01-15T10:30:00Z',
-      stockHistory: [
-        {
-          date: '2024-01-15T10:30:00Z',
-          action: 'increase',
-          quantity: 3,
-          reason: 'New inventory received',
-          updatedBy: 'Admin User'
-        },
-        {
-          date: '2024-01-14T14:20:00Z',
-          action: 'reserve',
-          quantity: 1,
-          reason: 'Customer rental booking',
-          updatedBy: 'System'
-        },
-        {
-          date: '2024-01-13T09:15:00Z',
-          action: 'decrease',
-          quantity: 1,
-          reason: 'Damaged item removed',
-          updatedBy: 'Admin User'
+    const load = async () => {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/products/${productId}/stock`);
+        const json = await res.json();
+        if (json?.success) {
+          applyStockData(json.data);
+        } else {
+          toast.error(json?.error || 'Failed to load stock');
         }
-      ]
+      } catch (e) {
+        toast.error('Failed to load stock');
+      } finally {
+        setLoading(false);
+      }
     };
-
-    setTimeout(() => {
-      setStockData(mockData);
-      setMinimumStock(mockData.minimumStock);
-      setMaximumStock(mockData.maximumStock);
-      setLoading(false);
-    }, 500);
+    load();
   }, [productId]);
 
   const handleStockAdjustment = async () => {
@@ -106,35 +90,30 @@ export default function UpdateStock() {
 
     setSaving(true);
     try {
-      // API call to update stock would go here
-      const newStock = adjustmentType === 'increase' 
-        ? stockData.currentStock + adjustmentQuantity
-        : Math.max(0, stockData.currentStock - adjustmentQuantity);
+      const res = await fetch(`/api/products/${productId}/stock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: adjustmentType,
+          quantity: adjustmentQuantity,
+          reason: adjustmentReason,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json?.success) {
+        toast.error(json?.error || 'Failed to update stock');
+        return;
+      }
 
-      const newAvailable = newStock - stockData.reservedStock;
-
-      setStockData(prev => prev ? {
-        ...prev,
-        currentStock: newStock,
-        availableStock: Math.max(0, newAvailable),
-        lastUpdated: new Date().toISOString(),
-        stockHistory: [
-          {
-            date: new Date().toISOString(),
-            action: adjustmentType,
-            quantity: adjustmentQuantity,
-            reason: adjustmentReason || `Stock ${adjustmentType}`,
-            updatedBy: 'Current User'
-          },
-          ...prev.stockHistory
-        ]
-      } : null);
+      applyStockData(json.data);
+      toast.success('Stock updated');
 
       // Reset form
       setAdjustmentQuantity(1);
       setAdjustmentReason('');
     } catch (error) {
       console.error('Error updating stock:', error);
+      toast.error('Failed to update stock');
     } finally {
       setSaving(false);
     }
@@ -145,14 +124,22 @@ export default function UpdateStock() {
 
     setSaving(true);
     try {
-      // API call to update stock limits would go here
-      setStockData(prev => prev ? {
-        ...prev,
-        minimumStock,
-        maximumStock
-      } : null);
+      const res = await fetch(`/api/products/${productId}/stock`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minimumStock, maximumStock }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json?.success) {
+        toast.error(json?.error || 'Failed to update stock limits');
+        return;
+      }
+
+      applyStockData(json.data);
+      toast.success('Stock limits updated');
     } catch (error) {
       console.error('Error updating stock limits:', error);
+      toast.error('Failed to update stock limits');
     } finally {
       setSaving(false);
     }
@@ -436,9 +423,12 @@ export default function UpdateStock() {
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900">
-                        {entry.action === 'increase' && '+'}
-                        {entry.action === 'decrease' && '-'}
+                        {(entry.action === 'increase' || entry.action === 'return') && '+'}
+                        {(entry.action === 'decrease' || entry.action === 'reserve') && '-'}
                         {entry.quantity} units
+                        {entry.balanceAfter !== undefined && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">→ {entry.balanceAfter} in stock</span>
+                        )}
                       </p>
                       <p className="text-xs text-gray-600">{entry.reason}</p>
                       <p className="text-xs text-gray-500">
@@ -34,6 +34,7 @@ interface ProductFormData {
   pricePerWeek: number;
   pricePerMonth: number;
   pricePerYear: number;
+  securityDeposit: number;
   quantityAvailable: number;
   units: string[];
   extraCharges: {
@@ -57,6 +58,7 @@ export default function CreateProduct() {
     pricePerWeek: 0,
     pricePerMonth: 0,
     pricePerYear: 0,
+    securityDeposit: 0,
     quantityAvailable: 1,
     units: ['day'],
     extraCharges: {
@@ -226,6 +228,9 @@ export default function CreateProduct() {
       if (formData.units.includes('year') && formData.pricePerYear > 0) {
         productData.pricePerYear = formData.pricePerYear;
       }
+      if (formData.securityDeposit > 0) {
+        productData.securityDeposit = formData.securityDeposit;
+      }
 
       const response = await fetch('/api/products', {
         method: 'POST',
@@ -574,6 +579,28 @@ export default function CreateProduct() {
                   </div>
                 </div>
 
+                {/* Security Deposit */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    Security Deposit
+                  </label>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">Per unit, refunded on return:</span>
+                    <div className="flex items-center">
+                      <IndianRupee className="w-4 h-4 text-gray-400 mr-1" />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.securityDeposit}
+                        onChange={(e) => handleInputChange('securityDeposit', parseFloat(e.target.value) || 0)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 text-sm"
+                        placeholder="0.00"
+                      />
+                    </div>
+                  </div>
+                </div>
+
                 {/* Extra Charges */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-3">
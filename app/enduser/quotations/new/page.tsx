@@ -0,0 +1,313 @@
+/**
+ * New Quotation Page
+ * Draft a quotation for a customer with several products, custom prices and an expiry date
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { useRouter } from 'next/navigation';
+import { ChevronLeft, Plus, Trash2, IndianRupee, Save } from 'lucide-react';
+
+interface ProductOption {
+  _id: string;
+  name: string;
+  pricePerHour: number;
+  pricePerDay: number;
+  pricePerWeek: number;
+}
+
+interface LineForm {
+  productId: string;
+  quantity: number;
+  startDate: string;
+  endDate: string;
+  unitPrice: string;
+}
+
+// datetime-local value for a date offset by whole days from now
+const localDateTime = (daysFromNow: number) => {
+  const d = new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000);
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 16);
+};
+
+const emptyLine = (): LineForm => ({
+  productId: '',
+  quantity: 1,
+  startDate: localDateTime(1),
+  endDate: localDateTime(2),
+  unitPrice: '',
+});
+
+// Suggested price for a line, mirroring the product's day/hour rates (staff can override it)
+const suggestedPrice = (product: ProductOption | undefined, line: LineForm) => {
+  if (!product) return 0;
+  const hours = Math.max(1, Math.ceil((new Date(line.endDate).getTime() - new Date(line.startDate).getTime()) / (1000 * 60 * 60)));
+  const days = Math.floor(hours / 24);
+  const hourlyTotal = hours * (product.pricePerHour || 0);
+  const dailyTotal = days * (product.pricePerDay || 0) + (hours % 24) * (product.pricePerHour || 0);
+  const candidates = [hourlyTotal, dailyTotal].filter((p) => p > 0);
+  return candidates.length ? Math.min(...candidates) : 0;
+};
+
+export default function NewQuotation() {
+  const router = useRouter();
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [customerEmail, setCustomerEmail] = useState('');
+  const [validUntil, setValidUntil] = useState(localDateTime(14).slice(0, 10));
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [notes, setNotes] = useState('');
+  const [terms, setTerms] = useState('Prices are valid until the expiry date. Rental starts on confirmation of the quotation.');
+  const [lines, setLines] = useState<LineForm[]>([emptyLine()]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadProducts = async () => {
+      try {
+        const res = await fetch('/api/products?myProducts=true');
+        const json = await res.json();
+        if (json?.success) {
+          setProducts(json.data || []);
+        }
+      } catch (e) {
+        toast.error('Failed to load products');
+      }
+    };
+    loadProducts();
+  }, []);
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const linePrice = (line: LineForm) => {
+    if (line.unitPrice !== '') return Number(line.unitPrice) || 0;
+    return suggestedPrice(products.find((p) => p._id === line.productId), line);
+  };
+
+  const total = lines.reduce((sum, line) => sum + linePrice(line) * (line.quantity || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.some((line) => !line.productId)) {
+      toast.error('Choose a product for every line');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const res = await fetch('/api/enduser/quotations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          customerEmail,
+          validUntil: new Date(`${validUntil}T23:59:59`).toISOString(),
+          deliveryAddress: deliveryAddress || undefined,
+          notes: notes || undefined,
+          terms: terms || undefined,
+          lines: lines.map((line) => ({
+            productId: line.productId,
+            quantity: line.quantity,
+            startDate: new Date(line.startDate).toISOString(),
+            endDate: new Date(line.endDate).toISOString(),
+            unitPrice: linePrice(line),
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(`Quotation ${json.data.reference} created`);
+        router.push('/enduser/quotations');
+      } else {
+        toast.error(json?.error || 'Failed to create quotation');
+      }
+    } catch (e) {
+      toast.error('Failed to create quotation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/enduser/quotations')}
+              className="p-2 hover:bg-gray-100 rounded-lg"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <h1 className="text-xl font-semibold text-gray-900">New Quotation</h1>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Customer & Validity */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Customer email</label>
+            <input
+              type="email"
+              required
+              value={customerEmail}
+              onChange={(e) => setCustomerEmail(e.target.value)}
+              placeholder="customer@company.com"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">The customer must have an account to accept the quote.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Valid until</label>
+            <input
+              type="date"
+              required
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Delivery address</label>
+            <input
+              type="text"
+              value={deliveryAddress}
+              onChange={(e) => setDeliveryAddress(e.target.value)}
+              placeholder="Defaults to the customer's address"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+        </div>
+
+        {/* Lines */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-semibold text-gray-900">Products</h3>
+            <button
+              type="button"
+              onClick={() => setLines((prev) => [...prev, emptyLine()])}
+              className="flex items-center px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add line
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end border-b border-gray-100 pb-4">
+                <div className="md:col-span-3">
+                  <label className="block text-xs text-gray-500 mb-1">Product</label>
+                  <select
+                    value={line.productId}
+                    onChange={(e) => updateLine(index, { productId: e.target.value, unitPrice: '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Select a product</option>
+                    {products.map((p) => (
+                      <option key={p._id} value={p._id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-1">
+                  <label className="block text-xs text-gray-500 mb-1">Qty</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value, 10) || 1 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <label className="block text-xs text-gray-500 mb-1">From</label>
+                  <input
+                    type="datetime-local"
+                    value={line.startDate}
+                    onChange={(e) => updateLine(index, { startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <label className="block text-xs text-gray-500 mb-1">To</label>
+                  <input
+                    type="datetime-local"
+                    value={line.endDate}
+                    onChange={(e) => updateLine(index, { endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="md:col-span-1">
+                  <label className="block text-xs text-gray-500 mb-1">Unit price</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={line.unitPrice}
+                    placeholder={String(linePrice(line))}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div className="md:col-span-1 flex justify-end">
+                  <button
+                    type="button"
+                    disabled={lines.length === 1}
+                    onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end mt-4">
+            <span className="text-lg font-semibold text-gray-900 flex items-center">
+              Total: <IndianRupee className="w-5 h-5 mx-1" />{total.toFixed(2)}
+            </span>
+          </div>
+        </div>
+
+        {/* Notes & Terms */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <textarea
+              rows={4}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Terms & Conditions</label>
+            <textarea
+              rows={4}
+              value={terms}
+              onChange={(e) => setTerms(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+/**
+ * End User Quotations Page
+ * Draft, send and track quotations for B2B customers
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { useRouter } from 'next/navigation';
+import {
+  Search,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Send,
+  XCircle,
+  Trash2,
+  Download,
+  FileText,
+  IndianRupee
+} from 'lucide-react';
+import { generateQuotePDF, quotationToQuoteData } from '@/lib/pdfGenerator';
+
+type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired' | 'cancelled';
+
+const STATUS_FILTERS: Array<'ALL' | QuotationStatus> = ['ALL', 'draft', 'sent', 'accepted', 'expired', 'cancelled'];
+
+const STATUS_STYLES: Record<QuotationStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-purple-100 text-purple-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-orange-100 text-orange-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export default function EndUserQuotations() {
+  const router = useRouter();
+  const [quotations, setQuotations] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<'ALL' | QuotationStatus>('ALL');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams();
+        params.set('page', String(currentPage));
+        if (selectedStatus !== 'ALL') params.set('status', selectedStatus);
+        if (searchTerm) params.set('q', searchTerm);
+        const res = await fetch(`/api/enduser/quotations?${params.toString()}`);
+        const json = await res.json();
+        if (json?.success) {
+          setQuotations(json.data.quotations || []);
+          setTotalPages(Math.max(1, json.data.pagination?.totalPages || 1));
+        } else {
+          toast.error(json?.error || 'Failed to load quotations');
+        }
+      } catch (e) {
+        toast.error('Failed to load quotations');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [currentPage, selectedStatus, searchTerm, refreshKey]);
+
+  const changeStatus = async (quotation: any, status: 'sent' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm(`Cancel ${quotation.reference}?`)) return;
+    try {
+      const res = await fetch(`/api/enduser/quotations/${quotation._id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success(status === 'sent' ? 'Quotation sent to customer' : 'Quotation cancelled');
+        setRefreshKey((k) => k + 1);
+      } else {
+        toast.error(json?.error || 'Failed to update quotation');
+      }
+    } catch (e) {
+      toast.error('Failed to update quotation');
+    }
+  };
+
+  const deleteDraft = async (quotation: any) => {
+    if (!confirm(`Delete draft ${quotation.reference}?`)) return;
+    try {
+      const res = await fetch(`/api/enduser/quotations/${quotation._id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (json?.success) {
+        toast.success('Draft deleted');
+        setRefreshKey((k) => k + 1);
+      } else {
+        toast.error(json?.error || 'Failed to delete quotation');
+      }
+    } catch (e) {
+      toast.error('Failed to delete quotation');
+    }
+  };
+
+  const downloadPdf = async (quotation: any) => {
+    try {
+      await generateQuotePDF(quotationToQuoteData(quotation));
+    } catch (e) {
+      toast.error('Failed to generate PDF');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push('/enduser/orders')}
+                className="p-2 hover:bg-gray-100 rounded-lg"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => router.push('/enduser/quotations/new')}
+                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New Quotation
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Quotations</h1>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search quotations..."
+                  value={searchTerm}
+                  onChange={(e) => { setSearchTerm(e.target.value); setCurrentPage(1); }}
+                  className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 w-64"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-600">{currentPage}/{totalPages}</span>
+                <button
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                  disabled={currentPage === totalPages}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Status Filters */}
+          <div className="flex items-center space-x-2 mt-6">
+            {STATUS_FILTERS.map((status) => (
+              <button
+                key={status}
+                onClick={() => { setSelectedStatus(status); setCurrentPage(1); }}
+                className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+                  selectedStatus === status ? 'bg-primary-100 text-primary-800' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {status === 'ALL' ? 'All' : status}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="p-12 flex justify-center">
+              <div className="loading-spinner w-8 h-8"></div>
+            </div>
+          ) : quotations.length === 0 ? (
+            <div className="p-12 text-center">
+              <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No quotations yet</p>
+              <p className="text-sm text-gray-500 mt-1">Draft a quote for a customer to get started.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid Until</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {quotations.map((quotation) => {
+                    const status: QuotationStatus = quotation.isExpired ? 'expired' : quotation.status;
+                    return (
+                      <tr key={quotation._id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{quotation.reference}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          <div>{quotation.customerName}</div>
+                          <div className="text-xs text-gray-500">{quotation.customerEmail}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600">
+                          {(quotation.lines || []).map((l: any) => `${l.productName} × ${l.quantity}`).join(', ')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          {new Date(quotation.validUntil).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[status]}`}>
+                            {status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                          <span className="inline-flex items-center">
+                            <IndianRupee className="w-4 h-4 mr-1" />
+                            {quotation.total}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={() => downloadPdf(quotation)}
+                              title="Download PDF"
+                              className="p-1 text-gray-400 hover:text-gray-600"
+                            >
+                              <Download className="w-4 h-4" />
+                            </button>
+                            {quotation.status === 'draft' && (
+                              <>
+                                <button
+                                  onClick={() => changeStatus(quotation, 'sent')}
+                                  title="Send to customer"
+                                  className="p-1 text-purple-500 hover:text-purple-700"
+                                >
+                                  <Send className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => deleteDraft(quotation)}
+                                  title="Delete draft"
+                                  className="p-1 text-gray-400 hover:text-red-600"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                            {quotation.status === 'sent' && (
+                              <button
+                                onClick={() => changeStatus(quotation, 'cancelled')}
+                                title="Cancel quotation"
+                                className="p-1 text-gray-400 hover:text-red-600"
+                              >
+                                <XCircle className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -23,7 +23,8 @@ import { Calendar, TrendingUp, IndianRupee } from 'lucide-react';
 
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Tooltip, Legend);
 
-type Bucket = { _id: any; orders: number; revenue: number };
+type Bucket = { _id: any; orders: number; revenue: number; grossRevenue: number; credits: number; creditNotes: number; tax: number };
+type TaxLine = { label: string; rate: number; taxableValue: number; amount: number };
 
 export default function EnduserReports() {
   const { data: session, status } = useSession();
@@ -31,6 +32,7 @@ export default function EnduserReports() {
   const [groupBy, setGroupBy] = useState<'day'|'week'|'month'>('day');
   const [range, setRange] = useState(90);
   const [rows, setRows] = useState<Bucket[]>([]);
+  const [taxLines, setTaxLines] = useState<TaxLine[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -47,6 +49,7 @@ export default function EnduserReports() {
         const json = await res.json();
         if (json?.success) {
           setRows(json.data || []);
+          setTaxLines(json.meta?.taxLines || []);
         } else { toast.error('Failed to load reports'); }
       } catch { toast.error('Failed to load reports'); } finally { setLoading(false); }
     };
@@ -62,7 +65,8 @@ export default function EnduserReports() {
   const revenueData = useMemo(() => ({
     labels,
     datasets: [
-      { label: 'Revenue (₹)', data: rows.map(r => r.revenue), backgroundColor: 'rgba(96,64,88,0.35)', borderColor: '#604058', borderWidth: 2 },
+      { label: 'Revenue (₹)', data: rows.map(r => r.grossRevenue), backgroundColor: 'rgba(96,64,88,0.35)', borderColor: '#604058', borderWidth: 2 },
+      { label: 'Credit notes (₹)', data: rows.map(r => r.credits), backgroundColor: 'rgba(220,38,38,0.35)', borderColor: '#dc2626', borderWidth: 2 },
     ],
   }), [labels, rows]);
 
@@ -114,7 +118,7 @@ export default function EnduserReports() {
               <IndianRupee className="w-5 h-5 text-primary-800 mr-2" />
               <h3 className="text-lg font-semibold text-gray-900">Revenue</h3>
             </div>
-            <Bar data={revenueData} options={{ responsive: true, plugins:{ legend:{ display:false } } }} />
+            <Bar data={revenueData} options={{ responsive: true, scales: { x: { stacked: true }, y: { stacked: true } } }} />
           </div>
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <div className="flex items-center mb-4">
@@ -130,10 +134,16 @@ export default function EnduserReports() {
             <Calendar className="w-5 h-5 text-primary-800 mr-2" />
             <h3 className="text-lg font-semibold text-gray-900">Summary</h3>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
             <div className="p-4 rounded-lg bg-primary-50">
               <div className="text-sm text-gray-600">Total Revenue</div>
               <div className="text-2xl font-bold">₹ {rows.reduce((s,r)=>s+r.revenue,0).toLocaleString()}</div>
+              <div className="text-xs text-gray-500 mt-1">After credit notes</div>
+            </div>
+            <div className="p-4 rounded-lg bg-red-50">
+              <div className="text-sm text-gray-600">Credit Notes</div>
+              <div className="text-2xl font-bold">₹ {rows.reduce((s,r)=>s+r.credits,0).toLocaleString()}</div>
+              <div className="text-xs text-gray-500 mt-1">{rows.reduce((s,r)=>s+r.creditNotes,0)} issued</div>
             </div>
             <div className="p-4 rounded-lg bg-green-50">
               <div className="text-sm text-gray-600">Total Orders</div>
@@ -145,6 +155,38 @@ export default function EnduserReports() {
             </div>
           </div>
         </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center mb-4">
+            <IndianRupee className="w-5 h-5 text-primary-800 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">GST Summary</h3>
+            <span className="ml-auto text-sm text-gray-600">₹ {rows.reduce((s,r)=>s+(r.tax||0),0).toLocaleString()} after credit notes</span>
+          </div>
+          {taxLines.length === 0 ? (
+            <p className="text-sm text-gray-500">No tax recorded for this period.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2">Tax</th>
+                  <th className="py-2">Rate</th>
+                  <th className="py-2 text-right">Taxable Value</th>
+                  <th className="py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxLines.map((line) => (
+                  <tr key={`${line.label}-${line.rate}`} className="border-b border-gray-100">
+                    <td className="py-2">{line.label}</td>
+                    <td className="py-2">{line.rate}%</td>
+                    <td className="py-2 text-right">₹ {line.taxableValue.toLocaleString()}</td>
+                    <td className="py-2 text-right">₹ {line.amount.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -5,8 +5,9 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import toast from 'react-hot-toast';
 import {
   Plus,
   Settings,
@@ -25,10 +26,11 @@ import {
 } from 'lucide-react';
 
 type TransferType = 'pickup' | 'return';
-type TransferStatus = 'draft' | 'ready' | 'waiting' | 'done';
+type TransferStatus = 'draft' | 'ready' | 'waiting' | 'done' | 'cancelled';
 
 interface Transfer {
   id: string;
+  reference: string;
   type: TransferType;
   status: TransferStatus;
   customer: string;
@@ -50,8 +52,37 @@ interface Transfer {
   untaxedTotal: number;
   tax: number;
   total: number;
+  updatedAt: string;
 }
 
+// Shape a transfer from the API for the form
+const mapTransfer = (t: any): Transfer => ({
+  id: t._id,
+  reference: t.reference,
+  type: t.type,
+  status: t.status,
+  customer: t.customerName,
+  customerEmail: t.customerEmail,
+  invoiceAddress: t.invoiceAddress || '—',
+  deliveryAddress: t.deliveryAddress || '—',
+  sourceLocation: t.sourceLocation,
+  destinationLocation: t.destinationLocation,
+  scheduleDate: new Date(t.scheduleDate).toISOString().slice(0, 10),
+  responsible: t.responsible || '—',
+  transferType: t.transferType,
+  orderReference: t.rentalOrderId?._id || t.rentalOrderId,
+  products: (t.lines || []).map((l: any) => ({
+    product: l.productName,
+    quantity: l.quantity,
+    unitPrice: l.unitPrice,
+    subTotal: l.subTotal,
+  })),
+  untaxedTotal: t.untaxedTotal,
+  tax: t.tax,
+  total: t.total,
+  updatedAt: t.updatedAt,
+});
+
 export default function TransferManagement() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -67,69 +98,42 @@ export default function TransferManagement() {
     }
   }, [searchParams]);
 
-  // Mock transfer data
-  const [transfers] = useState<Transfer[]>([
-    {
-      id: 'PICKUP/OUT/0001',
-      type: 'pickup',
-      status: 'draft',
-      customer: 'John Doe',
-      customerEmail: 'john@example.com',
-      invoiceAddress: '123 Main Street, City, State 12345',
-      deliveryAddress: '456 Delivery Avenue, City, State 67890',
-      sourceLocation: 'Warehouse A, Section 1',
-      scheduleDate: '2024-01-20',
-      responsible: 'Admin User',
-      transferType: 'pickup',
-      orderReference: 'R0001',
-      products: [
-        {
-          product: 'Product 1',
-          quantity: 5,
-          unitPrice: 200,
-          subTotal: 1000
-        }
-      ],
-      untaxedTotal: 1000,
-      tax: 0,
-      total: 1000
-    },
-    {
-      id: 'RETURN/IN/0001',
-      type: 'return',
-      status: 'waiting',
-      customer: 'Jane Smith',
-      customerEmail: 'jane@example.com',
-      invoiceAddress: '789 Customer Street, City, State 54321',
-      deliveryAddress: '321 Pickup Address, City, State 09876',
-      sourceLocation: 'Customer Location',
-      destinationLocation: 'Warehouse A, Section 1',
-      scheduleDate: '2024-01-22',
-      responsible: 'Admin User',
-      transferType: 'delivery',
-      orderReference: 'R0002',
-      products: [
-        {
-          product: 'Product 1',
-          quantity: 5,
-          unitPrice: 200,
-          subTotal: 1000
-        }
-      ],
-      untaxedTotal: 1000,
-      tax: 0,
-      total: 1000
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/enduser/transfers?type=${selectedType}&limit=100`);
+      const json = await res.json();
+      if (json?.success) {
+        setTransfers((json.data.transfers || []).map(mapTransfer));
+      } else {
+        toast.error(json?.error || 'Failed to load transfers');
+      }
+    } catch (e) {
+      toast.error('Failed to load transfers');
+    } finally {
+      setLoading(false);
     }
-  ]);
+  }, [selectedType]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+    loadTransfers();
+  }, [loadTransfers]);
 
-  const currentTransfer = transfers.find(t => t.type === selectedType) || transfers[0];
+  const totalPages = Math.max(1, Math.ceil(transfers.length / itemsPerPage));
+  const currentTransfer = transfers[currentPage - 1];
 
   const getStatusColor = (status: TransferStatus) => {
     const colors = {
       draft: 'bg-gray-500',
       ready: 'bg-green-500',
       waiting: 'bg-yellow-500',
-      done: 'bg-blue-500'
+      done: 'bg-blue-500',
+      cancelled: 'bg-red-500'
     };
     return colors[status] || 'bg-gray-500';
   };
@@ -139,16 +143,43 @@ export default function TransferManagement() {
       draft: 'Draft',
       ready: 'Ready',
       waiting: 'Waiting',
-      done: 'Done'
+      done: 'Done',
+      cancelled: 'Cancelled'
     };
     return labels[status] || status;
   };
 
-  const handleStatusChange = (newStatus: TransferStatus) => {
-    // Update transfer status logic here
-    console.log(`Changing status to: ${newStatus}`);
+  const handleStatusChange = async (newStatus: TransferStatus) => {
+    if (!currentTransfer) return;
+    try {
+      setUpdating(true);
+      const res = await fetch(`/api/enduser/transfers/${currentTransfer.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus }),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        setTransfers(prev => prev.map(t => t.id === currentTransfer.id ? mapTransfer(json.data) : t));
+        toast.success(json.message || 'Transfer updated');
+      } else {
+        toast.error(json?.error || 'Failed to update transfer');
+      }
+    } catch (e) {
+      toast.error('Failed to update transfer');
+    } finally {
+      setUpdating(false);
+    }
   };
 
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="loading-spinner w-8 h-8"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -168,11 +199,19 @@ export default function TransferManagement() {
             </div>
 
             <div className="flex items-center space-x-2">
-              <span className="text-sm text-gray-600">1/80</span>
-              <button className="p-1 hover:bg-gray-100 rounded">
+              <span className="text-sm text-gray-600">{transfers.length ? currentPage : 0}/{transfers.length}</span>
+              <button
+                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                disabled={currentPage === 1}
+                className="p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+              >
                 <ChevronLeft className="w-4 h-4" />
               </button>
-              <button className="p-1 hover:bg-gray-100 rounded">
+              <button
+                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                disabled={currentPage === totalPages}
+                className="p-1 hover:bg-gray-100 rounded disabled:opacity-50"
+              >
                 <ChevronRight className="w-4 h-4" />
               </button>
             </div>
@@ -215,13 +254,18 @@ export default function TransferManagement() {
                 <CheckCircle className="w-4 h-4 mr-2" />
                 Confirm
               </button>
-              <button className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors">
+              <button
+                onClick={() => handleStatusChange('cancelled')}
+                disabled={!currentTransfer || updating || currentTransfer.status === 'done' || currentTransfer.status === 'cancelled'}
+                className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
                 <XCircle className="w-4 h-4 mr-2" />
                 Cancel
               </button>
             </div>
 
             {/* Status Progress */}
+            {currentTransfer && (
             <div className="flex items-center space-x-2">
               <div className={`px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor('draft')}`}>
                 Draft
@@ -251,16 +295,24 @@ export default function TransferManagement() {
                 Done
               </div>
             </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!currentTransfer ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <AlertCircle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No {selectedType} transfers yet</h3>
+            <p className="text-sm text-gray-600">Transfers are generated from confirmed rental orders.</p>
+          </div>
+        ) : (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           {/* Transfer Header */}
           <div className="p-6 border-b border-gray-200">
-            <h2 className="text-2xl font-bold text-gray-900">{currentTransfer.id}</h2>
+            <h2 className="text-2xl font-bold text-gray-900">{currentTransfer.reference}</h2>
             <div className="mt-2 flex items-center space-x-4">
               <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor(currentTransfer.status)}`}>
                 {getStatusLabel(currentTransfer.status)}
@@ -418,28 +470,33 @@ export default function TransferManagement() {
           <div className="border-t border-gray-200 p-6">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-4">
-                {currentTransfer.status === 'draft' && (
+                {currentTransfer.status === 'draft' && selectedType === 'pickup' && (
                   <button
                     onClick={() => handleStatusChange('ready')}
-                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                    disabled={updating}
+                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
                   >
                     <CheckCircle className="w-4 h-4 mr-2" />
                     Mark as Ready
                   </button>
                 )}
-                {currentTransfer.status === 'ready' && (
+                {((currentTransfer.status === 'ready' && selectedType === 'pickup') ||
+                  (currentTransfer.status === 'draft' && selectedType === 'return')) && (
                   <button
                     onClick={() => handleStatusChange('waiting')}
-                    className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+                    disabled={updating}
+                    className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors disabled:opacity-50"
                   >
                     <Clock className="w-4 h-4 mr-2" />
-                    Start Transfer
+                    {selectedType === 'return' ? 'Await Return' : 'Start Transfer'}
                   </button>
                 )}
-                {currentTransfer.status === 'waiting' && (
+                {(currentTransfer.status === 'waiting' ||
+                  (currentTransfer.status === 'ready' && selectedType === 'return')) && (
                   <button
                     onClick={() => handleStatusChange('done')}
-                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    disabled={updating}
+                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
                   >
                     <CheckCircle className="w-4 h-4 mr-2" />
                     Complete Transfer
@@ -448,11 +505,12 @@ export default function TransferManagement() {
               </div>
 
               <div className="text-sm text-gray-500">
-                Last updated: {new Date().toLocaleDateString()}
+                Last updated: {new Date(currentTransfer.updatedAt).toLocaleDateString()}
               </div>
             </div>
           </div>
         </div>
+        )}
 
         {/* Status Information */}
         <div className="mt-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -60,9 +60,23 @@ export default function OrderSuccessPage() {
     setIsGeneratingPDF(true);
     
     try {
-      console.log('Order data:', orderData);
-      console.log('Session:', session);
-      
+      // Invoices stored on the server come first: one per seller in the order
+      if (orderData.orderNumber) {
+        const res = await fetch(`/api/invoices?orderNumber=${encodeURIComponent(orderData.orderNumber)}`);
+        const json = await res.json().catch(() => null);
+        const invoices = (json?.data?.invoices || []).filter((invoice: any) => invoice.status !== 'void');
+        if (invoices.length > 0) {
+          invoices.forEach((invoice: any) => {
+            const link = document.createElement('a');
+            link.href = `/api/invoices/${invoice._id}/pdf`;
+            link.download = '';
+            link.click();
+          });
+          toast.success(invoices.length === 1 ? 'Invoice downloaded successfully!' : `${invoices.length} invoices downloaded`);
+          return;
+        }
+      }
+
       // Prepare invoice data
       const invoiceData: InvoiceData = {
         orderNumber: orderData.orderNumber || `ORD-${Date.now().toString().slice(-6)}`,
@@ -0,0 +1,201 @@
+/**
+ * Customer Quotations Page
+ * Shows quotations sent to the customer and lets them accept one
+ */
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { FileText, Download, CheckCircle, IndianRupee } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { generateQuotePDF, quotationToQuoteData } from '@/lib/pdfGenerator';
+
+const STATUS_STYLES: Record<string, string> = {
+  sent: 'bg-purple-100 text-purple-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-orange-100 text-orange-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  sent: 'Awaiting your answer',
+  accepted: 'Accepted',
+  expired: 'Expired',
+  cancelled: 'Withdrawn',
+};
+
+export default function QuotationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const [quotations, setQuotations] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  // Redirect if not customer
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session || session.user?.role !== 'customer') {
+      router.push('/login');
+    }
+  }, [session, status, router]);
+
+  const loadQuotations = async () => {
+    try {
+      const response = await fetch('/api/quotations');
+      const data = await response.json();
+      if (data.success) {
+        setQuotations(data.data || []);
+      } else {
+        toast.error(data.error || 'Failed to load quotations');
+      }
+    } catch (error) {
+      console.error('Error loading quotations:', error);
+      toast.error('Failed to load quotations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (session?.user?.role === 'customer') {
+      loadQuotations();
+    }
+  }, [session]);
+
+  // Accept a quotation, confirming its rental orders
+  const acceptQuotation = async (quotation: any) => {
+    if (!confirm(`Accept ${quotation.reference} for ₹${quotation.total}?`)) return;
+
+    try {
+      setAcceptingId(quotation._id);
+      const response = await fetch(`/api/quotations/${quotation._id}/accept`, { method: 'POST' });
+      const data = await response.json();
+      if (data.success) {
+        toast.success(data.message || 'Quotation accepted');
+      } else {
+        toast.error(data.error || 'Failed to accept quotation');
+      }
+      await loadQuotations();
+    } catch (error) {
+      console.error('Error accepting quotation:', error);
+      toast.error('Failed to accept quotation');
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  const downloadPdf = async (quotation: any) => {
+    try {
+      await generateQuotePDF(quotationToQuoteData(quotation));
+    } catch (error) {
+      toast.error('Failed to generate PDF');
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-800"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">My Quotations</h1>
+          <p className="text-gray-600">Quotes prepared for you by our rental partners</p>
+        </div>
+
+        {quotations.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No quotations yet</h3>
+            <p className="text-gray-500 mb-6">Quotes you request from a business will show up here</p>
+            <Link
+              href="/shop"
+              className="bg-primary-800 text-white px-6 py-3 rounded-md font-medium hover:bg-primary-700 transition-colors"
+            >
+              Browse Products
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {quotations.map((quotation) => {
+              const displayStatus = quotation.isExpired ? 'expired' : quotation.status;
+              return (
+                <div key={quotation._id} className="bg-white rounded-lg border border-gray-200 p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{quotation.reference}</h3>
+                      <p className="text-sm text-gray-600">
+                        From {quotation.endUserId?.companyName || quotation.endUserId?.name || 'Rental partner'}
+                        {' · '}Valid until {new Date(quotation.validUntil).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[displayStatus] || 'bg-gray-100 text-gray-800'}`}>
+                      {STATUS_LABELS[displayStatus] || displayStatus}
+                    </span>
+                  </div>
+
+                  <table className="min-w-full text-sm mb-4">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-500">
+                        <th className="text-left py-2 font-medium">Product</th>
+                        <th className="text-left py-2 font-medium">Rental Period</th>
+                        <th className="text-center py-2 font-medium">Qty</th>
+                        <th className="text-right py-2 font-medium">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(quotation.lines || []).map((line: any, index: number) => (
+                        <tr key={index} className="border-b border-gray-100">
+                          <td className="py-2 text-gray-900">{line.productName}</td>
+                          <td className="py-2 text-gray-600">
+                            {new Date(line.startDate).toLocaleDateString()} – {new Date(line.endDate).toLocaleDateString()}
+                          </td>
+                          <td className="py-2 text-center text-gray-600">{line.quantity}</td>
+                          <td className="py-2 text-right text-gray-900">₹{line.subTotal}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="flex justify-between items-center">
+                    <span className="text-lg font-bold text-primary-800 flex items-center">
+                      <IndianRupee className="h-5 w-5 mr-1" />
+                      {quotation.total}
+                    </span>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => downloadPdf(quotation)}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                      >
+                        <Download className="h-4 w-4" />
+                        <span>PDF</span>
+                      </button>
+                      {displayStatus === 'sent' && (
+                        <button
+                          onClick={() => acceptQuotation(quotation)}
+                          disabled={acceptingId === quotation._id}
+                          className="bg-primary-800 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-primary-700 disabled:opacity-50 transition-colors flex items-center space-x-2"
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                          <span>{acceptingId === quotation._id ? 'Accepting...' : 'Accept Quotation'}</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
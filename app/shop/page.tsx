@@ -12,6 +12,8 @@ import Link from 'next/link';
 import { Heart, ShoppingCart, Star, Filter, Grid3X3, List, Search, Calendar, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { IProduct } from '@/types';
+import { addToCart } from '@/lib/cartClient';
+import { saveToWishlist } from '@/lib/wishlistClient';
 
 export default function ShopPage() {
   const { data: session, status } = useSession();
@@ -125,33 +127,19 @@ export default function ShopPage() {
     }
 
     try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const existingItem = cart.find((item: any) => item.productId === selectedProduct._id?.toString());
-      
-      if (existingItem) {
-        existingItem.quantity += 1;
-        existingItem.fromDate = fromDate;
-        existingItem.toDate = toDate;
-        existingItem.totalPrice = (existingItem.pricePerDay || 0) * existingItem.quantity;
-      } else {
-        const pricePerDay = selectedProduct.pricePerDay || selectedProduct.pricePerHour || 0;
-        cart.push({
-          productId: selectedProduct._id?.toString(),
-          name: selectedProduct.name,
-          image: selectedProduct.image,
-          pricePerDay: pricePerDay,
-          quantity: 1,
-          duration: 'day',
-          totalPrice: pricePerDay,
-          fromDate: fromDate,
-          toDate: toDate,
-          endUserId: selectedProduct.endUserId?.toString()
-        });
+      // The same product for the same dates just gets one more unit
+      const result = await addToCart({
+        productId: String(selectedProduct._id),
+        quantity: 1,
+        fromDate,
+        toDate,
+        duration: 'day',
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add to cart');
+        return;
       }
-      
-      localStorage.setItem('cart', JSON.stringify(cart));
-      window.dispatchEvent(new Event('cartUpdated'));
-      
+
       setShowDateModal(false);
       setSelectedProduct(null);
       toast.success('Added to cart');
@@ -165,14 +153,13 @@ export default function ShopPage() {
   // Add to wishlist function
   const addToWishlist = async (productId: string) => {
     try {
-      // For now, we'll use localStorage for wishlist
-      const wishlist = JSON.parse(localStorage.getItem('wishlist') || '[]');
-      if (!wishlist.includes(productId)) {
-        wishlist.push(productId);
-        localStorage.setItem('wishlist', JSON.stringify(wishlist));
-        toast.success('Added to wishlist');
+      const result = await saveToWishlist(productId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add to wishlist');
+      } else if (result.message === 'Already in wishlist') {
+        toast(result.message);
       } else {
-        toast('Already in wishlist');
+        toast.success('Added to wishlist');
       }
     } catch (error) {
       console.error('Error adding to wishlist:', error);
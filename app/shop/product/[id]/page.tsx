@@ -21,6 +21,9 @@ import {
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { IProduct } from '@/types';
+import { priceRental, RateLine } from '@/lib/pricing';
+import { addToCart as addCartLine } from '@/lib/cartClient';
+import { saveToWishlist } from '@/lib/wishlistClient';
 
 interface ProductDetailPageProps {
   params: { id: string };
@@ -37,6 +40,8 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
   const [fromDate, setFromDate] = useState('');
   const [toDate, setToDate] = useState('');
   const [totalPrice, setTotalPrice] = useState(0);
+  const [priceBreakdown, setPriceBreakdown] = useState<RateLine[]>([]);
+  const [availability, setAvailability] = useState<{ available: boolean; free: number } | null>(null);
 
   // Redirect if not customer
   useEffect(() => {
@@ -74,47 +79,46 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
     }
   }, [params.id, router]);
 
-  // Calculate total price based on duration and dates
+  // Calculate total price with the shared pricing engine (the server recomputes the same figure)
   useEffect(() => {
     if (!product || !fromDate || !toDate) {
       setTotalPrice(0);
+      setPriceBreakdown([]);
       return;
     }
 
-    const from = new Date(fromDate);
-    const to = new Date(toDate);
-    const diffTime = Math.abs(to.getTime() - from.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-    let pricePerUnit = 0;
-    let units = 1;
-
-    switch (selectedDuration) {
-      case 'hour':
-        pricePerUnit = product.pricePerHour || 0;
-        units = diffDays * 24; // Convert days to hours
-        break;
-      case 'day':
-        pricePerUnit = product.pricePerDay || 0;
-        units = diffDays;
-        break;
-      case 'week':
-        pricePerUnit = product.pricePerWeek || 0;
-        units = Math.ceil(diffDays / 7);
-        break;
-      case 'month':
-        pricePerUnit = product.pricePerMonth || 0;
-        units = Math.ceil(diffDays / 30);
-        break;
-      case 'year':
-        pricePerUnit = product.pricePerYear || 0;
-        units = Math.ceil(diffDays / 365);
-        break;
+    try {
+      const price = priceRental(product, fromDate, toDate, quantity);
+      setTotalPrice(price.total);
+      setPriceBreakdown(price.breakdown);
+    } catch {
+      setTotalPrice(0);
+      setPriceBreakdown([]);
     }
+  }, [product, fromDate, toDate, quantity]);
 
-    const total = pricePerUnit * units * quantity;
-    setTotalPrice(total);
-  }, [product, fromDate, toDate, selectedDuration, quantity]);
+  // Check how many units are free for the selected window
+  useEffect(() => {
+    if (!product || !fromDate || !toDate || new Date(toDate) <= new Date(fromDate)) {
+      setAvailability(null);
+      return;
+    }
+
+    const checkAvailability = async () => {
+      try {
+        const query = new URLSearchParams({ startDate: fromDate, endDate: toDate, quantity: String(quantity) });
+        const response = await fetch(`/api/products/${product._id}/availability?${query.toString()}`);
+        const data = await response.json();
+        if (data.success) {
+          setAvailability({ available: data.data.available, free: data.data.free });
+        }
+      } catch (error) {
+        console.error('Error checking availability:', error);
+      }
+    };
+
+    checkAvailability();
+  }, [product, fromDate, toDate, quantity]);
 
   // Add to cart function
   const addToCart = async () => {
@@ -125,27 +129,26 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
       return;
     }
 
+    if (availability && !availability.available) {
+      toast.error(availability.free > 0
+        ? `Only ${availability.free} unit(s) available for these dates`
+        : 'Not available for the selected dates');
+      return;
+    }
+
     try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const cartItem = {
-        productId: product._id,
-        name: product.name,
-        image: product.image,
+      const result = await addCartLine({
+        productId: String(product._id),
         quantity,
-        duration: selectedDuration,
         fromDate,
         toDate,
-        pricePerUnit: product[`pricePer${selectedDuration.charAt(0).toUpperCase() + selectedDuration.slice(1)}` as keyof IProduct] as number,
-        totalPrice,
-        endUserId: product.endUserId?.toString() // Include endUserId for order tracking
-      };
-      
-      cart.push(cartItem);
-      localStorage.setItem('cart', JSON.stringify(cart));
-      
-      // Dispatch custom event to update cart count in navbar
-      try { window.dispatchEvent(new Event('cartUpdated')); } catch {}
-      
+        duration: selectedDuration,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add to cart');
+        return;
+      }
+
       toast.success('Added to cart');
       // Navigate to Review Order page so user can continue to Delivery/Payment
       router.push('/cart');
@@ -160,13 +163,13 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
     if (!product) return;
     
     try {
-      const wishlist = JSON.parse(localStorage.getItem('wishlist') || '[]');
-      if (!wishlist.includes(product._id)) {
-        wishlist.push(product._id);
-        localStorage.setItem('wishlist', JSON.stringify(wishlist));
-        toast.success('Added to wishlist');
+      const result = await saveToWishlist(String(product._id));
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add to wishlist');
+      } else if (result.message === 'Already in wishlist') {
+        toast(result.message);
       } else {
-        toast('Already in wishlist');
+        toast.success('Added to wishlist');
       }
     } catch (error) {
       console.error('Error adding to wishlist:', error);
@@ -304,6 +307,30 @@ export default function ProductDetailPage({ params }: ProductDetailPageProps) {
               </div>
             </div>
 
+            {priceBreakdown.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Billed as {priceBreakdown.map((line) => `${line.count} ${line.unit}${line.count > 1 ? 's' : ''} × ₹${line.rate}`).join(' + ')}
+                {quantity > 1 && ` for each of ${quantity} units`}
+              </p>
+            )}
+
+            {(product.securityDeposit || 0) > 0 && (
+              <p className="text-sm text-gray-600">
+                Refundable security deposit: ₹{(product.securityDeposit * quantity).toFixed(2)}
+                {quantity > 1 && ` (₹${product.securityDeposit} per unit)`}, returned after the rental less any damage or late charges
+              </p>
+            )}
+
+            {availability && (
+              <p className={`text-sm font-medium ${availability.available ? 'text-green-700' : 'text-red-600'}`}>
+                {availability.available
+                  ? `${availability.free} unit(s) available for these dates`
+                  : availability.free > 0
+                    ? `Only ${availability.free} unit(s) available for these dates`
+                    : 'Not available for the selected dates'}
+              </p>
+            )}
+
             {/* Quantity Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1,6 +1,6 @@
 /**
  * Wishlist Page
- * Shows customer's saved products
+ * Shows customer's saved products, with opt-in alerts for price drops and restocks
  */
 'use client';
 
@@ -9,15 +9,24 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import Link from 'next/link';
-import { Heart, ShoppingCart, Trash2 } from 'lucide-react';
+import { Heart, ShoppingCart, Trash2, Bell, BellOff } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { IProduct } from '@/types';
+import { addToCart as addCartLine } from '@/lib/cartClient';
+import { importLegacyWishlist } from '@/lib/wishlistClient';
+
+interface WishlistEntry {
+  _id: string;
+  productId: string;
+  alerts: boolean;
+  product: IProduct;
+}
 
 export default function WishlistPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   
-  const [wishlistItems, setWishlistItems] = useState<IProduct[]>([]);
+  const [wishlistItems, setWishlistItems] = useState<WishlistEntry[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Redirect if not customer
@@ -28,34 +37,21 @@ export default function WishlistPage() {
     }
   }, [session, status, router]);
 
-  // Load wishlist from localStorage and fetch product details
+  // Load the wishlist, bringing over any products still saved in this browser first
   useEffect(() => {
+    if (session?.user?.role !== 'customer') return;
+
     const loadWishlist = async () => {
       try {
-        const wishlist = JSON.parse(localStorage.getItem('wishlist') || '[]');
-        if (wishlist.length === 0) {
-          setLoading(false);
-          return;
-        }
+        await importLegacyWishlist().catch(() => 0);
 
-        // Fetch product details for wishlist items
-        const productPromises = wishlist.map(async (productId: string) => {
-          try {
-            const response = await fetch(`/api/products/${productId}`);
-            const data = await response.json();
-            if (data.success) {
-              return data.data;
-            }
-            return null;
-          } catch (error) {
-            console.error('Error fetching product:', error);
-            return null;
-          }
-        });
-
-        const products = await Promise.all(productPromises);
-        const validProducts = products.filter(Boolean);
-        setWishlistItems(validProducts);
+        const response = await fetch('/api/wishlist');
+        const data = await response.json();
+        if (data.success) {
+          setWishlistItems(data.data.items);
+        } else {
+          toast.error(data.error || 'Failed to load wishlist');
+        }
       } catch (error) {
         console.error('Error loading wishlist:', error);
       } finally {
@@ -64,16 +60,19 @@ export default function WishlistPage() {
     };
 
     loadWishlist();
-  }, []);
+  }, [session?.user?.role]);
 
   // Remove from wishlist
-  const removeFromWishlist = (productId: string) => {
+  const removeFromWishlist = async (productId: string) => {
     try {
-      const wishlist = JSON.parse(localStorage.getItem('wishlist') || '[]');
-      const updatedWishlist = wishlist.filter((id: string) => id !== productId);
-      localStorage.setItem('wishlist', JSON.stringify(updatedWishlist));
-      
-      setWishlistItems(prev => prev.filter(item => item._id!.toString() !== productId));
+      const response = await fetch(`/api/wishlist/${productId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error(data.error || 'Failed to remove from wishlist');
+        return;
+      }
+
+      setWishlistItems(prev => prev.filter(item => item.productId !== productId));
       toast.success('Removed from wishlist');
     } catch (error) {
       console.error('Error removing from wishlist:', error);
@@ -81,31 +80,42 @@ export default function WishlistPage() {
     }
   };
 
-  // Add to cart
-  const addToCart = (product: IProduct) => {
+  // Turn price-drop and back-in-stock alerts on or off for one product
+  const toggleAlerts = async (entry: WishlistEntry) => {
     try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const existingItem = cart.find((item: any) => item.productId === product._id);
-      
-      if (existingItem) {
-        existingItem.quantity += 1;
-      } else {
-        cart.push({
-          productId: product._id,
-          name: product.name,
-          image: product.image,
-          pricePerDay: product.pricePerDay,
-          quantity: 1,
-          duration: 'day',
-          fromDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          toDate: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString().split('T')[0],
-          pricePerUnit: product.pricePerDay,
-          totalPrice: product.pricePerDay,
-          endUserId: product.endUserId?.toString() // Include endUserId for order tracking
-        });
+      const response = await fetch(`/api/wishlist/${entry.productId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alerts: !entry.alerts }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        toast.error(data.error || 'Failed to update alerts');
+        return;
+      }
+
+      setWishlistItems(prev => prev.map(item => (item.productId === entry.productId ? { ...item, alerts: data.data.alerts } : item)));
+      toast.success(data.message);
+    } catch (error) {
+      console.error('Error updating alerts:', error);
+      toast.error('Failed to update alerts');
+    }
+  };
+
+  // Add to cart for tomorrow, one day; dates can be changed on the cart page
+  const addToCart = async (product: IProduct) => {
+    try {
+      const result = await addCartLine({
+        productId: String(product._id),
+        quantity: 1,
+        duration: 'day',
+        fromDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        toDate: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString().split('T')[0],
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add to cart');
+        return;
       }
-      
-      localStorage.setItem('cart', JSON.stringify(cart));
       toast.success('Added to cart');
     } catch (error) {
       console.error('Error adding to cart:', error);
@@ -145,8 +155,8 @@ export default function WishlistPage() {
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {wishlistItems.map((product) => (
-              <div key={product._id!.toString()} className="bg-white rounded-lg border border-gray-200 hover:shadow-lg transition-all duration-200 overflow-hidden">
+            {wishlistItems.map(({ product, ...entry }) => (
+              <div key={entry.productId} className="bg-white rounded-lg border border-gray-200 hover:shadow-lg transition-all duration-200 overflow-hidden">
                 {/* Product Image */}
                 <div className="relative w-full h-48">
                   <Link href={`/shop/product/${product._id}`}>
@@ -158,11 +168,16 @@ export default function WishlistPage() {
                     />
                   </Link>
                   <button
-                    onClick={() => removeFromWishlist(product._id!.toString())}
+                    onClick={() => removeFromWishlist(entry.productId)}
                     className="absolute top-2 right-2 p-2 bg-red-500 text-white rounded-full shadow-md hover:bg-red-600 transition-colors"
                   >
                     <Trash2 className="h-4 w-4" />
                   </button>
+                  {!product.availability && (
+                    <span className="absolute bottom-2 left-2 px-2 py-1 bg-gray-900/80 text-white text-xs rounded">
+                      Out of stock
+                    </span>
+                  )}
                 </div>
 
                 {/* Product Info */}
@@ -182,6 +197,13 @@ export default function WishlistPage() {
 
                   {/* Action Buttons */}
                   <div className="flex space-x-2">
+                    <button
+                      onClick={() => toggleAlerts({ product, ...entry })}
+                      className={`p-2 border rounded-md transition-colors ${entry.alerts ? 'border-primary-800 text-primary-800 bg-primary-50' : 'border-gray-300 text-gray-500 hover:text-primary-800'}`}
+                      title={entry.alerts ? 'Alerts on: price drops and restocks' : 'Alert me about price drops and restocks'}
+                    >
+                      {entry.alerts ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                    </button>
                     <button
                       onClick={() => addToCart(product)}
                       className="flex-1 bg-primary-800 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-primary-700 transition-colors flex items-center justify-center space-x-2"
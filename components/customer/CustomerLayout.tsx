@@ -22,6 +22,7 @@ import {
   Phone,
   ChevronDown
 } from 'lucide-react';
+import NotificationBell from '@/components/notifications/NotificationBell';
 
 interface CustomerLayoutProps {
   children: React.ReactNode;
@@ -115,6 +116,9 @@ export default function CustomerLayout({
                 <span>Contact us</span>
               </Link>
 
+              {/* Notifications */}
+              {session && <NotificationBell />}
+
               {/* Profile Dropdown */}
               <div className="relative">
                 <button
@@ -146,6 +150,13 @@ export default function CustomerLayout({
                       >
                         My Orders
                       </Link>
+                      <Link
+                        href="/quotations"
+                        className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                        onClick={() => setIsProfileDropdownOpen(false)}
+                      >
+                        My Quotations
+                      </Link>
                       <button
                         onClick={handleLogout}
                         className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -24,9 +24,16 @@ import {
   Truck,
   ShoppingCart,
   Heart,
-  Phone
+  Phone,
+  FileText,
+  Tag,
+  ScrollText,
+  Mail,
+  Wallet
 } from 'lucide-react';
 import { logger } from '@/lib/logger';
+import NotificationBell from '@/components/notifications/NotificationBell';
+import { fetchCartCount, mergeGuestCart, CART_UPDATED_EVENT } from '@/lib/cartClient';
 
 /**
  * Main Navigation Component
@@ -38,56 +45,37 @@ export default function Navbar() {
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [cartCount, setCartCount] = useState(0);
 
-  // Update cart count from localStorage
+  // Cart badge follows the customer's server-side cart
   useEffect(() => {
+    if (session?.user?.role !== 'customer') {
+      setCartCount(0);
+      return;
+    }
+
+    let cancelled = false;
     const updateCartCount = () => {
-      try {
-        const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-        // Defensive: ensure array and numeric quantities; if empty, count becomes 0
-        const itemsArray: any[] = Array.isArray(cart) ? cart : [];
-        const totalItems = itemsArray.reduce((sum: number, item: any) => {
-          const qty = Number(item?.quantity);
-          return sum + (Number.isFinite(qty) && qty > 0 ? qty : 0);
-        }, 0);
-        setCartCount(totalItems);
-      } catch (error) {
-        setCartCount(0);
-      }
+      fetchCartCount()
+        .then((count) => { if (!cancelled) setCartCount(count); })
+        .catch(() => {});
     };
 
-    // Initial load
-    updateCartCount();
+    // A cart built in this browser before logging in joins the account cart first
+    mergeGuestCart()
+      .catch(() => 0)
+      .finally(updateCartCount);
 
-    // Listen for storage changes
-    window.addEventListener('storage', updateCartCount);
-    
     // Listen for custom cart update events
-    window.addEventListener('cartUpdated', updateCartCount);
+    window.addEventListener(CART_UPDATED_EVENT, updateCartCount);
 
-    // Also recalc when tab becomes active again
+    // Also recalc when tab becomes active again; the cart may have changed on another device
     window.addEventListener('focus', updateCartCount);
 
     return () => {
-      window.removeEventListener('storage', updateCartCount);
-      window.removeEventListener('cartUpdated', updateCartCount);
+      cancelled = true;
+      window.removeEventListener(CART_UPDATED_EVENT, updateCartCount);
       window.removeEventListener('focus', updateCartCount);
     };
-  }, []);
-
-  // Recalculate on route change as an additional safeguard
-  useEffect(() => {
-    try {
-      const cart = JSON.parse(localStorage.getItem('cart') || '[]');
-      const itemsArray: any[] = Array.isArray(cart) ? cart : [];
-      const totalItems = itemsArray.reduce((sum: number, item: any) => {
-        const qty = Number(item?.quantity);
-        return sum + (Number.isFinite(qty) && qty > 0 ? qty : 0);
-      }, 0);
-      setCartCount(totalItems);
-    } catch {
-      setCartCount(0);
-    }
-  }, [pathname]);
+  }, [session?.user?.role]);
 
   // Navigation items based on user role
   const getNavigationItems = () => {
@@ -97,6 +85,11 @@ export default function Navbar() {
         { name: 'Dashboard', href: '/enduser', icon: BarChart3 },
         { name: 'Products', href: '/enduser/products', icon: Package },
         { name: 'Orders', href: '/enduser/orders', icon: Calendar },
+        { name: 'Quotations', href: '/enduser/quotations', icon: FileText },
+        { name: 'Coupons', href: '/enduser/coupons', icon: Tag },
+        { name: 'Policies', href: '/enduser/policies', icon: ScrollText },
+        { name: 'Messages', href: '/enduser/notifications', icon: Mail },
+        { name: 'Payouts', href: '/enduser/payouts', icon: Wallet },
         { name: 'Transfer', href: '/enduser/transfer', icon: Truck },
         { name: 'Customers', href: '/enduser/customers', icon: User },
       ];
@@ -106,6 +99,7 @@ export default function Navbar() {
         { name: 'Home', href: '/', icon: Home },
         { name: 'Rental Shop', href: '/shop', icon: Package },
         { name: 'Wishlist', href: '/wishlist', icon: User },
+        { name: 'Quotations', href: '/quotations', icon: FileText },
       ];
     } else {
       // Unauthenticated navigation
@@ -203,6 +197,9 @@ export default function Navbar() {
               </>
             )}
 
+            {/* In-app notifications */}
+            {session && <NotificationBell />}
+
             {/* User role badge */}
             {session?.user?.role === 'enduser' && (
               <div className="hidden sm:flex items-center">
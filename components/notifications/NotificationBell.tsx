@@ -0,0 +1,171 @@
+/**
+ * Notification Bell Component
+ * Unread badge and dropdown feed for the logged-in user's in-app notifications
+ */
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, Package, RefreshCw, AlertTriangle, IndianRupee, Clock, TrendingDown, PackageCheck } from 'lucide-react';
+
+// Check for new notifications this often while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface FeedItem {
+  _id: string;
+  kind: 'new_order' | 'order_status' | 'low_stock' | 'payment_received' | 'overdue' | 'price_drop' | 'back_in_stock';
+  title: string;
+  message: string;
+  link?: string;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+const KIND_ICONS: Record<FeedItem['kind'], { icon: any; className: string }> = {
+  new_order: { icon: Package, className: 'text-primary-600 bg-primary-50' },
+  order_status: { icon: RefreshCw, className: 'text-blue-600 bg-blue-50' },
+  low_stock: { icon: AlertTriangle, className: 'text-yellow-600 bg-yellow-50' },
+  payment_received: { icon: IndianRupee, className: 'text-green-600 bg-green-50' },
+  overdue: { icon: Clock, className: 'text-red-600 bg-red-50' },
+  price_drop: { icon: TrendingDown, className: 'text-green-600 bg-green-50' },
+  back_in_stock: { icon: PackageCheck, className: 'text-primary-600 bg-primary-50' },
+};
+
+export default function NotificationBell({ className = '' }: { className?: string }) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/notifications?limit=15');
+      const json = await res.json();
+      if (json?.success) {
+        setItems(json.data.notifications || []);
+        setUnreadCount(json.data.unreadCount || 0);
+      }
+    } catch (e) {
+      // The badge simply stays as it was; the next poll tries again
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') load();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // Close the dropdown on clicks outside it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const res = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      const json = await res.json();
+      if (json?.success) {
+        const now = new Date().toISOString();
+        setItems((current) => current.map((item) => (!ids || ids.includes(item._id) ? { ...item, readAt: item.readAt || now } : item)));
+        setUnreadCount(json.data.unreadCount || 0);
+      }
+    } catch (e) {
+      // Read state is cosmetic; leave it for the next attempt
+    }
+  };
+
+  const toggle = () => {
+    if (!isOpen) {
+      setLoading(true);
+      load().finally(() => setLoading(false));
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const openItem = (item: FeedItem) => {
+    if (!item.readAt) markRead([item._id]);
+    if (item.link) {
+      setIsOpen(false);
+      router.push(item.link);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={toggle}
+        className="relative p-2 text-gray-600 hover:text-gray-900 rounded-lg hover:bg-gray-100 transition-colors"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <Bell className="w-6 h-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-red-600 text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="text-sm font-medium text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-primary-600 hover:text-primary-800">
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading && items.length === 0 ? (
+              <div className="p-6 flex justify-center">
+                <div className="loading-spinner w-6 h-6"></div>
+              </div>
+            ) : items.length === 0 ? (
+              <div className="p-6 text-center text-sm text-gray-500">You&apos;re all caught up.</div>
+            ) : (
+              items.map((item) => {
+                const { icon: Icon, className: iconClass } = KIND_ICONS[item.kind] || KIND_ICONS.order_status;
+                return (
+                  <button
+                    key={item._id}
+                    onClick={() => openItem(item)}
+                    className={`w-full text-left flex items-start px-4 py-3 border-b border-gray-100 last:border-b-0 hover:bg-gray-50 ${item.readAt ? '' : 'bg-primary-50/40'}`}
+                  >
+                    <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center mr-3 ${iconClass}`}>
+                      <Icon className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className={`block text-sm ${item.readAt ? 'text-gray-700' : 'font-medium text-gray-900'}`}>{item.title}</span>
+                      <span className="block text-xs text-gray-600 mt-0.5">{item.message}</span>
+                      <span className="block text-xs text-gray-400 mt-1">
+                        {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                      </span>
+                    </span>
+                    {!item.readAt && <span className="ml-2 mt-1.5 w-2 h-2 rounded-full bg-primary-600 flex-shrink-0" />}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * Availability Engine
+ * Single source of truth for "how many units of a product are free between two dates".
+ * Used by bookings, checkout and the product page.
+ *
+ * Product.quantityAvailable is the fleet size: bookings don't take units off it, this engine decides.
+ * Lines placed when checkout still took units off the shelf (stockReleased unset or false) are added back
+ * until they are returned or cancelled. Units free for a window = fleet size - units booked by
+ * orders/bookings overlapping that window.
+ */
+
+import mongoose from 'mongoose';
+import Product from '@/models/Product';
+import RentalOrder, { ACTIVE_ORDER_STATUSES } from '@/models/RentalOrder';
+import Booking from '@/models/Booking';
+
+export { ACTIVE_ORDER_STATUSES };
+
+// Legacy booking statuses that occupy a unit for their date range (Booking has no reserved or delivered)
+export const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'late'];
+
+export type AvailabilitySlotSize = 'hour' | 'day' | 'week';
+
+const SLOT_MS: Record<AvailabilitySlotSize, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Upper bound on slots returned in one call so a wide range can't run away
+const MAX_SLOTS = 400;
+
+// How far ahead bookings are counted when working out how many units customers have booked
+const BOOKING_HORIZON_MS = 5 * 365 * SLOT_MS.day;
+
+export interface AvailabilityResult {
+  available: boolean;
+  capacity: number;
+  reserved: number;
+  free: number;
+  requested: number;
+}
+
+export interface AvailabilitySlot {
+  start: Date;
+  end: Date;
+  reserved: number;
+  free: number;
+}
+
+interface Occupancy {
+  startDate: Date;
+  endDate: Date;
+  quantity: number;
+}
+
+function toObjectId(id: any) {
+  return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+}
+
+/**
+ * Total units the owner has for rent, whether on the shelf or out with customers
+ */
+export async function getProductCapacity(productId: string | mongoose.Types.ObjectId, product?: any): Promise<number> {
+  const doc = product || await Product.findById(productId).select('quantityAvailable');
+  if (!doc) return 0;
+
+  const held = await RentalOrder.aggregate([
+    { $match: { productId: toObjectId(productId), status: { $in: ACTIVE_ORDER_STATUSES }, stockReleased: { $ne: true } } },
+    { $group: { _id: null, units: { $sum: { $ifNull: ['$quantity', 1] } } } },
+  ]);
+
+  return (doc.quantityAvailable || 0) + (held?.[0]?.units || 0);
+}
+
+/**
+ * All orders and bookings that occupy the product at some point in [start, end)
+ */
+async function findOccupancy(
+  productId: string | mongoose.Types.ObjectId,
+  start: Date,
+  end: Date,
+  excludeId?: string
+): Promise<Occupancy[]> {
+  const overlap: any = {
+    productId: toObjectId(productId),
+    startDate: { $lt: end },
+    $or: [{ endDate: { $gt: start } }, { status: 'late' }],
+  };
+  if (excludeId && mongoose.Types.ObjectId.isValid(excludeId)) {
+    overlap._id = { $ne: toObjectId(excludeId) };
+  }
+
+  const [orders, bookings] = await Promise.all([
+    RentalOrder.find({ ...overlap, status: { $in: ACTIVE_ORDER_STATUSES } }).select('startDate endDate quantity status').lean(),
+    Booking.find({ ...overlap, status: { $in: ACTIVE_BOOKING_STATUSES } }).select('startDate endDate status').lean(),
+  ]);
+
+  // Late orders and bookings are still with the customer, so they occupy the unit until returned
+  const until = (o: any) => (o.status === 'late' ? new Date(Math.max(new Date(o.endDate).getTime(), end.getTime())) : o.endDate);
+  return [
+    ...(orders as any[]).map((o) => ({ startDate: o.startDate, endDate: until(o), quantity: o.quantity || 1 })),
+    ...(bookings as any[]).map((b) => ({ startDate: b.startDate, endDate: until(b), quantity: 1 })),
+  ];
+}
+
+/**
+ * Highest number of units booked at the same moment within [start, end)
+ */
+function peakUsage(occupancy: Occupancy[], start: Date, end: Date): number {
+  const events: Array<{ at: number; delta: number }> = [];
+  for (const o of occupancy) {
+    const from = Math.max(new Date(o.startDate).getTime(), start.getTime());
+    const to = Math.min(new Date(o.endDate).getTime(), end.getTime());
+    if (from >= to) continue;
+    events.push({ at: from, delta: o.quantity });
+    events.push({ at: to, delta: -o.quantity });
+  }
+
+  // Releases sort before pickups at the same instant, so back-to-back rentals don't collide
+  events.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let current = 0;
+  let peak = 0;
+  for (const e of events) {
+    current += e.delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Check whether `quantity` units of a product are free for the whole window
+ */
+export async function checkAvailability(
+  productId: string | mongoose.Types.ObjectId,
+  startDate: Date,
+  endDate: Date,
+  options: { quantity?: number; excludeId?: string; product?: any } = {}
+): Promise<AvailabilityResult> {
+  const requested = Math.max(1, options.quantity || 1);
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+
+  const [capacity, occupancy] = await Promise.all([
+    getProductCapacity(productId, options.product),
+    findOccupancy(productId, start, end, options.excludeId),
+  ]);
+
+  const reserved = peakUsage(occupancy, start, end);
+  const free = Math.max(0, capacity - reserved);
+
+  return {
+    available: free >= requested,
+    capacity,
+    reserved,
+    free,
+    requested,
+  };
+}
+
+/**
+ * Most units booked at the same moment from now on: the fleet can't shrink below this without
+ * leaving a booking without a unit
+ */
+export async function getBookedUnits(
+  productId: string | mongoose.Types.ObjectId,
+  product?: any
+): Promise<{ capacity: number; booked: number }> {
+  const now = new Date();
+  const { capacity, reserved } = await checkAvailability(productId, now, new Date(now.getTime() + BOOKING_HORIZON_MS), { product });
+  return { capacity, booked: reserved };
+}
+
+/**
+ * Units free per slot between two dates, for calendars on the product page
+ */
+export async function getAvailabilitySlots(
+  productId: string | mongoose.Types.ObjectId,
+  from: Date,
+  to: Date,
+  slotSize: AvailabilitySlotSize = 'day'
+): Promise<AvailabilitySlot[]> {
+  const start = new Date(from);
+  const step = SLOT_MS[slotSize];
+  const end = new Date(Math.min(new Date(to).getTime(), start.getTime() + step * MAX_SLOTS));
+
+  const [capacity, occupancy] = await Promise.all([
+    getProductCapacity(productId),
+    findOccupancy(productId, start, end),
+  ]);
+
+  const slots: AvailabilitySlot[] = [];
+  for (let at = start.getTime(); at < end.getTime(); at += step) {
+    const slotStart = new Date(at);
+    const slotEnd = new Date(Math.min(at + step, end.getTime()));
+    const reserved = peakUsage(occupancy, slotStart, slotEnd);
+    slots.push({ start: slotStart, end: slotEnd, reserved, free: Math.max(0, capacity - reserved) });
+  }
+
+  return slots;
+}
@@ -0,0 +1,209 @@
+/**
+ * Customer Cart
+ * Reads the server-side cart back with every line re-priced from the product's current rates and
+ * re-checked against stock for its dates, folds a guest's browser cart in on login, and drops
+ * lines once they have been ordered.
+ */
+
+import mongoose from 'mongoose';
+import Cart, { CartLineInput, MAX_CART_LINE_QUANTITY } from '@/models/Cart';
+import Product from '@/models/Product';
+import TaxPolicy from '@/models/TaxPolicy';
+import { logger } from '@/lib/logger';
+import { checkAvailability } from '@/lib/availability';
+import { priceRental, roundMoney, totalsMatch } from '@/lib/pricing';
+import { taxForLine, LineTax, TaxPolicyLike } from '@/lib/tax';
+
+export interface CartLineView {
+  _id: string;
+  productId: string;
+  name: string;
+  image?: string;
+  category?: string;
+  endUserId?: string;
+  quantity: number;
+  duration: string;
+  fromDate: string;
+  toDate: string;
+  pricePerDay?: number;
+  unitTotal: number;
+  totalPrice: number;
+  tax?: LineTax; // as an intra-state supply; checkout splits it again once the delivery state is known
+  securityDeposit: number;
+  previousPrice?: number; // set when the line total changed since the customer last saw it
+  available: boolean;
+  free?: number;
+  issue?: string; // why the line can't be checked out as it stands
+}
+
+export interface CartView {
+  items: CartLineView[];
+  itemCount: number;
+  hasIssues: boolean;
+}
+
+const isValidDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+/**
+ * Check a line sent by the browser; returns the cleaned line or the reason it was refused
+ */
+export function readCartLine(raw: any): CartLineInput | string {
+  const productId = String(raw?.productId || raw?.id || '');
+  if (!mongoose.Types.ObjectId.isValid(productId)) {
+    return 'Invalid product ID';
+  }
+  if (!isValidDate(raw?.fromDate) || !isValidDate(raw?.toDate)) {
+    return 'Rental dates are required';
+  }
+  if (new Date(raw.fromDate) >= new Date(raw.toDate)) {
+    return 'End date must be after start date';
+  }
+
+  const quantity = raw?.quantity === undefined ? 1 : Math.floor(Number(raw.quantity));
+  if (!Number.isFinite(quantity) || quantity < 1 || quantity > MAX_CART_LINE_QUANTITY) {
+    return `Quantity must be between 1 and ${MAX_CART_LINE_QUANTITY}`;
+  }
+
+  return {
+    productId,
+    quantity,
+    fromDate: raw.fromDate,
+    toDate: raw.toDate,
+    duration: typeof raw?.duration === 'string' && raw.duration ? raw.duration : 'day',
+  };
+}
+
+export function cartItemCount(cart: any): number {
+  return (cart?.items || []).reduce((sum: number, item: any) => sum + (item.quantity || 0), 0);
+}
+
+/**
+ * Price and check every line as of now. The price each line was shown at is remembered, so a
+ * change is reported once and then becomes the new price.
+ */
+export async function viewCart(cart: any, now: Date = new Date()): Promise<CartView> {
+  const ids = cart.items.map((item: any) => item.productId);
+  const products = await Product.find({ _id: { $in: ids } });
+  const byId = new Map<string, any>(products.map((product: any) => [product._id.toString(), product]));
+  const policies: Map<string, TaxPolicyLike> = await TaxPolicy.forEndUsers(products.map((product: any) => product.endUserId));
+  const today = new Date(now.toISOString().slice(0, 10));
+
+  const items: CartLineView[] = [];
+  let requoted = false;
+
+  for (const item of cart.items) {
+    const product = byId.get(item.productId.toString());
+    const line: CartLineView = {
+      _id: item._id.toString(),
+      productId: item.productId.toString(),
+      name: product?.name || 'Unavailable product',
+      image: product?.image,
+      category: product?.category,
+      endUserId: product?.endUserId?.toString(),
+      quantity: item.quantity,
+      duration: item.duration,
+      fromDate: item.fromDate,
+      toDate: item.toDate,
+      pricePerDay: product?.pricePerDay,
+      unitTotal: 0,
+      totalPrice: 0,
+      securityDeposit: product?.securityDeposit || 0,
+      available: false,
+    };
+    items.push(line);
+
+    if (!product) {
+      line.issue = 'This product is no longer available';
+      continue;
+    }
+
+    try {
+      const price = priceRental(product, item.fromDate, item.toDate, item.quantity);
+      line.unitTotal = price.unitTotal;
+      line.totalPrice = price.total;
+      line.tax = taxForLine(price.total, policies.get(line.endUserId || ''), product.category);
+    } catch (e) {
+      line.issue = (e as Error).message;
+      continue;
+    }
+
+    if (item.quotedPrice !== undefined && item.quotedPrice !== null && !totalsMatch(item.quotedPrice, line.totalPrice)) {
+      line.previousPrice = roundMoney(item.quotedPrice);
+    }
+    if (item.quotedPrice !== line.totalPrice) {
+      item.quotedPrice = line.totalPrice;
+      requoted = true;
+    }
+
+    if (new Date(item.fromDate) < today) {
+      line.issue = 'The rental start date has passed';
+      continue;
+    }
+
+    const availability = await checkAvailability(product._id, new Date(item.fromDate), new Date(item.toDate), {
+      quantity: item.quantity,
+      product,
+    });
+    line.free = availability.free;
+    line.available = availability.available;
+    if (!availability.available) {
+      line.issue = availability.free > 0
+        ? `Only ${availability.free} unit(s) available for these dates`
+        : 'Not available for the selected dates';
+    }
+  }
+
+  if (requoted && !cart.isNew) {
+    await cart.save();
+  }
+
+  return {
+    items,
+    itemCount: cartItemCount(cart),
+    hasIssues: items.some((line) => !!line.issue),
+  };
+}
+
+/**
+ * Fold the lines of a guest's browser cart into the customer's cart. Lines that no longer make
+ * sense (unknown products, broken dates) are left out rather than failing the whole merge.
+ */
+export async function mergeGuestCart(customerId: string, guestItems: any[]): Promise<{ cart: any; merged: number; skipped: number }> {
+  const cart = await Cart.forCustomer(customerId);
+  const lines = guestItems.map(readCartLine).filter((line): line is CartLineInput => typeof line !== 'string');
+
+  const known = new Set(
+    (await Product.find({ _id: { $in: lines.map((line) => line.productId) } }).select('_id').lean())
+      .map((product: any) => product._id.toString())
+  );
+
+  let merged = 0;
+  for (const line of lines) {
+    if (!known.has(line.productId)) continue;
+    cart.addLine(line);
+    merged++;
+  }
+
+  if (merged > 0) {
+    await cart.save();
+  }
+
+  logger.info('guest cart merged', { customerId, merged, skipped: guestItems.length - merged });
+  return { cart, merged, skipped: guestItems.length - merged };
+}
+
+/**
+ * Take ordered lines out of the buyer's cart. A line is the same product for the same dates, so the
+ * product booked for other dates stays in the cart. Never fails the order it follows.
+ */
+export async function removeOrderedLines(customerId: string, lines: Array<Pick<CartLineInput, 'productId' | 'fromDate' | 'toDate'>>): Promise<void> {
+  const ordered = lines
+    .filter((line) => mongoose.Types.ObjectId.isValid(line.productId) && line.fromDate && line.toDate)
+    .map((line) => ({ productId: new mongoose.Types.ObjectId(line.productId), fromDate: line.fromDate, toDate: line.toDate }));
+  if (ordered.length === 0) return;
+  try {
+    await Cart.updateOne({ customerId }, { $pull: { items: { $or: ordered } } });
+  } catch (error) {
+    logger.error('cart cleanup after order failed', { customerId, error: (error as any)?.message });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Cart Client Helpers
+ * Browser-side calls to /api/cart shared by the shop, product, wishlist and cart pages and the navbar badge.
+ * Carts left in localStorage from before login (or from before carts moved to the server) are
+ * merged into the account cart once and then removed.
+ */
+
+// localStorage key the guest cart has always lived under
+export const GUEST_CART_KEY = 'cart';
+
+// Window event the navbar listens to for refreshing the cart badge
+export const CART_UPDATED_EVENT = 'cartUpdated';
+
+export interface CartLineRequest {
+  productId: string;
+  quantity?: number;
+  fromDate: string;
+  toDate: string;
+  duration?: string;
+}
+
+export function announceCartChange() {
+  try { window.dispatchEvent(new Event(CART_UPDATED_EVENT)); } catch {}
+}
+
+/**
+ * Add a line to the logged-in customer's cart; resolves to the API response
+ */
+export async function addToCart(line: CartLineRequest): Promise<{ success: boolean; data?: any; error?: string }> {
+  const response = await fetch('/api/cart', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(line),
+  });
+  const result = await response.json();
+  if (result?.success) announceCartChange();
+  return result;
+}
+
+export async function fetchCartCount(): Promise<number> {
+  const response = await fetch('/api/cart?summary=true');
+  const result = await response.json();
+  return result?.success ? result.data.itemCount || 0 : 0;
+}
+
+/**
+ * Send any cart left in localStorage to the server and forget it. Returns how many lines were merged.
+ */
+export async function mergeGuestCart(): Promise<number> {
+  let items: any[] = [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    items = Array.isArray(stored) ? stored : [];
+  } catch {
+    localStorage.removeItem(GUEST_CART_KEY);
+    return 0;
+  }
+  if (items.length === 0) return 0;
+
+  const response = await fetch('/api/cart/merge', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items }),
+  });
+  const result = await response.json();
+  if (!result?.success) return 0;
+
+  localStorage.removeItem(GUEST_CART_KEY);
+  announceCartChange();
+  return result.data.merged || 0;
+}
@@ -0,0 +1,187 @@
+/**
+ * Checkout Pricing
+ * Prices cart lines from the database with the pricing engine, applies a coupon and works out
+ * the delivery charge from each enduser's delivery policy.
+ * Shared by the coupon validation endpoint, the checkout session and order completion.
+ */
+
+import Product from '@/models/Product';
+import TaxPolicy from '@/models/TaxPolicy';
+import DeliveryPolicy from '@/models/DeliveryPolicy';
+import { priceRental, calculateCartTotals, roundMoney, CartTotals } from '@/lib/pricing';
+import { allocateDiscount, evaluateCoupon, PricedLine } from '@/lib/coupons';
+import { taxAfterDiscount, taxForLine, TaxPolicyLike } from '@/lib/tax';
+import { quoteDelivery, DeliveryAddressLike, DeliveryMethod, DeliveryPolicyLike } from '@/lib/delivery';
+
+// Cart lines arrive in both the cart's shape (id, fromDate, toDate) and the order shape
+export interface CartLineInput {
+  id?: string;
+  productId?: string;
+  quantity?: number;
+  fromDate?: string;
+  toDate?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface PricedCart {
+  lines: PricedLine[];
+  lineDiscounts: number[]; // each line's share of the coupon discount
+  totals: CartTotals;
+  coupon?: any;
+  delivery?: DeliveryOption;
+  error?: undefined;
+}
+
+// A way the customer can get the whole order: every enduser in the cart has to offer it
+export interface DeliveryOption {
+  method: DeliveryMethod;
+  available: boolean;
+  charge: number;
+  reason?: string; // why it isn't available
+  pickupAddresses?: string[];
+}
+
+export interface PricingFailure {
+  error: string;
+  status: number;
+}
+
+/**
+ * Price each line from the product's current rates and tax it under its enduser's tax policy.
+ * Without a delivery state every line is taxed as an intra-state supply.
+ */
+export async function priceCartLines(
+  items: CartLineInput[],
+  deliveryState?: string
+): Promise<{ lines: PricedLine[]; error?: undefined } | PricingFailure> {
+  const lines: Omit<PricedLine, 'tax'>[] = [];
+
+  for (const item of items) {
+    const productId = item.id || item.productId;
+    const product = productId ? await Product.findById(productId) : null;
+    if (!product) {
+      return { error: 'Product not found', status: 404 };
+    }
+
+    const startDate = item.fromDate || item.startDate;
+    const endDate = item.toDate || item.endDate;
+    if (!startDate || !endDate) {
+      return { error: `Rental dates are required for ${product.name}`, status: 400 };
+    }
+
+    try {
+      const price = priceRental(product, startDate, endDate, item.quantity || 1);
+      lines.push({
+        productId: product._id.toString(),
+        productName: product.name,
+        category: product.category,
+        endUserId: product.endUserId.toString(),
+        quantity: price.quantity,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        total: price.total,
+        deposit: roundMoney((product.securityDeposit || 0) * price.quantity),
+      });
+    } catch (e) {
+      return { error: `${product.name}: ${(e as Error).message}`, status: 400 };
+    }
+  }
+
+  const policies: Map<string, TaxPolicyLike> = await TaxPolicy.forEndUsers(lines.map((line) => line.endUserId));
+  return {
+    lines: lines.map((line) => ({
+      ...line,
+      tax: taxForLine(line.total, policies.get(line.endUserId), line.category, deliveryState),
+    })),
+  };
+}
+
+/**
+ * Pickup and delivery for priced lines to an address. Each enduser delivers their own lines, so
+ * the delivery charge is the sum of theirs and delivery is only offered when all of them serve the address.
+ */
+export async function deliveryOptions(lines: PricedLine[], address: DeliveryAddressLike): Promise<DeliveryOption[]> {
+  const subtotals = new Map<string, number>();
+  for (const line of lines) {
+    subtotals.set(line.endUserId, (subtotals.get(line.endUserId) || 0) + line.total);
+  }
+  const policies: Map<string, DeliveryPolicyLike> = await DeliveryPolicy.forEndUsers(Array.from(subtotals.keys()));
+  const endUserIds = Array.from(subtotals.keys());
+
+  const pickupPolicies = endUserIds.map((id) => policies.get(id));
+  const pickupAvailable = pickupPolicies.every((policy) => policy?.pickupEnabled !== false);
+  const pickup: DeliveryOption = {
+    method: 'pickup',
+    available: pickupAvailable,
+    charge: 0,
+    reason: pickupAvailable ? undefined : 'Store pickup is not offered for every item',
+    pickupAddresses: pickupPolicies.map((policy) => policy?.pickupAddress).filter((value): value is string => !!value),
+  };
+
+  const quotes = endUserIds.map((id) => quoteDelivery(policies.get(id), address, subtotals.get(id)));
+  const unavailable = quotes.find((quote) => !quote.available);
+  const delivery: DeliveryOption = unavailable
+    ? { method: 'delivery', available: false, charge: 0, reason: unavailable.reason }
+    : { method: 'delivery', available: true, charge: roundMoney(quotes.reduce((sum, quote) => sum + (quote.charge || 0), 0)) };
+
+  return [pickup, delivery];
+}
+
+/**
+ * Price a whole cart: line totals, coupon discount, tax, delivery, security deposit and grand total.
+ * With a delivery method the charge comes from the endusers' delivery policies; without one it is
+ * the deliveryCharge given (none before the customer has an address).
+ */
+export async function priceCart(
+  items: CartLineInput[],
+  options: {
+    couponCode?: string;
+    customerId?: string;
+    deliveryCharge?: number;
+    deliveryState?: string;
+    delivery?: { method: DeliveryMethod; address: DeliveryAddressLike };
+  } = {}
+): Promise<PricedCart | PricingFailure> {
+  const priced = await priceCartLines(items, options.deliveryState);
+  if (priced.error !== undefined) {
+    return priced;
+  }
+
+  let deliveryCharge = Math.max(0, Number(options.deliveryCharge) || 0);
+  let delivery: DeliveryOption | undefined;
+  if (options.delivery) {
+    const method = options.delivery.method;
+    delivery = (await deliveryOptions(priced.lines, options.delivery.address)).find((option) => option.method === method);
+    if (!delivery) {
+      return { error: 'Delivery method must be pickup or delivery', status: 400 };
+    }
+    if (!delivery.available) {
+      return { error: delivery.reason || 'This delivery method is not available', status: 400 };
+    }
+    deliveryCharge = delivery.charge;
+  }
+
+  let discount = 0;
+  let coupon: any;
+  if (options.couponCode) {
+    const evaluation = await evaluateCoupon(options.couponCode, priced.lines, options.customerId);
+    if (evaluation.error !== undefined) {
+      return { error: evaluation.error, status: 400 };
+    }
+    discount = evaluation.discount;
+    coupon = evaluation.coupon;
+  }
+
+  // Each line is taxed on what is left of it after its share of the discount
+  const lineDiscounts = allocateDiscount(coupon, priced.lines, discount);
+  const totals = calculateCartTotals(
+    priced.lines.map((line) => line.total),
+    priced.lines.map((line, index) => taxAfterDiscount(line.tax, lineDiscounts[index])),
+    discount,
+    deliveryCharge,
+    priced.lines.reduce((sum, line) => sum + line.deposit, 0)
+  );
+
+  return { lines: priced.lines, lineDiscounts, totals, coupon, delivery };
+}
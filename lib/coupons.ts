@@ -0,0 +1,208 @@
+/**
+ * Coupon Rules
+ * Decides whether a coupon applies to a priced cart and how much it takes off,
+ * and records the redemption once an order is placed.
+ */
+
+import mongoose from 'mongoose';
+import Coupon from '@/models/Coupon';
+import CouponRedemption from '@/models/CouponRedemption';
+import Product from '@/models/Product';
+import { roundMoney } from '@/lib/pricing';
+import type { LineTax } from '@/lib/tax';
+
+// A cart line after the pricing engine has run
+export interface PricedLine {
+  productId: string;
+  productName: string;
+  category: string;
+  endUserId: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  total: number;
+  deposit: number; // product security deposit for the line's quantity
+  tax: LineTax; // GST on the line's total under the enduser's tax policy
+}
+
+export type CouponEvaluation =
+  | { coupon: any; discount: number; eligibleSubtotal: number; error?: undefined }
+  | { coupon?: undefined; discount?: undefined; eligibleSubtotal?: undefined; error: string };
+
+/**
+ * Lines the coupon can discount: the owner's products, narrowed by product and category restrictions
+ */
+export function eligibleLines(coupon: any, lines: PricedLine[]): PricedLine[] {
+  const productIds = (coupon.productIds || []).map((id: any) => id.toString());
+  const categories: string[] = coupon.categories || [];
+
+  return lines.filter((line) =>
+    line.endUserId === coupon.endUserId.toString()
+    && (productIds.length === 0 || productIds.includes(line.productId))
+    && (categories.length === 0 || categories.includes(line.category))
+  );
+}
+
+/**
+ * Split a coupon discount over the lines it applies to, in proportion to their totals.
+ * Returns one share per line (0 for lines the coupon doesn't cover); the shares add up to the discount.
+ * Without a coupon (deleted since it was charged) every line takes a share.
+ */
+export function allocateDiscount(coupon: any, lines: PricedLine[], discount: number): number[] {
+  const eligible = new Set(coupon ? eligibleLines(coupon, lines) : lines);
+  const eligibleSubtotal = lines.reduce((sum, line) => sum + (eligible.has(line) ? line.total : 0), 0);
+  const shares = lines.map(() => 0);
+  if (!(discount > 0) || eligibleSubtotal <= 0) return shares;
+
+  // Rounding is settled on the last eligible line so nothing is lost or invented
+  let remaining = roundMoney(discount);
+  let last = -1;
+  lines.forEach((line, index) => {
+    if (!eligible.has(line)) return;
+    shares[index] = roundMoney(discount * line.total / eligibleSubtotal);
+    remaining = roundMoney(remaining - shares[index]);
+    last = index;
+  });
+  shares[last] = Math.max(0, roundMoney(shares[last] + remaining));
+  return shares;
+}
+
+/**
+ * Coupon discount carried by each placed line of an order. Lines placed before shares were recorded
+ * get them worked out again from the coupon; if the coupon is gone, the discount is spread over every line.
+ */
+export async function orderLineDiscounts(order: any, lines: any[]): Promise<number[]> {
+  if (!(order?.discount > 0) || lines.some((line) => line.discount !== undefined && line.discount !== null)) {
+    return lines.map((line) => line.discount || 0);
+  }
+
+  const coupon = order.couponCode ? await Coupon.findByCode(order.couponCode) : null;
+  if (!coupon) {
+    const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0) || 1;
+    return lines.map((line) => roundMoney(order.discount * line.totalPrice / subtotal));
+  }
+
+  const products = await Product.find({ _id: { $in: lines.map((line) => line.productId) } }).select('category').lean();
+  const categories = new Map(products.map((product: any) => [product._id.toString(), product.category]));
+  const priced = lines.map((line) => ({
+    productId: line.productId.toString(),
+    category: categories.get(line.productId.toString()) || '',
+    endUserId: line.endUserId.toString(),
+    total: line.totalPrice,
+  })) as PricedLine[];
+  return allocateDiscount(coupon, priced, order.discount);
+}
+
+/**
+ * Check a code against a priced cart. `customerId` enables the per-customer limit.
+ */
+export async function evaluateCoupon(code: string, lines: PricedLine[], customerId?: string): Promise<CouponEvaluation> {
+  const coupon = await Coupon.findByCode(code);
+  if (!coupon || !coupon.isActive) {
+    return { error: 'Invalid coupon code' };
+  }
+
+  const now = new Date();
+  if (coupon.validFrom && coupon.validFrom > now) {
+    return { error: `${coupon.code} is not active yet` };
+  }
+  if (coupon.validUntil && coupon.validUntil <= now) {
+    return { error: `${coupon.code} has expired` };
+  }
+  if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+    return { error: `${coupon.code} has been fully redeemed` };
+  }
+
+  if (customerId && coupon.perCustomerLimit) {
+    const used = await CouponRedemption.countDocuments({ couponId: coupon._id, customerId });
+    if (used >= coupon.perCustomerLimit) {
+      return { error: `You have already used ${coupon.code}` };
+    }
+  }
+
+  const eligible = eligibleLines(coupon, lines);
+  if (eligible.length === 0) {
+    return { error: `${coupon.code} does not apply to the items in your cart` };
+  }
+
+  const eligibleSubtotal = roundMoney(eligible.reduce((sum, line) => sum + line.total, 0));
+  if (eligibleSubtotal < (coupon.minOrderValue || 0)) {
+    return { error: `${coupon.code} needs a minimum order of ₹${coupon.minOrderValue} on eligible items` };
+  }
+
+  let discount = coupon.discountType === 'percentage'
+    ? (eligibleSubtotal * coupon.discountValue) / 100
+    : coupon.discountValue;
+  if (coupon.maxDiscount) {
+    discount = Math.min(discount, coupon.maxDiscount);
+  }
+  discount = roundMoney(Math.min(discount, eligibleSubtotal));
+
+  return { coupon, discount, eligibleSubtotal };
+}
+
+/**
+ * Take one use of the coupon and record who used it. Returns false when the global
+ * limit was reached by someone else between validation and checkout. A discount already
+ * `charged` is recorded anyway, so the owner sees every use they paid for.
+ */
+export async function redeemCoupon(
+  coupon: any,
+  details: { customerId: string; customerEmail?: string; discount: number; orderTotal: number; rentalOrderIds?: string[]; charged?: boolean }
+): Promise<boolean> {
+  const claimed = await coupon.claimUse();
+  if (!claimed) {
+    if (!details.charged) return false;
+    await Coupon.updateOne({ _id: coupon._id }, { $inc: { usedCount: 1 } });
+  }
+
+  await CouponRedemption.create({
+    couponId: coupon._id,
+    code: coupon.code,
+    endUserId: coupon.endUserId,
+    customerId: details.customerId,
+    customerEmail: details.customerEmail,
+    discount: details.discount,
+    orderTotal: details.orderTotal,
+    rentalOrderIds: details.rentalOrderIds || [],
+  });
+  return true;
+}
+
+// Fields an enduser may set on their own coupons
+const EDITABLE_FIELDS = [
+  'code', 'description', 'discountType', 'discountValue', 'maxDiscount', 'minOrderValue',
+  'usageLimit', 'perCustomerLimit', 'validFrom', 'validUntil', 'productIds', 'categories', 'isActive',
+];
+
+// Optional limits cleared by sending an empty value
+const CLEARABLE_FIELDS = ['maxDiscount', 'usageLimit', 'perCustomerLimit', 'validUntil'];
+
+/**
+ * Pick the editable coupon fields from a request body; product restrictions must be the owner's products
+ */
+export async function pickCouponFields(body: any, endUserId: string): Promise<{ fields: Record<string, any>; error?: undefined } | { fields?: undefined; error: string }> {
+  const fields: Record<string, any> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body?.[key] === undefined) continue;
+    fields[key] = CLEARABLE_FIELDS.includes(key) && (body[key] === '' || body[key] === null) ? undefined : body[key];
+  }
+
+  if (fields.productIds !== undefined) {
+    const ids: string[] = Array.isArray(fields.productIds) ? fields.productIds.map(String) : [];
+    if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+      return { error: 'Invalid product in coupon restrictions' };
+    }
+    const owned = await Product.countDocuments({ _id: { $in: ids }, endUserId });
+    if (owned !== ids.length) {
+      return { error: 'Coupons can only be restricted to your own products' };
+    }
+    fields.productIds = ids;
+  }
+
+  if (fields.categories !== undefined) {
+    fields.categories = Array.isArray(fields.categories) ? fields.categories.map(String).filter(Boolean) : [];
+  }
+
+  return { fields };
+}
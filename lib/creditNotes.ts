@@ -0,0 +1,211 @@
+/**
+ * Credit Notes
+ * Issues credit notes against posted invoices. The invoice itself is never edited beyond the
+ * running credited total; the credit note carries the reduction and its own tax reversal. When the
+ * invoice is already paid the credit is refunded through the payment provider, and no credit note
+ * is issued if the refund can't be made. The enduser's settlement for the order gives up the credit.
+ */
+
+import CreditNote, { CreditNoteReason, CREDIT_NOTE_REASONS } from '@/models/CreditNote';
+import Invoice from '@/models/Invoice';
+import Payment from '@/models/Payment';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+import { getPaymentProvider, PaymentProviderError } from '@/lib/paymentProvider';
+import { settleOrder } from '@/lib/settlements';
+import { scaleTaxComponents, TaxComponent } from '@/lib/tax';
+import { StatusActor } from '@/types';
+
+// Invoice statuses that can be credited; drafts are still editable and void ones are cancelled
+const CREDITABLE_INVOICE_STATUSES = ['posted', 'paid'];
+
+export const CREDIT_NOTE_REASON_LABELS: Record<CreditNoteReason, string> = {
+  damage_waived: 'Damage charge waived',
+  early_return: 'Early return',
+  price_match: 'Price match',
+  other: 'Adjustment',
+};
+
+export interface CreditNoteInput {
+  amount: number; // taxable value to credit, before tax
+  reason: CreditNoteReason;
+  note?: string;
+  rentalOrderId?: string;
+  actor?: StatusActor;
+}
+
+export type CreditNoteResult =
+  | { creditNote: any; invoice: any; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * What is still creditable on an invoice, tax included
+ */
+export function creditableBalance(invoice: any): number {
+  return Math.max(0, roundMoney((invoice.total || 0) - (invoice.creditedTotal || 0)));
+}
+
+/**
+ * Tax reversed by a credit note: at the rate the credited line was invoiced at, or spread over the
+ * invoice's tax lines in proportion when the credit is for the invoice as a whole
+ */
+function creditTaxLines(invoice: any, line: any, subtotal: number): TaxComponent[] {
+  const taxLines: TaxComponent[] = (invoice.taxLines || []).map((tax: any) => ({
+    label: tax.label,
+    rate: tax.rate,
+    taxableValue: tax.taxableValue,
+    amount: tax.amount,
+  }));
+
+  if (line?.taxRate !== undefined && line.taxRate !== null) {
+    const componentRate = invoice.supply === 'inter_state' ? line.taxRate : line.taxRate / 2;
+    const lineTaxLines = taxLines.filter((tax) => tax.rate === componentRate);
+    if (lineTaxLines.length > 0) {
+      return scaleTaxComponents(lineTaxLines, lineTaxLines[0].taxableValue, subtotal);
+    }
+  }
+  return scaleTaxComponents(taxLines, invoice.subtotal, subtotal);
+}
+
+/**
+ * Send a paid invoice's credit back to the customer. Returns the refund to record on the credit note.
+ */
+async function refundCredit(invoice: any, payment: any, amount: number): Promise<{ refund: any; error?: undefined } | { error: string; status: number }> {
+  const provider = getPaymentProvider();
+  try {
+    const result = await provider.refund({
+      paymentId: payment?.razorpayPaymentId,
+      amount,
+      currency: payment?.currency || 'INR',
+      receipt: `credit_${invoice._id}`,
+      notes: { invoiceId: invoice._id.toString() },
+    });
+
+    // Counting the refund ID now makes the later refund.processed webhook a no-op
+    if (payment) {
+      await payment.recordRefund(result.refundId, amount);
+    }
+    logger.payment('REFUND', amount, { invoice: invoice.invoiceNumber, provider: provider.name, refundId: result.refundId });
+    return {
+      refund: {
+        amount,
+        provider: provider.name,
+        providerRefundId: result.refundId,
+        status: result.status,
+        processedAt: result.status === 'processed' ? new Date() : undefined,
+      },
+    };
+  } catch (error) {
+    logger.error('credit note refund failed', { invoice: invoice.invoiceNumber, amount, error: (error as any)?.message });
+    const reason = error instanceof PaymentProviderError ? error.message : 'Refund request failed';
+    return { error: `Refund failed: ${reason}`, status: 502 };
+  }
+}
+
+/**
+ * Issue a credit note against an invoice. The credit plus its tax may not exceed what is left
+ * of the invoice after earlier credit notes, nor, on a paid invoice, what is left of the payment.
+ */
+export async function issueCreditNote(invoice: any, input: CreditNoteInput): Promise<CreditNoteResult> {
+  if (!CREDITABLE_INVOICE_STATUSES.includes(invoice.status)) {
+    return { error: `A ${invoice.status} invoice cannot be credited`, status: 409 };
+  }
+  if (!CREDIT_NOTE_REASONS.includes(input.reason)) {
+    return { error: `Reason must be one of: ${CREDIT_NOTE_REASONS.join(', ')}`, status: 400 };
+  }
+
+  const subtotal = roundMoney(Number(input.amount));
+  if (!Number.isFinite(subtotal) || subtotal <= 0) {
+    return { error: 'Amount must be a positive number', status: 400 };
+  }
+
+  let line: any = null;
+  if (input.rentalOrderId) {
+    line = invoice.lines.find((entry: any) => entry.rentalOrderId?.toString() === input.rentalOrderId);
+    if (!line) return { error: 'That order line is not on this invoice', status: 400 };
+  }
+
+  const taxLines = creditTaxLines(invoice, line, subtotal);
+  const taxTotal = roundMoney(taxLines.reduce((total, tax) => total + tax.amount, 0));
+  const total = roundMoney(subtotal + taxTotal);
+  const balance = creditableBalance(invoice);
+  if (total > balance) {
+    return { error: `Only ₹${balance} is left to credit on ${invoice.invoiceNumber}`, status: 400 };
+  }
+
+  // A paid invoice is credited by refunding it, so the payment has to be there to refund
+  const payment = invoice.status === 'paid'
+    ? await Payment.findOne({ rentalOrderIds: { $in: invoice.rentalOrderIds } })
+    : null;
+  if (invoice.status === 'paid') {
+    if (getPaymentProvider().name === 'razorpay' && !payment?.razorpayPaymentId) {
+      return { error: 'No captured payment found for this invoice; refund it manually', status: 409 };
+    }
+    if (payment && total > roundMoney(payment.amount - payment.amountRefunded)) {
+      return { error: `Only ₹${roundMoney(payment.amount - payment.amountRefunded)} is left to refund on the payment`, status: 409 };
+    }
+  }
+
+  // Reserve the amount on the invoice first, so two credit notes issued together can't over-credit it
+  const reserved = await Invoice.findOneAndUpdate(
+    { _id: invoice._id, creditedTotal: { $lte: roundMoney(invoice.total - total) } },
+    { $inc: { creditedTotal: total } },
+    { new: true }
+  );
+  if (!reserved) {
+    return { error: `Not enough left to credit on ${invoice.invoiceNumber}`, status: 409 };
+  }
+
+  let refund: any;
+  if (invoice.status === 'paid') {
+    const refunded = await refundCredit(invoice, payment, total);
+    if (refunded.error !== undefined) {
+      await Invoice.updateOne({ _id: invoice._id }, { $inc: { creditedTotal: -total } });
+      return refunded;
+    }
+    refund = refunded.refund;
+  }
+
+  try {
+    const creditNote = await CreditNote.create({
+      creditNoteNumber: await CreditNote.nextCreditNoteNumber(invoice.endUserId.toString()),
+      endUserId: invoice.endUserId,
+      customerId: invoice.customerId,
+      invoiceId: invoice._id,
+      invoiceNumber: invoice.invoiceNumber,
+      rentalOrderId: line?.rentalOrderId,
+      orderNumber: invoice.orderNumber,
+      reason: input.reason,
+      note: input.note,
+      seller: invoice.seller,
+      buyer: invoice.buyer,
+      description: line ? `${CREDIT_NOTE_REASON_LABELS[input.reason]} – ${line.description}` : CREDIT_NOTE_REASON_LABELS[input.reason],
+      subtotal,
+      taxLines,
+      taxTotal,
+      total,
+      refund,
+      issuedBy: input.actor?.id,
+      issuedByName: input.actor?.name,
+    });
+
+    logger.info('credit note issued', { creditNote: creditNote.creditNoteNumber, invoice: invoice.invoiceNumber, total, refunded: refund?.amount });
+
+    if (invoice.orderId) {
+      try {
+        await settleOrder(invoice.orderId);
+      } catch (error) {
+        logger.error('settlement failed on credit note', { creditNote: creditNote.creditNoteNumber, error: (error as any)?.message });
+      }
+    }
+    return { creditNote, invoice: reserved };
+  } catch (error) {
+    // Money already sent back stays credited on the invoice, so it can't be credited twice
+    if (refund) {
+      logger.error('credit refunded but credit note not issued', { invoice: invoice.invoiceNumber, refundId: refund.providerRefundId, total });
+    } else {
+      await Invoice.updateOne({ _id: invoice._id }, { $inc: { creditedTotal: -total } });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Scheduled Job Authorization
+ * Internal job endpoints (/api/jobs/*) are called by the scheduler with `Authorization: Bearer <CRON_SECRET>`
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { logger } from '@/lib/logger';
+
+function matches(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Returns the error response to send, or null when the caller holds the job secret
+ */
+export function rejectUnlessScheduler(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    logger.error('CRON_SECRET is not configured');
+    return NextResponse.json({ success: false, error: 'Jobs not configured' }, { status: 500 });
+  }
+  if (!matches(request, secret)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,140 @@
+/**
+ * Delivery Charges
+ * What an enduser charges to deliver to an address under their delivery policy: a flat rate, a
+ * charge per pincode zone, or a charge by distance band from their store, limited to the
+ * pincodes they serve. Store pickup is always free. Kept free of database imports like the
+ * pricing and tax engines; lib/checkout combines the endusers of a cart.
+ */
+
+import { roundMoney } from '@/lib/pricing';
+
+export type DeliveryMethod = 'pickup' | 'delivery';
+export type DeliveryChargeType = 'flat' | 'zone' | 'distance';
+
+export const DELIVERY_METHODS: DeliveryMethod[] = ['pickup', 'delivery'];
+
+export interface DeliveryZone {
+  name: string;
+  pincodes: string[];
+  charge: number;
+}
+
+export interface DistanceBand {
+  upToKm: number;
+  charge: number;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Anything with the delivery policy fields (a DeliveryPolicy document, a lean object or none at all)
+export interface DeliveryPolicyLike {
+  pickupEnabled?: boolean;
+  pickupAddress?: string;
+  deliveryEnabled?: boolean;
+  chargeType?: DeliveryChargeType;
+  flatCharge?: number;
+  freeAbove?: number | null; // the enduser's lines at or above this subtotal are delivered free
+  serviceablePincodes?: string[]; // empty means every pincode
+  zones?: DeliveryZone[];
+  origin?: Partial<GeoPoint> | null;
+  distanceBands?: DistanceBand[];
+}
+
+export interface DeliveryAddressLike {
+  zipCode?: string;
+  pincode?: string;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+}
+
+export type DeliveryQuote =
+  | { available: true; charge: number; zone?: string; distanceKm?: number; reason?: undefined }
+  | { available: false; reason: string; charge?: undefined };
+
+// Used when an enduser hasn't set a policy: pickup or free delivery anywhere, as before delivery rules existed
+export const DEFAULT_DELIVERY_POLICY: Required<Pick<DeliveryPolicyLike, 'pickupEnabled' | 'deliveryEnabled' | 'chargeType' | 'flatCharge'>> = {
+  pickupEnabled: true,
+  deliveryEnabled: true,
+  chargeType: 'flat',
+  flatCharge: 0,
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+export const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+
+// Same pincode, written any way ("560 001", " 560001")
+export const normalizePincode = (pincode?: string | null) => String(pincode || '').replace(/\s+/g, '');
+
+/**
+ * Straight-line distance between two points in km (haversine)
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function pointOf(value: { latitude?: any; longitude?: any } | null | undefined): GeoPoint | null {
+  const latitude = Number(value?.latitude);
+  const longitude = Number(value?.longitude);
+  if (value?.latitude === undefined || value?.latitude === null || value?.latitude === '') return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return { latitude, longitude };
+}
+
+/**
+ * Delivery charge for one enduser's lines (subtotal) to an address, or why they can't be delivered there
+ */
+export function quoteDelivery(policy: DeliveryPolicyLike | null | undefined, address: DeliveryAddressLike, subtotal: number = 0): DeliveryQuote {
+  const rules = { ...DEFAULT_DELIVERY_POLICY, ...(policy || {}) };
+  if (!rules.deliveryEnabled) {
+    return { available: false, reason: 'Delivery is not offered, only store pickup' };
+  }
+
+  const pincode = normalizePincode(address?.zipCode || address?.pincode);
+  const serviceable = (rules.serviceablePincodes || []).map(normalizePincode);
+  if (serviceable.length > 0 && !serviceable.includes(pincode)) {
+    return { available: false, reason: pincode ? `Delivery is not available to ${pincode}` : 'A pincode is needed for delivery' };
+  }
+
+  let quote: DeliveryQuote;
+  if (rules.chargeType === 'zone') {
+    const zone = (rules.zones || []).find((z) => z.pincodes.map(normalizePincode).includes(pincode));
+    if (!zone) {
+      return { available: false, reason: pincode ? `Delivery is not available to ${pincode}` : 'A pincode is needed for delivery' };
+    }
+    quote = { available: true, charge: zone.charge, zone: zone.name };
+  } else if (rules.chargeType === 'distance') {
+    const origin = pointOf(rules.origin);
+    const destination = pointOf(address);
+    if (!origin) {
+      return { available: false, reason: 'Delivery by distance is not set up yet' };
+    }
+    if (!destination) {
+      return { available: false, reason: 'Share your location to get a delivery charge' };
+    }
+    const km = roundMoney(distanceKm(origin, destination));
+    const bands = [...(rules.distanceBands || [])].sort((a, b) => a.upToKm - b.upToKm);
+    const band = bands.find((b) => km <= b.upToKm);
+    if (!band) {
+      const furthest = bands.length ? bands[bands.length - 1].upToKm : 0;
+      return { available: false, reason: `Delivery is only available within ${furthest} km` };
+    }
+    quote = { available: true, charge: band.charge, distanceKm: km };
+  } else {
+    quote = { available: true, charge: rules.flatCharge ?? 0 };
+  }
+
+  if (rules.freeAbove !== undefined && rules.freeAbove !== null && subtotal >= rules.freeAbove) {
+    quote.charge = 0;
+  }
+  quote.charge = roundMoney(Math.max(0, quote.charge));
+  return quote;
+}
@@ -0,0 +1,157 @@
+/**
+ * Security Deposits
+ * Records the deposit taken with a rental order and settles it once the rental is over:
+ * staff deductions for damage or late return are kept, the rest goes back to the customer
+ * through the payment provider. Every movement is a DepositTransaction row.
+ */
+
+import DepositTransaction, { DepositDeductionCategory } from '@/models/DepositTransaction';
+import Payment from '@/models/Payment';
+import RentalOrder from '@/models/RentalOrder';
+import { StatusActor } from '@/types';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+import { getPaymentProvider, PaymentProviderError } from '@/lib/paymentProvider';
+import { markLateFeeInvoicePaid } from '@/lib/invoices';
+
+export interface DepositDeduction {
+  category: DepositDeductionCategory;
+  amount: number;
+  reason: string;
+}
+
+export interface SettleOptions {
+  reason?: string;
+  actor?: StatusActor;
+  offline?: boolean; // deposit handed back outside the gateway (cash, bank transfer)
+}
+
+export type SettleResult =
+  | { deducted: number; released: number; transactions: any[]; error?: undefined }
+  | { error: string; status: number };
+
+/**
+ * Write the ledger row for a deposit taken at checkout and mark it held
+ */
+export async function collectDeposit(order: any, actor?: StatusActor) {
+  const amount = roundMoney(order.depositAmount || 0);
+  if (amount <= 0) return null;
+
+  const transaction = await DepositTransaction.create({
+    rentalOrderId: order._id,
+    endUserId: order.endUserId,
+    customerId: order.customerId,
+    type: 'collect',
+    amount,
+    balanceAfter: amount,
+    reason: 'Collected at checkout',
+    performedBy: actor?.id,
+    performedByName: actor?.name || 'System',
+  });
+
+  if (order.depositStatus !== 'held') {
+    order.depositStatus = 'held';
+    await RentalOrder.updateOne({ _id: order._id }, { $set: { depositStatus: 'held' } });
+  }
+  return transaction;
+}
+
+/**
+ * Settle a held deposit: keep the deductions and release the remainder to the customer.
+ * Nothing is written unless the provider accepts the release.
+ */
+export async function settleDeposit(order: any, deductions: DepositDeduction[], options: SettleOptions = {}): Promise<SettleResult> {
+  const held = roundMoney(order.depositAmount || 0);
+
+  for (const deduction of deductions) {
+    if (!(Number(deduction.amount) > 0) || !deduction.reason?.trim()) {
+      return { error: 'Each deduction needs a positive amount and a reason', status: 400 };
+    }
+  }
+  const deducted = roundMoney(deductions.reduce((sum, deduction) => sum + Number(deduction.amount), 0));
+  if (deducted > held) {
+    return { error: `Deductions (₹${deducted}) exceed the ₹${held} deposit`, status: 400 };
+  }
+  const released = roundMoney(held - deducted);
+
+  const payment = await Payment.findOne({ rentalOrderIds: order._id });
+  const provider = getPaymentProvider();
+  if (released > 0 && !options.offline && provider.name === 'razorpay' && !payment?.razorpayPaymentId) {
+    return { error: 'No captured payment found for this order; release the deposit offline', status: 409 };
+  }
+
+  // Claim the settlement so two staff members can't release the same deposit
+  const claimed = await RentalOrder.findOneAndUpdate(
+    { _id: order._id, depositStatus: 'held' },
+    { $set: { depositStatus: 'settled' } }
+  );
+  if (!claimed) {
+    return { error: 'This order has no deposit waiting to be settled', status: 409 };
+  }
+
+  let providerRefundId: string | undefined;
+  if (released > 0 && !options.offline) {
+    try {
+      const result = await provider.refund({
+        paymentId: payment?.razorpayPaymentId,
+        amount: released,
+        currency: payment?.currency || 'INR',
+        receipt: `deposit_${order._id}`,
+        notes: { rentalOrderId: order._id.toString(), type: 'deposit' },
+      });
+      providerRefundId = result.refundId;
+    } catch (error) {
+      await RentalOrder.updateOne({ _id: order._id }, { $set: { depositStatus: 'held' } });
+      logger.error('deposit release failed', { orderId: order._id?.toString(), released, error: (error as any)?.message });
+      const message = error instanceof PaymentProviderError ? error.message : 'Refund request failed';
+      return { error: `Deposit release failed: ${message}`, status: 502 };
+    }
+    if (payment) {
+      await payment.recordRefund(providerRefundId, released);
+    }
+  }
+  order.depositStatus = 'settled';
+
+  const performer = { performedBy: options.actor?.id, performedByName: options.actor?.name || 'System' };
+  const base = { rentalOrderId: order._id, endUserId: order.endUserId, customerId: order.customerId };
+  const transactions: any[] = [];
+  let balance = held;
+
+  for (const deduction of deductions) {
+    balance = roundMoney(balance - Number(deduction.amount));
+    transactions.push(await DepositTransaction.create({
+      ...base,
+      ...performer,
+      type: 'deduct',
+      category: deduction.category,
+      amount: roundMoney(Number(deduction.amount)),
+      balanceAfter: balance,
+      reason: deduction.reason.trim(),
+    }));
+  }
+
+  if (released > 0) {
+    transactions.push(await DepositTransaction.create({
+      ...base,
+      ...performer,
+      type: 'release',
+      amount: released,
+      balanceAfter: 0,
+      reason: options.reason || (options.offline ? 'Returned to customer offline' : 'Released to customer'),
+      providerRefundId,
+    }));
+  }
+
+  // Late fees kept from the deposit pay the line's late fee invoice
+  const lateDeducted = roundMoney(deductions.filter((deduction) => deduction.category === 'late').reduce((sum, deduction) => sum + Number(deduction.amount), 0));
+  if (lateDeducted > 0) {
+    try {
+      await markLateFeeInvoicePaid(order._id, lateDeducted);
+    } catch (error) {
+      logger.error('late fee invoice not marked paid', { orderId: order._id?.toString(), error: (error as any)?.message });
+    }
+  }
+
+  logger.payment('DEPOSIT_SETTLED', held, { orderId: order._id?.toString(), deducted, released, provider: options.offline ? 'offline' : provider.name });
+  return { deducted, released, transactions };
+}
@@ -0,0 +1,183 @@
+/**
+ * In-App Notifications
+ * Puts events into the bell-icon feed of the people they concern: new orders, payments, low
+ * stock and overdue returns for the enduser; status changes, payments and wishlist alerts for the customer.
+ * Raising a notification never fails the action that caused it.
+ */
+
+import InAppNotification, { InAppNotificationKind } from '@/models/InAppNotification';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+
+// Endusers hear about a product once its free stock drops to this many units or fewer
+export const LOW_STOCK_THRESHOLD = 2;
+
+export interface NotificationInput {
+  kind: InAppNotificationKind;
+  title: string;
+  message: string;
+  link?: string;
+  rentalOrderId?: any;
+  productId?: any;
+  key?: string; // one notification per key, however often the event fires
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  quotation: 'a quotation',
+  confirmed: 'confirmed',
+  reserved: 'reserved for you',
+  delivered: 'delivered',
+  returned: 'returned',
+  late: 'overdue',
+  cancelled: 'cancelled',
+};
+
+const orderNumber = (order: any) => order.orderNumber || `R${order._id.toString().slice(-6).toUpperCase()}`;
+const enduserOrderLink = (order: any) => `/enduser/orders/${order._id}`;
+const idOf = (value: any) => value?._id || value;
+
+/**
+ * Add a notification to a user's feed. Duplicate keys are ignored; other errors are logged.
+ */
+export async function pushNotification(userId: any, input: NotificationInput): Promise<void> {
+  if (!userId) return;
+  try {
+    await InAppNotification.create({ userId: idOf(userId), ...input });
+  } catch (error) {
+    if ((error as any)?.code === 11000) return;
+    logger.error('in-app notification failed', { userId: userId?.toString(), kind: input.kind, error: (error as any)?.message });
+  }
+}
+
+export async function notifyNewOrder(order: any, productName: string) {
+  const paid = order.paymentStatus === 'paid' ? ` (paid ₹${order.totalPrice})` : '';
+  await pushNotification(order.endUserId, {
+    kind: 'new_order',
+    title: `New order ${orderNumber(order)}`,
+    message: `${order.customerName || 'A customer'} rented ${order.quantity || 1} × ${productName}${paid}.`,
+    link: enduserOrderLink(order),
+    rentalOrderId: order._id,
+    key: `new_order:${order._id}`,
+  });
+}
+
+/**
+ * Tell the customer their order moved on; an order going overdue also alerts the enduser
+ */
+export async function notifyOrderStatus(order: any, from: string, to: string) {
+  if (from === to) return;
+
+  await pushNotification(order.customerId, {
+    kind: 'order_status',
+    title: `Order ${orderNumber(order)} is ${STATUS_LABELS[to] || to}`,
+    message: to === 'late'
+      ? `Your rental was due back on ${new Date(order.endDate).toLocaleDateString('en-IN')}. Late fees apply until it is returned.`
+      : `Your order moved from ${STATUS_LABELS[from] || from} to ${STATUS_LABELS[to] || to}.`,
+    rentalOrderId: order._id,
+  });
+
+  if (to === 'late') {
+    await pushNotification(order.endUserId, {
+      kind: 'overdue',
+      title: `Order ${orderNumber(order)} is overdue`,
+      message: `${order.customerName || 'The customer'} has not returned the rental due ${new Date(order.endDate).toLocaleString('en-IN')}.`,
+      link: enduserOrderLink(order),
+      rentalOrderId: order._id,
+      key: `overdue:${order._id}`,
+    });
+  }
+}
+
+/**
+ * Warn the owner when a stock change takes a product down to the low-stock threshold
+ */
+export async function notifyLowStock(product: any, previousBalance: number) {
+  const balance = product.quantityAvailable;
+  if (balance > LOW_STOCK_THRESHOLD || previousBalance <= LOW_STOCK_THRESHOLD) return;
+
+  await pushNotification(product.endUserId, {
+    kind: 'low_stock',
+    title: balance === 0 ? `${product.name} is out of stock` : `${product.name} is running low`,
+    message: balance === 0
+      ? 'No units are left, so the product is hidden from the shop until stock comes back.'
+      : `Only ${balance} unit${balance === 1 ? '' : 's'} left to rent.`,
+    link: `/enduser/products/${product._id}/edit`,
+    productId: product._id,
+  });
+}
+
+/**
+ * Warn the owner when an order takes the units free for its rental window down to the low-stock threshold
+ */
+export async function notifyLowAvailability(product: any, startDate: Date, endDate: Date, freeBefore: number, freeAfter: number) {
+  if (freeAfter > LOW_STOCK_THRESHOLD || freeBefore <= LOW_STOCK_THRESHOLD) return;
+
+  const dates = `${new Date(startDate).toLocaleDateString('en-IN')} to ${new Date(endDate).toLocaleDateString('en-IN')}`;
+  await pushNotification(product.endUserId, {
+    kind: 'low_stock',
+    title: freeAfter === 0 ? `${product.name} is booked out` : `${product.name} is running low`,
+    message: freeAfter === 0
+      ? `No units are left to rent from ${dates}.`
+      : `Only ${freeAfter} unit${freeAfter === 1 ? '' : 's'} left to rent from ${dates}.`,
+    link: `/enduser/products/${product._id}/stock`,
+    productId: product._id,
+  });
+}
+
+/**
+ * Confirm a captured payment to the customer, and to each enduser for their share of the paid orders
+ */
+export async function notifyPaymentReceived(payment: any, orders: any[] = []) {
+  await pushNotification(payment.customerId, {
+    kind: 'payment_received',
+    title: 'Payment received',
+    message: `We received your payment of ₹${payment.amount}. Thank you!`,
+    key: `payment_received:${payment._id}:${payment.customerId}`,
+  });
+
+  const shares = new Map<string, { total: number; count: number }>();
+  for (const order of orders) {
+    const endUserId = idOf(order.endUserId)?.toString();
+    if (!endUserId) continue;
+    const share = shares.get(endUserId) || { total: 0, count: 0 };
+    shares.set(endUserId, { total: share.total + (order.totalPrice || 0), count: share.count + 1 });
+  }
+
+  for (const [endUserId, share] of Array.from(shares.entries())) {
+    await pushNotification(endUserId, {
+      kind: 'payment_received',
+      title: 'Payment received',
+      message: `${payment.customerEmail || 'A customer'} paid ₹${roundMoney(share.total)} for ${share.count} order${share.count === 1 ? '' : 's'}.`,
+      link: '/enduser/orders',
+      key: `payment_received:${payment._id}:${endUserId}`,
+    });
+  }
+}
+
+/**
+ * Tell a customer a product on their wishlist got cheaper; each price is announced once
+ */
+export async function notifyPriceDrop(entry: any, product: any, previousPrice: number) {
+  await pushNotification(entry.customerId, {
+    kind: 'price_drop',
+    title: `${product.name} is now cheaper`,
+    message: `Down from ₹${previousPrice} to ₹${product.pricePerDay} per day.`,
+    link: `/shop/product/${product._id}`,
+    productId: product._id,
+    key: `price_drop:${entry._id}:${product.pricePerDay}`,
+  });
+}
+
+/**
+ * Tell a customer a product on their wishlist can be rented again
+ */
+export async function notifyBackInStock(entry: any, product: any, now: Date = new Date()) {
+  await pushNotification(entry.customerId, {
+    kind: 'back_in_stock',
+    title: `${product.name} is back in stock`,
+    message: 'A product on your wishlist is available to rent again.',
+    link: `/shop/product/${product._id}`,
+    productId: product._id,
+    key: `back_in_stock:${entry._id}:${now.toISOString().slice(0, 10)}`,
+  });
+}
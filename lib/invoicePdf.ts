@@ -0,0 +1,225 @@
+/**
+ * Server-side Invoice and Credit Note PDFs
+ * Renders stored invoices and credit notes with jsPDF so they can be downloaded again at any time,
+ * in the same layout as the browser invoice. The standard PDF fonts have no rupee sign, so amounts use "Rs.".
+ */
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+const formatAmount = (amount: number) => `Rs. ${(amount || 0).toFixed(2)}`;
+const formatDate = (date?: Date | string) => (date ? new Date(date).toLocaleDateString('en-IN') : '');
+const safeFileName = (value: string) => value.replace(/[^A-Za-z0-9-]/g, '-');
+
+const LABEL_X = 130;
+const AMOUNT_X = 190;
+
+export function invoiceFileName(invoice: any): string {
+  return `Invoice_${safeFileName(invoice.invoiceNumber || `DRAFT-${invoice._id}`)}.pdf`;
+}
+
+export function creditNoteFileName(creditNote: any): string {
+  return `CreditNote_${safeFileName(creditNote.creditNoteNumber)}.pdf`;
+}
+
+// Seller block, document title with its details, and the buyer block
+function drawHeader(doc: jsPDF, title: string, details: string[], seller: any, buyer: any) {
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(96, 64, 88); // Primary color #604058
+  doc.text(seller.companyName || seller.name, 20, 25);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  const sellerLines = [seller.address, seller.email, seller.phone, seller.gstin && `GSTIN: ${seller.gstin}`].filter(Boolean);
+  sellerLines.forEach((line: string, index: number) => doc.text(line, 20, 32 + index * 5));
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 0, 0);
+  doc.text(title, LABEL_X, 25);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  details.forEach((line, index) => doc.text(line, LABEL_X, 35 + index * 7));
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill To:', 20, 65);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const buyerLines = [buyer.name, buyer.email, buyer.phone].filter(Boolean);
+  buyerLines.forEach((line: string, index: number) => doc.text(line, 20, 73 + index * 6));
+  if (buyer.address) {
+    doc.text(doc.splitTextToSize(buyer.address, 90), 20, 73 + buyerLines.length * 6);
+  }
+
+  doc.setLineWidth(0.5);
+  doc.setDrawColor(200, 200, 200);
+  doc.line(20, 100, 190, 100);
+}
+
+// Tax table below the lines; returns where the next block starts
+function drawTaxLines(doc: jsPDF, taxLines: any[], startY: number): number {
+  if (!taxLines?.length) return startY;
+  autoTable(doc, {
+    startY,
+    head: [['Tax', 'Rate', 'Taxable Value', 'Amount']],
+    body: taxLines.map((tax: any) => [
+      tax.label,
+      `${tax.rate}%`,
+      formatAmount(tax.taxableValue),
+      formatAmount(tax.amount),
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [240, 240, 240], textColor: [50, 50, 50], fontSize: 9, fontStyle: 'bold' },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50] },
+    margin: { left: 20, right: 20 },
+  });
+  return (doc as any).lastAutoTable.finalY + 10;
+}
+
+// Label/amount rows ending in a bold total; returns the Y of the total
+function drawSummary(doc: jsPDF, rows: [string, string][], totalLabel: string, total: string, startY: number): number {
+  let y = startY;
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  rows.forEach(([label, amount]) => {
+    doc.text(label, LABEL_X, y);
+    doc.text(amount, AMOUNT_X, y, { align: 'right' });
+    y += 7;
+  });
+  y -= 2;
+  doc.line(LABEL_X, y, AMOUNT_X, y);
+  y += 6;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(totalLabel, LABEL_X, y);
+  doc.text(total, AMOUNT_X, y, { align: 'right' });
+  return y;
+}
+
+function drawFooter(doc: jsPDF, note: string) {
+  const footerY = doc.internal.pageSize.height - 30;
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(100, 100, 100);
+  doc.text(note, 20, footerY);
+  doc.text('Issued through Rental Manager.', 20, footerY + 5);
+
+  // Page border
+  doc.setLineWidth(1);
+  doc.setDrawColor(96, 64, 88);
+  doc.rect(10, 10, 190, doc.internal.pageSize.height - 20);
+}
+
+export function renderInvoicePdf(invoice: any): ArrayBuffer {
+  const doc = new jsPDF();
+
+  drawHeader(
+    doc,
+    invoice.status === 'void' ? 'INVOICE (VOID)' : 'TAX INVOICE',
+    [
+      `Invoice #: ${invoice.invoiceNumber || 'Draft'}`,
+      `Date: ${formatDate(invoice.issuedAt || invoice.createdAt)}`,
+      ...(invoice.orderNumber ? [`Order #: ${invoice.orderNumber}`] : []),
+      `Status: ${invoice.status}`,
+      ...(invoice.buyer?.state ? [`Place of supply: ${invoice.buyer.state}`] : []),
+    ],
+    invoice.seller,
+    invoice.buyer
+  );
+
+  // Lines
+  autoTable(doc, {
+    startY: 108,
+    head: [['Item', 'Rental Period', 'Qty', 'Rate', 'Taxable Value', 'Tax']],
+    body: invoice.lines.map((line: any) => [
+      line.description,
+      line.startDate ? `${formatDate(line.startDate)} to ${formatDate(line.endDate)}` : '',
+      String(line.quantity),
+      formatAmount(line.unitPrice),
+      formatAmount(line.amount),
+      line.taxRate !== undefined && line.taxRate !== null ? `${line.taxRate}%` : '',
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [96, 64, 88], textColor: [255, 255, 255], fontSize: 10, fontStyle: 'bold' },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50] },
+    margin: { left: 20, right: 20 },
+  });
+  const y = drawTaxLines(doc, invoice.taxLines, (doc as any).lastAutoTable.finalY + 10);
+
+  const rows: [string, string][] = [['Subtotal:', formatAmount(invoice.subtotal)]];
+  if (invoice.discount > 0) rows.push(['Discount:', `-${formatAmount(invoice.discount)}`]);
+  rows.push(['Tax:', formatAmount(invoice.taxTotal)]);
+  let totalY = drawSummary(doc, rows, 'Total:', formatAmount(invoice.total), y);
+
+  if (invoice.creditedTotal > 0) {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    totalY += 7;
+    doc.text('Credited:', LABEL_X, totalY);
+    doc.text(`-${formatAmount(invoice.creditedTotal)}`, AMOUNT_X, totalY, { align: 'right' });
+    totalY += 7;
+    doc.text('Balance:', LABEL_X, totalY);
+    doc.text(formatAmount(Math.max(0, invoice.total - invoice.creditedTotal)), AMOUNT_X, totalY, { align: 'right' });
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  if (invoice.status === 'paid' && invoice.paidAt) {
+    doc.text(`Paid on ${formatDate(invoice.paidAt)}`, 20, y);
+  } else if (invoice.status === 'posted' && invoice.dueDate) {
+    doc.text(`Due by ${formatDate(invoice.dueDate)}`, 20, y);
+  }
+  if (invoice.status === 'void') {
+    doc.setTextColor(180, 0, 0);
+    doc.text(`Voided on ${formatDate(invoice.voidedAt)}${invoice.voidReason ? `: ${invoice.voidReason}` : ''}`, 20, y + 10);
+  }
+
+  drawFooter(doc, 'Security deposits are refundable and are not part of this invoice.');
+  return doc.output('arraybuffer');
+}
+
+export function renderCreditNotePdf(creditNote: any): ArrayBuffer {
+  const doc = new jsPDF();
+
+  drawHeader(
+    doc,
+    'CREDIT NOTE',
+    [
+      `Credit Note #: ${creditNote.creditNoteNumber}`,
+      `Date: ${formatDate(creditNote.issuedAt)}`,
+      `Against Invoice #: ${creditNote.invoiceNumber}`,
+      ...(creditNote.orderNumber ? [`Order #: ${creditNote.orderNumber}`] : []),
+      ...(creditNote.buyer?.state ? [`Place of supply: ${creditNote.buyer.state}`] : []),
+    ],
+    creditNote.seller,
+    creditNote.buyer
+  );
+
+  autoTable(doc, {
+    startY: 108,
+    head: [['Description', 'Amount']],
+    body: [[creditNote.note ? `${creditNote.description}\n${creditNote.note}` : creditNote.description, formatAmount(creditNote.subtotal)]],
+    theme: 'grid',
+    headStyles: { fillColor: [96, 64, 88], textColor: [255, 255, 255], fontSize: 10, fontStyle: 'bold' },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50] },
+    columnStyles: { 1: { halign: 'right', cellWidth: 40 } },
+    margin: { left: 20, right: 20 },
+  });
+  const y = drawTaxLines(doc, creditNote.taxLines, (doc as any).lastAutoTable.finalY + 10);
+
+  drawSummary(
+    doc,
+    [['Amount:', formatAmount(creditNote.subtotal)], ['Tax reversed:', formatAmount(creditNote.taxTotal)]],
+    'Total credit:',
+    formatAmount(creditNote.total),
+    y
+  );
+
+  drawFooter(doc, `This credit note reduces the amount due on invoice ${creditNote.invoiceNumber}.`);
+  return doc.output('arraybuffer');
+}
@@ -0,0 +1,435 @@
+/**
+ * Invoicing
+ * Writes the invoice each enduser issues for their lines of an order: the lines at their taxable
+ * value, the coupon discount on them (a coupon only discounts its owner's lines) and the GST the lines were charged with
+ * (CGST + SGST or IGST). Security deposits are refundable and delivery is charged by the
+ * platform, so neither is invoiced. Late fees a line accrued go on their own invoice once it is back.
+ */
+
+import mongoose from 'mongoose';
+import Order from '@/models/Order';
+import RentalOrder from '@/models/RentalOrder';
+import Invoice from '@/models/Invoice';
+import Product from '@/models/Product';
+import User from '@/models/User';
+import TaxPolicy from '@/models/TaxPolicy';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+import { orderLineDiscounts } from '@/lib/coupons';
+import { accrueFinalLateFee } from '@/lib/lateReturns';
+import { settleOrder } from '@/lib/settlements';
+import { summarizeTaxComponents, supplyType, taxAfterDiscount, taxForLine, LineTax } from '@/lib/tax';
+
+// Line statuses that are billed; quotations aren't agreed yet and cancelled lines aren't charged
+export const BILLABLE_LINE_STATUSES = ['confirmed', 'reserved', 'delivered', 'late', 'returned'];
+
+// Lines the enduser invoices in bulk from the orders list: the rental has been handed over
+export const BULK_INVOICE_LINE_STATUSES = ['delivered', 'late', 'returned'];
+
+// Invoice status of a row on the enduser orders list
+export const ORDER_INVOICE_STATUSES = ['nothing_to_invoice', 'to_invoice', 'invoiced', 'partially_paid', 'paid', 'overdue'];
+
+export interface InvoiceOrderOptions {
+  post?: boolean;
+}
+
+export interface BulkInvoiceResult {
+  invoices: any[];
+  reason?: string;
+}
+
+const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + (Number(value) || 0), 0));
+
+// Lines from before orders had headers keep the checkout address as a JSON blob
+function parseAddress(address: any): any {
+  if (typeof address !== 'string') return address;
+  try {
+    return JSON.parse(address);
+  } catch {
+    return address;
+  }
+}
+
+function formatAddress(address: any): string {
+  if (!address) return '';
+  if (typeof address === 'string') return address;
+  return [address.name, address.address, address.city, address.state, address.zipCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+// Who an invoice is from and to, as they are now, with the enduser's tax policy and the buyer's state
+async function invoiceParties(order: any, endUserId: string) {
+  const seller: any = await User.findById(endUserId).select('name companyName email phone address').lean();
+  const policy: any = await TaxPolicy.findOne({ endUserId }).lean();
+  const address = parseAddress(order.deliveryAddress);
+  const buyerState: string | undefined = typeof address === 'object' ? address?.state : undefined;
+
+  return {
+    policy,
+    buyerState,
+    parties: {
+      endUserId,
+      customerId: order.customerId,
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      seller: {
+        name: seller?.name || 'Seller',
+        companyName: seller?.companyName,
+        email: seller?.email,
+        phone: seller?.phone,
+        address: seller?.address,
+        gstin: policy?.gstin,
+        state: policy?.state,
+      },
+      buyer: {
+        name: order.customerName,
+        email: order.customerEmail,
+        phone: order.customerPhone,
+        address: formatAddress(address),
+        state: buyerState,
+      },
+    },
+  };
+}
+
+// Order details of a line, from its header or, for lines from before orders had headers, the line itself
+async function orderOfLine(line: any): Promise<any> {
+  const order = line.orderId ? await Order.findById(line.orderId) : null;
+  return order || {
+    customerId: line.customerId,
+    customerName: line.customerName,
+    customerEmail: line.customerEmail,
+    customerPhone: line.customerPhone,
+    orderNumber: line.orderNumber,
+    deliveryAddress: line.deliveryAddress,
+    paymentStatus: line.paymentStatus,
+    discount: 0,
+  };
+}
+
+/**
+ * Build (unsaved) the invoice for one enduser's lines of an order. Each line is invoiced with the tax
+ * it was charged at checkout; lines without one (placed before tax rules, or from quotations) are
+ * taxed under the enduser's tax policy now. `discounts` holds each line's coupon discount, by line id;
+ * the tax is charged on what is left of the line after it.
+ */
+export async function buildInvoice(order: any, endUserId: string, lines: any[], discounts: Map<string, number>) {
+  const { policy, buyerState, parties } = await invoiceParties(order, endUserId);
+
+  const fullTaxes: LineTax[] = lines.map((line) =>
+    (typeof line.toObject === 'function' ? line.toObject() : line).tax
+    || taxForLine(line.totalPrice || 0, policy, line.productId?.category, buyerState)
+  );
+  const lineTaxes = fullTaxes.map((tax, index) => taxAfterDiscount(tax, discounts.get(lines[index]._id.toString()) || 0));
+
+  const subtotal = sum(fullTaxes.map((tax) => tax.taxableValue));
+  // The discount comes off the taxable value, which for tax-inclusive prices is less than the discount on the price
+  const discount = roundMoney(subtotal - sum(lineTaxes.map((tax) => tax.taxableValue)));
+  const taxLines = summarizeTaxComponents(lineTaxes.flatMap((tax) => tax.components));
+  const taxTotal = sum(lineTaxes.map((tax) => tax.amount));
+
+  return new Invoice({
+    ...parties,
+    rentalOrderIds: lines.map((line) => line._id),
+    supply: lineTaxes[0]?.supply || supplyType(policy?.state, buyerState),
+    lines: lines.map((line, index) => ({
+      rentalOrderId: line._id,
+      description: line.productId?.name || 'Rental',
+      startDate: line.startDate,
+      endDate: line.endDate,
+      quantity: line.quantity || 1,
+      unitPrice: roundMoney(fullTaxes[index].taxableValue / (line.quantity || 1)),
+      amount: fullTaxes[index].taxableValue,
+      taxRate: lineTaxes[index].rate,
+      taxAmount: lineTaxes[index].amount,
+    })),
+    taxLines,
+    subtotal,
+    discount,
+    taxTotal,
+    total: roundMoney(subtotal - discount + taxTotal),
+  });
+}
+
+/**
+ * Save an invoice and, unless it is to stay a draft, post it and mark it paid when the order is.
+ * Returns null when the enduser's invoice for the order was written by someone else meanwhile.
+ */
+async function writeInvoice(order: any, endUserId: string, lines: any[], discounts: Map<string, number>, post: boolean) {
+  const invoice = await buildInvoice(order, endUserId, lines, discounts);
+  try {
+    await invoice.save();
+  } catch (error) {
+    if ((error as any)?.code === 11000) {
+      logger.warn('invoice already written', { orderNumber: order.orderNumber, endUserId });
+      return null;
+    }
+    throw error;
+  }
+  if (post) {
+    await invoice.updateStatus('posted');
+    if (order.paymentStatus === 'paid') await invoice.updateStatus('paid');
+  }
+  return invoice;
+}
+
+// Coupon discount of each line of an order, by line id
+async function discountsByLine(order: any, lines: any[]): Promise<Map<string, number>> {
+  const discounts = await orderLineDiscounts(order, lines);
+  return new Map<string, number>(lines.map((line, index) => [line._id.toString(), discounts[index]]));
+}
+
+// Ids of the given lines that are already on a draft, posted or paid rental invoice
+async function invoicedLineIds(lineIds: any[]): Promise<Set<string>> {
+  const ids: any[] = await Invoice.distinct('rentalOrderIds', { rentalOrderIds: { $in: lineIds }, kind: { $ne: 'late_fees' }, status: { $ne: 'void' } });
+  return new Set<string>(ids.map((id) => id.toString()));
+}
+
+/**
+ * Invoice every enduser's lines of an order that aren't on an invoice yet. Posted invoices get
+ * their number straight away and are marked paid when the order is. Returns the invoices written.
+ */
+export async function invoiceOrder(orderId: any, options: InvoiceOrderOptions = {}): Promise<any[]> {
+  const post = options.post !== false;
+  const order = await Order.findById(orderId);
+  if (!order) return [];
+
+  const allLines = await RentalOrder.find({ orderId: order._id });
+  const discounts = await discountsByLine(order, allLines);
+  await RentalOrder.populate(allLines, { path: 'productId', select: 'name category' });
+  const invoiced = await invoicedLineIds(allLines.map((line: any) => line._id));
+
+  const byEndUser = new Map<string, any[]>();
+  for (const line of allLines) {
+    if (!BILLABLE_LINE_STATUSES.includes(line.status) || invoiced.has(line._id.toString())) continue;
+    const key = line.endUserId.toString();
+    byEndUser.set(key, [...(byEndUser.get(key) || []), line]);
+  }
+
+  const written: any[] = [];
+  for (const [endUserId, lines] of Array.from(byEndUser.entries())) {
+    const invoice = await writeInvoice(order, endUserId, lines, discounts, post);
+    if (invoice) written.push(invoice);
+  }
+
+  if (written.length > 0) {
+    logger.info('order invoiced', { orderNumber: order.orderNumber, invoices: written.map((invoice) => invoice.invoiceNumber || invoice._id.toString()) });
+  }
+  return written;
+}
+
+/**
+ * Invoice one enduser's delivered or returned lines of an order, for bulk invoicing from the
+ * orders list. `orderKey` is the order's id, or the line's id for lines from before orders had
+ * headers. Drafts already covering the lines are posted rather than written again.
+ */
+export async function invoiceEndUserOrder(endUserId: string, orderKey: string): Promise<BulkInvoiceResult> {
+  const key = new mongoose.Types.ObjectId(orderKey);
+  const lines = await RentalOrder.find({
+    endUserId: new mongoose.Types.ObjectId(endUserId),
+    $or: [{ orderId: key }, { _id: key, orderId: null }],
+  }).populate('productId', 'name category');
+  if (lines.length === 0) return { invoices: [], reason: 'Order not found' };
+
+  const order = await orderOfLine(lines[0]);
+
+  const invoices: any[] = [];
+  const drafts = await Invoice.find({ endUserId, rentalOrderIds: { $in: lines.map((line: any) => line._id) }, status: 'draft' });
+  for (const draft of drafts) {
+    await draft.updateStatus('posted');
+    invoices.push(draft);
+  }
+
+  const invoiced = await invoicedLineIds(lines.map((line: any) => line._id));
+  const toInvoice = lines.filter((line: any) => BULK_INVOICE_LINE_STATUSES.includes(line.status) && !invoiced.has(line._id.toString()));
+  if (toInvoice.length > 0) {
+    // Lines from before orders had headers carry no coupon discount
+    const discounts = order._id
+      ? await discountsByLine(order, await RentalOrder.find({ orderId: order._id }).lean())
+      : new Map<string, number>();
+    const invoice = await writeInvoice(order, endUserId, toInvoice, discounts, true);
+    if (invoice) invoices.push(invoice);
+  }
+
+  if (invoices.length === 0) {
+    const reason = lines.some((line: any) => BULK_INVOICE_LINE_STATUSES.includes(line.status))
+      ? 'Already invoiced'
+      : 'Only delivered or returned orders can be invoiced';
+    return { invoices, reason };
+  }
+  return { invoices };
+}
+
+/**
+ * Post the invoice for the late fees a returned line accrued. The fee is taxed under the enduser's
+ * tax policy like any other charge. Returns null when there is nothing to invoice or the invoice
+ * was already written.
+ */
+export async function invoiceLateFees(line: any): Promise<any | null> {
+  const lateFees = roundMoney(line.lateFees || 0);
+  if (line.status !== 'returned' || lateFees <= 0) return null;
+
+  const existing = await Invoice.findOne({ rentalOrderIds: line._id, kind: 'late_fees', status: { $ne: 'void' } });
+  if (existing) return null;
+
+  const product: any = await Product.findById(line.productId).select('name category').lean();
+  const order = await orderOfLine(line);
+  const { policy, buyerState, parties } = await invoiceParties(order, line.endUserId.toString());
+  const tax = taxForLine(lateFees, policy, product?.category, buyerState);
+
+  const invoice = new Invoice({
+    ...parties,
+    kind: 'late_fees',
+    rentalOrderIds: [line._id],
+    supply: tax.supply,
+    lines: [{
+      rentalOrderId: line._id,
+      description: `Late return fees – ${product?.name || 'Rental'}`,
+      startDate: line.endDate,
+      endDate: line.returnDate,
+      quantity: 1,
+      unitPrice: tax.taxableValue,
+      amount: tax.taxableValue,
+      taxRate: tax.rate,
+      taxAmount: tax.amount,
+    }],
+    taxLines: summarizeTaxComponents(tax.components),
+    subtotal: tax.taxableValue,
+    discount: 0,
+    taxTotal: tax.amount,
+    total: roundMoney(tax.taxableValue + tax.amount),
+  });
+  try {
+    await invoice.save();
+  } catch (error) {
+    if ((error as any)?.code === 11000) return null;
+    throw error;
+  }
+  await invoice.updateStatus('posted');
+
+  logger.info('late fees invoiced', { orderNumber: line.orderNumber, invoice: invoice.invoiceNumber, lateFees });
+  return invoice;
+}
+
+/**
+ * Accrue a just-returned line's late fees up to its return, invoice the final amount and bring the
+ * enduser's settlement up to date with it; a failure is logged so it doesn't undo the return
+ */
+export async function invoiceReturnedLateFees(line: any): Promise<void> {
+  try {
+    await accrueFinalLateFee(line);
+    // A job run may have accrued meanwhile; the invoice is for the fee as stored
+    const stored: any = await RentalOrder.findById(line._id).select('lateFees').lean();
+    if (stored) line.lateFees = stored.lateFees || 0;
+    await invoiceLateFees(line);
+  } catch (error) {
+    logger.error('late fee invoicing failed on return', { rentalOrderId: line._id?.toString(), error: (error as any)?.message });
+  }
+
+  if (!line.orderId) return;
+  try {
+    await settleOrder(line.orderId);
+  } catch (error) {
+    logger.error('settlement failed on return', { rentalOrderId: line._id?.toString(), error: (error as any)?.message });
+  }
+}
+
+/**
+ * Mark a line's late fee invoice paid once deposit deductions for late return cover it
+ */
+export async function markLateFeeInvoicePaid(rentalOrderId: any, collected: number): Promise<boolean> {
+  const invoice = await Invoice.findOne({ rentalOrderIds: rentalOrderId, kind: 'late_fees', status: 'posted' });
+  if (!invoice || collected < roundMoney(invoice.total - (invoice.creditedTotal || 0))) return false;
+  await invoice.updateStatus('paid');
+  return true;
+}
+
+/**
+ * Aggregation stages that add `invoiceStatus` to rows of an enduser's orders list. Each row needs
+ * `lines` (with `_id` and `status`) and `paymentStatus`. Lines on drafts still count as to invoice;
+ * a posted invoice that credit notes have brought down to nothing counts as settled.
+ */
+export function orderInvoiceStatusStages(endUserId: string, now: Date = new Date()): any[] {
+  return [
+    {
+      $lookup: {
+        from: Invoice.collection.name,
+        let: { lineIds: '$lines._id' },
+        pipeline: [
+          { $match: { endUserId: new mongoose.Types.ObjectId(endUserId), status: { $in: ['posted', 'paid'] } } },
+          { $match: { $expr: { $gt: [{ $size: { $setIntersection: ['$rentalOrderIds', '$$lineIds'] } }, 0] } } },
+          { $project: { status: 1, dueDate: 1, rentalOrderIds: 1, open: { $and: [{ $eq: ['$status', 'posted'] }, { $lt: [{ $ifNull: ['$creditedTotal', 0] }, '$total'] }] } } },
+        ],
+        as: 'invoices',
+      },
+    },
+    {
+      $addFields: {
+        invoicedLineIds: { $reduce: { input: '$invoices.rentalOrderIds', initialValue: [], in: { $setUnion: ['$$value', '$$this'] } } },
+      },
+    },
+    {
+      $addFields: {
+        uninvoicedLines: {
+          $size: {
+            $filter: {
+              input: '$lines',
+              as: 'line',
+              cond: { $and: [{ $in: ['$$line.status', BILLABLE_LINE_STATUSES] }, { $not: [{ $in: ['$$line._id', '$invoicedLineIds'] }] }] },
+            },
+          },
+        },
+        paidInvoices: { $size: { $filter: { input: '$invoices', as: 'invoice', cond: { $not: ['$$invoice.open'] } } } },
+        unpaidInvoices: { $size: { $filter: { input: '$invoices', as: 'invoice', cond: '$$invoice.open' } } },
+        overdueInvoices: {
+          $size: {
+            $filter: {
+              input: '$invoices',
+              as: 'invoice',
+              cond: { $and: ['$$invoice.open', { $lt: [{ $ifNull: ['$$invoice.dueDate', now] }, now] }] },
+            },
+          },
+        },
+      },
+    },
+    {
+      $addFields: {
+        invoiceStatus: {
+          $switch: {
+            branches: [
+              { case: { $gt: ['$uninvoicedLines', 0] }, then: 'to_invoice' },
+              { case: { $gt: ['$overdueInvoices', 0] }, then: 'overdue' },
+              {
+                case: { $and: [{ $gt: ['$unpaidInvoices', 0] }, { $or: [{ $gt: ['$paidInvoices', 0] }, { $eq: ['$paymentStatus', 'partial'] }] }] },
+                then: 'partially_paid',
+              },
+              { case: { $gt: ['$unpaidInvoices', 0] }, then: 'invoiced' },
+              { case: { $gt: ['$paidInvoices', 0] }, then: 'paid' },
+            ],
+            default: 'nothing_to_invoice',
+          },
+        },
+      },
+    },
+    { $project: { invoices: 0, invoicedLineIds: 0, uninvoicedLines: 0, paidInvoices: 0, unpaidInvoices: 0, overdueInvoices: 0 } },
+  ];
+}
+
+/**
+ * Mark an order's posted invoices paid once its payment comes through
+ */
+export async function markOrderInvoicesPaid(orderId: any): Promise<number> {
+  const invoices = await Invoice.find({ orderId, kind: { $ne: 'late_fees' }, status: 'posted' });
+  for (const invoice of invoices) {
+    await invoice.updateStatus('paid');
+  }
+  return invoices.length;
+}
+
+/**
+ * Which invoices a user may see: a customer the ones billed to them, an enduser the ones they issued
+ */
+export function invoiceOwnerFilter(user: { id: string; role?: string }): Record<string, string> {
+  return user.role === 'enduser' ? { endUserId: user.id } : { customerId: user.id };
+}
@@ -0,0 +1,121 @@
+/**
+ * Late Return Job
+ * Moves overdue rentals to "late" and accrues their late fees into RentalOrder.lateFees under
+ * the owning enduser's LateFeePolicy, writing each accrual to the order's history. Runs on a
+ * schedule through /api/jobs/late-returns; every run recomputes the fee from the due date, so running it twice changes nothing.
+ * A returned line gets its last accrual, up to the return, before its late fees are invoiced.
+ */
+
+import RentalOrder from '@/models/RentalOrder';
+import Booking from '@/models/Booking';
+import { buildHistoryEntry } from '@/lib/statusTransitions';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+import LateFeePolicy, { LateFeeLookup, calculateLateFee } from '@/models/LateFeePolicy';
+
+// Recorded as the author of the job's status changes
+const JOB_ACTOR = { name: 'Late return job' };
+
+// Lines a late fee can accrue on: out with the customer (marked late by the job or not yet) or just returned
+const ACCRUING_STATUSES = ['delivered', 'late', 'returned'];
+
+const PRODUCT_FIELDS = 'name category endUserId pricePerHour pricePerDay pricePerWeek pricePerMonth pricePerYear';
+
+export interface LateReturnJobResult {
+  markedLate: number;
+  bookingsMarkedLate: number;
+  accrued: number;
+  feesAccrued: number;
+  failed: number;
+}
+
+/**
+ * Raise an order's stored late fee to what its late fee rule says is owed now. The write only
+ * applies if lateFees is unchanged since it was read, so overlapping runs record each accrual once.
+ */
+export async function accrueLateFee(order: any, lateFee: LateFeeLookup, now: Date = new Date()): Promise<number> {
+  const { periodsLate, per, ratePerPeriod, capped, quantity, fee } = calculateLateFee(lateFee.rule, {
+    endDate: order.endDate,
+    quantity: order.quantity,
+    dailyRate: lateFee.dailyRate,
+    now,
+  });
+  const current = order.lateFees || 0;
+  if (fee <= current) return 0;
+
+  const detail = `${periodsLate} ${per}${periodsLate === 1 ? '' : 's'} × ₹${ratePerPeriod}${quantity > 1 ? ` × ${quantity} units` : ''}${capped ? ', capped' : ''}`;
+  const result = await RentalOrder.updateOne(
+    { _id: order._id, status: { $in: ACCRUING_STATUSES }, lateFees: order.lateFees },
+    {
+      $set: { lateFees: fee },
+      $push: { statusHistory: buildHistoryEntry(order.status, order.status, `Late fee accrued: ₹${fee} (${detail})`, JOB_ACTOR) },
+    }
+  );
+  if (result.modifiedCount !== 1) return 0;
+
+  order.lateFees = fee;
+  return roundMoney(fee - current);
+}
+
+/**
+ * Last accrual for a line that has come back: the fee runs up to the return under the product's current
+ * rule, whether or not the job got to mark the line late or accrue its last periods first
+ */
+export async function accrueFinalLateFee(order: any): Promise<number> {
+  const returnedAt = order.returnDate ? new Date(order.returnDate) : new Date();
+  if (returnedAt.getTime() <= new Date(order.endDate).getTime()) return 0;
+
+  return accrueLateFee(order, await order.loadLateFeeRule(), returnedAt);
+}
+
+/**
+ * One pass of the job: flag newly overdue orders and bookings, then accrue fees on every late order
+ */
+export async function runLateReturnJob(now: Date = new Date()): Promise<LateReturnJobResult> {
+  const result: LateReturnJobResult = { markedLate: 0, bookingsMarkedLate: 0, accrued: 0, feesAccrued: 0, failed: 0 };
+
+  const overdue = await RentalOrder.findLate();
+  for (const order of overdue) {
+    try {
+      await order.updateStatus('late', `Not returned by ${new Date(order.endDate).toLocaleString()}`, JOB_ACTOR);
+      result.markedLate++;
+    } catch (error) {
+      result.failed++;
+      logger.error('late return job: status update failed', { orderId: order._id?.toString(), error: (error as any)?.message });
+    }
+  }
+
+  const overdueBookings = await Booking.findLate();
+  for (const booking of overdueBookings) {
+    try {
+      await booking.updateStatus('late', 'Not returned by the end date', JOB_ACTOR);
+      result.bookingsMarkedLate++;
+    } catch (error) {
+      result.failed++;
+      logger.error('late return job: booking update failed', { bookingId: booking._id?.toString(), error: (error as any)?.message });
+    }
+  }
+
+  // Resolve each product's rule once per run
+  const rules = new Map<string, LateFeeLookup>();
+  const lateOrders = await RentalOrder.find({ status: 'late' }).populate('productId', PRODUCT_FIELDS);
+  for (const order of lateOrders) {
+    try {
+      const productId = (order.productId?._id || order.productId).toString();
+      if (!rules.has(productId)) {
+        rules.set(productId, await LateFeePolicy.ruleForProduct(order.productId));
+      }
+      const added = await accrueLateFee(order, rules.get(productId)!, now);
+      if (added > 0) {
+        result.accrued++;
+        result.feesAccrued = roundMoney(result.feesAccrued + added);
+      }
+    } catch (error) {
+      result.failed++;
+      logger.error('late return job: fee accrual failed', { orderId: order._id?.toString(), error: (error as any)?.message });
+    }
+  }
+
+  logger.info('late return job finished', result);
+  return result;
+}
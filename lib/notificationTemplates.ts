@@ -0,0 +1,100 @@
+/**
+ * Notification Templates
+ * Customer messages about a rental order, rendered as plain text and HTML
+ */
+
+export type NotificationType = 'order_confirmed' | 'pickup_tomorrow' | 'return_due' | 'overdue';
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['order_confirmed', 'pickup_tomorrow', 'return_due', 'overdue'];
+
+export interface OrderMessageLine {
+  productName: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  totalPrice: number;
+}
+
+export interface OrderMessageContext {
+  customerName: string;
+  productName: string;
+  orderNumber: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  totalPrice: number;
+  depositAmount: number;
+  lateFees: number;
+  // Every line of the order, for messages about the whole order; totals then cover all of them
+  lines?: OrderMessageLine[];
+}
+
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+
+const formatMoney = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Each template returns its subject and paragraphs; the greeting and sign-off are shared
+const TEMPLATES: Record<NotificationType, (ctx: OrderMessageContext) => { subject: string; paragraphs: string[] }> = {
+  order_confirmed: (ctx) => ctx.lines && ctx.lines.length > 1 ? ({
+    subject: `Order confirmed: ${ctx.orderNumber} (${ctx.lines.length} items)`,
+    paragraphs: [
+      `Your order ${ctx.orderNumber} is confirmed:`,
+      ...ctx.lines.map((line) =>
+        `${line.quantity} × ${line.productName}, ${formatDate(line.startDate)} to ${formatDate(line.endDate)}: ${formatMoney(line.totalPrice)}`
+      ),
+      `Total: ${formatMoney(ctx.totalPrice)}${ctx.depositAmount > 0 ? `, including a refundable security deposit of ${formatMoney(ctx.depositAmount)}` : ''}.`,
+    ],
+  }) : ({
+    subject: `Order confirmed: ${ctx.productName}`,
+    paragraphs: [
+      `Your rental of ${ctx.quantity} × ${ctx.productName} is confirmed (order ${ctx.orderNumber}).`,
+      `Rental period: ${formatDate(ctx.startDate)} to ${formatDate(ctx.endDate)}.`,
+      `Total: ${formatMoney(ctx.totalPrice)}${ctx.depositAmount > 0 ? `, including a refundable security deposit of ${formatMoney(ctx.depositAmount)}` : ''}.`,
+    ],
+  }),
+  pickup_tomorrow: (ctx) => ({
+    subject: `Your rental starts soon: ${ctx.productName}`,
+    paragraphs: [
+      `A reminder that your rental of ${ctx.quantity} × ${ctx.productName} (order ${ctx.orderNumber}) starts on ${formatDate(ctx.startDate)}.`,
+      'Please keep a valid ID handy for pickup or delivery.',
+    ],
+  }),
+  return_due: (ctx) => ({
+    subject: `Return due: ${ctx.productName}`,
+    paragraphs: [
+      `Your rental of ${ctx.quantity} × ${ctx.productName} (order ${ctx.orderNumber}) is due back on ${formatDate(ctx.endDate)}.`,
+      'Returning late adds a late fee for every day (or hour) past the due time, so please plan the return or pickup in time.',
+    ],
+  }),
+  overdue: (ctx) => ({
+    subject: `Overdue: please return ${ctx.productName}`,
+    paragraphs: [
+      `Your rental of ${ctx.quantity} × ${ctx.productName} (order ${ctx.orderNumber}) was due back on ${formatDate(ctx.endDate)} and has not been returned yet.`,
+      ctx.lateFees > 0
+        ? `Late fees so far: ${formatMoney(ctx.lateFees)}. They keep growing until the item is returned.`
+        : 'Late fees apply until the item is returned.',
+      'Please return it as soon as possible or contact us to arrange a pickup.',
+    ],
+  }),
+};
+
+export function renderOrderMessage(type: NotificationType, ctx: OrderMessageContext): RenderedMessage {
+  const { subject, paragraphs } = TEMPLATES[type](ctx);
+  const all = [`Hi ${ctx.customerName || 'there'},`, ...paragraphs, 'Thank you for renting with Rimo.'];
+
+  return {
+    subject,
+    text: all.join('\n\n'),
+    html: all.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n'),
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Notification Transport
+ * Delivers rendered customer messages. SMTP through nodemailer in production;
+ * NOTIFICATION_TRANSPORT=file appends each message to a local file and =console prints it, for
+ * development without a mail server.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '@/lib/logger';
+
+export type NotificationTransportName = 'smtp' | 'file' | 'console';
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SendResult {
+  messageId: string;
+}
+
+export interface NotificationTransport {
+  name: NotificationTransportName;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
+
+/**
+ * Raised when a message could not be handed over; the notification is logged as failed
+ */
+export class NotificationTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationTransportError';
+  }
+}
+
+const SMTP_TIMEOUT_MS = 15000;
+
+function newMessageId(): string {
+  const domain = (process.env.SMTP_FROM || '').match(/@([^>\s]+)/)?.[1] || 'rimo.local';
+  return `<${Date.now()}.${crypto.randomBytes(6).toString('hex')}@${domain}>`;
+}
+
+let mailer: Transporter | null = null;
+
+// The nodemailer transport, built from the SMTP_* settings on first use
+function getMailer(host: string): Transporter {
+  if (!mailer) {
+    const secure = process.env.SMTP_SECURE === 'true';
+    mailer = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      name: process.env.SMTP_HELO || undefined,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+  return mailer;
+}
+
+const smtpTransport: NotificationTransport = {
+  name: 'smtp',
+  async send(message) {
+    const host = process.env.SMTP_HOST;
+    const from = process.env.SMTP_FROM || process.env.SMTP_USER;
+    if (!host || !from) {
+      throw new NotificationTransportError('SMTP_HOST and SMTP_FROM must be configured');
+    }
+
+    try {
+      const info = await getMailer(host).sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        messageId: newMessageId(),
+      });
+      return { messageId: info.messageId };
+    } catch (error) {
+      const reason = (error as any)?.message || 'SMTP send failed';
+      logger.error('smtp send failed', { to: message.to, subject: message.subject, error: reason });
+      throw new NotificationTransportError(reason);
+    }
+  },
+};
+
+const fileTransport: NotificationTransport = {
+  name: 'file',
+  async send(message) {
+    const messageId = newMessageId();
+    const file = process.env.NOTIFICATION_FILE || path.join(process.cwd(), 'logs', 'notifications.log');
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, `${JSON.stringify({ messageId, sentAt: new Date().toISOString(), ...message })}\n`);
+    } catch (error) {
+      throw new NotificationTransportError(`Could not write ${file}: ${(error as any)?.message}`);
+    }
+    return { messageId };
+  },
+};
+
+const consoleTransport: NotificationTransport = {
+  name: 'console',
+  async send(message) {
+    const messageId = newMessageId();
+    logger.info('NOTIFICATION', { messageId, to: message.to, subject: message.subject, text: message.text });
+    return { messageId };
+  },
+};
+
+const TRANSPORTS: Record<NotificationTransportName, NotificationTransport> = {
+  smtp: smtpTransport,
+  file: fileTransport,
+  console: consoleTransport,
+};
+
+/**
+ * Transport selected by NOTIFICATION_TRANSPORT; without it, SMTP when SMTP_HOST is set, else console
+ */
+export function getNotificationTransport(): NotificationTransport {
+  const name = process.env.NOTIFICATION_TRANSPORT as NotificationTransportName | undefined;
+  if (name && TRANSPORTS[name]) return TRANSPORTS[name];
+  return process.env.SMTP_HOST ? smtpTransport : consoleTransport;
+}
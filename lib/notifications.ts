@@ -0,0 +1,203 @@
+/**
+ * Order Notifications
+ * Renders customer messages for a rental order, sends them through the configured transport and
+ * logs each one as a Notification. The reminder job (/api/jobs/reminders) sends pickup, return-due
+ * and overdue reminders from the order dates and retries messages that failed.
+ */
+
+import Notification from '@/models/Notification';
+import RentalOrder from '@/models/RentalOrder';
+import Product from '@/models/Product';
+import User from '@/models/User';
+import { logger } from '@/lib/logger';
+import { getNotificationTransport } from '@/lib/notificationTransport';
+import { NotificationType, NOTIFICATION_TYPES, OrderMessageContext, renderOrderMessage } from '@/lib/notificationTemplates';
+
+// A failed message is retried by later job runs until it has been tried this many times
+export const MAX_NOTIFICATION_ATTEMPTS = 3;
+
+// Calendar used for "one overdue reminder per day"
+const REMINDER_TIME_ZONE = 'Asia/Kolkata';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type SendOutcome = 'sent' | 'failed' | 'skipped' | 'duplicate';
+
+export interface ReminderJobResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+  byType: Record<NotificationType, number>;
+}
+
+/**
+ * Dedupe key: one message per order and type, except overdue reminders which repeat daily.
+ * Confirmations cover the whole order, so every line of an order shares one.
+ */
+export function notificationKey(type: NotificationType, orderId: any, now: Date = new Date()): string {
+  const base = `${type}:${orderId.toString()}`;
+  return type === 'overdue' ? `${base}:${now.toLocaleDateString('en-CA', { timeZone: REMINDER_TIME_ZONE })}` : base;
+}
+
+// What a message is about: the line, or for confirmations the order the line belongs to
+function notificationTarget(type: NotificationType, order: any) {
+  return type === 'order_confirmed' && order.orderId ? order.orderId : order._id;
+}
+
+async function messageContext(order: any, type: NotificationType): Promise<OrderMessageContext> {
+  const productName = order.productId?.name
+    || (await Product.findById(order.productId).select('name').lean() as any)?.name
+    || 'your rental';
+
+  const context: OrderMessageContext = {
+    customerName: order.customerName,
+    productName,
+    orderNumber: order.orderNumber || `R${order._id.toString().slice(-6).toUpperCase()}`,
+    quantity: order.quantity || 1,
+    startDate: order.startDate,
+    endDate: order.endDate,
+    totalPrice: order.totalPrice || 0,
+    depositAmount: order.depositAmount || 0,
+    lateFees: order.lateFees || 0,
+  };
+
+  if (type === 'order_confirmed' && order.orderId) {
+    const lines = await RentalOrder.find({ orderId: order.orderId, status: { $ne: 'cancelled' } })
+      .populate('productId', 'name')
+      .sort({ createdAt: 1 })
+      .lean();
+    if (lines.length > 1) {
+      context.lines = lines.map((line: any) => ({
+        productName: line.productId?.name || 'Product',
+        quantity: line.quantity || 1,
+        startDate: line.startDate,
+        endDate: line.endDate,
+        totalPrice: line.totalPrice || 0,
+      }));
+      context.totalPrice = lines.reduce((sum: number, line: any) => sum + (line.totalPrice || 0), 0);
+      context.depositAmount = lines.reduce((sum: number, line: any) => sum + (line.depositAmount || 0), 0);
+    }
+  }
+
+  return context;
+}
+
+// Create the log entry, or take over a failed one that still has attempts left; null means already handled
+async function claim(fields: Record<string, any>) {
+  try {
+    return await Notification.create(fields);
+  } catch (error) {
+    if ((error as any)?.code !== 11000) throw error;
+    return Notification.findOneAndUpdate(
+      { key: fields.key, status: 'failed', attempts: { $lt: MAX_NOTIFICATION_ATTEMPTS } },
+      { $set: { ...fields, status: 'sending' }, $unset: { error: 1 }, $inc: { attempts: 1 } },
+      { new: true }
+    );
+  }
+}
+
+/**
+ * Send one message about an order and log it. Safe to call repeatedly: a message that was
+ * already sent (or is being sent) for the same key is not sent again.
+ */
+export async function sendOrderNotification(order: any, type: NotificationType, now: Date = new Date()): Promise<SendOutcome> {
+  const message = renderOrderMessage(type, await messageContext(order, type));
+  const recipient = order.customerEmail
+    || (await User.findById(order.customerId).select('email').lean() as any)?.email;
+  const transport = getNotificationTransport();
+
+  const notification = await claim({
+    key: notificationKey(type, notificationTarget(type, order), now),
+    type,
+    transport: transport.name,
+    rentalOrderId: order._id,
+    endUserId: order.endUserId,
+    customerId: order.customerId,
+    recipient,
+    subject: message.subject,
+    body: message.text,
+  });
+  if (!notification) return 'duplicate';
+
+  if (!recipient) {
+    notification.set({ status: 'skipped', error: 'Customer has no email address' });
+    await notification.save();
+    return 'skipped';
+  }
+
+  try {
+    const { messageId } = await transport.send({ to: recipient, ...message });
+    notification.set({ status: 'sent', messageId, sentAt: new Date() });
+    await notification.save();
+    return 'sent';
+  } catch (error) {
+    notification.set({ status: 'failed', error: (error as any)?.message || 'Send failed' });
+    await notification.save();
+    logger.warn('notification failed', { key: notification.key, transport: transport.name, error: notification.error });
+    return 'failed';
+  }
+}
+
+/**
+ * Send without holding up the caller; the reminder job picks up anything that fails
+ */
+export function notifyOrder(order: any, type: NotificationType) {
+  sendOrderNotification(order, type).catch((error) => {
+    logger.error('notification error', { orderId: order._id?.toString(), type, error: (error as any)?.message });
+  });
+}
+
+/**
+ * One pass of the reminder job over every order with something to say
+ */
+export async function runReminderJob(now: Date = new Date()): Promise<ReminderJobResult> {
+  const result: ReminderJobResult = {
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+    byType: Object.fromEntries(NOTIFICATION_TYPES.map((type) => [type, 0])) as Record<NotificationType, number>,
+  };
+  const soon = new Date(now.getTime() + 24 * HOUR_MS);
+  const dayAgo = new Date(now.getTime() - 24 * HOUR_MS);
+
+  const batches: Array<{ type: NotificationType; filter: Record<string, any> }> = [
+    // Confirmations are sent when the order is placed; this catches ones that failed or were cut off
+    { type: 'order_confirmed', filter: { status: { $in: ['confirmed', 'reserved'] }, createdAt: { $gte: dayAgo } } },
+    { type: 'pickup_tomorrow', filter: { status: { $in: ['confirmed', 'reserved'] }, startDate: { $gt: now, $lte: soon } } },
+    { type: 'return_due', filter: { status: 'delivered', endDate: { $gt: now, $lte: soon } } },
+    { type: 'overdue', filter: { status: 'late' } },
+  ];
+
+  for (const { type, filter } of batches) {
+    const orders = await RentalOrder.find(filter).populate('productId', 'name');
+    if (orders.length === 0) continue;
+
+    // Skip orders whose message is already out (or given up on) without rendering it again
+    const keys = orders.map((order: any) => notificationKey(type, notificationTarget(type, order), now));
+    const done = new Set<string>(await Notification.distinct('key', {
+      key: { $in: keys },
+      $or: [{ status: { $ne: 'failed' } }, { attempts: { $gte: MAX_NOTIFICATION_ATTEMPTS } }],
+    }));
+
+    for (const order of orders) {
+      if (done.has(notificationKey(type, notificationTarget(type, order), now))) continue;
+      try {
+        const outcome = await sendOrderNotification(order, type, now);
+        if (outcome === 'sent') {
+          result.sent++;
+          result.byType[type]++;
+        } else if (outcome === 'failed') {
+          result.failed++;
+        } else if (outcome === 'skipped') {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error('reminder job: notification error', { orderId: order._id?.toString(), type, error: (error as any)?.message });
+      }
+    }
+  }
+
+  logger.info('reminder job finished', result);
+  return result;
+}
@@ -0,0 +1,374 @@
+/**
+ * Order Placement
+ * Turns paid cart lines into one Order with a RentalOrder per line: reprices the lines, checks the units are
+ * free for each rental window, records the security deposit and any coupon use. Used by the browser checkout
+ * (/api/orders/complete) and by the payment webhook when the browser never came back.
+ */
+
+import mongoose from 'mongoose';
+import Product from '@/models/Product';
+import RentalOrder from '@/models/RentalOrder';
+import Order from '@/models/Order';
+import Coupon from '@/models/Coupon';
+import { logger } from '@/lib/logger';
+import { checkAvailability } from '@/lib/availability';
+import { totalsMatch, roundMoney, calculateCartTotals } from '@/lib/pricing';
+import { priceCartLines } from '@/lib/checkout';
+import type { DeliveryMethod } from '@/lib/delivery';
+import { allocateDiscount, evaluateCoupon, redeemCoupon } from '@/lib/coupons';
+import { taxAfterDiscount } from '@/lib/tax';
+import { collectDeposit } from '@/lib/deposits';
+import { notifyOrder } from '@/lib/notifications';
+import { notifyLowAvailability, notifyNewOrder } from '@/lib/inAppNotifications';
+import { removeOrderedLines } from '@/lib/cart';
+import { settleOrder } from '@/lib/settlements';
+import { invoiceOrder } from '@/lib/invoices';
+
+export interface OrderItemInput {
+  productId: string;
+  quantity: number;
+  startDate?: string;
+  endDate?: string;
+  durationUnit?: string;
+  pricePerUnit?: number;
+  totalPrice?: number;
+  deliveryAddress?: any;
+  endUserId?: string;
+}
+
+export interface OrderBuyer {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+  phone?: string;
+}
+
+export interface PlacedOrders {
+  updated: any[];
+  orderIds: string[];
+  orderId?: string;
+  orderNumber?: string;
+  error?: undefined;
+}
+
+export interface PlacementOptions {
+  couponCode?: string;
+  couponDiscount?: number; // discount charged at checkout, honoured even if the coupon stopped applying since
+  paymentStatus?: string;
+  paymentId?: string;
+  deliveryCharge?: number;
+  deliveryMethod?: DeliveryMethod;
+  paidAmount?: number; // what the customer was charged; must match the recomputed grand total
+}
+
+export interface PlacementFailure {
+  error: string;
+  status: number;
+  expectedTotal?: number;
+}
+
+/**
+ * Place one Order with a RentalOrder per line. Nothing is written when a line's price or the amount
+ * paid doesn't match, and nothing is kept when a line can't be placed (booked out, product gone).
+ */
+export async function placeOrders(
+  items: OrderItemInput[],
+  buyer: OrderBuyer,
+  options: PlacementOptions = {}
+): Promise<PlacedOrders | PlacementFailure> {
+  if (items.length === 0) {
+    return { error: 'No items', status: 400 };
+  }
+
+  // Price every line before touching stock, so one tampered line rejects the whole order.
+  // The delivery state decides whether each line's GST is CGST + SGST or IGST.
+  const address = items.find((it) => it?.deliveryAddress)?.deliveryAddress || {};
+  const priced = await priceCartLines(items, address.state);
+  if (priced.error !== undefined) {
+    return priced;
+  }
+  const lineTotals = priced.lines.map((line) => line.total);
+
+  for (let index = 0; index < items.length; index++) {
+    const it = items[index];
+    if (it.totalPrice !== undefined && it.totalPrice !== null && !totalsMatch(lineTotals[index], it.totalPrice)) {
+      logger.warn('order complete total mismatch', { user: buyer.email, productId: it.productId, submitted: it.totalPrice, expected: lineTotals[index] });
+      return {
+        error: `Price mismatch for ${priced.lines[index].productName}: expected ₹${lineTotals[index]}`,
+        status: 409,
+        expectedTotal: lineTotals[index],
+      };
+    }
+  }
+
+  // The coupon is checked up front so the amount paid can be compared with the discounted total
+  let coupon: any = null;
+  let discount = 0;
+  if (options.couponCode) {
+    const evaluation = await evaluateCoupon(options.couponCode, priced.lines, buyer.id);
+    if (evaluation.error === undefined) {
+      coupon = evaluation.coupon;
+      discount = evaluation.discount;
+    } else {
+      logger.warn('coupon no longer valid on complete', { user: buyer.email, code: options.couponCode, error: evaluation.error });
+    }
+
+    // A discount the customer already paid for stands, even if the coupon expired or ran out after checkout
+    if (options.couponDiscount !== undefined) {
+      coupon = coupon || await Coupon.findByCode(options.couponCode);
+      discount = roundMoney(Math.max(0, Number(options.couponDiscount) || 0));
+    }
+  }
+  // Only the coupon owner's eligible lines carry the discount; a coupon deleted since spreads it over every line
+  const lineDiscounts = allocateDiscount(coupon, priced.lines, discount);
+
+  // Lines - discount + tax on the discounted lines + delivery + deposit, as the checkout session charged it
+  if (options.paidAmount !== undefined) {
+    const expected = calculateCartTotals(
+      lineTotals,
+      priced.lines.map((line, index) => taxAfterDiscount(line.tax, lineDiscounts[index])),
+      discount,
+      Math.max(0, Number(options.deliveryCharge) || 0),
+      priced.lines.reduce((sum, line) => sum + line.deposit, 0)
+    );
+    if (!totalsMatch(expected.total, options.paidAmount)) {
+      logger.warn('order complete paid amount mismatch', { user: buyer.email, paid: options.paidAmount, expected: expected.total });
+      return {
+        error: `Amount paid (₹${options.paidAmount}) does not match the order total of ₹${expected.total}`,
+        status: 409,
+        expectedTotal: expected.total,
+      };
+    }
+  }
+
+  // The header every line hangs off; its totals are filled in once the lines exist
+  const buyerPhone = (buyer.phone || address.phone || '').trim();
+  let order: any;
+  try {
+    order = await Order.create({
+      orderNumber: await Order.nextOrderNumber(),
+      customerId: buyer.id,
+      customerName: buyer.name || buyer.email,
+      customerEmail: buyer.email,
+      customerPhone: buyerPhone || undefined,
+      source: 'checkout',
+      deliveryAddress: {
+        name: address.name,
+        phone: address.phone,
+        address: address.address,
+        city: address.city,
+        state: address.state,
+        zipCode: address.zipCode || address.pincode,
+        country: address.country,
+      },
+      paymentId: options.paymentId,
+      paymentStatus: options.paymentStatus || 'paid',
+      couponCode: options.couponCode || undefined,
+      deliveryMethod: options.deliveryMethod,
+    });
+  } catch (e) {
+    logger.error('order header create failed', { error: (e as any)?.message, buyerId: buyer.id });
+    return { error: 'Could not create the order', status: 500 };
+  }
+
+  // Standalone MongoDB has no transactions, so the lines are created one by one and removed again
+  // if any of them can't be placed: a paid order is placed whole or not at all
+  const updated: any[] = [];
+  const createdOrders: string[] = [];
+  const createdLines: any[] = [];
+  const productNames: string[] = [];
+  // Units of each line's product free for its window without and with the line, for the low-stock check
+  const freeUnits: Array<{ product: any; start: Date; end: Date; before: number; after: number }> = [];
+
+  try {
+    for (let index = 0; index < items.length; index++) {
+      const it = items[index];
+      const qty = Math.max(1, Number(it.quantity) || 1);
+      const product = await Product.findById(it.productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      // Ensure dates are in the future to avoid validation issues
+      const now = new Date();
+      const defaultStart = new Date(now.getTime() + 24*60*60*1000); // Tomorrow
+      const defaultEnd = new Date(now.getTime() + 48*60*60*1000); // Day after tomorrow
+
+      const start = it.startDate ? new Date(it.startDate) : defaultStart;
+      const end = it.endDate ? new Date(it.endDate) : defaultEnd;
+
+      // If start date is in the past, push it to tomorrow
+      if (start < now) {
+        start.setTime(defaultStart.getTime());
+      }
+
+      // Ensure end date is after start date
+      if (end <= start) {
+        end.setTime(start.getTime() + 24*60*60*1000);
+      }
+
+      // The availability engine decides: units are booked for the window, not taken off the shelf
+      const availability = await checkAvailability(product._id, start, end, { quantity: qty, product });
+      if (!availability.available) {
+        throw new Error(`Only ${availability.free} unit(s) of ${product.name} available for the selected dates`);
+      }
+
+      // Prefer product.endUserId from DB to avoid client-side type issues (e.g., "[object Object]")
+      const endUserIdFromProduct: any = (product as any).endUserId;
+      const phone = buyer.phone || it?.deliveryAddress?.phone || '';
+
+      const orderData = {
+        productId: product._id,
+        customerId: new mongoose.Types.ObjectId(buyer.id),
+        endUserId: new mongoose.Types.ObjectId(endUserIdFromProduct), // Ensure proper ObjectId conversion
+        customerName: buyer.name,
+        customerEmail: buyer.email,
+        customerPhone: phone.trim() ? phone.trim() : undefined,
+        startDate: start,
+        endDate: end,
+        duration: 1,
+        durationUnit: (it.durationUnit || 'day') as any,
+        quantity: qty,
+        totalPrice: lineTotals[index],
+        depositAmount: priced.lines[index].deposit,
+        tax: priced.lines[index].tax,
+        discount: lineDiscounts[index],
+        status: 'confirmed',
+        paymentStatus: options.paymentStatus || 'paid',
+        deliveryAddress: JSON.stringify(it?.deliveryAddress || {}),
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        stockReleased: true,
+      } as any;
+
+      const [rentalOrder] = await RentalOrder.create([orderData]);
+      createdOrders.push(rentalOrder._id.toString());
+      createdLines.push(rentalOrder);
+
+      // Nothing holds the units between the check and the insert, so look again now this line is stored:
+      // of two placements racing for the last units, at least the later one sees the other and rolls back
+      const recheck = await checkAvailability(product._id, start, end, { quantity: qty, product, excludeId: rentalOrder._id.toString() });
+      if (!recheck.available) {
+        throw new Error(`Only ${recheck.free} unit(s) of ${product.name} available for the selected dates`);
+      }
+      freeUnits.push({ product, start, end, before: recheck.free, after: recheck.free - qty });
+      productNames.push(product.name);
+      updated.push({ productId: product._id.toString(), quantityAvailable: product.quantityAvailable, availability: product.availability });
+    }
+  } catch (opErr) {
+    logger.error('order complete failed (no-tx)', {
+      error: (opErr as any)?.message,
+      validationErrors: (opErr as any)?.errors,
+      buyerId: buyer.id,
+      orderNumber: order.orderNumber,
+      rolledBack: createdOrders.length,
+    });
+    await rollBackOrder(order, createdOrders);
+    return { error: (opErr as any)?.message || 'Could not place the order', status: 409 };
+  }
+
+  // The deposit is charged with the rental, so it is held from the moment the order exists. The units each
+  // line booked go in the product's stock ledger, and the owner hears when few are left free for its dates
+  const actor = { id: buyer.id, name: buyer.name || undefined };
+  for (let index = 0; index < createdLines.length; index++) {
+    try {
+      await createdLines[index].recordBooking('reserve', `Order ${order.orderNumber}`, actor);
+      await collectDeposit(createdLines[index], actor);
+      await notifyNewOrder(createdLines[index], productNames[index]);
+      const { product, start, end, before, after } = freeUnits[index];
+      await notifyLowAvailability(product, start, end, before, after);
+    } catch (e) {
+      logger.error('deposit or notification failed on complete', { error: (e as any)?.message, rentalOrderId: createdOrders[index] });
+    }
+  }
+
+  // Record the coupon use. A discount charged at checkout is recorded even past the usage limit, since the
+  // customer has already paid the discounted price
+  if (coupon && discount > 0) {
+    try {
+      const redeemed = await redeemCoupon(coupon, {
+        customerId: buyer.id,
+        customerEmail: buyer.email || undefined,
+        discount,
+        orderTotal: roundMoney(lineTotals.reduce((sum, total) => sum + total, 0)),
+        rentalOrderIds: createdOrders,
+        charged: options.couponDiscount !== undefined,
+      });
+      if (!redeemed) {
+        logger.warn('coupon usage limit reached on complete', { user: buyer.email, code: options.couponCode });
+      }
+    } catch (e) {
+      logger.error('coupon redemption failed on complete', { error: (e as any)?.message, code: options.couponCode });
+    }
+  }
+
+  // Whatever was ordered no longer belongs in the cart, on this device or any other
+  await removeOrderedLines(buyer.id, items.map((it) => ({ productId: String(it.productId), fromDate: it.startDate || '', toDate: it.endDate || '' })));
+
+  if (!(await finishOrder(order, createdLines, discount, options.deliveryCharge))) {
+    return { updated, orderIds: createdOrders };
+  }
+
+  // One confirmation for the whole order, listing every line
+  notifyOrder(createdLines[0], 'order_confirmed');
+
+  // Each enduser's share goes on their books as soon as the order is paid
+  try {
+    await settleOrder(order._id);
+  } catch (e) {
+    logger.error('settlement failed on complete', { orderNumber: order.orderNumber, error: (e as any)?.message });
+  }
+
+  // Each enduser's tax invoice is written now, so it can be downloaded again from the server
+  try {
+    await invoiceOrder(order._id);
+  } catch (e) {
+    logger.error('invoicing failed on complete', { orderNumber: order.orderNumber, error: (e as any)?.message });
+  }
+
+  return { updated, orderIds: createdOrders, orderId: order._id.toString(), orderNumber: order.orderNumber };
+}
+
+/**
+ * Remove a header and the lines created under it before placement failed
+ */
+async function rollBackOrder(order: any, lineIds: string[]) {
+  try {
+    if (lineIds.length > 0) {
+      await RentalOrder.deleteMany({ _id: { $in: lineIds } });
+    }
+    await Order.deleteOne({ _id: order._id });
+  } catch (e) {
+    logger.error('order rollback failed', { orderNumber: order.orderNumber, lines: lineIds, error: (e as any)?.message });
+  }
+}
+
+/**
+ * Fill in the header's totals from the lines that were created, or drop it when none were.
+ * Returns whether the order still exists.
+ */
+async function finishOrder(order: any, lines: any[], discount: number, deliveryCharge: number = 0): Promise<boolean> {
+  try {
+    if (lines.length === 0) {
+      await Order.deleteOne({ _id: order._id });
+      return false;
+    }
+
+    const totals = calculateCartTotals(
+      lines.map((line) => line.totalPrice),
+      lines.filter((line) => line.toObject().tax).map((line) => taxAfterDiscount(line.toObject().tax, line.discount || 0)),
+      discount,
+      Math.max(0, Number(deliveryCharge) || 0),
+      lines.reduce((sum, line) => sum + (line.depositAmount || 0), 0)
+    );
+    order.set({
+      ...totals,
+      endUserIds: Array.from(new Set(lines.map((line) => line.endUserId.toString()))),
+      lineCount: lines.length,
+    });
+    await order.save();
+  } catch (e) {
+    logger.error('order totals update failed', { orderNumber: order.orderNumber, error: (e as any)?.message });
+  }
+  return true;
+}
@@ -0,0 +1,90 @@
+/**
+ * Payment Provider
+ * The gateway calls the server makes on its own (refunds today). Razorpay in production;
+ * PAYMENT_PROVIDER=stub swaps in a local provider that succeeds without network access,
+ * for tests and development without gateway keys.
+ */
+
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import { logger } from '@/lib/logger';
+
+export type PaymentProviderName = 'razorpay' | 'stub';
+
+export interface RefundRequest {
+  paymentId?: string;
+  amount: number; // rupees
+  currency: string;
+  receipt?: string;
+  notes?: Record<string, string>;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: 'pending' | 'processed';
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  refund(request: RefundRequest): Promise<RefundResult>;
+}
+
+/**
+ * Raised when the gateway rejects a call; routes report it as 502
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+let razorpayClient: Razorpay | null = null;
+
+function getRazorpay(): Razorpay {
+  if (!razorpayClient) {
+    razorpayClient = new Razorpay({
+      key_id: process.env.RAZORPAY_KEY_ID as string,
+      key_secret: process.env.RAZORPAY_KEY_SECRET as string,
+    });
+  }
+  return razorpayClient;
+}
+
+const razorpayProvider: PaymentProvider = {
+  name: 'razorpay',
+  async refund({ paymentId, amount, receipt, notes }) {
+    if (!paymentId) {
+      throw new PaymentProviderError('No captured Razorpay payment to refund');
+    }
+    try {
+      const refund = await getRazorpay().payments.refund(paymentId, {
+        amount: Math.round(amount * 100), // paise
+        receipt,
+        notes,
+      });
+      return { refundId: refund.id, status: refund.status === 'processed' ? 'processed' : 'pending' };
+    } catch (error: any) {
+      // The SDK rejects with { statusCode, error: { description } }
+      const message = error?.error?.description || error?.message || 'Razorpay refund failed';
+      logger.error('razorpay refund failed', { paymentId, amount, error: message });
+      throw new PaymentProviderError(message);
+    }
+  },
+};
+
+const stubProvider: PaymentProvider = {
+  name: 'stub',
+  async refund({ paymentId, amount }) {
+    const refundId = `rfnd_stub_${crypto.randomBytes(7).toString('hex')}`;
+    logger.payment('STUB_REFUND', amount, { paymentId, refundId });
+    return { refundId, status: 'processed' };
+  },
+};
+
+/**
+ * Provider selected by PAYMENT_PROVIDER (defaults to razorpay)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  return process.env.PAYMENT_PROVIDER === 'stub' ? stubProvider : razorpayProvider;
+}
@@ -0,0 +1,259 @@
+/**
+ * Payment Reconciliation
+ * Razorpay signature checks and the state changes behind the browser callback and the webhook.
+ * Both paths converge here so a payment is applied once, whichever arrives first.
+ */
+
+import crypto from 'crypto';
+import Payment from '@/models/Payment';
+import CheckoutSession from '@/models/CheckoutSession';
+import Refund from '@/models/Refund';
+import CreditNote from '@/models/CreditNote';
+import User from '@/models/User';
+import RentalOrder from '@/models/RentalOrder';
+import Order from '@/models/Order';
+import { logger } from '@/lib/logger';
+import { placeOrders, OrderBuyer, PlacedOrders, PlacementFailure } from '@/lib/orders';
+import { settleOrder } from '@/lib/settlements';
+import { invoiceOrder, markOrderInvoicesPaid } from '@/lib/invoices';
+import { notifyPaymentReceived } from '@/lib/inAppNotifications';
+
+export type RazorpayEventResult = 'applied' | 'duplicate' | 'ignored';
+
+// Razorpay amounts are in paise
+const toRupees = (paise: number) => Math.round(Number(paise || 0)) / 100;
+
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual || '');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Signature returned to the browser by Razorpay Checkout: HMAC(order_id|payment_id, key secret)
+ */
+export function verifyPaymentSignature(razorpayOrderId: string, razorpayPaymentId: string, signature: string): boolean {
+  const expected = crypto
+    .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET as string)
+    .update(`${razorpayOrderId}|${razorpayPaymentId}`)
+    .digest('hex');
+  return safeEqual(expected, signature);
+}
+
+/**
+ * X-Razorpay-Signature on webhooks: HMAC(raw request body, webhook secret)
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string, secret: string): boolean {
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  return safeEqual(expected, signature);
+}
+
+/**
+ * Mark a payment captured and its orders paid. A refunded payment stays refunded.
+ */
+export async function markPaymentCaptured(payment: any, razorpayPaymentId: string) {
+  if (payment.status === 'refunded' || payment.status === 'partially_refunded') {
+    return payment;
+  }
+
+  const newlyCaptured = payment.status !== 'captured';
+  payment.status = 'captured';
+  payment.razorpayPaymentId = razorpayPaymentId;
+  payment.capturedAt = payment.capturedAt || new Date();
+  payment.failureReason = undefined;
+  await payment.save();
+  await payment.syncOrderStatus();
+
+  if (newlyCaptured) {
+    const orders = payment.rentalOrderIds?.length
+      ? await RentalOrder.find({ _id: { $in: payment.rentalOrderIds } }).select('endUserId totalPrice')
+      : [];
+    await notifyPaymentReceived(payment, orders);
+
+    // Orders placed before the capture came through start earning for their endusers now
+    const paidOrders = await Order.find({ paymentId: payment._id }).select('_id');
+    for (const order of paidOrders) {
+      try {
+        await settleOrder(order._id);
+      } catch (error) {
+        logger.error('settlement failed on capture', { orderId: order._id.toString(), error: (error as any)?.message });
+      }
+      try {
+        await markOrderInvoicesPaid(order._id);
+        await invoiceOrder(order._id);
+      } catch (error) {
+        logger.error('invoicing failed on capture', { orderId: order._id.toString(), error: (error as any)?.message });
+      }
+    }
+  }
+
+  logger.http('payment captured', { razorpayOrderId: payment.razorpayOrderId, razorpayPaymentId });
+  return payment;
+}
+
+/**
+ * Create the rental orders for a captured payment whose browser never reached /api/orders/complete
+ */
+export async function placeOrdersForPayment(payment: any) {
+  if (payment.ordersPlacedBy || !payment.checkoutSessionId || !payment.customerId) return;
+
+  const checkout = await CheckoutSession.findOne({ sessionId: payment.checkoutSessionId, userId: payment.customerId });
+  if (!checkout) {
+    logger.warn('captured payment has no checkout session', { razorpayOrderId: payment.razorpayOrderId });
+    return;
+  }
+
+  if (!(await payment.claimOrderPlacement('webhook'))) return;
+
+  const customer = await User.findById(payment.customerId).select('name email phone');
+  const result = await placeCheckoutOrders(payment, checkout, 'webhook', {
+    id: payment.customerId.toString(),
+    name: customer?.name,
+    email: customer?.email || payment.customerEmail,
+    phone: checkout.deliveryAddress?.phone || customer?.phone,
+  });
+
+  if (result.error !== undefined) {
+    // Money was taken but the orders couldn't be placed: the payment is flagged for staff to refund or
+    // fulfil, and the browser may still place the orders if it comes back
+    logger.error('webhook order placement failed', { razorpayOrderId: payment.razorpayOrderId, error: result.error });
+    return;
+  }
+
+  logger.http('webhook placed orders', { razorpayOrderId: payment.razorpayOrderId, orders: result.orderIds.length, orderNumber: result.orderNumber });
+}
+
+/**
+ * Place the orders of a captured payment from the checkout session it paid for: the items, coupon, delivery
+ * method and address are the ones priced at checkout, never what the caller sends. The caller must hold the
+ * placement claim; it is given back when nothing could be placed.
+ */
+export async function placeCheckoutOrders(
+  payment: any,
+  checkout: any,
+  placedBy: 'browser' | 'webhook',
+  buyer: OrderBuyer
+): Promise<PlacedOrders | PlacementFailure> {
+  const result: PlacedOrders | PlacementFailure = await placeOrders(
+    (checkout.items || []).map((item: any) => ({
+      productId: item.id,
+      quantity: item.quantity,
+      startDate: item.fromDate,
+      endDate: item.toDate,
+      durationUnit: item.duration,
+      totalPrice: item.totalPrice,
+      deliveryAddress: checkout.deliveryAddress,
+    })),
+    buyer,
+    {
+      couponCode: checkout.couponCode || undefined,
+      couponDiscount: checkout.couponCode ? checkout.pricing?.discount : undefined,
+      paymentStatus: 'paid',
+      paymentId: payment._id.toString(),
+      deliveryCharge: checkout.pricing?.deliveryCharge,
+      deliveryMethod: checkout.deliveryMethod,
+      paidAmount: payment.amount,
+    }
+  ).catch((error): PlacementFailure => ({ error: error?.message || 'Could not place the order', status: 500 }));
+
+  if (result.error !== undefined) {
+    await payment.releaseOrderPlacement(placedBy, result.error);
+    return result;
+  }
+
+  await payment.attachOrders(result.orderIds);
+  checkout.status = 'completed';
+  await checkout.save();
+  return result;
+}
+
+/**
+ * Apply one Razorpay webhook event. Redelivered events (same event ID) are skipped.
+ */
+export async function handleRazorpayEvent(event: any, eventId: string): Promise<RazorpayEventResult> {
+  const paymentEntity = event?.payload?.payment?.entity;
+  const refundEntity = event?.payload?.refund?.entity;
+
+  let payment: any = null;
+  if (paymentEntity?.order_id) {
+    payment = await Payment.findByRazorpayOrder(paymentEntity.order_id);
+    if (!payment && event.event === 'payment.captured') {
+      // Order created before payments were recorded; keep the money traceable anyway
+      payment = await Payment.create({
+        razorpayOrderId: paymentEntity.order_id,
+        amount: toRupees(paymentEntity.amount),
+        currency: paymentEntity.currency || 'INR',
+        customerEmail: paymentEntity.email,
+      });
+    }
+  } else if (refundEntity?.payment_id) {
+    payment = await Payment.findOne({ razorpayPaymentId: refundEntity.payment_id });
+  }
+
+  if (!payment) {
+    logger.warn('razorpay webhook for unknown payment', { event: event?.event, eventId });
+    return 'ignored';
+  }
+
+  // The event is claimed before it is applied so two deliveries can't both apply it; a failure gives
+  // the claim back, so the retry Razorpay sends after our 5xx is applied rather than skipped
+  if (!(await payment.recordEvent(eventId))) {
+    return 'duplicate';
+  }
+
+  try {
+    return await applyRazorpayEvent(event, payment);
+  } catch (error) {
+    await payment.forgetEvent(eventId);
+    throw error;
+  }
+}
+
+/**
+ * The state change behind one webhook event
+ */
+async function applyRazorpayEvent(event: any, payment: any): Promise<RazorpayEventResult> {
+  const paymentEntity = event?.payload?.payment?.entity;
+  const refundEntity = event?.payload?.refund?.entity;
+
+  switch (event.event) {
+    case 'payment.captured':
+      await markPaymentCaptured(payment, paymentEntity.id);
+      await placeOrdersForPayment(payment);
+      return 'applied';
+
+    case 'payment.failed':
+      // A failed attempt doesn't undo a later successful one
+      if (payment.status === 'created' || payment.status === 'failed') {
+        payment.status = 'failed';
+        payment.razorpayPaymentId = paymentEntity.id;
+        payment.failureReason = paymentEntity.error_description || paymentEntity.error_reason;
+        payment.failedAt = new Date();
+        await payment.save();
+        await payment.syncOrderStatus();
+      }
+      return 'applied';
+
+    case 'refund.processed': {
+      if (!refundEntity?.id) return 'ignored';
+
+      // Refunds issued from a cancellation or a credit note were counted when issued; the webhook only confirms them
+      await Refund.updateOne(
+        { providerRefundId: refundEntity.id, status: 'pending' },
+        { $set: { status: 'processed', processedAt: new Date() } }
+      );
+      await CreditNote.updateOne(
+        { 'refund.providerRefundId': refundEntity.id, 'refund.status': 'pending' },
+        { $set: { 'refund.status': 'processed', 'refund.processedAt': new Date() } }
+      );
+      if (!(await payment.recordRefund(refundEntity.id, toRupees(refundEntity.amount)))) {
+        return 'duplicate';
+      }
+      await payment.syncOrderStatus();
+      return 'applied';
+    }
+
+    default:
+      return 'ignored';
+  }
+}
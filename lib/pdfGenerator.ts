@@ -1,6 +1,6 @@
 /**
- * PDF Invoice Generator
- * Generates professional invoices with order details and customer information
+ * PDF Invoice and Quotation Generator
+ * Generates professional invoices and quotations with order details and customer information
  */
 
 // Extend jsPDF type to include autoTable
@@ -263,4 +263,260 @@ export const generateInvoicePDF = async (invoiceData: InvoiceData): Promise<void
   }
 };
 
-// Note: Quote PDF generation can be implemented later with async import pattern
+export interface QuoteData {
+  quoteNumber: string;
+  quoteDate: string;
+  validUntil: string;
+  companyName: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  items: Array<{
+    name: string;
+    fromDate: string;
+    toDate: string;
+    quantity: number;
+    pricePerUnit: number;
+    totalPrice: number;
+  }>;
+  pricing: {
+    subtotal: number;
+    tax: number;
+    total: number;
+  };
+  notes?: string;
+  terms?: string;
+}
+
+/**
+ * Wrap long text to the given width and return the Y position after it
+ */
+const writeWrapped = (doc: any, text: string, x: number, y: number, width: number): number => {
+  const lines: string[] = doc.splitTextToSize(text, width);
+  doc.text(lines, x, y);
+  return y + lines.length * 5;
+};
+
+export const generateQuotePDF = async (quoteData: QuoteData): Promise<void> => {
+  try {
+    // Check if we're in the browser
+    if (typeof window === 'undefined') {
+      throw new Error('PDF generation is only available in the browser');
+    }
+
+    // Dynamic import for client-side only
+    const jsPDF = (await import('jspdf')).default;
+
+    try {
+      await import('jspdf-autotable');
+    } catch (tableError) {
+      console.warn('AutoTable not available, using simple layout');
+    }
+
+    const doc = new jsPDF();
+
+    // Company/Brand Information (same header as the invoice)
+    doc.setFontSize(24);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(96, 64, 88); // Primary color #604058
+    doc.text('RENTAL MANAGER', 20, 25);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text(quoteData.companyName || 'Smart Rental Management System', 20, 32);
+
+    // Quotation Title
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0, 0, 0);
+    doc.text('QUOTATION', 150, 25);
+
+    // Quotation Details
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Quote #: ${quoteData.quoteNumber}`, 150, 35);
+    doc.text(`Date: ${quoteData.quoteDate}`, 150, 42);
+    doc.text(`Valid until: ${quoteData.validUntil}`, 150, 49);
+
+    // Customer Information
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Prepared For:', 20, 55);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(quoteData.customerName, 20, 65);
+    doc.text(quoteData.customerEmail, 20, 72);
+    if (quoteData.customerPhone) {
+      doc.text(quoteData.customerPhone, 20, 79);
+    }
+
+    // Delivery Address
+    if (quoteData.deliveryAddress) {
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Delivery Address:', 110, 55);
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      writeWrapped(doc, quoteData.deliveryAddress, 110, 65, 80);
+    }
+
+    // Add line separator
+    doc.setLineWidth(0.5);
+    doc.setDrawColor(200, 200, 200);
+    doc.line(20, 95, 190, 95);
+
+    // Items table
+    const tableStartY = 105;
+    const tableData = quoteData.items.map(item => [
+      item.name,
+      `${item.fromDate} to ${item.toDate}`,
+      item.quantity.toString(),
+      `₹${item.pricePerUnit.toFixed(2)}`,
+      `₹${item.totalPrice.toFixed(2)}`
+    ]);
+
+    let finalY = tableStartY + 20;
+
+    if (typeof (doc as any).autoTable === 'function') {
+      try {
+        doc.autoTable({
+          startY: tableStartY,
+          head: [['Item', 'Rental Period', 'Qty', 'Rate', 'Amount']],
+          body: tableData,
+          theme: 'grid',
+          headStyles: {
+            fillColor: [96, 64, 88], // Primary color
+            textColor: [255, 255, 255],
+            fontSize: 10,
+            fontStyle: 'bold'
+          },
+          bodyStyles: {
+            fontSize: 9,
+            textColor: [50, 50, 50]
+          },
+          columnStyles: {
+            0: { cellWidth: 50 }, // Item name
+            1: { cellWidth: 55 }, // Rental period
+            2: { cellWidth: 15 }, // Quantity
+            3: { cellWidth: 25 }, // Rate
+            4: { cellWidth: 25 }  // Amount
+          },
+          margin: { left: 20, right: 20 }
+        });
+
+        finalY = (doc as any).lastAutoTable.finalY + 10;
+      } catch (tableError) {
+        console.warn('AutoTable failed, using simple text layout');
+        finalY = tableStartY + (tableData.length * 10) + 30;
+      }
+    } else {
+      // Simple text-based table fallback
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text('ITEMS:', 20, tableStartY);
+
+      let yPos = tableStartY + 10;
+      quoteData.items.forEach((item, index) => {
+        doc.setFont('helvetica', 'normal');
+        doc.text(`${index + 1}. ${item.name}`, 20, yPos);
+        doc.text(`Period: ${item.fromDate} to ${item.toDate}`, 30, yPos + 5);
+        doc.text(`Qty: ${item.quantity} | Rate: ₹${item.pricePerUnit} | Amount: ₹${item.totalPrice}`, 30, yPos + 10);
+        yPos += 20;
+      });
+
+      finalY = yPos + 10;
+    }
+
+    // Pricing summary
+    const summaryStartX = 130;
+    let summaryY = finalY;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Subtotal:', summaryStartX, summaryY);
+    doc.text(`₹${quoteData.pricing.subtotal.toFixed(2)}`, 175, summaryY);
+    summaryY += 7;
+
+    doc.text('Tax:', summaryStartX, summaryY);
+    doc.text(`₹${quoteData.pricing.tax.toFixed(2)}`, 175, summaryY);
+    summaryY += 7;
+
+    doc.setLineWidth(0.5);
+    doc.line(summaryStartX, summaryY, 190, summaryY);
+    summaryY += 5;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text('Total:', summaryStartX, summaryY);
+    doc.text(`₹${quoteData.pricing.total.toFixed(2)}`, 175, summaryY);
+
+    // Notes and terms
+    summaryY += 15;
+    doc.setFontSize(10);
+    if (quoteData.notes) {
+      doc.setFont('helvetica', 'bold');
+      doc.text('Notes:', 20, summaryY);
+      doc.setFont('helvetica', 'normal');
+      summaryY = writeWrapped(doc, quoteData.notes, 20, summaryY + 6, 170) + 5;
+    }
+    if (quoteData.terms) {
+      doc.setFont('helvetica', 'bold');
+      doc.text('Terms & Conditions:', 20, summaryY);
+      doc.setFont('helvetica', 'normal');
+      writeWrapped(doc, quoteData.terms, 20, summaryY + 6, 170);
+    }
+
+    // Footer
+    const footerY = doc.internal.pageSize.height - 30;
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`This quotation is valid until ${quoteData.validUntil}. Accept it from your account to confirm the rental.`, 20, footerY);
+    doc.text('For support, contact us at support@rentalmanager.com', 20, footerY + 5);
+
+    // Add page border
+    doc.setLineWidth(1);
+    doc.setDrawColor(96, 64, 88);
+    doc.rect(10, 10, 190, doc.internal.pageSize.height - 20);
+
+    // Save the PDF
+    const fileName = `Quotation_${quoteData.quoteNumber.replace(/\//g, '-')}.pdf`;
+    doc.save(fileName);
+
+  } catch (error) {
+    console.error('Error generating PDF:', error);
+    throw new Error('Failed to generate PDF quotation');
+  }
+};
+
+/**
+ * Map a Quotation document (as returned by the quotations APIs) to the PDF layout
+ */
+export const quotationToQuoteData = (quotation: any, companyName?: string): QuoteData => ({
+  quoteNumber: quotation.reference,
+  quoteDate: new Date(quotation.createdAt).toLocaleDateString(),
+  validUntil: new Date(quotation.validUntil).toLocaleDateString(),
+  companyName: companyName || quotation.endUserId?.companyName || quotation.endUserId?.name || '',
+  customerName: quotation.customerName,
+  customerEmail: quotation.customerEmail,
+  customerPhone: quotation.customerPhone,
+  deliveryAddress: quotation.deliveryAddress,
+  items: (quotation.lines || []).map((line: any) => ({
+    name: line.productName,
+    fromDate: new Date(line.startDate).toLocaleDateString(),
+    toDate: new Date(line.endDate).toLocaleDateString(),
+    quantity: line.quantity,
+    pricePerUnit: line.unitPrice,
+    totalPrice: line.subTotal,
+  })),
+  pricing: {
+    subtotal: quotation.untaxedTotal || 0,
+    tax: quotation.tax || 0,
+    total: quotation.total || 0,
+  },
+  notes: quotation.notes,
+  terms: quotation.terms,
+});
@@ -0,0 +1,197 @@
+/**
+ * Pricing Engine
+ * Single source of truth for what a rental costs. Kept free of database imports so the
+ * product page, the cart and the API routes all run the same maths; write paths recompute
+ * every total here and reject anything the client sent that doesn't match.
+ */
+
+import type { LineTax, TaxComponent } from '@/lib/tax';
+import { summarizeTaxComponents } from '@/lib/tax';
+
+export type RateUnit = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+// Anything with the product's rate fields (a Product document, a lean object or client data)
+export interface RateCard {
+  pricePerHour?: number;
+  pricePerDay?: number;
+  pricePerWeek?: number;
+  pricePerMonth?: number;
+  pricePerYear?: number;
+}
+
+export interface RateLine {
+  unit: RateUnit;
+  count: number;
+  rate: number;
+  amount: number;
+}
+
+export interface RentalPrice {
+  hours: number;
+  quantity: number;
+  unitTotal: number; // price of one unit for the whole window
+  total: number;
+  breakdown: RateLine[];
+}
+
+export interface CartTotals {
+  subtotal: number;
+  discount: number;
+  deliveryCharge: number;
+  tax: number;
+  taxIncluded: number; // part of the tax already inside tax-inclusive line prices
+  taxLines: TaxComponent[];
+  deposit: number; // refundable security deposit, not taxed or discounted
+  total: number;
+}
+
+export const RATE_UNIT_HOURS: Record<RateUnit, number> = {
+  hour: 1,
+  day: 24,
+  week: 24 * 7,
+  month: 24 * 30,
+  year: 24 * 365,
+};
+
+const RATE_FIELDS: Record<RateUnit, keyof RateCard> = {
+  hour: 'pricePerHour',
+  day: 'pricePerDay',
+  week: 'pricePerWeek',
+  month: 'pricePerMonth',
+  year: 'pricePerYear',
+};
+
+const RATE_UNITS: RateUnit[] = ['hour', 'day', 'week', 'month', 'year'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest window we will price in one go (ten years)
+const MAX_RENTAL_HOURS = RATE_UNIT_HOURS.year * 10;
+
+// Client totals within this amount of the server figure are accepted (rounding noise)
+export const PRICE_TOLERANCE = 0.01;
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function totalsMatch(expected: number, actual: number): boolean {
+  return Math.abs(roundMoney(expected) - roundMoney(Number(actual))) <= PRICE_TOLERANCE;
+}
+
+/**
+ * Billable hours between two dates, rounded up to the next whole hour
+ */
+export function rentalHours(startDate: Date | string, endDate: Date | string): number {
+  const ms = new Date(endDate).getTime() - new Date(startDate).getTime();
+  if (!isFinite(ms) || ms <= 0) {
+    throw new PricingError('End date must be after start date');
+  }
+  return Math.ceil(ms / HOUR_MS);
+}
+
+/**
+ * Cheapest mix of hour/day/week/month/year rates that covers at least `hours`.
+ * Overshooting is allowed, so six days can be billed as one week when that is cheaper.
+ */
+export function cheapestRateCombination(rates: RateCard, hours: number): { total: number; breakdown: RateLine[] } {
+  const units = RATE_UNITS.filter((unit) => (Number(rates[RATE_FIELDS[unit]]) || 0) > 0);
+  if (units.length === 0) {
+    throw new PricingError('Product has no rental rates');
+  }
+  if (hours > MAX_RENTAL_HOURS) {
+    throw new PricingError('Rental period is too long');
+  }
+
+  const target = Math.max(1, Math.ceil(hours));
+
+  // cost[h] = cheapest way to cover h hours; pick[h] = unit used last to get there
+  const cost = new Float64Array(target + 1);
+  const pick = new Int8Array(target + 1);
+  for (let h = 1; h <= target; h++) {
+    let best = Infinity;
+    for (let i = 0; i < units.length; i++) {
+      const candidate = cost[Math.max(0, h - RATE_UNIT_HOURS[units[i]])] + Number(rates[RATE_FIELDS[units[i]]]);
+      if (candidate < best) {
+        best = candidate;
+        pick[h] = i;
+      }
+    }
+    cost[h] = best;
+  }
+
+  const counts = new Map<RateUnit, number>();
+  for (let h = target; h > 0; h = Math.max(0, h - RATE_UNIT_HOURS[units[pick[h]]])) {
+    const unit = units[pick[h]];
+    counts.set(unit, (counts.get(unit) || 0) + 1);
+  }
+
+  // Largest unit first reads naturally: "1 week + 2 days"
+  const breakdown: RateLine[] = [...RATE_UNITS].reverse()
+    .filter((unit) => counts.has(unit))
+    .map((unit) => {
+      const rate = Number(rates[RATE_FIELDS[unit]]);
+      const count = counts.get(unit) as number;
+      return { unit, count, rate, amount: roundMoney(rate * count) };
+    });
+
+  return { total: roundMoney(cost[target]), breakdown };
+}
+
+/**
+ * Price `quantity` units of a product for the window [startDate, endDate)
+ */
+export function priceRental(
+  rates: RateCard,
+  startDate: Date | string,
+  endDate: Date | string,
+  quantity: number = 1
+): RentalPrice {
+  const qty = Math.max(1, Math.floor(Number(quantity) || 1));
+  const hours = rentalHours(startDate, endDate);
+  const { total, breakdown } = cheapestRateCombination(rates, hours);
+
+  return {
+    hours,
+    quantity: qty,
+    unitTotal: total,
+    total: roundMoney(total * qty),
+    breakdown,
+  };
+}
+
+/**
+ * Order totals from line totals, each line's tax (lib/tax) and a coupon discount amount. Tax is charged on
+ * the discounted lines, so `lineTaxes` must already have each line's share of the discount taken off
+ * (taxAfterDiscount); only tax that isn't already inside the line prices is added on top.
+ * The security deposit is collected on top and comes back on return.
+ */
+export function calculateCartTotals(
+  lineTotals: number[],
+  lineTaxes: LineTax[],
+  discountAmount: number = 0,
+  deliveryCharge: number = 0,
+  deposit: number = 0
+): CartTotals {
+  const subtotal = roundMoney(lineTotals.reduce((sum, amount) => sum + (Number(amount) || 0), 0));
+  const discount = roundMoney(Math.min(Math.max(0, discountAmount), subtotal));
+  const tax = roundMoney(lineTaxes.reduce((sum, line) => sum + line.amount, 0));
+  const taxIncluded = roundMoney(lineTaxes.filter((line) => line.inclusive).reduce((sum, line) => sum + line.amount, 0));
+  return {
+    subtotal,
+    discount,
+    deliveryCharge,
+    tax,
+    taxIncluded,
+    taxLines: summarizeTaxComponents(lineTaxes.flatMap((line) => line.components)),
+    deposit: roundMoney(deposit),
+    total: roundMoney(subtotal - discount + deliveryCharge + tax - taxIncluded + deposit),
+  };
+}
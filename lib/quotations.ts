@@ -0,0 +1,81 @@
+/**
+ * Quotation Helpers
+ * Turns the line items posted by the quotation form into validated Quotation lines
+ */
+
+import mongoose from 'mongoose';
+import Product from '@/models/Product';
+import { cheapestRateCombination } from '@/lib/pricing';
+
+const DURATION_UNITS = ['hour', 'day', 'week', 'month', 'year'];
+
+export interface QuotationLineInput {
+  productId: string;
+  quantity?: number | string;
+  startDate: string;
+  endDate: string;
+  durationUnit?: string;
+  unitPrice?: number | string;
+}
+
+export type ParsedQuotationLines =
+  | { lines: any[]; error?: undefined }
+  | { lines?: undefined; error: string };
+
+/**
+ * Validate posted lines against the enduser's own products.
+ * A line without a unitPrice is priced at the product's best rate for its rental window.
+ */
+export async function parseQuotationLines(rawLines: unknown, endUserId: string): Promise<ParsedQuotationLines> {
+  if (!Array.isArray(rawLines) || rawLines.length === 0) {
+    return { error: 'Add at least one product to the quotation' };
+  }
+
+  const lines: any[] = [];
+  for (let index = 0; index < rawLines.length; index++) {
+    const raw = rawLines[index] as QuotationLineInput;
+    const label = `Line ${index + 1}`;
+
+    if (!raw?.productId || !mongoose.Types.ObjectId.isValid(raw.productId)) {
+      return { error: `${label}: product is required` };
+    }
+    const product = await Product.findOne({ _id: raw.productId, endUserId });
+    if (!product) {
+      return { error: `${label}: product not found` };
+    }
+
+    const quantity = parseInt(String(raw.quantity ?? 1), 10);
+    if (!quantity || quantity < 1) {
+      return { error: `${label}: quantity must be at least 1` };
+    }
+
+    const startDate = new Date(raw.startDate);
+    const endDate = new Date(raw.endDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || endDate <= startDate) {
+      return { error: `${label}: end date must be after start date` };
+    }
+
+    const durationUnit = DURATION_UNITS.includes(raw.durationUnit || '') ? raw.durationUnit : 'day';
+
+    let unitPrice = raw.unitPrice === undefined || raw.unitPrice === '' ? NaN : Number(raw.unitPrice);
+    if (isNaN(unitPrice)) {
+      const hours = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60));
+      unitPrice = cheapestRateCombination(product, hours).total;
+    }
+    if (unitPrice < 0) {
+      return { error: `${label}: price cannot be negative` };
+    }
+
+    lines.push({
+      productId: product._id,
+      productName: product.name,
+      quantity,
+      startDate,
+      endDate,
+      durationUnit,
+      unitPrice: Math.round(unitPrice * 100) / 100,
+    });
+  }
+
+  return { lines };
+}
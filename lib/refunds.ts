@@ -0,0 +1,213 @@
+/**
+ * Order Cancellation Refunds
+ * Cancels a paid rental order and returns the share of its price the enduser's refund policy
+ * allows, through the configured payment provider. Used by the customer cancel route and the
+ * enduser refund route, so both apply the same policy and bookkeeping.
+ */
+
+import Payment from '@/models/Payment';
+import Refund from '@/models/Refund';
+import Order from '@/models/Order';
+import RentalOrder from '@/models/RentalOrder';
+import RefundPolicy, { refundPercentFor } from '@/models/RefundPolicy';
+import { StatusActor } from '@/types';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+import { getPaymentProvider, PaymentProviderError } from '@/lib/paymentProvider';
+import { settleDeposit } from '@/lib/deposits';
+import { orderLineDiscounts } from '@/lib/coupons';
+import { calculateLineTax, DEFAULT_TAX_RULE, taxAfterDiscount } from '@/lib/tax';
+
+export interface RefundQuote {
+  orderTotal: number;
+  hoursBeforeStart: number;
+  percent: number;
+  amount: number;
+}
+
+export interface CancelOptions {
+  reason?: string;
+  actor?: StatusActor;
+  fullRefund?: boolean; // enduser waives the policy, e.g. when they cancel themselves
+}
+
+export type CancelResult =
+  | { order: any; refund: any | null; quote: RefundQuote; error?: undefined }
+  | { error: string; status: number; refund?: any };
+
+/**
+ * What the customer paid for an order line: its price less the coupon discount on it, plus any tax added
+ * on top of the discounted value. Lines from before tax rules were taxed at a flat 1% on top.
+ */
+export async function chargedForLine(order: any): Promise<number> {
+  let discount = order.discount || 0;
+  // Lines placed before discounts were recorded per line get theirs worked out from the order
+  if ((order.discount === undefined || order.discount === null) && order.orderId) {
+    const header: any = await Order.findById(order.orderId).select('discount couponCode').lean();
+    if (header?.discount > 0) {
+      const lines: any[] = await RentalOrder.find({ orderId: order.orderId }).select('productId endUserId totalPrice discount').lean();
+      const discounts = await orderLineDiscounts(header, lines);
+      discount = discounts[lines.findIndex((line) => line._id.toString() === order._id.toString())] || 0;
+    }
+  }
+
+  const tax = (typeof order.toObject === 'function' ? order.toObject() : order).tax
+    || calculateLineTax(order.totalPrice, DEFAULT_TAX_RULE);
+  const discountedTax = taxAfterDiscount(tax, discount);
+  const taxOnTop = discountedTax.inclusive ? 0 : discountedTax.amount;
+
+  return Math.max(0, roundMoney(order.totalPrice - discount + taxOnTop));
+}
+
+/**
+ * What cancelling this order now would refund. Unpaid orders refund nothing.
+ */
+export async function quoteRefund(order: any, fullRefund = false): Promise<RefundQuote> {
+  const hoursBeforeStart = Math.round(((new Date(order.startDate).getTime() - Date.now()) / (1000 * 60 * 60)) * 10) / 10;
+  const { tiers } = await RefundPolicy.forEndUser(order.endUserId);
+  const orderTotal = await chargedForLine(order);
+
+  const percent = order.paymentStatus !== 'paid' ? 0 : fullRefund ? 100 : refundPercentFor(tiers, hoursBeforeStart);
+  return {
+    orderTotal,
+    hoursBeforeStart,
+    percent,
+    amount: roundMoney((orderTotal * percent) / 100),
+  };
+}
+
+/**
+ * Send a pending or failed refund to the provider and record the outcome on the refund,
+ * the payment and the order
+ */
+async function issueRefund(refund: any, order: any, payment: any) {
+  const provider = getPaymentProvider();
+  refund.provider = provider.name;
+
+  try {
+    const result = await provider.refund({
+      paymentId: payment?.razorpayPaymentId,
+      amount: refund.amount,
+      currency: refund.currency,
+      receipt: `refund_${order._id}`,
+      notes: { rentalOrderId: order._id.toString() },
+    });
+
+    refund.providerRefundId = result.refundId;
+    refund.status = result.status;
+    refund.failureReason = undefined;
+    if (result.status === 'processed') refund.processedAt = new Date();
+    await refund.save();
+  } catch (error) {
+    refund.status = 'failed';
+    refund.failureReason = error instanceof PaymentProviderError ? error.message : 'Refund request failed';
+    await refund.save();
+    logger.error('order refund failed', { orderId: order._id?.toString(), amount: refund.amount, error: (error as any)?.message });
+    return false;
+  }
+
+  // Counting the refund ID now makes the later refund.processed webhook a no-op
+  if (payment) {
+    await payment.recordRefund(refund.providerRefundId, refund.amount);
+  }
+  order.paymentStatus = refund.amount >= refund.orderTotal ? 'refunded' : 'partial';
+  await order.save();
+
+  logger.payment('REFUND', refund.amount, { orderId: order._id?.toString(), provider: provider.name, refundId: refund.providerRefundId });
+  return true;
+}
+
+/**
+ * Give back the whole deposit held on a cancelled order: the refund policy only applies to the rental price.
+ * Runs whatever happens to the refund; a failed release leaves the deposit held, so a retry releases it.
+ * Returns whether a deposit went back.
+ */
+async function releaseCancelledDeposit(order: any, actor?: StatusActor): Promise<boolean> {
+  if (order.depositStatus !== 'held') return false;
+
+  const settlement = await settleDeposit(order, [], { reason: 'Order cancelled', actor });
+  if (settlement.error !== undefined) {
+    logger.warn('deposit not released on cancellation', { orderId: order._id?.toString(), error: settlement.error });
+    return false;
+  }
+  return true;
+}
+
+// The quote a refund was issued under, or nothing for an order cancelled without one
+function quoteOf(refund: any): RefundQuote {
+  if (!refund) return { orderTotal: 0, hoursBeforeStart: 0, percent: 0, amount: 0 };
+  const { orderTotal, hoursBeforeStart, percent, amount } = refund;
+  return { orderTotal, hoursBeforeStart, percent, amount };
+}
+
+/**
+ * Cancel an order and refund it under the enduser's policy. Calling it again on a cancelled
+ * order retries a refund the provider rejected earlier and a deposit release that failed.
+ */
+export async function cancelAndRefundOrder(order: any, options: CancelOptions = {}): Promise<CancelResult> {
+  const payment = await Payment.findOne({ rentalOrderIds: order._id });
+  let refund: any = await Refund.findOne({ rentalOrderId: order._id });
+
+  if (order.status === 'cancelled') {
+    const depositReleased = await releaseCancelledDeposit(order, options.actor);
+    if (!refund || refund.status !== 'failed') {
+      if (depositReleased) {
+        return { order, refund: refund || null, quote: quoteOf(refund) };
+      }
+      return { error: refund ? 'Order is already cancelled and refunded' : 'Order is already cancelled', status: 409 };
+    }
+    if (!(await issueRefund(refund, order, payment))) {
+      return { error: `Refund failed: ${refund.failureReason}`, status: 502, refund };
+    }
+    return { order, refund, quote: quoteOf(refund) };
+  }
+
+  if (!order.canTransitionTo('cancelled')) {
+    return { error: `A ${order.status} order can no longer be cancelled`, status: 409 };
+  }
+
+  const quote = await quoteRefund(order, options.fullRefund);
+  if (payment) {
+    // Never send back more than is left on the payment (it may cover other orders too)
+    quote.amount = Math.min(quote.amount, roundMoney(payment.amount - payment.amountRefunded));
+  }
+
+  if (quote.amount > 0 && getPaymentProvider().name === 'razorpay' && !payment?.razorpayPaymentId) {
+    return { error: 'No captured payment found for this order; refund it manually', status: 409 };
+  }
+
+  if (quote.amount > 0) {
+    // One refund per order; the unique index stops a second concurrent cancellation here
+    refund = await Refund.create({
+      rentalOrderId: order._id,
+      paymentId: payment?._id,
+      endUserId: order.endUserId,
+      customerId: order.customerId,
+      orderTotal: quote.orderTotal,
+      percent: quote.percent,
+      amount: quote.amount,
+      currency: payment?.currency || 'INR',
+      hoursBeforeStart: quote.hoursBeforeStart,
+      reason: options.reason,
+      provider: getPaymentProvider().name,
+      requestedBy: options.actor?.id,
+      requestedByName: options.actor?.name,
+    });
+  }
+
+  try {
+    await order.updateStatus('cancelled', options.reason || 'Cancelled', options.actor);
+  } catch (error) {
+    if (refund) await Refund.deleteOne({ _id: refund._id });
+    throw error;
+  }
+
+  await releaseCancelledDeposit(order, options.actor);
+
+  if (refund && !(await issueRefund(refund, order, payment))) {
+    // The order stays cancelled; the refund can be retried from the enduser refund route
+    return { error: `Order cancelled but the refund failed: ${refund.failureReason}`, status: 502, refund };
+  }
+
+  return { order, refund: refund || null, quote };
+}
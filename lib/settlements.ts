@@ -0,0 +1,295 @@
+/**
+ * Enduser Settlements & Payouts
+ * Customers pay the platform for the whole order; each enduser is owed their own lines and late
+ * fees, less the coupon discount on them (a coupon only discounts its owner's lines), any refunds,
+ * credit notes on their invoices and the platform commission, plus deposit deductions they kept.
+ * Settlements stay pending until the enduser's rentals in the order are over and the hold period
+ * has passed; the payout job (/api/jobs/payouts) then pays everything available in one statement
+ * per enduser. A refund or credit note after payout comes off the enduser's next payout. Delivery
+ * charges and tax stay with the platform.
+ */
+
+import mongoose from 'mongoose';
+import Order from '@/models/Order';
+import RentalOrder from '@/models/RentalOrder';
+import Refund from '@/models/Refund';
+import Invoice from '@/models/Invoice';
+import CreditNote from '@/models/CreditNote';
+import DepositTransaction from '@/models/DepositTransaction';
+import Settlement from '@/models/Settlement';
+import Payout from '@/models/Payout';
+import { logger } from '@/lib/logger';
+import { roundMoney } from '@/lib/pricing';
+import { orderLineDiscounts } from '@/lib/coupons';
+
+// Platform commission in percent when PLATFORM_COMMISSION_PERCENT is not set
+export const DEFAULT_COMMISSION_PERCENT = 10;
+
+// Days after the last return before earnings are paid out, leaving time for deposit deductions
+export const PAYOUT_HOLD_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Order payment statuses under which the platform actually holds the customer's money
+const COLLECTED_PAYMENT_STATUSES = ['paid', 'partial', 'refunded'];
+
+const FINISHED_LINE_STATUSES = ['returned', 'cancelled'];
+
+export interface PayoutBalances {
+  pending: number;
+  available: number;
+  paid: number;
+}
+
+export interface PayoutJobResult {
+  refreshed: number;
+  statements: number;
+  paidOut: number;
+}
+
+export function commissionPercent(): number {
+  const configured = Number(process.env.PLATFORM_COMMISSION_PERCENT);
+  if (process.env.PLATFORM_COMMISSION_PERCENT === undefined || !Number.isFinite(configured)) {
+    return DEFAULT_COMMISSION_PERCENT;
+  }
+  return Math.min(100, Math.max(0, configured));
+}
+
+// The amounts a settlement is made of; an adjustment holds the change in each since the payout
+const SETTLEMENT_FIGURES = ['gross', 'lateFees', 'discount', 'refunded', 'credited', 'commission', 'depositDeductions', 'net'] as const;
+type SettlementFigures = Record<(typeof SETTLEMENT_FIGURES)[number], number>;
+
+const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + (Number(value) || 0), 0));
+
+/**
+ * Write (or bring up to date) the settlement of every enduser with lines in an order. Settlements
+ * already paid out are left as they were paid; an adjustment carries any change since into the next
+ * payout. Returns the settlements and adjustments written.
+ */
+export async function settleOrder(orderId: any, now: Date = new Date()): Promise<any[]> {
+  const order = await Order.findById(orderId);
+  if (!order || !COLLECTED_PAYMENT_STATUSES.includes(order.paymentStatus)) return [];
+
+  const lines = await RentalOrder.find({ orderId: order._id });
+  if (lines.length === 0) return [];
+  // The coupon discount is borne by the lines it applied to, i.e. only by the coupon owner
+  const lineDiscounts = await orderLineDiscounts(order, lines);
+  const discountOf = new Map<string, number>(lines.map((line: any, index: number) => [line._id.toString(), lineDiscounts[index]]));
+
+  const byEndUser = new Map<string, any[]>();
+  for (const line of lines) {
+    const key = line.endUserId.toString();
+    byEndUser.set(key, [...(byEndUser.get(key) || []), line]);
+  }
+
+  const written: any[] = [];
+  for (const [endUserId, endUserLines] of Array.from(byEndUser.entries())) {
+    let settlement = await Settlement.findOne({ orderId: order._id, endUserId, revision: { $exists: false } });
+    if (!settlement) {
+      settlement = new Settlement({
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        endUserId,
+        commissionRate: commissionPercent(),
+      });
+    }
+
+    const lineIds = endUserLines.map((line: any) => line._id);
+    const [refunds, deductions, invoiceIds, lateFeeInvoices] = await Promise.all([
+      Refund.find({ rentalOrderId: { $in: lineIds }, status: { $ne: 'failed' } }).select('rentalOrderId amount orderTotal').lean(),
+      DepositTransaction.find({ rentalOrderId: { $in: lineIds }, type: 'deduct' }).select('rentalOrderId category amount').lean(),
+      Invoice.distinct('_id', { orderId: order._id, endUserId }),
+      Invoice.find({ rentalOrderIds: { $in: lineIds }, kind: 'late_fees', status: { $ne: 'void' } }).select('rentalOrderIds subtotal').lean(),
+    ]);
+    const creditNotes = invoiceIds.length > 0
+      ? await CreditNote.find({ invoiceId: { $in: invoiceIds } }).select('subtotal').lean()
+      : [];
+
+    // Tax stays with the platform, so tax-inclusive lines earn their taxable value
+    const gross = sum(endUserLines.map((line: any) => line.tax?.taxableValue ?? line.totalPrice));
+    const discount = sum(endUserLines.map((line: any) => discountOf.get(line._id.toString()) || 0));
+    // A refund gives back what the customer paid, tax included; the enduser gives up only their part of it
+    const earnable = new Map<string, number>(endUserLines.map((line: any) => [
+      line._id.toString(),
+      roundMoney((line.tax?.taxableValue ?? line.totalPrice) - (discountOf.get(line._id.toString()) || 0)),
+    ]));
+    const refunded = sum(refunds.map((refund: any) => {
+      const lineEarnings = earnable.get(refund.rentalOrderId.toString()) || 0;
+      return refund.orderTotal > 0 ? Math.min(lineEarnings, refund.amount * lineEarnings / refund.orderTotal) : refund.amount;
+    }));
+    // Credit notes reverse their own tax, so the enduser gives up only the taxable value
+    const credited = sum(creditNotes.map((creditNote: any) => creditNote.subtotal));
+    // Late fees are rental income too: once the line is back, its final fee at the taxable value it was invoiced at,
+    // and until then (or if invoicing failed) the fee accrued so far
+    const invoicedLateFees = new Map<string, number>(lateFeeInvoices.map((invoice: any) => [invoice.rentalOrderIds[0].toString(), invoice.subtotal]));
+    const lateFeesOf = (line: any) => invoicedLateFees.get(line._id.toString()) ?? (line.lateFees || 0);
+    const lateFees = sum(endUserLines.map(lateFeesOf));
+    const commissionable = Math.max(0, roundMoney(gross + lateFees - discount - refunded - credited));
+    const commission = roundMoney(commissionable * settlement.commissionRate / 100);
+    // Deposit kept for late return is how late fees are usually collected, so it only adds what goes beyond them
+    const depositDeductions = sum(endUserLines.map((line: any) => {
+      const kept = deductions.filter((deduction: any) => deduction.rentalOrderId.toString() === line._id.toString());
+      const late = sum(kept.filter((deduction: any) => deduction.category === 'late').map((deduction: any) => deduction.amount));
+      const other = sum(kept.filter((deduction: any) => deduction.category !== 'late').map((deduction: any) => deduction.amount));
+      return other + Math.max(0, late - (line.lateFees || 0));
+    }));
+
+    // Available once every line is back (or cancelled) and the hold period is over
+    const finished = endUserLines.every((line: any) => FINISHED_LINE_STATUSES.includes(line.status));
+    const finishedAt = Math.max(...endUserLines.map((line: any) => new Date(line.returnDate || line.updatedAt).getTime()));
+    const available = finished && now.getTime() >= finishedAt + PAYOUT_HOLD_DAYS * DAY_MS;
+
+    const figures: SettlementFigures = {
+      gross,
+      lateFees,
+      discount,
+      refunded,
+      credited,
+      commission,
+      depositDeductions,
+      net: roundMoney(commissionable - commission + depositDeductions),
+    };
+
+    // Already paid out: whatever changed since (a refund or credit note, most often) is carried into the next payout
+    if (settlement.status === 'paid') {
+      const adjustment = await adjustPaidSettlement(settlement, figures, now);
+      if (adjustment) written.push(adjustment);
+      continue;
+    }
+
+    settlement.set({
+      rentalOrderIds: lineIds,
+      ...figures,
+      status: available ? 'available' : 'pending',
+      availableAt: available ? settlement.availableAt || now : undefined,
+    });
+    if (settlement.isNew || settlement.isModified()) {
+      await settlement.save();
+    }
+    written.push(settlement);
+  }
+
+  return written;
+}
+
+/**
+ * Write (or bring up to date) the adjustment to a paid-out settlement: the difference between what the
+ * enduser is owed for the order now and what they were paid for it. It is available straight away, so a
+ * refund after payout comes off the enduser's next payout. Returns the adjustment, if anything changed.
+ */
+async function adjustPaidSettlement(settlement: any, figures: SettlementFigures, now: Date): Promise<any | null> {
+  const adjustments: any[] = await Settlement.find({
+    orderId: settlement.orderId,
+    endUserId: settlement.endUserId,
+    revision: { $exists: true },
+  }).sort({ revision: 1 });
+  const paid = [settlement, ...adjustments.filter((adjustment) => adjustment.status === 'paid')];
+  let adjustment = adjustments.find((candidate) => candidate.status !== 'paid');
+
+  const changes = Object.fromEntries(SETTLEMENT_FIGURES.map((field) => [
+    field,
+    roundMoney(figures[field] - sum(paid.map((row) => row[field]))),
+  ])) as SettlementFigures;
+  if (!adjustment && SETTLEMENT_FIGURES.every((field) => changes[field] === 0)) return null;
+
+  if (!adjustment) {
+    adjustment = new Settlement({
+      orderId: settlement.orderId,
+      orderNumber: settlement.orderNumber,
+      endUserId: settlement.endUserId,
+      rentalOrderIds: settlement.rentalOrderIds,
+      commissionRate: settlement.commissionRate,
+      revision: adjustments.length + 1,
+    });
+  }
+  adjustment.set({ ...changes, status: 'available', availableAt: adjustment.availableAt || now });
+  if (adjustment.isNew || adjustment.isModified()) {
+    await adjustment.save();
+  }
+  return adjustment;
+}
+
+/**
+ * Recompute every pending settlement (optionally one enduser's), so returns, refunds and
+ * deposit deductions since the last look are counted. Returns how many were looked at.
+ */
+export async function refreshPendingSettlements(endUserId?: string, now: Date = new Date()): Promise<number> {
+  const filter: any = { status: 'pending' };
+  if (endUserId) filter.endUserId = new mongoose.Types.ObjectId(endUserId);
+  const orderIds: any[] = await Settlement.distinct('orderId', filter);
+
+  for (const orderId of orderIds) {
+    try {
+      await settleOrder(orderId, now);
+    } catch (error) {
+      logger.error('settlement refresh failed', { orderId: orderId.toString(), error: (error as any)?.message });
+    }
+  }
+  return orderIds.length;
+}
+
+export async function payoutBalances(endUserId: string): Promise<PayoutBalances> {
+  const totals = await Settlement.aggregate([
+    { $match: { endUserId: new mongoose.Types.ObjectId(endUserId) } },
+    { $group: { _id: '$status', net: { $sum: '$net' } } },
+  ]);
+  const byStatus = new Map<string, number>(totals.map((row: any) => [row._id, roundMoney(row.net)]));
+
+  return {
+    pending: byStatus.get('pending') || 0,
+    available: byStatus.get('available') || 0,
+    paid: byStatus.get('paid') || 0,
+  };
+}
+
+/**
+ * One pass of the payout job: bring pending settlements up to date, then put everything
+ * available for each enduser on a payout statement
+ */
+export async function runPayoutJob(now: Date = new Date()): Promise<PayoutJobResult> {
+  const result: PayoutJobResult = { refreshed: 0, statements: 0, paidOut: 0 };
+  result.refreshed = await refreshPendingSettlements(undefined, now);
+
+  const endUserIds: any[] = await Settlement.distinct('endUserId', { status: 'available', payoutId: { $exists: false } });
+  for (const endUserId of endUserIds) {
+    try {
+      const settlements = await Settlement.find({ endUserId, status: 'available', payoutId: { $exists: false } });
+      const amount = sum(settlements.map((settlement: any) => settlement.net));
+      if (amount <= 0) continue;
+
+      const previous: any = await Payout.findOne({ endUserId }).sort({ paidAt: -1 }).select('periodEnd').lean();
+      const earliest = Math.min(...settlements.map((settlement: any) => new Date(settlement.availableAt || settlement.createdAt).getTime()));
+
+      const payout = await Payout.create({
+        statementNumber: await Payout.nextStatementNumber(),
+        endUserId,
+        periodStart: previous?.periodEnd || new Date(earliest),
+        periodEnd: now,
+        settlementIds: settlements.map((settlement: any) => settlement._id),
+        orderCount: new Set(settlements.map((settlement: any) => settlement.orderId.toString())).size,
+        gross: sum(settlements.map((settlement: any) => settlement.gross)),
+        lateFees: sum(settlements.map((settlement: any) => settlement.lateFees)),
+        discount: sum(settlements.map((settlement: any) => settlement.discount)),
+        refunded: sum(settlements.map((settlement: any) => settlement.refunded)),
+        credited: sum(settlements.map((settlement: any) => settlement.credited)),
+        commission: sum(settlements.map((settlement: any) => settlement.commission)),
+        depositDeductions: sum(settlements.map((settlement: any) => settlement.depositDeductions)),
+        amount,
+        paidAt: now,
+      });
+
+      await Settlement.updateMany(
+        { _id: { $in: payout.settlementIds } },
+        { $set: { status: 'paid', payoutId: payout._id } }
+      );
+
+      result.statements++;
+      result.paidOut = roundMoney(result.paidOut + amount);
+    } catch (error) {
+      logger.error('payout failed', { endUserId: endUserId.toString(), error: (error as any)?.message });
+    }
+  }
+
+  logger.info('payout job finished', result);
+  return result;
+}
@@ -0,0 +1,72 @@
+/**
+ * Status Transitions
+ * Shared pieces for models with an enforced status lifecycle (rental orders, bookings):
+ * the history entry schema and the error raised for an illegal move.
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { IStatusHistoryEntry, StatusActor } from '@/types';
+
+/**
+ * Thrown when a document is asked to move to a status its transition table doesn't allow.
+ * API routes map it to 409 Conflict.
+ */
+export class StatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+// One entry per status change, embedded in the owning document
+export const StatusHistorySchema = new Schema<IStatusHistoryEntry>(
+  {
+    from: {
+      type: String,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    changedByName: {
+      type: String,
+      trim: true,
+      default: 'System',
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Reason cannot exceed 300 characters'],
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Build a history entry for a status change
+ */
+export function buildHistoryEntry(
+  from: string | undefined,
+  to: string,
+  reason?: string,
+  actor?: StatusActor
+): IStatusHistoryEntry {
+  return {
+    from,
+    to,
+    changedBy: actor?.id && mongoose.Types.ObjectId.isValid(actor.id)
+      ? new mongoose.Types.ObjectId(actor.id)
+      : undefined,
+    changedByName: actor?.name || 'System',
+    reason: reason?.slice(0, 300),
+    changedAt: new Date(),
+  };
+}
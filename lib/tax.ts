@@ -0,0 +1,170 @@
+/**
+ * Tax Engine
+ * GST on rental charges from the enduser's tax policy: a rate per category (or the policy's
+ * default), prices that either include the tax or have it added, and the split by place of
+ * supply: CGST + SGST when the delivery state is the enduser's own, IGST when it is another.
+ * Kept free of database imports like the pricing engine, so the cart, checkout, orders and
+ * invoices all run the same maths.
+ */
+
+import { roundMoney } from '@/lib/pricing';
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface TaxRule {
+  label: string; // name of the tax, GST unless the enduser says otherwise
+  rate: number; // percent
+  inclusive: boolean; // prices already include the tax
+}
+
+export interface TaxCategoryRule {
+  category: string;
+  rate?: number;
+  inclusive?: boolean;
+}
+
+// Anything with the tax policy fields (a TaxPolicy document, a lean object or none at all)
+export interface TaxPolicyLike {
+  label?: string;
+  rate?: number;
+  inclusive?: boolean;
+  state?: string;
+  overrides?: TaxCategoryRule[];
+}
+
+export interface TaxComponent {
+  label: string;
+  rate: number;
+  taxableValue: number;
+  amount: number;
+}
+
+export interface LineTax {
+  rate: number;
+  inclusive: boolean;
+  supply: SupplyType;
+  taxableValue: number; // the line's charge before tax
+  amount: number; // tax on the line
+  components: TaxComponent[];
+}
+
+// Used when an enduser hasn't set a tax policy: 1% added on top, the rate charged before tax rules existed
+export const DEFAULT_TAX_RULE: TaxRule = {
+  label: 'GST',
+  rate: 1,
+  inclusive: false,
+};
+
+// Same state, written any way ("Karnataka", " karnataka ")
+const normalizeState = (state?: string) => (state || '').trim().toLowerCase();
+
+/**
+ * The rule for a category: the category's override, then the policy default.
+ * Override fields left unset inherit from the policy default.
+ */
+export function resolveTaxRule(policy: TaxPolicyLike | null | undefined, category?: string): TaxRule {
+  if (!policy) return DEFAULT_TAX_RULE;
+
+  const base: TaxRule = {
+    label: policy.label || DEFAULT_TAX_RULE.label,
+    rate: policy.rate ?? DEFAULT_TAX_RULE.rate,
+    inclusive: policy.inclusive ?? DEFAULT_TAX_RULE.inclusive,
+  };
+
+  const override = (policy.overrides || []).find((o) => category && o.category === category);
+  if (!override) return base;
+
+  return {
+    label: base.label,
+    rate: override.rate ?? base.rate,
+    inclusive: override.inclusive ?? base.inclusive,
+  };
+}
+
+/**
+ * Inter-state when both states are known and differ. Without either one the supply is taken as
+ * intra-state, which is also how a cart is priced before the customer gives an address.
+ */
+export function supplyType(sellerState?: string, deliveryState?: string): SupplyType {
+  const seller = normalizeState(sellerState);
+  const buyer = normalizeState(deliveryState);
+  return seller && buyer && seller !== buyer ? 'inter_state' : 'intra_state';
+}
+
+/**
+ * Tax on one line's charge under a rule. Inclusive charges are split into taxable value and tax;
+ * exclusive ones have the tax added. Intra-state tax is halved into CGST and SGST.
+ */
+export function calculateLineTax(charge: number, rule: TaxRule, supply: SupplyType = 'intra_state'): LineTax {
+  const rate = Math.max(0, rule.rate || 0);
+  const taxableValue = rule.inclusive ? roundMoney(charge / (1 + rate / 100)) : roundMoney(charge);
+  const amount = rule.inclusive ? roundMoney(charge - taxableValue) : roundMoney(taxableValue * rate / 100);
+
+  let components: TaxComponent[];
+  if (supply === 'inter_state') {
+    components = [{ label: `I${rule.label}`, rate, taxableValue, amount }];
+  } else {
+    // The central half is rounded and the state half takes the remainder, so the two add up exactly
+    const central = roundMoney(amount / 2);
+    components = [
+      { label: `C${rule.label}`, rate: rate / 2, taxableValue, amount: central },
+      { label: `S${rule.label}`, rate: rate / 2, taxableValue, amount: roundMoney(amount - central) },
+    ];
+  }
+
+  return { rate, inclusive: rule.inclusive, supply, taxableValue, amount, components };
+}
+
+/**
+ * Tax on a line once its share of a coupon discount is taken off: GST is charged on the discounted
+ * value, so the discount comes off the charge before the tax is worked out again at the same rate.
+ */
+export function taxAfterDiscount(tax: LineTax, discount: number): LineTax {
+  if (!(discount > 0)) return tax;
+  const charge = tax.inclusive ? roundMoney(tax.taxableValue + tax.amount) : tax.taxableValue;
+  const discounted = calculateLineTax(Math.max(0, roundMoney(charge - discount)), { label: '', rate: tax.rate, inclusive: tax.inclusive }, tax.supply);
+  return {
+    ...discounted,
+    components: discounted.components.map((component, index) => ({ ...component, label: tax.components[index]?.label ?? component.label })),
+  };
+}
+
+/**
+ * Tax on a line of an enduser's product delivered to a state
+ */
+export function taxForLine(charge: number, policy: TaxPolicyLike | null | undefined, category?: string, deliveryState?: string): LineTax {
+  return calculateLineTax(charge, resolveTaxRule(policy, category), supplyType(policy?.state, deliveryState));
+}
+
+/**
+ * Lines' tax components merged by label and rate, as printed on an invoice or a GST summary
+ */
+export function summarizeTaxComponents(components: TaxComponent[]): TaxComponent[] {
+  const merged = new Map<string, TaxComponent>();
+  for (const component of components) {
+    const key = `${component.label}@${component.rate}`;
+    const current = merged.get(key);
+    if (current) {
+      current.taxableValue = roundMoney(current.taxableValue + component.taxableValue);
+      current.amount = roundMoney(current.amount + component.amount);
+    } else {
+      merged.set(key, { ...component });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Tax components reversed for part of their taxable value, e.g. a credit note against an invoice:
+ * each component keeps its rate and is scaled to the credited value.
+ */
+export function scaleTaxComponents(components: TaxComponent[], taxableValue: number, creditedValue: number): TaxComponent[] {
+  if (!(taxableValue > 0)) return [];
+  const ratio = creditedValue / taxableValue;
+  return components.map((component) => ({
+    label: component.label,
+    rate: component.rate,
+    taxableValue: roundMoney(component.taxableValue * ratio),
+    amount: roundMoney(component.amount * ratio),
+  }));
+}
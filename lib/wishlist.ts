@@ -0,0 +1,63 @@
+/**
+ * Wishlist Alerts
+ * The watcher behind opt-in wishlist alerts: compares each watched product's daily price and
+ * stock with what the customer last saw, tells them about price drops and restocks, and moves
+ * the watched values on. Run by the scheduler through /api/jobs/wishlist-alerts.
+ */
+
+import Wishlist from '@/models/Wishlist';
+import Product from '@/models/Product';
+import { logger } from '@/lib/logger';
+import { notifyPriceDrop, notifyBackInStock } from '@/lib/inAppNotifications';
+
+export interface WishlistAlertJobResult {
+  watched: number;
+  priceDrops: number;
+  backInStock: number;
+}
+
+export async function runWishlistAlertJob(now: Date = new Date()): Promise<WishlistAlertJobResult> {
+  const result: WishlistAlertJobResult = { watched: 0, priceDrops: 0, backInStock: 0 };
+
+  const entries = await Wishlist.find({ alerts: true });
+  if (entries.length === 0) return result;
+
+  const productIds = Array.from(new Set(entries.map((entry: any) => entry.productId.toString())));
+  const products = await Product.find({ _id: { $in: productIds } }).select('name pricePerDay availability');
+  const byId = new Map<string, any>(products.map((product: any) => [product._id.toString(), product]));
+
+  for (const entry of entries) {
+    const product = byId.get(entry.productId.toString());
+    if (!product) continue;
+    result.watched++;
+
+    try {
+      const price = product.pricePerDay || 0;
+      let alerted = false;
+
+      if (price > 0 && entry.watchedPrice !== undefined && price < entry.watchedPrice) {
+        await notifyPriceDrop(entry, product, entry.watchedPrice);
+        result.priceDrops++;
+        alerted = true;
+      }
+
+      if (product.availability && entry.watchedAvailable === false) {
+        await notifyBackInStock(entry, product, now);
+        result.backInStock++;
+        alerted = true;
+      }
+
+      // Rises and sell-outs are not announced, but they become the new baseline
+      if (entry.watchedPrice !== price || entry.watchedAvailable !== !!product.availability) {
+        entry.watch(product);
+        if (alerted) entry.lastAlertAt = now;
+        await entry.save();
+      }
+    } catch (error) {
+      logger.error('wishlist alert failed', { entryId: entry._id.toString(), error: (error as any)?.message });
+    }
+  }
+
+  logger.info('wishlist alert job finished', result);
+  return result;
+}
@@ -0,0 +1,49 @@
+/**
+ * Wishlist Client Helpers
+ * Browser-side calls to /api/wishlist shared by the shop, product, cart and wishlist pages.
+ * A wishlist left in localStorage from before it moved to the server is imported once and removed.
+ */
+
+// localStorage key the wishlist used to live under
+const LEGACY_WISHLIST_KEY = 'wishlist';
+
+/**
+ * Save a product to the logged-in customer's wishlist; resolves to the API response
+ */
+export async function saveToWishlist(productId: string): Promise<{ success: boolean; message?: string; error?: string }> {
+  const response = await fetch('/api/wishlist', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ productId }),
+  });
+  return response.json();
+}
+
+/**
+ * Send product IDs saved in localStorage to the server and forget them. Returns how many were new.
+ */
+export async function importLegacyWishlist(): Promise<number> {
+  let productIds: string[] = [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEGACY_WISHLIST_KEY) || '[]');
+    productIds = Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+  } catch {
+    productIds = [];
+  }
+  if (productIds.length === 0) {
+    localStorage.removeItem(LEGACY_WISHLIST_KEY);
+    return 0;
+  }
+
+  const response = await fetch('/api/wishlist', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ productIds }),
+  });
+  const result = await response.json();
+  // Unknown products come back as 404; there is nothing left worth keeping either way
+  if (result?.success || response.status === 404) {
+    localStorage.removeItem(LEGACY_WISHLIST_KEY);
+  }
+  return result?.success ? result.data.added || 0 : 0;
+}
@@ -19,6 +19,7 @@ export async function middleware(request: NextRequest) {
         pathname.startsWith('/cart') || 
         pathname.startsWith('/checkout') || 
         pathname.startsWith('/orders') ||
+        pathname.startsWith('/quotations') ||
         pathname.startsWith('/wishlist') ||
         pathname.startsWith('/profile')) {
       
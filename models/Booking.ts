@@ -3,9 +3,44 @@
  * Handles booking lifecycle, pricing calculations, and status management
  */
 
-import mongoose, { Schema } from 'mongoose';
-import { IBooking } from '@/types';
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
+import { IBooking, StatusActor } from '@/types';
 import { logger } from '@/lib/logger';
+import { StatusHistorySchema, StatusTransitionError, buildHistoryEntry } from '@/lib/statusTransitions';
+import { roundMoney } from '@/lib/pricing';
+import { DEFAULT_REFUND_TIERS, RefundTier, refundPercentFor } from '@/models/RefundPolicy';
+import LateFeePolicy, { DEFAULT_LATE_FEE_RULE, LateFeeLookup, calculateLateFee } from '@/models/LateFeePolicy';
+
+// Statuses a booking may move to from each status; returned and cancelled are final
+export const BOOKING_STATUS_TRANSITIONS: Record<IBooking['status'], IBooking['status'][]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['returned', 'late', 'cancelled'],
+  late: ['returned'],
+  returned: [],
+  cancelled: [],
+};
+
+// Instance methods of a booking
+interface IBookingMethods {
+  canTransitionTo(newStatus: string): boolean;
+  updateStatus(newStatus: string, reason?: string, actor?: StatusActor): Promise<BookingDocument>;
+  calculateRefund(tiers?: RefundTier[]): number;
+  extendBooking(newEndDate: Date, additionalPrice: number): Promise<BookingDocument>;
+  loadLateFeeRule(): Promise<LateFeeLookup>;
+}
+
+type BookingDocument = HydratedDocument<IBooking, IBookingMethods>;
+
+// Static methods of the Booking model
+interface IBookingStatics {
+  findByCustomer(customerEmail: string): Query<BookingDocument[], BookingDocument>;
+  findActive(): Query<BookingDocument[], BookingDocument>;
+  findLate(): Query<BookingDocument[], BookingDocument>;
+  findInDateRange(startDate: Date, endDate: Date): Query<BookingDocument[], BookingDocument>;
+  checkAvailability(productId: string | mongoose.Types.ObjectId, startDate: Date, endDate: Date, excludeBookingId?: string): Promise<boolean>;
+}
+
+type BookingModel = Model<IBooking, {}, IBookingMethods> & IBookingStatics;
 
 // Booking schema definition with comprehensive business logic
 const BookingSchema: Schema<IBooking> = new Schema(
@@ -73,6 +108,10 @@ const BookingSchema: Schema<IBooking> = new Schema(
       default: 'pending',
       required: true,
     },
+    statusHistory: {
+      type: [StatusHistorySchema],
+      default: [],
+    },
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt
@@ -106,6 +145,11 @@ BookingSchema.pre('save', function (next) {
   const durationMs = endTime - startTime;
   booking.durationDays = Math.ceil(durationMs / (1000 * 60 * 60 * 24));
 
+  // Every booking starts its history with the status it was created in
+  if (booking.isNew && booking.statusHistory.length === 0) {
+    booking.statusHistory.push(buildHistoryEntry(undefined, booking.status, 'Booking created'));
+  }
+
   // Log booking operation
   logger.booking('SAVE', booking._id?.toString(), {
     product: booking.productId,
@@ -129,35 +173,18 @@ BookingSchema.pre('save', async function (next) {
   }
 
   try {
-    // Check for overlapping bookings for the same product
-    const conflictingBookings = await mongoose.model('Booking').find({
-      productId: booking.productId,
-      _id: { $ne: booking._id }, // Exclude current booking
-      status: { $in: ['pending', 'confirmed'] }, // Only active bookings
-      $or: [
-        // New booking starts during existing booking
-        {
-          startDate: { $lte: booking.startDate },
-          endDate: { $gt: booking.startDate },
-        },
-        // New booking ends during existing booking
-        {
-          startDate: { $lt: booking.endDate },
-          endDate: { $gte: booking.endDate },
-        },
-        // New booking encompasses existing booking
-        {
-          startDate: { $gte: booking.startDate },
-          endDate: { $lte: booking.endDate },
-        },
-      ],
+    // Imported lazily because the availability engine itself depends on this model
+    const { checkAvailability } = await import('@/lib/availability');
+    const result = await checkAvailability(booking.productId, booking.startDate, booking.endDate, {
+      excludeId: booking._id?.toString(),
     });
 
-    if (conflictingBookings.length > 0) {
+    if (!result.available) {
       logger.warn('Booking conflict detected', {
         newBooking: booking._id,
-        conflictingBookings: conflictingBookings.map(b => b._id),
         productId: booking.productId,
+        capacity: result.capacity,
+        reserved: result.reserved,
       });
       
       const error = new Error('Product is not available for the selected dates');
@@ -177,31 +204,17 @@ BookingSchema.virtual('isLate').get(function () {
   return this.status === 'confirmed' && this.endDate < now;
 });
 
-// Virtual field to calculate late fees
+// Virtual field to calculate late fees under the enduser's late fee policy (see loadLateFeeRule)
 BookingSchema.virtual('lateFee').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'confirmed' && this.endDate < now;
-  if (!isLate) return 0;
-  
-  const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-  const feePerDay = 50; // ₹50 per day late fee
-  
-  return daysLate * feePerDay;
+  if (this.status !== 'confirmed' && this.status !== 'late') return 0;
+
+  const { rule, dailyRate } = (this.$locals.lateFee as LateFeeLookup | undefined) || { rule: DEFAULT_LATE_FEE_RULE, dailyRate: 0 };
+  return calculateLateFee(rule, { endDate: this.endDate, dailyRate }).fee;
 });
 
 // Virtual field to get total amount including late fees
 BookingSchema.virtual('totalAmountDue').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'confirmed' && this.endDate < now;
-  let lateFee = 0;
-  
-  if (isLate) {
-    const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-    const feePerDay = 50; // ₹50 per day late fee
-    lateFee = daysLate * feePerDay;
-  }
-  
-  return this.totalPrice + lateFee;
+  return this.totalPrice + (this.get('lateFee') as number);
 });
 
 // Virtual field to get days until return
@@ -254,38 +267,35 @@ BookingSchema.statics.findInDateRange = function (startDate: Date, endDate: Date
     .sort({ startDate: 1 });
 };
 
-// Static method to check product availability
+// Static method to check product availability (quantity-aware, see lib/availability)
 BookingSchema.statics.checkAvailability = async function (
   productId: string, 
   startDate: Date, 
-  endDate: Date
+  endDate: Date,
+  excludeBookingId?: string
 ): Promise<boolean> {
-  const conflictingBookings = await this.find({
-    productId,
-    status: { $in: ['pending', 'confirmed'] },
-    $or: [
-      {
-        startDate: { $lte: startDate },
-        endDate: { $gt: startDate },
-      },
-      {
-        startDate: { $lt: endDate },
-        endDate: { $gte: endDate },
-      },
-      {
-        startDate: { $gte: startDate },
-        endDate: { $lte: endDate },
-      },
-    ],
-  });
+  const { checkAvailability } = await import('@/lib/availability');
+  const result = await checkAvailability(productId, startDate, endDate, { excludeId: excludeBookingId });
+  return result.available;
+};
 
-  return conflictingBookings.length === 0;
+// Instance method to check whether the booking may move to a status
+BookingSchema.methods.canTransitionTo = function (newStatus: string): boolean {
+  const allowed = BOOKING_STATUS_TRANSITIONS[this.status as IBooking['status']] || [];
+  return allowed.includes(newStatus as IBooking['status']);
 };
 
 // Instance method to update booking status
-BookingSchema.methods.updateStatus = async function (newStatus: string, reason?: string) {
+BookingSchema.methods.updateStatus = async function (newStatus: string, reason?: string, actor?: StatusActor) {
   const oldStatus = this.status;
+  if (newStatus === oldStatus) return this;
+
+  if (!this.canTransitionTo(newStatus)) {
+    throw new StatusTransitionError(`Cannot move a booking from "${oldStatus}" to "${newStatus}"`);
+  }
+
   this.status = newStatus;
+  this.statusHistory.push(buildHistoryEntry(oldStatus, newStatus, reason, actor));
   await this.save();
 
   logger.booking('STATUS_UPDATE', this._id?.toString(), {
@@ -298,28 +308,22 @@ BookingSchema.methods.updateStatus = async function (newStatus: string, reason?:
   return this;
 };
 
-// Instance method to calculate refund amount
-BookingSchema.methods.calculateRefund = function (): number {
+// Instance method to calculate refund amount under the given cancellation tiers (defaults: 100% at 24h+, 50% at 12-24h)
+BookingSchema.methods.calculateRefund = function (tiers: RefundTier[] = DEFAULT_REFUND_TIERS): number {
   const now = new Date();
   const hoursUntilStart = (this.startDate.getTime() - now.getTime()) / (1000 * 60 * 60);
 
-  // Refund policy: 100% if cancelled 24+ hours before, 50% if 12-24 hours, 0% if less than 12 hours
-  if (hoursUntilStart >= 24) {
-    return this.totalPrice; // Full refund
-  } else if (hoursUntilStart >= 12) {
-    return this.totalPrice * 0.5; // 50% refund
-  } else {
-    return 0; // No refund
-  }
+  return roundMoney(this.totalPrice * refundPercentFor(tiers, hoursUntilStart) / 100);
 };
 
 // Instance method to extend booking
 BookingSchema.methods.extendBooking = async function (newEndDate: Date, additionalPrice: number) {
   // Check if extension creates conflicts
-  const isAvailable = await (this.constructor as any).checkAvailability(
+  const isAvailable = await (this.constructor as BookingModel).checkAvailability(
     this.productId,
     this.endDate,
-    newEndDate
+    newEndDate,
+    this._id?.toString()
   );
 
   if (!isAvailable) {
@@ -344,7 +348,16 @@ BookingSchema.methods.extendBooking = async function (newEndDate: Date, addition
   return this;
 };
 
+// Instance method to load the late fee rule for this booking's product; the late fee virtuals use it once loaded
+BookingSchema.methods.loadLateFeeRule = async function () {
+  const product = await mongoose.model('Product').findById(this.productId)
+    .select('endUserId category pricePerHour pricePerDay pricePerWeek pricePerMonth pricePerYear')
+    .lean();
+  this.$locals.lateFee = await LateFeePolicy.ruleForProduct(product);
+  return this.$locals.lateFee;
+};
+
 // Export the model, ensuring it's not re-compiled in development
-const Booking = mongoose.models.Booking || mongoose.model<IBooking>('Booking', BookingSchema);
+const Booking = (mongoose.models.Booking as BookingModel) || mongoose.model<IBooking, BookingModel>('Booking', BookingSchema);
 
 export default Booking;
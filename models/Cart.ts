@@ -0,0 +1,150 @@
+/**
+ * Cart Model
+ * A customer's cart kept on the server so it follows them across devices. Lines only record
+ * what was chosen (product, quantity, rental window); prices are worked out again on every read.
+ */
+
+import mongoose, { HydratedDocument, Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export const MAX_CART_LINE_QUANTITY = 99;
+
+export interface CartLineInput {
+  productId: string;
+  quantity?: number;
+  fromDate: string;
+  toDate: string;
+  duration?: string;
+}
+
+export interface ICartItem {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  quantity: number;
+  fromDate: string;
+  toDate: string;
+  duration: string;
+  quotedPrice?: number; // line total the customer last saw, to spot price changes
+  addedAt: Date;
+}
+
+// Define the interface for Cart
+interface ICart extends mongoose.Document {
+  _id: Types.ObjectId;
+  customerId: Types.ObjectId;
+  items: Types.DocumentArray<ICartItem & mongoose.Document>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartItemSchema = new Schema<ICartItem>({
+  productId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: [true, 'Product is required'],
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+    max: [MAX_CART_LINE_QUANTITY, `Quantity cannot exceed ${MAX_CART_LINE_QUANTITY}`],
+  },
+  fromDate: {
+    type: String,
+    required: [true, 'Start date is required'],
+  },
+  toDate: {
+    type: String,
+    required: [true, 'End date is required'],
+  },
+  duration: {
+    type: String,
+    default: 'day',
+  },
+  quotedPrice: {
+    type: Number,
+    min: 0,
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Instance methods of a cart
+interface ICartMethods {
+  addLine(input: CartLineInput): ICartItem;
+}
+
+type CartDocument = HydratedDocument<ICart, ICartMethods>;
+
+// Static methods of the Cart model
+interface ICartStatics {
+  forCustomer(customerId: string | Types.ObjectId): Promise<CartDocument>;
+}
+
+type CartModel = Model<ICart, {}, ICartMethods> & ICartStatics;
+
+// Cart schema definition
+const CartSchema: Schema<ICart> = new Schema(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer is required'],
+      unique: true,
+    },
+    items: {
+      type: [CartItemSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+CartSchema.pre('save', function (next) {
+  logger.database('SAVE', 'Cart', {
+    customerId: this.customerId?.toString(),
+    items: this.items.length,
+  });
+  next();
+});
+
+// Static method to load a customer's cart, or start an empty one
+CartSchema.statics.forCustomer = async function (customerId: string | Types.ObjectId) {
+  return (await this.findOne({ customerId })) || new this({ customerId, items: [] });
+};
+
+/**
+ * Add a line; the same product for the same rental window just gets its quantity raised
+ */
+CartSchema.methods.addLine = function (input: CartLineInput) {
+  const quantity = Math.max(1, Math.floor(Number(input.quantity) || 1));
+  const existing = this.items.find((item: ICartItem) =>
+    item.productId.toString() === input.productId.toString() &&
+    item.fromDate === input.fromDate &&
+    item.toDate === input.toDate
+  );
+
+  if (existing) {
+    existing.quantity = Math.min(MAX_CART_LINE_QUANTITY, existing.quantity + quantity);
+    return existing;
+  }
+
+  this.items.push({
+    productId: input.productId,
+    quantity: Math.min(MAX_CART_LINE_QUANTITY, quantity),
+    fromDate: input.fromDate,
+    toDate: input.toDate,
+    duration: input.duration || 'day',
+  });
+  return this.items[this.items.length - 1];
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Cart = (mongoose.models.Cart as CartModel) || mongoose.model<ICart, CartModel>('Cart', CartSchema);
+
+export default Cart;
@@ -24,6 +24,7 @@ const CheckoutSessionSchema = new mongoose.Schema({
     quantity: { type: Number, required: true },
     duration: { type: String, required: true }, // Can be "day", "week", "month", etc.
     totalPrice: { type: Number, required: true },
+    deposit: { type: Number, default: 0 },
     fromDate: { type: String, required: true },
     toDate: { type: String, required: true },
     endUserId: { type: String, required: true },
@@ -34,6 +35,15 @@ const CheckoutSessionSchema = new mongoose.Schema({
     discount: { type: Number, default: 0 },
     deliveryCharge: { type: Number, default: 0 },
     tax: { type: Number, required: true },
+    taxIncluded: { type: Number, default: 0 },
+    taxLines: [{
+      _id: false,
+      label: String,
+      rate: Number,
+      taxableValue: Number,
+      amount: Number
+    }],
+    deposit: { type: Number, default: 0 },
     total: { type: Number, required: true }
   },
   couponCode: {
@@ -47,7 +57,13 @@ const CheckoutSessionSchema = new mongoose.Schema({
     city: String,
     state: String,
     zipCode: String,
-    country: String
+    country: String,
+    latitude: Number, // shared by the customer for delivery charged by distance
+    longitude: Number
+  },
+  deliveryMethod: {
+    type: String,
+    enum: ['pickup', 'delivery']
   },
   billingAddress: {
     name: String,
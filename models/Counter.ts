@@ -0,0 +1,55 @@
+/**
+ * Counter Model
+ * Named sequences handed out one number at a time with an atomic increment, so two checkouts
+ * finishing together never share a number.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+
+// Define the interface for a counter
+interface ICounter extends mongoose.Document {
+  _id: string;
+  seq: number;
+}
+
+// Static methods of the Counter model
+interface ICounterStatics {
+  next(name: string): Promise<number>;
+  release(name: string, seq: number): Promise<boolean>;
+}
+
+type CounterModel = Model<ICounter, {}, {}> & ICounterStatics;
+
+// Counter schema definition; the sequence name is the _id
+const CounterSchema: Schema<ICounter> = new Schema({
+  _id: {
+    type: String,
+    required: true,
+  },
+  seq: {
+    type: Number,
+    default: 0,
+  },
+});
+
+// Static method to take the next number of a sequence (the first is 1)
+CounterSchema.statics.next = async function (name: string): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter.seq;
+};
+
+// Static method to hand back a number that ended up unused; only the latest number can be, so
+// nothing is handed out twice. Returns whether the number was given back.
+CounterSchema.statics.release = async function (name: string, seq: number): Promise<boolean> {
+  const result = await this.updateOne({ _id: name, seq }, { $inc: { seq: -1 } });
+  return result.modifiedCount === 1;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Counter = (mongoose.models.Counter as CounterModel) || mongoose.model<ICounter, CounterModel>('Counter', CounterSchema);
+
+export default Counter;
@@ -0,0 +1,184 @@
+/**
+ * Coupon Model for Promotions
+ * Discount codes owned by an enduser and applied to that enduser's products at checkout
+ */
+
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export type CouponDiscountType = 'percentage' | 'fixed';
+
+// Define the interface for Coupon
+export interface ICoupon extends mongoose.Document {
+  _id: Types.ObjectId;
+  code: string;
+  description?: string;
+  endUserId: Types.ObjectId;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  maxDiscount?: number;
+  minOrderValue: number;
+  usageLimit?: number;
+  perCustomerLimit?: number;
+  usedCount: number;
+  validFrom: Date;
+  validUntil?: Date;
+  productIds: Types.ObjectId[];
+  categories: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Instance methods of a coupon
+interface ICouponMethods {
+  claimUse(): Promise<boolean>;
+}
+
+type CouponDocument = HydratedDocument<ICoupon, ICouponMethods>;
+
+// Static methods of the Coupon model
+interface ICouponStatics {
+  findByCode(code: string): Query<CouponDocument | null, CouponDocument>;
+}
+
+type CouponModel = Model<ICoupon, {}, ICouponMethods> & ICouponStatics;
+
+// Coupon schema definition
+const CouponSchema: Schema<ICoupon> = new Schema(
+  {
+    code: {
+      type: String,
+      required: [true, 'Coupon code is required'],
+      trim: true,
+      uppercase: true,
+      unique: true,
+      match: [/^[A-Z0-9_-]{3,30}$/, 'Code must be 3-30 letters, digits, dashes or underscores'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    discountType: {
+      type: String,
+      enum: {
+        values: ['percentage', 'fixed'],
+        message: 'Discount type must be percentage or fixed',
+      },
+      required: [true, 'Discount type is required'],
+    },
+    discountValue: {
+      type: Number,
+      required: [true, 'Discount value is required'],
+      min: [0.01, 'Discount must be greater than 0'],
+    },
+    maxDiscount: {
+      type: Number,
+      min: [0, 'Maximum discount cannot be negative'],
+    },
+    minOrderValue: {
+      type: Number,
+      min: [0, 'Minimum order value cannot be negative'],
+      default: 0,
+    },
+    usageLimit: {
+      type: Number,
+      min: [1, 'Usage limit must be at least 1'],
+    },
+    perCustomerLimit: {
+      type: Number,
+      min: [1, 'Per-customer limit must be at least 1'],
+    },
+    usedCount: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    validFrom: {
+      type: Date,
+      default: Date.now,
+    },
+    validUntil: {
+      type: Date,
+    },
+    productIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+    }],
+    categories: [{
+      type: String,
+      trim: true,
+    }],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Indexes for efficient queries
+CouponSchema.index({ endUserId: 1, createdAt: -1 }); // Owner's coupon list
+
+CouponSchema.pre('validate', function () {
+  if (this.discountType === 'percentage' && this.discountValue > 100) {
+    this.invalidate('discountValue', 'Percentage discount cannot exceed 100');
+  }
+  if (this.validUntil && this.validFrom && this.validUntil <= this.validFrom) {
+    this.invalidate('validUntil', 'Coupon must end after it starts');
+  }
+});
+
+CouponSchema.pre('save', function (next) {
+  logger.database('SAVE', 'Coupon', {
+    code: this.code,
+    endUserId: this.endUserId,
+    discountType: this.discountType,
+    discountValue: this.discountValue,
+  });
+  next();
+});
+
+// Virtual: true when the coupon can be used right now, ignoring per-order rules
+CouponSchema.virtual('isRedeemable').get(function () {
+  const now = new Date();
+  return this.isActive
+    && (!this.validFrom || this.validFrom <= now)
+    && (!this.validUntil || this.validUntil > now)
+    && (!this.usageLimit || this.usedCount < this.usageLimit);
+});
+
+// Static method to look up a code the way customers type it
+CouponSchema.statics.findByCode = function (code: string) {
+  return this.findOne({ code: String(code || '').trim().toUpperCase() });
+};
+
+// Instance method to take one use of the coupon; false when the global limit was reached first
+CouponSchema.methods.claimUse = async function (): Promise<boolean> {
+  const filter: any = { _id: this._id, isActive: true };
+  if (this.usageLimit) {
+    filter.usedCount = { $lt: this.usageLimit };
+  }
+
+  const updated = await (this.constructor as CouponModel).findOneAndUpdate(filter, { $inc: { usedCount: 1 } }, { new: true });
+  if (!updated) return false;
+
+  this.usedCount = updated.usedCount;
+  return true;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Coupon = (mongoose.models.Coupon as CouponModel) || mongoose.model<ICoupon, CouponModel>('Coupon', CouponSchema);
+
+export default Coupon;
@@ -0,0 +1,89 @@
+/**
+ * Coupon Redemption Model
+ * One row per order that used a coupon; drives per-customer usage limits and promotion reporting
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+// Define the interface for CouponRedemption
+interface ICouponRedemption extends mongoose.Document {
+  _id: Types.ObjectId;
+  couponId: Types.ObjectId;
+  code: string;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  customerEmail?: string;
+  discount: number;
+  orderTotal: number;
+  rentalOrderIds: Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Coupon redemption schema definition
+const CouponRedemptionSchema: Schema<ICouponRedemption> = new Schema(
+  {
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Coupon',
+      required: [true, 'Coupon ID is required'],
+    },
+    code: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    customerEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    discount: {
+      type: Number,
+      required: true,
+      min: [0, 'Discount cannot be negative'],
+    },
+    orderTotal: {
+      type: Number,
+      required: true,
+      min: [0, 'Order total cannot be negative'],
+    },
+    rentalOrderIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    }],
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+CouponRedemptionSchema.index({ couponId: 1, customerId: 1 }); // Per-customer limit checks
+CouponRedemptionSchema.index({ endUserId: 1, createdAt: -1 }); // Owner-wide reporting
+
+CouponRedemptionSchema.pre('save', function (next) {
+  logger.database('INSERT', 'CouponRedemption', {
+    code: this.code,
+    customerId: this.customerId,
+    discount: this.discount,
+  });
+  next();
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const CouponRedemption = mongoose.models.CouponRedemption || mongoose.model<ICouponRedemption>('CouponRedemption', CouponRedemptionSchema);
+
+export default CouponRedemption;
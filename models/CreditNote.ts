@@ -0,0 +1,224 @@
+/**
+ * CreditNote Model for Invoice Adjustments
+ * Corrects a posted invoice after the fact (damage waived, early return, price match) without
+ * touching it: the credit note reduces what the customer owes on the invoice and carries its own
+ * tax reversal. Numbers are per enduser (CN/0001, CN/0002, ...) and credit notes are never edited.
+ * A credit note against a paid invoice records the refund that sent the money back; only the
+ * provider's confirmation of that refund is filled in later.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+
+export type CreditNoteReason = 'damage_waived' | 'early_return' | 'price_match' | 'other';
+
+export const CREDIT_NOTE_REASONS: CreditNoteReason[] = ['damage_waived', 'early_return', 'price_match', 'other'];
+
+// Define the interface for a tax line
+interface ICreditNoteTaxLine {
+  label: string;
+  rate: number;
+  taxableValue: number;
+  amount: number;
+}
+
+// Define the interface for CreditNote
+interface ICreditNote extends mongoose.Document {
+  _id: Types.ObjectId;
+  creditNoteNumber: string;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  invoiceId: Types.ObjectId;
+  invoiceNumber: string;
+  rentalOrderId?: Types.ObjectId;
+  orderNumber?: string;
+  reason: CreditNoteReason;
+  note?: string;
+  seller: { name: string; companyName?: string; email?: string; phone?: string; address?: string; gstin?: string; state?: string };
+  buyer: { name: string; email: string; phone?: string; address?: string; state?: string };
+  description: string;
+  subtotal: number;
+  taxLines: ICreditNoteTaxLine[];
+  taxTotal: number;
+  total: number;
+  refund?: { amount: number; provider: 'razorpay' | 'stub'; providerRefundId?: string; status: 'pending' | 'processed'; processedAt?: Date };
+  issuedAt: Date;
+  issuedBy?: Types.ObjectId;
+  issuedByName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tax line sub-schema, one per tax component reversed
+const CreditNoteTaxLineSchema = new Schema<ICreditNoteTaxLine>(
+  {
+    label: { type: String, required: [true, 'Tax label is required'], trim: true },
+    rate: { type: Number, required: [true, 'Tax rate is required'], min: [0, 'Tax rate cannot be negative'] },
+    taxableValue: { type: Number, required: [true, 'Taxable value is required'] },
+    amount: { type: Number, required: [true, 'Tax amount is required'] },
+  },
+  { _id: false }
+);
+
+// Static methods of the CreditNote model
+interface ICreditNoteStatics {
+  nextCreditNoteNumber(endUserId: string): Promise<string>;
+}
+
+type CreditNoteModel = Model<ICreditNote, {}, {}> & ICreditNoteStatics;
+
+// CreditNote schema definition
+const CreditNoteSchema: Schema<ICreditNote> = new Schema(
+  {
+    creditNoteNumber: {
+      type: String,
+      required: [true, 'Credit note number is required'],
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    invoiceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: [true, 'Invoice ID is required'],
+    },
+    invoiceNumber: {
+      type: String,
+      required: [true, 'Invoice number is required'],
+      trim: true,
+    },
+    // The order line the adjustment is for, when it is for one line of the invoice
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+    orderNumber: {
+      type: String,
+      trim: true,
+    },
+    reason: {
+      type: String,
+      enum: {
+        values: CREDIT_NOTE_REASONS,
+        message: 'Invalid credit note reason',
+      },
+      required: [true, 'Reason is required'],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    seller: {
+      name: { type: String, required: [true, 'Seller name is required'], trim: true },
+      companyName: { type: String, trim: true },
+      email: { type: String, trim: true },
+      phone: { type: String, trim: true },
+      address: { type: String, trim: true },
+      gstin: { type: String, trim: true },
+      state: { type: String, trim: true },
+    },
+    buyer: {
+      name: { type: String, required: [true, 'Buyer name is required'], trim: true },
+      email: { type: String, required: [true, 'Buyer email is required'], trim: true },
+      phone: { type: String, trim: true },
+      address: { type: String, trim: true },
+      state: { type: String, trim: true },
+    },
+    description: {
+      type: String,
+      required: [true, 'Description is required'],
+      trim: true,
+    },
+    // Taxable value credited, before tax
+    subtotal: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be positive'],
+    },
+    taxLines: {
+      type: [CreditNoteTaxLineSchema],
+      default: [],
+    },
+    taxTotal: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      required: [true, 'Total is required'],
+    },
+    // Set when the invoice was already paid: the credit went back to the customer through the provider
+    refund: {
+      type: new Schema(
+        {
+          amount: { type: Number, required: [true, 'Refund amount is required'], min: [0, 'Refund amount cannot be negative'] },
+          provider: { type: String, enum: ['razorpay', 'stub'], required: true },
+          providerRefundId: { type: String, trim: true },
+          status: { type: String, enum: ['pending', 'processed'], default: 'pending' },
+          processedAt: Date,
+        },
+        { _id: false }
+      ),
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    issuedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    issuedByName: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+CreditNoteSchema.index({ endUserId: 1, creditNoteNumber: 1 }, { unique: true }); // Numbers are unique per end user
+CreditNoteSchema.index({ endUserId: 1, issuedAt: -1 }); // End user lists and revenue reports
+CreditNoteSchema.index({ customerId: 1, issuedAt: -1 }); // Customer lists
+CreditNoteSchema.index({ invoiceId: 1 }); // Credit notes of an invoice
+CreditNoteSchema.index({ 'refund.providerRefundId': 1 }, { sparse: true }); // Webhook lookups
+
+CreditNoteSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Credit notes cannot be changed once issued'));
+  }
+  logger.database('CREATE', 'CreditNote', {
+    creditNote: this.creditNoteNumber,
+    invoice: this.invoiceNumber,
+    endUser: this.endUserId?.toString(),
+    reason: this.reason,
+    total: this.total,
+  });
+  next();
+});
+
+// Static method to take the enduser's next credit note number
+CreditNoteSchema.statics.nextCreditNoteNumber = async function (endUserId: string): Promise<string> {
+  const seq = await Counter.next(`credit-note:${endUserId}`);
+  return `CN/${String(seq).padStart(4, '0')}`;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const CreditNote = (mongoose.models.CreditNote as CreditNoteModel) || mongoose.model<ICreditNote, CreditNoteModel>('CreditNote', CreditNoteSchema);
+
+export default CreditNote;
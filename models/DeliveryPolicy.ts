@@ -0,0 +1,203 @@
+/**
+ * Delivery Policy Model
+ * Per-enduser delivery options: store pickup, and delivery at a flat rate, per pincode zone or by
+ * distance band from the store, limited to the pincodes the enduser serves. The maths lives in
+ * lib/delivery.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import {
+  DEFAULT_DELIVERY_POLICY,
+  DeliveryChargeType,
+  DeliveryPolicyLike,
+  DeliveryZone,
+  DistanceBand,
+  GeoPoint,
+  PINCODE_PATTERN,
+} from '@/lib/delivery';
+
+// Define the interface for DeliveryPolicy
+interface IDeliveryPolicy extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  pickupEnabled: boolean;
+  pickupAddress?: string;
+  deliveryEnabled: boolean;
+  chargeType: DeliveryChargeType;
+  flatCharge: number;
+  freeAbove?: number;
+  serviceablePincodes: string[];
+  zones: DeliveryZone[];
+  origin?: GeoPoint;
+  distanceBands: DistanceBand[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const validPincodes = (pincodes: string[]) => pincodes.every((pincode) => PINCODE_PATTERN.test(pincode));
+
+// Zone sub-schema: the pincodes in the zone and what delivery there costs
+const DeliveryZoneSchema = new Schema<DeliveryZone>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Zone name is required'],
+      trim: true,
+      maxlength: [50, 'Zone name cannot exceed 50 characters'],
+    },
+    pincodes: {
+      type: [String],
+      validate: [
+        { validator: (pincodes: string[]) => pincodes.length > 0, message: 'A zone needs at least one pincode' },
+        { validator: validPincodes, message: 'Pincodes must be 6 digits' },
+      ],
+    },
+    charge: {
+      type: Number,
+      required: [true, 'Zone charge is required'],
+      min: [0, 'Delivery charge cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Distance band sub-schema: deliveries up to this far cost this much
+const DistanceBandSchema = new Schema<DistanceBand>(
+  {
+    upToKm: {
+      type: Number,
+      required: [true, 'Band distance is required'],
+      min: [0.1, 'Band distance must be positive'],
+      max: [500, 'Band distance cannot exceed 500 km'],
+    },
+    charge: {
+      type: Number,
+      required: [true, 'Band charge is required'],
+      min: [0, 'Delivery charge cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Static methods of the DeliveryPolicy model
+interface IDeliveryPolicyStatics {
+  forEndUsers(endUserIds: (string | Types.ObjectId)[]): Promise<Map<string, DeliveryPolicyLike>>;
+}
+
+type DeliveryPolicyModel = Model<IDeliveryPolicy, {}, {}> & IDeliveryPolicyStatics;
+
+// Delivery policy schema definition
+const DeliveryPolicySchema: Schema<IDeliveryPolicy> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+      unique: true,
+    },
+    pickupEnabled: {
+      type: Boolean,
+      default: DEFAULT_DELIVERY_POLICY.pickupEnabled,
+    },
+    pickupAddress: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Pickup address cannot exceed 200 characters'],
+    },
+    deliveryEnabled: {
+      type: Boolean,
+      default: DEFAULT_DELIVERY_POLICY.deliveryEnabled,
+    },
+    chargeType: {
+      type: String,
+      enum: {
+        values: ['flat', 'zone', 'distance'],
+        message: 'Delivery is charged at a flat rate, per zone or by distance',
+      },
+      default: DEFAULT_DELIVERY_POLICY.chargeType,
+    },
+    flatCharge: {
+      type: Number,
+      min: [0, 'Delivery charge cannot be negative'],
+      default: DEFAULT_DELIVERY_POLICY.flatCharge,
+    },
+    freeAbove: {
+      type: Number,
+      min: [0, 'Free delivery threshold cannot be negative'],
+    },
+    serviceablePincodes: {
+      type: [String],
+      default: [],
+      validate: { validator: validPincodes, message: 'Pincodes must be 6 digits' },
+    },
+    zones: {
+      type: [DeliveryZoneSchema],
+      default: [],
+      validate: [
+        {
+          validator: function (this: any, zones: DeliveryZone[]) {
+            return this.chargeType !== 'zone' || !this.deliveryEnabled || zones.length > 0;
+          },
+          message: 'Zone delivery needs at least one zone',
+        },
+        {
+          validator: (zones: DeliveryZone[]) => {
+            const pincodes = zones.flatMap((zone) => zone.pincodes);
+            return new Set(pincodes).size === pincodes.length;
+          },
+          message: 'A pincode can only be in one zone',
+        },
+      ],
+    },
+    // Where distances are measured from, usually the store
+    origin: {
+      latitude: { type: Number, min: [-90, 'Invalid latitude'], max: [90, 'Invalid latitude'] },
+      longitude: { type: Number, min: [-180, 'Invalid longitude'], max: [180, 'Invalid longitude'] },
+    },
+    distanceBands: {
+      type: [DistanceBandSchema],
+      default: [],
+      validate: [
+        {
+          validator: function (this: any, bands: DistanceBand[]) {
+            if (this.chargeType !== 'distance' || !this.deliveryEnabled) return true;
+            return bands.length > 0 && this.origin?.latitude != null && this.origin?.longitude != null;
+          },
+          message: 'Distance delivery needs the store location and at least one distance band',
+        },
+        {
+          validator: (bands: DistanceBand[]) => new Set(bands.map((band) => band.upToKm)).size === bands.length,
+          message: 'Each distance can only have one band',
+        },
+      ],
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+DeliveryPolicySchema.pre('save', function (next) {
+  logger.database('SAVE', 'DeliveryPolicy', {
+    endUserId: this.endUserId?.toString(),
+    pickup: this.pickupEnabled,
+    delivery: this.deliveryEnabled,
+    chargeType: this.chargeType,
+    pincodes: this.serviceablePincodes.length,
+  });
+  next();
+});
+
+// Static method to get the policies of several endusers at once, keyed by enduser id; endusers without one are left out
+DeliveryPolicySchema.statics.forEndUsers = async function (endUserIds: (string | Types.ObjectId)[]): Promise<Map<string, DeliveryPolicyLike>> {
+  const ids = Array.from(new Set(endUserIds.filter(Boolean).map(id => id.toString())));
+  const policies = ids.length ? await this.find({ endUserId: { $in: ids } }).lean() : [];
+  return new Map(policies.map((policy: any) => [policy.endUserId.toString(), policy as DeliveryPolicyLike]));
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const DeliveryPolicy = (mongoose.models.DeliveryPolicy as DeliveryPolicyModel) || mongoose.model<IDeliveryPolicy, DeliveryPolicyModel>('DeliveryPolicy', DeliveryPolicySchema);
+
+export default DeliveryPolicy;
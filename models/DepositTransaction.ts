@@ -0,0 +1,137 @@
+/**
+ * Deposit Transaction Model for Security Deposit Auditing
+ * Append-only ledger of every movement of a rental order's security deposit:
+ * collected at checkout, deducted for damage or late return, released back to the customer.
+ */
+
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export type DepositTransactionType = 'collect' | 'deduct' | 'release';
+export type DepositDeductionCategory = 'damage' | 'late' | 'cleaning' | 'other';
+
+// Define the interface for DepositTransaction
+interface IDepositTransaction extends mongoose.Document {
+  _id: Types.ObjectId;
+  rentalOrderId: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  type: DepositTransactionType;
+  category?: DepositDeductionCategory;
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  providerRefundId?: string;
+  performedBy?: Types.ObjectId;
+  performedByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type DepositTransactionDocument = HydratedDocument<IDepositTransaction, {}>;
+
+// Static methods of the DepositTransaction model
+interface IDepositTransactionStatics {
+  findByOrder(rentalOrderId: string | Types.ObjectId): Query<DepositTransactionDocument[], DepositTransactionDocument>;
+}
+
+type DepositTransactionModel = Model<IDepositTransaction, {}, {}> & IDepositTransactionStatics;
+
+// Deposit transaction schema definition
+const DepositTransactionSchema: Schema<IDepositTransaction> = new Schema(
+  {
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order ID is required'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['collect', 'deduct', 'release'],
+        message: 'Invalid deposit transaction type',
+      },
+      required: [true, 'Transaction type is required'],
+    },
+    category: {
+      type: String,
+      enum: {
+        values: ['damage', 'late', 'cleaning', 'other'],
+        message: 'Invalid deduction category',
+      },
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0, 'Amount cannot be negative'],
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+      min: [0, 'Deposit balance cannot be negative'],
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+      maxlength: [200, 'Reason cannot exceed 200 characters'],
+    },
+    providerRefundId: {
+      type: String,
+      trim: true,
+    },
+    performedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    performedByName: {
+      type: String,
+      trim: true,
+      default: 'System',
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+DepositTransactionSchema.index({ rentalOrderId: 1, createdAt: 1 }); // Order deposit history, oldest first
+DepositTransactionSchema.index({ endUserId: 1, createdAt: -1 }); // Owner-wide audit
+
+// Ledger entries are never edited after being written
+DepositTransactionSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Deposit transactions are immutable'));
+  }
+
+  logger.database('INSERT', 'DepositTransaction', {
+    order: this.rentalOrderId,
+    type: this.type,
+    amount: this.amount,
+    balanceAfter: this.balanceAfter,
+  });
+
+  next();
+});
+
+// Static method to fetch the deposit history of an order
+DepositTransactionSchema.statics.findByOrder = function (rentalOrderId: string | Types.ObjectId) {
+  return this.find({ rentalOrderId }).sort({ createdAt: 1 });
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const DepositTransaction = (mongoose.models.DepositTransaction as DepositTransactionModel) || mongoose.model<IDepositTransaction, DepositTransactionModel>('DepositTransaction', DepositTransactionSchema);
+
+export default DepositTransaction;
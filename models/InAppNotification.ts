@@ -0,0 +1,137 @@
+/**
+ * In-App Notification Model
+ * Feed entries behind the bell icon: one row per recipient, unread until they open it
+ */
+
+import mongoose, { Model, Schema, UpdateWriteOpResult } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export type InAppNotificationKind =
+  | 'new_order'
+  | 'order_status'
+  | 'low_stock'
+  | 'payment_received'
+  | 'overdue'
+  | 'price_drop'
+  | 'back_in_stock';
+
+export const IN_APP_NOTIFICATION_KINDS: InAppNotificationKind[] = [
+  'new_order',
+  'order_status',
+  'low_stock',
+  'payment_received',
+  'overdue',
+  'price_drop',
+  'back_in_stock',
+];
+
+// Define the interface for InAppNotification
+interface IInAppNotification extends mongoose.Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  kind: InAppNotificationKind;
+  title: string;
+  message: string;
+  link?: string;
+  rentalOrderId?: Types.ObjectId;
+  productId?: Types.ObjectId;
+  key?: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// In-app notification schema definition
+// Static methods of the InAppNotification model
+interface IInAppNotificationStatics {
+  countUnread(userId: string | Types.ObjectId): Promise<number>;
+  markRead(userId: string | Types.ObjectId, ids?: string[]): Promise<UpdateWriteOpResult>;
+}
+
+type InAppNotificationModel = Model<IInAppNotification, {}, {}> & IInAppNotificationStatics;
+
+const InAppNotificationSchema: Schema<IInAppNotification> = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Recipient is required'],
+    },
+    kind: {
+      type: String,
+      enum: {
+        values: IN_APP_NOTIFICATION_KINDS,
+        message: 'Invalid notification kind',
+      },
+      required: [true, 'Notification kind is required'],
+    },
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [120, 'Title cannot exceed 120 characters'],
+    },
+    message: {
+      type: String,
+      required: [true, 'Message is required'],
+      trim: true,
+      maxlength: [500, 'Message cannot exceed 500 characters'],
+    },
+    link: {
+      type: String,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+    },
+    // Set for events that must only be announced once (e.g. an order going overdue, a given price drop)
+    key: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Feed and unread badge queries
+InAppNotificationSchema.index({ userId: 1, createdAt: -1 });
+InAppNotificationSchema.index({ userId: 1, readAt: 1 });
+
+InAppNotificationSchema.pre('save', function (next) {
+  if (this.isNew) {
+    logger.database('CREATE', 'InAppNotification', {
+      userId: this.userId?.toString(),
+      kind: this.kind,
+      key: this.key,
+    });
+  }
+  next();
+});
+
+// Static method to count a user's unread notifications
+InAppNotificationSchema.statics.countUnread = function (userId: string | Types.ObjectId) {
+  return this.countDocuments({ userId, readAt: null });
+};
+
+// Static method to mark a user's notifications read: the given ones, or all of them
+InAppNotificationSchema.statics.markRead = function (userId: string | Types.ObjectId, ids?: string[]) {
+  const filter: any = { userId, readAt: null };
+  if (ids) filter._id = { $in: ids };
+  return this.updateMany(filter, { $set: { readAt: new Date() } });
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const InAppNotification = (mongoose.models.InAppNotification as InAppNotificationModel) || mongoose.model<IInAppNotification, InAppNotificationModel>('InAppNotification', InAppNotificationSchema);
+
+export default InAppNotification;
@@ -0,0 +1,360 @@
+/**
+ * Invoice Model for Tax Invoices
+ * The invoice an enduser issues for their lines of an order, with the seller and buyer details
+ * as they were at the time and GST-style tax lines. Numbers are given out per enduser when the
+ * invoice is posted (INV/0001, INV/0002, ...), so drafts that are voided never leave a gap.
+ */
+
+import mongoose, { HydratedDocument, Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { StatusTransitionError } from '@/lib/statusTransitions';
+import Counter from '@/models/Counter';
+import type { SupplyType } from '@/lib/tax';
+
+export type InvoiceStatus = 'draft' | 'posted' | 'paid' | 'void';
+
+// Rental invoices are written with the order; late fee invoices when a late line comes back
+export type InvoiceKind = 'rental' | 'late_fees';
+
+// Statuses an invoice may move to from each status; paid and void are final
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['posted', 'void'],
+  posted: ['paid', 'void'],
+  paid: [],
+  void: [],
+};
+
+// Days a posted invoice has to be paid before it counts as overdue
+export const INVOICE_PAYMENT_TERMS_DAYS = 15;
+
+// Define the interface for an invoice line
+interface IInvoiceLine {
+  rentalOrderId?: Types.ObjectId;
+  description: string;
+  startDate?: Date;
+  endDate?: Date;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  taxRate?: number;
+  taxAmount?: number;
+}
+
+// Define the interface for a tax line
+interface IInvoiceTaxLine {
+  label: string;
+  rate: number;
+  taxableValue: number;
+  amount: number;
+}
+
+// Define the interface for Invoice
+interface IInvoice extends mongoose.Document {
+  _id: Types.ObjectId;
+  invoiceNumber?: string;
+  status: InvoiceStatus;
+  kind: InvoiceKind;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  orderId?: Types.ObjectId;
+  orderNumber?: string;
+  rentalOrderIds: Types.ObjectId[];
+  seller: { name: string; companyName?: string; email?: string; phone?: string; address?: string; gstin?: string; state?: string };
+  buyer: { name: string; email: string; phone?: string; address?: string; state?: string };
+  supply: SupplyType;
+  lines: IInvoiceLine[];
+  taxLines: IInvoiceTaxLine[];
+  subtotal: number;
+  discount: number;
+  taxTotal: number;
+  total: number;
+  creditedTotal: number;
+  issuedAt?: Date;
+  dueDate?: Date;
+  paidAt?: Date;
+  voidedAt?: Date;
+  voidReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Invoice line sub-schema
+const InvoiceLineSchema = new Schema<IInvoiceLine>(
+  {
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+    description: {
+      type: String,
+      required: [true, 'Description is required'],
+      trim: true,
+    },
+    startDate: Date,
+    endDate: Date,
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, 'Unit price is required'],
+      min: [0, 'Price cannot be negative'],
+    },
+    // Taxable value of the line, before tax
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0, 'Amount cannot be negative'],
+    },
+    taxRate: {
+      type: Number,
+      min: [0, 'Tax rate cannot be negative'],
+    },
+    taxAmount: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Tax line sub-schema, one per tax component
+const InvoiceTaxLineSchema = new Schema<IInvoiceTaxLine>(
+  {
+    label: {
+      type: String,
+      required: [true, 'Tax label is required'],
+      trim: true,
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Tax rate is required'],
+      min: [0, 'Tax rate cannot be negative'],
+    },
+    taxableValue: {
+      type: Number,
+      required: [true, 'Taxable value is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Tax amount is required'],
+    },
+  },
+  { _id: false }
+);
+
+// Instance methods of a invoice
+interface IInvoiceMethods {
+  canTransitionTo(status: InvoiceStatus): boolean;
+  updateStatus(status: InvoiceStatus, reason?: string): Promise<InvoiceDocument>;
+}
+
+type InvoiceDocument = HydratedDocument<IInvoice, IInvoiceMethods>;
+
+type InvoiceModel = Model<IInvoice, {}, IInvoiceMethods>;
+
+// Invoice schema definition
+const InvoiceSchema: Schema<IInvoice> = new Schema(
+  {
+    // Set when the invoice is posted
+    invoiceNumber: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['draft', 'posted', 'paid', 'void'],
+        message: 'Invalid invoice status',
+      },
+      default: 'draft',
+    },
+    kind: {
+      type: String,
+      enum: {
+        values: ['rental', 'late_fees'],
+        message: 'Invalid invoice kind',
+      },
+      default: 'rental',
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+    },
+    orderNumber: {
+      type: String,
+      trim: true,
+    },
+    rentalOrderIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    }],
+    seller: {
+      name: { type: String, required: [true, 'Seller name is required'], trim: true },
+      companyName: { type: String, trim: true },
+      email: { type: String, trim: true },
+      phone: { type: String, trim: true },
+      address: { type: String, trim: true },
+      gstin: { type: String, trim: true },
+      state: { type: String, trim: true },
+    },
+    buyer: {
+      name: { type: String, required: [true, 'Buyer name is required'], trim: true },
+      email: { type: String, required: [true, 'Buyer email is required'], trim: true },
+      phone: { type: String, trim: true },
+      address: { type: String, trim: true },
+      state: { type: String, trim: true }, // place of supply
+    },
+    // CGST + SGST when the buyer is in the seller's state, IGST otherwise
+    supply: {
+      type: String,
+      enum: {
+        values: ['intra_state', 'inter_state'],
+        message: 'Invalid supply type',
+      },
+      default: 'intra_state',
+    },
+    lines: {
+      type: [InvoiceLineSchema],
+      validate: {
+        validator: (lines: IInvoiceLine[]) => Array.isArray(lines) && lines.length > 0,
+        message: 'An invoice needs at least one line',
+      },
+    },
+    taxLines: {
+      type: [InvoiceTaxLineSchema],
+      default: [],
+    },
+    subtotal: {
+      type: Number,
+      min: [0, 'Subtotal cannot be negative'],
+      default: 0,
+    },
+    discount: {
+      type: Number,
+      min: [0, 'Discount cannot be negative'],
+      default: 0,
+    },
+    taxTotal: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0,
+    },
+    // Sum of the credit notes issued against the invoice; the customer owes total - creditedTotal
+    creditedTotal: {
+      type: Number,
+      min: [0, 'Credited total cannot be negative'],
+      default: 0,
+    },
+    issuedAt: Date,
+    dueDate: Date,
+    paidAt: Date,
+    voidedAt: Date,
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Reason cannot exceed 200 characters'],
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+InvoiceSchema.index({ endUserId: 1, invoiceNumber: 1 }, { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } }); // Numbers are unique per end user
+InvoiceSchema.index({ endUserId: 1, createdAt: -1 }); // End user invoice lists
+InvoiceSchema.index({ customerId: 1, createdAt: -1 }); // Customer invoice lists
+InvoiceSchema.index({ orderId: 1 }); // Invoices of an order
+// One live rental invoice per enduser and order, so the browser and the payment webhook can't both
+// write it; voided invoices step aside through voidedAt so the lines can be invoiced again
+InvoiceSchema.index(
+  { orderId: 1, endUserId: 1, voidedAt: 1 },
+  { unique: true, partialFilterExpression: { orderId: { $exists: true }, kind: 'rental' } }
+);
+InvoiceSchema.index(
+  { rentalOrderIds: 1, voidedAt: 1 },
+  { unique: true, partialFilterExpression: { kind: 'late_fees' } }
+); // One live late fee invoice per line
+InvoiceSchema.index({ rentalOrderIds: 1 }); // Invoice of an order line
+InvoiceSchema.index({ endUserId: 1, status: 1, dueDate: 1 }); // Overdue invoices
+
+InvoiceSchema.pre('save', function (next) {
+  logger.database(this.isNew ? 'CREATE' : 'UPDATE', 'Invoice', {
+    invoice: this.invoiceNumber,
+    order: this.orderNumber,
+    endUser: this.endUserId?.toString(),
+    status: this.status,
+    total: this.total,
+  });
+  next();
+});
+
+// Instance method to check whether the invoice may move to a status
+InvoiceSchema.methods.canTransitionTo = function (status: InvoiceStatus): boolean {
+  return (INVOICE_STATUS_TRANSITIONS[this.status as InvoiceStatus] || []).includes(status);
+};
+
+// Instance method to move the invoice to a new status; posting gives it the enduser's next number
+InvoiceSchema.methods.updateStatus = async function (status: InvoiceStatus, reason?: string) {
+  if (!this.canTransitionTo(status)) {
+    throw new StatusTransitionError(`Cannot move an invoice from "${this.status}" to "${status}"`);
+  }
+
+  const now = new Date();
+  if (status === 'posted') {
+    this.issuedAt = now;
+    this.dueDate = new Date(now.getTime() + INVOICE_PAYMENT_TERMS_DAYS * 24 * 60 * 60 * 1000);
+  } else if (status === 'paid') {
+    this.paidAt = now;
+  } else if (status === 'void') {
+    this.voidedAt = now;
+    this.voidReason = reason;
+  }
+  this.status = status;
+  if (status !== 'posted') {
+    await this.save();
+    return this;
+  }
+
+  // Numbers are gapless: the invoice is checked before it takes one, and a number it could not
+  // be saved with is handed back
+  await this.validate();
+  const sequence = `invoice:${this.endUserId.toString()}`;
+  const seq = await Counter.next(sequence);
+  this.invoiceNumber = `INV/${String(seq).padStart(4, '0')}`;
+  try {
+    await this.save();
+  } catch (error) {
+    const released = await Counter.release(sequence, seq);
+    if (!released) {
+      logger.error('invoice number lost', { invoice: this.invoiceNumber, endUser: this.endUserId.toString() });
+    }
+    this.invoiceNumber = undefined;
+    throw error;
+  }
+  return this;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Invoice = (mongoose.models.Invoice as InvoiceModel) || mongoose.model<IInvoice, InvoiceModel>('Invoice', InvoiceSchema);
+
+export default Invoice;
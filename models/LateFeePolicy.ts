@@ -0,0 +1,269 @@
+/**
+ * Late Fee Policy Model
+ * Per-enduser rules for what an overdue rental costs: a grace period, a flat amount or a
+ * percentage of the product's daily rate charged per day or hour, an optional cap, and
+ * overrides for single products or whole categories.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { cheapestRateCombination, roundMoney } from '@/lib/pricing';
+
+export type LateFeeBasis = 'flat' | 'percentage';
+export type LateFeePeriod = 'day' | 'hour';
+
+export interface LateFeeRule {
+  gracePeriodHours: number;
+  basis: LateFeeBasis;
+  amount: number; // ₹ per period, or % of the daily rate per period
+  per: LateFeePeriod;
+  cap?: number | null; // most a single unit can be charged; unset means no cap
+}
+
+export interface LateFeeOverride extends Partial<LateFeeRule> {
+  productId?: Types.ObjectId | string;
+  category?: string;
+}
+
+// Used when an enduser hasn't set a policy: ₹100 per unit for every started day overdue
+export const DEFAULT_LATE_FEE_RULE: LateFeeRule = {
+  gracePeriodHours: 0,
+  basis: 'flat',
+  amount: 100,
+  per: 'day',
+  cap: null,
+};
+
+const PERIOD_HOURS: Record<LateFeePeriod, number> = { hour: 1, day: 24 };
+const HOUR_MS = 60 * 60 * 1000;
+
+// A resolved rule plus the daily rate percentage rules are charged against
+export interface LateFeeLookup {
+  rule: LateFeeRule;
+  dailyRate: number;
+}
+
+export interface LateFeeInput {
+  endDate: Date | string;
+  quantity?: number;
+  dailyRate?: number; // only needed for percentage rules
+  now?: Date;
+}
+
+export interface LateFeeBreakdown {
+  periodsLate: number;
+  per: LateFeePeriod;
+  ratePerPeriod: number;
+  capped: boolean;
+  quantity: number;
+  fee: number;
+}
+
+/**
+ * Late fee owed under a rule: started periods past the end date plus grace × rate, capped per unit, × quantity
+ */
+export function calculateLateFee(rule: LateFeeRule, input: LateFeeInput): LateFeeBreakdown {
+  const now = input.now || new Date();
+  const quantity = input.quantity || 1;
+  const overdueMs = now.getTime() - new Date(input.endDate).getTime() - (rule.gracePeriodHours || 0) * HOUR_MS;
+  const periodsLate = overdueMs > 0 ? Math.ceil(overdueMs / (PERIOD_HOURS[rule.per] * HOUR_MS)) : 0;
+
+  const ratePerPeriod = rule.basis === 'percentage'
+    ? roundMoney(((input.dailyRate || 0) * rule.amount) / 100)
+    : rule.amount;
+
+  let perUnit = periodsLate * ratePerPeriod;
+  const capped = rule.cap != null && perUnit > rule.cap;
+  if (capped) perUnit = rule.cap as number;
+
+  return { periodsLate, per: rule.per, ratePerPeriod, capped, quantity, fee: roundMoney(perUnit * quantity) };
+}
+
+/**
+ * The rule that applies to a product: its own override, then its category's, then the policy default.
+ * Override fields left unset inherit from the policy default.
+ */
+export function resolveLateFeeRule(policy: any, product: any): LateFeeRule {
+  if (!policy) return DEFAULT_LATE_FEE_RULE;
+
+  const base: LateFeeRule = {
+    gracePeriodHours: policy.gracePeriodHours ?? DEFAULT_LATE_FEE_RULE.gracePeriodHours,
+    basis: policy.basis || DEFAULT_LATE_FEE_RULE.basis,
+    amount: policy.amount ?? DEFAULT_LATE_FEE_RULE.amount,
+    per: policy.per || DEFAULT_LATE_FEE_RULE.per,
+    cap: policy.cap ?? null,
+  };
+
+  const overrides: LateFeeOverride[] = policy.overrides || [];
+  const productId = (product?._id || product)?.toString();
+  const override =
+    overrides.find(o => o.productId && o.productId.toString() === productId) ||
+    overrides.find(o => !o.productId && o.category && o.category === product?.category);
+  if (!override) return base;
+
+  return {
+    gracePeriodHours: override.gracePeriodHours ?? base.gracePeriodHours,
+    basis: override.basis || base.basis,
+    amount: override.amount ?? base.amount,
+    per: override.per || base.per,
+    cap: override.cap !== undefined ? override.cap : base.cap,
+  };
+}
+
+/**
+ * Daily rate percentage rules are based on: the product's day price, or the cheapest way to rent it for 24 hours
+ */
+export function dailyRateOf(product: any): number {
+  if (product?.pricePerDay > 0) return product.pricePerDay;
+  try {
+    return cheapestRateCombination(product || {}, 24).total;
+  } catch {
+    return 0;
+  }
+}
+
+// Define the interface for LateFeePolicy
+interface ILateFeePolicy extends mongoose.Document, LateFeeRule {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  overrides: LateFeeOverride[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Override fields left unset inherit from the policy's own rule
+const LateFeeOverrideSchema = new Schema<LateFeeOverride>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+    },
+    category: {
+      type: String,
+      trim: true,
+    },
+    gracePeriodHours: {
+      type: Number,
+      min: [0, 'Grace period cannot be negative'],
+      max: [24 * 30, 'Grace period cannot exceed 30 days'],
+    },
+    basis: {
+      type: String,
+      enum: {
+        values: ['flat', 'percentage'],
+        message: 'Late fee basis must be flat or percentage',
+      },
+    },
+    amount: {
+      type: Number,
+      min: [0, 'Late fee cannot be negative'],
+      max: [1000000, 'Late fee seems too high'],
+    },
+    per: {
+      type: String,
+      enum: {
+        values: ['day', 'hour'],
+        message: 'Late fees are charged per day or per hour',
+      },
+    },
+    cap: {
+      type: Number,
+      min: [0, 'Late fee cap cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Static methods of the LateFeePolicy model
+interface ILateFeePolicyStatics {
+  ruleForProduct(product: any): Promise<LateFeeLookup>;
+}
+
+type LateFeePolicyModel = Model<ILateFeePolicy, {}, {}> & ILateFeePolicyStatics;
+
+// Late fee policy schema definition
+const LateFeePolicySchema: Schema<ILateFeePolicy> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+      unique: true,
+    },
+    gracePeriodHours: {
+      type: Number,
+      min: [0, 'Grace period cannot be negative'],
+      max: [24 * 30, 'Grace period cannot exceed 30 days'],
+      default: DEFAULT_LATE_FEE_RULE.gracePeriodHours,
+    },
+    basis: {
+      type: String,
+      enum: {
+        values: ['flat', 'percentage'],
+        message: 'Late fee basis must be flat or percentage',
+      },
+      default: DEFAULT_LATE_FEE_RULE.basis,
+    },
+    amount: {
+      type: Number,
+      min: [0, 'Late fee cannot be negative'],
+      max: [1000000, 'Late fee seems too high'],
+      default: DEFAULT_LATE_FEE_RULE.amount,
+    },
+    per: {
+      type: String,
+      enum: {
+        values: ['day', 'hour'],
+        message: 'Late fees are charged per day or per hour',
+      },
+      default: DEFAULT_LATE_FEE_RULE.per,
+    },
+    cap: {
+      type: Number,
+      min: [0, 'Late fee cap cannot be negative'],
+    },
+    overrides: {
+      type: [LateFeeOverrideSchema],
+      default: [],
+      validate: [
+        {
+          validator: (overrides: LateFeeOverride[]) => overrides.every(o => !o.productId !== !o.category),
+          message: 'Each override applies to either one product or one category',
+        },
+        {
+          validator: function (overrides: LateFeeOverride[]) {
+            const targets = overrides.map(o => (o.productId ? `product:${o.productId}` : `category:${o.category}`));
+            return new Set(targets).size === targets.length;
+          },
+          message: 'Each product or category can only have one override',
+        },
+      ],
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+LateFeePolicySchema.pre('save', function (next) {
+  logger.database('SAVE', 'LateFeePolicy', {
+    endUserId: this.endUserId?.toString(),
+    basis: this.basis,
+    amount: this.amount,
+    per: this.per,
+    overrides: this.overrides.length,
+  });
+  next();
+});
+
+// Static method to get the rule and daily rate a product's late fees are charged with
+LateFeePolicySchema.statics.ruleForProduct = async function (product: any): Promise<LateFeeLookup> {
+  const policy = product?.endUserId ? await this.findOne({ endUserId: product.endUserId }).lean() : null;
+  return { rule: resolveLateFeeRule(policy, product), dailyRate: dailyRateOf(product) };
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const LateFeePolicy = (mongoose.models.LateFeePolicy as LateFeePolicyModel) || mongoose.model<ILateFeePolicy, LateFeePolicyModel>('LateFeePolicy', LateFeePolicySchema);
+
+export default LateFeePolicy;
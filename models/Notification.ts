@@ -0,0 +1,135 @@
+/**
+ * Notification Model
+ * Log of every message sent (or attempted) to a customer about a rental order. The unique key
+ * makes each reminder go out once even when the reminder job runs more often than needed.
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { NOTIFICATION_TYPES, NotificationType } from '@/lib/notificationTemplates';
+
+export type NotificationStatus = 'sending' | 'sent' | 'failed' | 'skipped';
+
+// Define the interface for Notification
+interface INotification extends mongoose.Document {
+  _id: Types.ObjectId;
+  key: string;
+  type: NotificationType;
+  channel: 'email';
+  transport?: string;
+  rentalOrderId?: Types.ObjectId;
+  endUserId?: Types.ObjectId;
+  customerId?: Types.ObjectId;
+  recipient?: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  error?: string;
+  messageId?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Notification schema definition
+const NotificationSchema: Schema<INotification> = new Schema(
+  {
+    key: {
+      type: String,
+      required: [true, 'Notification key is required'],
+      unique: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: NOTIFICATION_TYPES,
+        message: 'Invalid notification type',
+      },
+      required: [true, 'Notification type is required'],
+    },
+    channel: {
+      type: String,
+      enum: ['email'],
+      default: 'email',
+    },
+    transport: {
+      type: String,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    recipient: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+    },
+    body: {
+      type: String,
+      required: [true, 'Body is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['sending', 'sent', 'failed', 'skipped'],
+        message: 'Invalid notification status',
+      },
+      default: 'sending',
+    },
+    attempts: {
+      type: Number,
+      default: 1,
+    },
+    error: {
+      type: String,
+    },
+    messageId: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for staff views
+NotificationSchema.index({ endUserId: 1, createdAt: -1 });
+NotificationSchema.index({ rentalOrderId: 1, createdAt: -1 });
+NotificationSchema.index({ status: 1 });
+
+NotificationSchema.pre('save', function (next) {
+  logger.database('SAVE', 'Notification', {
+    key: this.key,
+    type: this.type,
+    status: this.status,
+    recipient: this.recipient,
+  });
+  next();
+});
+
+// Static method to list the messages sent about an order, newest first
+NotificationSchema.statics.findByOrder = function (rentalOrderId: string | Types.ObjectId) {
+  return this.find({ rentalOrderId }).sort({ createdAt: -1 });
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Notification = mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
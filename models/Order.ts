@@ -0,0 +1,243 @@
+/**
+ * Order Model
+ * The header a customer sees as "one order": a shared order number, payment and delivery address
+ * over one or more RentalOrder lines. Each line keeps its own product, quantity, dates, price and
+ * lifecycle; the header holds what the checkout charged for all of them together.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+import type { RentalOrderStatus } from '@/models/RentalOrder';
+import type { TaxComponent } from '@/lib/tax';
+import { DELIVERY_METHODS, DeliveryMethod } from '@/lib/delivery';
+
+// Line statuses in the order they describe the whole order: one late line makes the order late
+const SUMMARY_PRECEDENCE: RentalOrderStatus[] = ['late', 'delivered', 'reserved', 'confirmed', 'quotation', 'returned'];
+
+/**
+ * One status for an order from its lines' statuses. Cancelled lines are ignored unless every line is cancelled.
+ */
+export function summarizeOrderStatus(statuses: string[]): RentalOrderStatus {
+  const open = statuses.filter((status) => status !== 'cancelled');
+  if (open.length === 0) return 'cancelled';
+  return SUMMARY_PRECEDENCE.find((status) => open.includes(status)) || (open[0] as RentalOrderStatus);
+}
+
+export interface IOrderAddress {
+  name?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+}
+
+// Define the interface for Order
+interface IOrder extends mongoose.Document {
+  _id: Types.ObjectId;
+  orderNumber: string;
+  customerId: Types.ObjectId;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  endUserIds: Types.ObjectId[];
+  source: 'checkout' | 'quotation';
+  quotationId?: Types.ObjectId;
+  deliveryAddress?: IOrderAddress;
+  deliveryMethod?: DeliveryMethod;
+  paymentId?: Types.ObjectId;
+  paymentStatus: 'pending' | 'partial' | 'paid' | 'failed' | 'refunded';
+  couponCode?: string;
+  subtotal: number;
+  discount: number;
+  deliveryCharge: number;
+  tax: number;
+  taxIncluded: number;
+  taxLines: TaxComponent[];
+  deposit: number;
+  total: number;
+  lineCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Delivery address sub-schema, the same shape the checkout collects
+const OrderAddressSchema = new Schema<IOrderAddress>(
+  {
+    name: { type: String, trim: true },
+    phone: { type: String, trim: true },
+    address: { type: String, trim: true },
+    city: { type: String, trim: true },
+    state: { type: String, trim: true },
+    zipCode: { type: String, trim: true },
+    country: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+// Static methods of the Order model
+interface IOrderStatics {
+  nextOrderNumber(): Promise<string>;
+}
+
+type OrderModel = Model<IOrder, {}, {}> & IOrderStatics;
+
+// Order schema definition
+const OrderSchema: Schema<IOrder> = new Schema(
+  {
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      unique: true,
+      trim: true,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    customerName: {
+      type: String,
+      required: [true, 'Customer name is required'],
+      trim: true,
+    },
+    customerEmail: {
+      type: String,
+      required: [true, 'Customer email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+    },
+    // Every enduser with a line in the order, so each sees it in their own list
+    endUserIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    source: {
+      type: String,
+      enum: {
+        values: ['checkout', 'quotation'],
+        message: 'Invalid order source',
+      },
+      default: 'checkout',
+    },
+    quotationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Quotation',
+    },
+    deliveryAddress: {
+      type: OrderAddressSchema,
+    },
+    paymentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payment',
+    },
+    paymentStatus: {
+      type: String,
+      enum: {
+        values: ['pending', 'partial', 'paid', 'failed', 'refunded'],
+        message: 'Invalid payment status',
+      },
+      default: 'pending',
+    },
+    couponCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+    // Collected from the store or delivered to deliveryAddress
+    deliveryMethod: {
+      type: String,
+      enum: {
+        values: DELIVERY_METHODS,
+        message: 'Delivery method must be pickup or delivery',
+      },
+    },
+    subtotal: {
+      type: Number,
+      min: [0, 'Subtotal cannot be negative'],
+      default: 0,
+    },
+    discount: {
+      type: Number,
+      min: [0, 'Discount cannot be negative'],
+      default: 0,
+    },
+    deliveryCharge: {
+      type: Number,
+      min: [0, 'Delivery charge cannot be negative'],
+      default: 0,
+    },
+    tax: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    // Part of the tax already inside tax-inclusive line prices, so not added to the total
+    taxIncluded: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    // Tax of all lines by component (CGST, SGST, IGST) and rate
+    taxLines: [{
+      _id: false,
+      label: { type: String, trim: true },
+      rate: Number,
+      taxableValue: Number,
+      amount: Number,
+    }],
+    deposit: {
+      type: Number,
+      min: [0, 'Deposit cannot be negative'],
+      default: 0,
+    },
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0,
+    },
+    lineCount: {
+      type: Number,
+      min: [0, 'Line count cannot be negative'],
+      default: 0,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+OrderSchema.index({ customerId: 1, createdAt: -1 }); // Customer order history
+OrderSchema.index({ endUserIds: 1, createdAt: -1 }); // End user order lists
+OrderSchema.index({ paymentId: 1 }); // Orders paid by a payment
+OrderSchema.index({ quotationId: 1 }, { sparse: true }); // The order behind a quotation
+
+OrderSchema.pre('save', function (next) {
+  if (this.isNew) {
+    logger.database('CREATE', 'Order', {
+      orderNumber: this.orderNumber,
+      customer: this.customerEmail,
+      source: this.source,
+    });
+  }
+  next();
+});
+
+// Static method to take the next order number (ORD-000001)
+OrderSchema.statics.nextOrderNumber = async function (): Promise<string> {
+  const seq = await Counter.next('order');
+  return `ORD-${String(seq).padStart(6, '0')}`;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Order = (mongoose.models.Order as OrderModel) || mongoose.model<IOrder, OrderModel>('Order', OrderSchema);
+
+export default Order;
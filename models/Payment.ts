@@ -0,0 +1,272 @@
+/**
+ * Payment Model for Gateway Reconciliation
+ * Links a Razorpay order/payment to the rental orders it pays for, and keeps
+ * the webhook events already applied so redelivered events are ignored.
+ */
+
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import RentalOrder from '@/models/RentalOrder';
+import Order from '@/models/Order';
+
+export type PaymentStatus = 'created' | 'captured' | 'failed' | 'refunded' | 'partially_refunded';
+
+// RentalOrder.paymentStatus that follows from each payment status
+export const ORDER_PAYMENT_STATUS: Record<PaymentStatus, string> = {
+  created: 'pending',
+  captured: 'paid',
+  failed: 'failed',
+  refunded: 'refunded',
+  partially_refunded: 'paid',
+};
+
+// Define the interface for Payment
+interface IPayment extends mongoose.Document {
+  _id: Types.ObjectId;
+  provider: 'razorpay';
+  razorpayOrderId: string;
+  razorpayPaymentId?: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  customerId?: Types.ObjectId;
+  customerEmail?: string;
+  checkoutSessionId?: string;
+  rentalOrderIds: Types.ObjectId[];
+  ordersPlacedBy?: 'browser' | 'webhook';
+  placementError?: string;
+  amountRefunded: number;
+  refundIds: string[];
+  failureReason?: string;
+  capturedAt?: Date;
+  failedAt?: Date;
+  processedEventIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Instance methods of a payment
+interface IPaymentMethods {
+  recordEvent(eventId: string): Promise<boolean>;
+  forgetEvent(eventId: string): Promise<void>;
+  claimOrderPlacement(by: 'browser' | 'webhook'): Promise<boolean>;
+  releaseOrderPlacement(by: 'browser' | 'webhook', reason: string): Promise<void>;
+  attachOrders(orderIds: Array<string | Types.ObjectId>): Promise<void>;
+  recordRefund(refundId: string, amount: number): Promise<boolean>;
+  syncOrderStatus(): Promise<void>;
+}
+
+type PaymentDocument = HydratedDocument<IPayment, IPaymentMethods>;
+
+// Static methods of the Payment model
+interface IPaymentStatics {
+  findByRazorpayOrder(razorpayOrderId: string): Query<PaymentDocument | null, PaymentDocument>;
+}
+
+type PaymentModel = Model<IPayment, {}, IPaymentMethods> & IPaymentStatics;
+
+// Payment schema definition
+const PaymentSchema: Schema<IPayment> = new Schema(
+  {
+    provider: {
+      type: String,
+      enum: ['razorpay'],
+      default: 'razorpay',
+    },
+    razorpayOrderId: {
+      type: String,
+      required: [true, 'Razorpay order ID is required'],
+      unique: true,
+      trim: true,
+    },
+    razorpayPaymentId: {
+      type: String,
+      trim: true,
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0, 'Amount cannot be negative'],
+    },
+    currency: {
+      type: String,
+      default: 'INR',
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['created', 'captured', 'failed', 'refunded', 'partially_refunded'],
+        message: 'Invalid payment status',
+      },
+      default: 'created',
+      required: true,
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    customerEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    checkoutSessionId: {
+      type: String,
+      trim: true,
+    },
+    rentalOrderIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    }],
+    ordersPlacedBy: {
+      type: String,
+      enum: ['browser', 'webhook'],
+    },
+    // Why the last attempt to place this payment's orders failed; the money is held until staff act on it
+    placementError: {
+      type: String,
+      trim: true,
+    },
+    amountRefunded: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    refundIds: [{
+      type: String,
+    }],
+    failureReason: {
+      type: String,
+      trim: true,
+    },
+    capturedAt: {
+      type: Date,
+    },
+    failedAt: {
+      type: Date,
+    },
+    processedEventIds: [{
+      type: String,
+    }],
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+PaymentSchema.index({ razorpayPaymentId: 1 }); // Refund events only carry the payment ID
+PaymentSchema.index({ customerId: 1, createdAt: -1 }); // Customer payment history
+PaymentSchema.index({ rentalOrderIds: 1 }); // Payment behind an order
+PaymentSchema.index({ placementError: 1 }, { sparse: true }); // Paid payments still waiting for their orders
+
+PaymentSchema.pre('save', function (next) {
+  logger.database('SAVE', 'Payment', {
+    razorpayOrderId: this.razorpayOrderId,
+    status: this.status,
+    amount: this.amount,
+  });
+  next();
+});
+
+// Instance method to mark a webhook event as applied; false when it was seen before
+PaymentSchema.methods.recordEvent = async function (eventId: string): Promise<boolean> {
+  const result = await (this.constructor as PaymentModel).updateOne(
+    { _id: this._id, processedEventIds: { $ne: eventId } },
+    { $push: { processedEventIds: eventId } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Instance method to forget a webhook event that failed to apply, so Razorpay's retry applies it
+PaymentSchema.methods.forgetEvent = async function (eventId: string) {
+  await (this.constructor as PaymentModel).updateOne({ _id: this._id }, { $pull: { processedEventIds: eventId } });
+};
+
+// Instance method to claim the right to create this payment's rental orders (browser or webhook, once)
+PaymentSchema.methods.claimOrderPlacement = async function (by: 'browser' | 'webhook'): Promise<boolean> {
+  const claimed = await (this.constructor as PaymentModel).findOneAndUpdate(
+    { _id: this._id, ordersPlacedBy: { $exists: false } },
+    { $set: { ordersPlacedBy: by } },
+    { new: true }
+  );
+  if (!claimed) return false;
+
+  this.ordersPlacedBy = by;
+  return true;
+};
+
+// Instance method to give up a claim whose placement failed, so the other path (or a retry) can place the
+// orders, and to flag the paid payment as having none
+PaymentSchema.methods.releaseOrderPlacement = async function (by: 'browser' | 'webhook', reason: string) {
+  await (this.constructor as PaymentModel).updateOne(
+    { _id: this._id, ordersPlacedBy: by, rentalOrderIds: { $size: 0 } },
+    { $unset: { ordersPlacedBy: 1 }, $set: { placementError: reason } }
+  );
+  this.ordersPlacedBy = undefined;
+  this.placementError = reason;
+};
+
+// Instance method to link rental orders and bring their paymentStatus in line with the payment
+PaymentSchema.methods.attachOrders = async function (orderIds: Array<string | Types.ObjectId>) {
+  const updated = await (this.constructor as PaymentModel).findByIdAndUpdate(
+    this._id,
+    { $addToSet: { rentalOrderIds: { $each: orderIds } }, $unset: { placementError: 1 } },
+    { new: true }
+  );
+  if (updated) {
+    this.rentalOrderIds = updated.rentalOrderIds;
+    this.status = updated.status;
+  }
+  await this.syncOrderStatus();
+};
+
+// Instance method to add a gateway refund once (by refund ID) and move the payment to (partially_)refunded
+PaymentSchema.methods.recordRefund = async function (refundId: string, amount: number): Promise<boolean> {
+  const updated = await (this.constructor as PaymentModel).findOneAndUpdate(
+    { _id: this._id, refundIds: { $ne: refundId } },
+    { $push: { refundIds: refundId }, $inc: { amountRefunded: amount } },
+    { new: true }
+  );
+  if (!updated) return false;
+
+  const amountRefunded = Math.round(updated.amountRefunded * 100) / 100;
+  const status: PaymentStatus = amountRefunded >= updated.amount ? 'refunded' : 'partially_refunded';
+  await (this.constructor as PaymentModel).updateOne({ _id: this._id }, { $set: { amountRefunded, status } });
+
+  this.refundIds = updated.refundIds;
+  this.amountRefunded = amountRefunded;
+  this.status = status;
+  return true;
+};
+
+// Instance method to copy the payment status onto the linked orders and their rental order lines
+PaymentSchema.methods.syncOrderStatus = async function () {
+  if (!this.rentalOrderIds?.length) return;
+
+  const paymentStatus = ORDER_PAYMENT_STATUS[this.status as PaymentStatus];
+  const filter: any = { _id: { $in: this.rentalOrderIds } };
+  // Orders refunded one by one on cancellation keep their own status until the whole payment is refunded
+  if (paymentStatus !== 'refunded') {
+    filter.paymentStatus = { $nin: ['refunded', 'partial'] };
+  }
+  await RentalOrder.updateMany(filter, { $set: { paymentStatus } });
+  await Order.updateMany({ paymentId: this._id }, { $set: { paymentStatus } });
+
+  logger.database('UPDATE', 'RentalOrder', {
+    payment: this.razorpayOrderId,
+    orders: this.rentalOrderIds.length,
+    paymentStatus,
+  });
+};
+
+// Static method to look up the payment for a Razorpay order
+PaymentSchema.statics.findByRazorpayOrder = function (razorpayOrderId: string) {
+  return this.findOne({ razorpayOrderId });
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Payment = (mongoose.models.Payment as PaymentModel) || mongoose.model<IPayment, PaymentModel>('Payment', PaymentSchema);
+
+export default Payment;
@@ -0,0 +1,132 @@
+/**
+ * Payout Model for Enduser Statements
+ * A periodic payout statement: the available settlements paid to an enduser in one run of the
+ * payout job, with the totals the transfer was made for.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+
+// Define the interface for Payout
+interface IPayout extends mongoose.Document {
+  _id: Types.ObjectId;
+  statementNumber: string;
+  endUserId: Types.ObjectId;
+  periodStart: Date;
+  periodEnd: Date;
+  settlementIds: Types.ObjectId[];
+  orderCount: number;
+  gross: number;
+  lateFees: number;
+  discount: number;
+  refunded: number;
+  credited: number;
+  commission: number;
+  depositDeductions: number;
+  amount: number;
+  status: 'paid';
+  paidAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods of the Payout model
+interface IPayoutStatics {
+  nextStatementNumber(): Promise<string>;
+}
+
+type PayoutModel = Model<IPayout, {}, {}> & IPayoutStatics;
+
+// Payout schema definition
+const PayoutSchema: Schema<IPayout> = new Schema(
+  {
+    statementNumber: {
+      type: String,
+      required: [true, 'Statement number is required'],
+      unique: true,
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    // Settlements that became available between the previous statement and this one
+    periodStart: {
+      type: Date,
+      required: [true, 'Period start is required'],
+    },
+    periodEnd: {
+      type: Date,
+      required: [true, 'Period end is required'],
+    },
+    settlementIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Settlement',
+    }],
+    orderCount: {
+      type: Number,
+      min: [0, 'Order count cannot be negative'],
+      default: 0,
+    },
+    gross: { type: Number, default: 0 },
+    lateFees: { type: Number, default: 0 },
+    discount: { type: Number, default: 0 },
+    refunded: { type: Number, default: 0 },
+    credited: { type: Number, default: 0 },
+    commission: { type: Number, default: 0 },
+    depositDeductions: { type: Number, default: 0 },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0, 'Payout amount cannot be negative'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['paid'],
+        message: 'Invalid payout status',
+      },
+      default: 'paid',
+    },
+    paidAt: {
+      type: Date,
+      required: [true, 'Paid date is required'],
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+PayoutSchema.index({ endUserId: 1, paidAt: -1 }); // Enduser statements, newest first
+
+// Statements are never edited after being written
+PayoutSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Payout statements are immutable'));
+  }
+
+  logger.database('INSERT', 'Payout', {
+    statement: this.statementNumber,
+    endUser: this.endUserId?.toString(),
+    amount: this.amount,
+    settlements: this.settlementIds.length,
+  });
+
+  next();
+});
+
+// Static method to take the next statement number (PAY-000001)
+PayoutSchema.statics.nextStatementNumber = async function (): Promise<string> {
+  const seq = await Counter.next('payout');
+  return `PAY-${String(seq).padStart(6, '0')}`;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Payout = (mongoose.models.Payout as PayoutModel) || mongoose.model<IPayout, PayoutModel>('Payout', PayoutSchema);
+
+export default Payout;
@@ -3,9 +3,32 @@
  * Handles product catalog with pricing, availability, and categorization
  */
 
-import mongoose, { Schema } from 'mongoose';
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
 import { IProduct } from '@/types';
 import { logger } from '@/lib/logger';
+import StockMovement, { StockMovementType } from '@/models/StockMovement';
+import { cheapestRateCombination } from '@/lib/pricing';
+import { notifyLowStock } from '@/lib/inAppNotifications';
+
+// Instance methods of a product
+interface IProductMethods {
+  toggleAvailability(): Promise<ProductDocument>;
+  updatePricing(newPricing: { pricePerHour?: number; pricePerDay?: number; pricePerWeek?: number }): Promise<ProductDocument>;
+  adjustStock(change: number, details: { type: StockMovementType; reason: string; userId?: string; userName?: string; rentalOrderId?: string }): Promise<ProductDocument>;
+  recordBooking(type: 'reserve' | 'return', quantity: number, details: { reason: string; userId?: string; userName?: string; rentalOrderId?: string }): Promise<void>;
+}
+
+type ProductDocument = HydratedDocument<IProduct, IProductMethods>;
+
+// Static methods of the Product model
+interface IProductStatics {
+  findAvailable(): Query<ProductDocument[], ProductDocument>;
+  findByCategory(category: string): Query<ProductDocument[], ProductDocument>;
+  searchProducts(searchTerm: string): Query<ProductDocument[], ProductDocument>;
+  findInPriceRange(minPrice: number, maxPrice: number): Query<ProductDocument[], ProductDocument>;
+}
+
+type ProductModel = Model<IProduct, {}, IProductMethods> & IProductStatics;
 
 // Product schema definition with comprehensive validation
 const ProductSchema: Schema<IProduct> = new Schema(
@@ -77,6 +100,12 @@ const ProductSchema: Schema<IProduct> = new Schema(
       min: [0, 'Price cannot be negative'],
       max: [20000000, 'Yearly price seems too high'],
     },
+    securityDeposit: {
+      type: Number,
+      min: [0, 'Security deposit cannot be negative'],
+      max: [10000000, 'Security deposit seems too high'],
+      default: 0,
+    },
     availability: {
       type: Boolean,
       default: true,
@@ -115,6 +144,17 @@ const ProductSchema: Schema<IProduct> = new Schema(
       max: [10000, 'Quantity seems too high'],
       default: 1,
     },
+    minimumStock: {
+      type: Number,
+      min: [0, 'Minimum stock cannot be negative'],
+      default: 0,
+    },
+    maximumStock: {
+      type: Number,
+      min: [1, 'Maximum stock must be at least 1'],
+      max: [10000, 'Maximum stock seems too high'],
+      default: 100,
+    },
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt
@@ -134,6 +174,10 @@ ProductSchema.pre('validate', function() {
   if (!hasPricing) {
     this.invalidate('pricing', 'At least one rental price greater than 0 must be provided (hour, day, week, month, or year)');
   }
+
+  if (this.minimumStock > this.maximumStock) {
+    this.invalidate('minimumStock', 'Minimum stock cannot exceed maximum stock');
+  }
 });
 
 // Indexes for better query performance
@@ -181,27 +225,12 @@ ProductSchema.virtual('pricePerMinute').get(function () {
 // Virtual field to calculate best pricing option for a given duration
 ProductSchema.virtual('bestPriceForDuration').get(function () {
   return (durationHours: number) => {
-    const hours = durationHours;
-    const days = Math.floor(hours / 24);
-    const weeks = Math.floor(days / 7);
-    
-    // Calculate different pricing options
-    const hourlyTotal = hours * this.pricePerHour;
-    const dailyTotal = days * this.pricePerDay + (hours % 24) * this.pricePerHour;
-    const weeklyTotal = weeks * this.pricePerWeek + 
-                       ((days % 7) * this.pricePerDay) + 
-                       ((hours % 24) * this.pricePerHour);
-    
-    // Return the cheapest option
-    const prices = [
-      { type: 'hourly', total: hourlyTotal },
-      { type: 'daily', total: dailyTotal },
-      { type: 'weekly', total: weeklyTotal },
-    ];
-    
-    return prices.reduce((cheapest, current) => 
-      current.total < cheapest.total ? current : cheapest
-    );
+    const { total, breakdown } = cheapestRateCombination(this, durationHours);
+    return {
+      type: breakdown.map((line) => line.unit).join('+'),
+      total,
+      breakdown,
+    };
   };
 });
 
@@ -267,7 +296,91 @@ ProductSchema.methods.updatePricing = async function (newPricing: {
   return this;
 };
 
+// Instance method to change stock and record the movement in the ledger
+ProductSchema.methods.adjustStock = async function (
+  change: number,
+  details: {
+    type: StockMovementType;
+    reason: string;
+    userId?: string;
+    userName?: string;
+    rentalOrderId?: string;
+  }
+) {
+  if (!change) return this;
+
+  // One atomic update, so two adjustments at once can't both read the old balance or take it below zero
+  const updated = await (this.constructor as ProductModel).findOneAndUpdate(
+    { _id: this._id, quantityAvailable: { $gte: Math.max(0, -change) } },
+    { $inc: { quantityAvailable: change } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new Error(`Insufficient stock for ${this.name}`);
+  }
+
+  const newBalance = updated.quantityAvailable;
+  const previousBalance = newBalance - change;
+  let availability = updated.availability;
+  if (newBalance === 0) {
+    await (this.constructor as ProductModel).updateOne({ _id: this._id, quantityAvailable: 0 }, { $set: { availability: false } });
+    availability = false;
+  } else if (previousBalance === 0 && change > 0) {
+    // Running out switched the product off, so restocking switches it back on
+    await (this.constructor as ProductModel).updateOne({ _id: this._id, quantityAvailable: { $gt: 0 } }, { $set: { availability: true } });
+    availability = true;
+  }
+  // Already written; unmarked so a later save of this document can't put back a stale balance
+  this.set({ quantityAvailable: newBalance, availability });
+  this.unmarkModified('quantityAvailable');
+  this.unmarkModified('availability');
+
+  await StockMovement.create({
+    productId: this._id,
+    endUserId: this.endUserId,
+    type: details.type,
+    quantity: Math.abs(change),
+    change,
+    balanceAfter: newBalance,
+    reason: details.reason,
+    performedBy: details.userId,
+    performedByName: details.userName || 'System',
+    rentalOrderId: details.rentalOrderId,
+  });
+
+  logger.database('UPDATE', 'Product', {
+    name: this.name,
+    stockChange: change,
+    quantityAvailable: newBalance,
+    type: details.type,
+  });
+
+  await notifyLowStock(this, previousBalance);
+
+  return this;
+};
+
+// Instance method to record units booked out by an order or back from one; the fleet size doesn't change
+ProductSchema.methods.recordBooking = async function (
+  type: 'reserve' | 'return',
+  quantity: number,
+  details: { reason: string; userId?: string; userName?: string; rentalOrderId?: string }
+) {
+  await StockMovement.create({
+    productId: this._id,
+    endUserId: this.endUserId,
+    type,
+    quantity,
+    change: 0,
+    balanceAfter: this.quantityAvailable,
+    reason: details.reason,
+    performedBy: details.userId,
+    performedByName: details.userName || 'System',
+    rentalOrderId: details.rentalOrderId,
+  });
+};
+
 // Export the model, ensuring it's not re-compiled in development
-const Product = mongoose.models.Product || mongoose.model<IProduct>('Product', ProductSchema);
+const Product = (mongoose.models.Product as ProductModel) || mongoose.model<IProduct, ProductModel>('Product', ProductSchema);
 
 export default Product;
@@ -0,0 +1,376 @@
+/**
+ * Quotation Model for B2B Quotes
+ * A priced offer for one or more products that a customer can accept from their account.
+ * Each line is backed by a RentalOrder in `quotation` status under one Order; accepting the quote confirms them.
+ */
+
+import mongoose, { HydratedDocument, Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { StatusTransitionError } from '@/lib/statusTransitions';
+import { StatusActor } from '@/types';
+import RentalOrder from '@/models/RentalOrder';
+import Order from '@/models/Order';
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired' | 'cancelled';
+
+// Statuses a quotation may move to from each status; accepted, expired and cancelled are final
+export const QUOTATION_TRANSITIONS: Record<QuotationStatus, QuotationStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['accepted', 'expired', 'cancelled'],
+  accepted: [],
+  expired: [],
+  cancelled: [],
+};
+
+// Define the interface for a quotation line
+interface IQuotationLine {
+  productId: Types.ObjectId;
+  productName: string;
+  quantity: number;
+  startDate: Date;
+  endDate: Date;
+  durationUnit: 'hour' | 'day' | 'week' | 'month' | 'year';
+  unitPrice: number;
+  subTotal: number;
+  rentalOrderId?: Types.ObjectId;
+}
+
+// Define the interface for Quotation
+interface IQuotation extends mongoose.Document {
+  _id: Types.ObjectId;
+  reference: string;
+  status: QuotationStatus;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  deliveryAddress?: string;
+  validUntil: Date;
+  lines: IQuotationLine[];
+  untaxedTotal: number;
+  tax: number;
+  total: number;
+  notes?: string;
+  terms?: string;
+  sentAt?: Date;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Quotation line sub-schema
+const QuotationLineSchema = new Schema<IQuotationLine>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    productName: {
+      type: String,
+      required: [true, 'Product name is required'],
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'End date is required'],
+      validate: {
+        validator: function (this: IQuotationLine, v: Date) {
+          return v > this.startDate;
+        },
+        message: 'End date must be after start date',
+      },
+    },
+    durationUnit: {
+      type: String,
+      enum: {
+        values: ['hour', 'day', 'week', 'month', 'year'],
+        message: 'Invalid duration unit',
+      },
+      default: 'day',
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, 'Unit price is required'],
+      min: [0, 'Price cannot be negative'],
+    },
+    subTotal: {
+      type: Number,
+      min: [0, 'Sub total cannot be negative'],
+      default: 0,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+  },
+  { _id: true }
+);
+
+// Instance methods of a quotation
+interface IQuotationMethods {
+  canTransitionTo(newStatus: QuotationStatus): boolean;
+  updateStatus(newStatus: QuotationStatus, reason?: string): Promise<QuotationDocument>;
+  syncOrders(): Promise<QuotationDocument>;
+  cancelOpenOrders(reason: string, actor?: StatusActor): Promise<number>;
+}
+
+type QuotationDocument = HydratedDocument<IQuotation, IQuotationMethods>;
+
+// Static methods of the Quotation model
+interface IQuotationStatics {
+  nextReference(endUserId: string): Promise<string>;
+}
+
+type QuotationModel = Model<IQuotation, {}, IQuotationMethods> & IQuotationStatics;
+
+// Quotation schema definition
+const QuotationSchema: Schema<IQuotation> = new Schema(
+  {
+    reference: {
+      type: String,
+      required: [true, 'Reference is required'],
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['draft', 'sent', 'accepted', 'expired', 'cancelled'],
+        message: 'Invalid quotation status',
+      },
+      default: 'draft',
+      required: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    customerName: {
+      type: String,
+      required: [true, 'Customer name is required'],
+      trim: true,
+    },
+    customerEmail: {
+      type: String,
+      required: [true, 'Customer email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+    },
+    deliveryAddress: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Delivery address cannot exceed 300 characters'],
+    },
+    validUntil: {
+      type: Date,
+      required: [true, 'Expiry date is required'],
+    },
+    lines: {
+      type: [QuotationLineSchema],
+      validate: {
+        validator: (lines: IQuotationLine[]) => Array.isArray(lines) && lines.length > 0,
+        message: 'A quotation needs at least one product',
+      },
+    },
+    untaxedTotal: {
+      type: Number,
+      min: [0, 'Untaxed total cannot be negative'],
+      default: 0,
+    },
+    tax: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    terms: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Terms cannot exceed 2000 characters'],
+    },
+    sentAt: {
+      type: Date,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Indexes for efficient queries
+QuotationSchema.index({ endUserId: 1, reference: 1 }, { unique: true }); // References are unique per end user
+QuotationSchema.index({ endUserId: 1, status: 1, createdAt: -1 }); // Enduser quotation list
+QuotationSchema.index({ customerId: 1, status: 1 }); // Customer's quotations
+
+// Pre-save middleware to keep totals consistent with the lines
+QuotationSchema.pre('save', function (next) {
+  const quotation = this as IQuotation;
+
+  quotation.lines.forEach((line) => {
+    line.subTotal = line.unitPrice * line.quantity;
+  });
+  quotation.untaxedTotal = quotation.lines.reduce((sum, line) => sum + line.subTotal, 0);
+  quotation.total = quotation.untaxedTotal + (quotation.tax || 0);
+
+  logger.database('SAVE', 'Quotation', {
+    reference: quotation.reference,
+    status: quotation.status,
+    customer: quotation.customerEmail,
+    total: quotation.total,
+  });
+
+  next();
+});
+
+// Virtual field: a sent quotation past its expiry date can no longer be accepted
+QuotationSchema.virtual('isExpired').get(function () {
+  return this.status === 'expired' || (this.status === 'sent' && this.validUntil < new Date());
+});
+
+// Static method to build the next reference number for an end user (QUOTE/0001)
+QuotationSchema.statics.nextReference = async function (endUserId: string): Promise<string> {
+  // Continue from the latest reference rather than counting, since drafts can be deleted
+  const last = await this.findOne({ endUserId }).sort({ createdAt: -1 }).select('reference');
+  const lastNumber = last ? parseInt(String(last.reference).replace(/\D/g, ''), 10) || 0 : 0;
+  return `QUOTE/${String(lastNumber + 1).padStart(4, '0')}`;
+};
+
+// Instance method to check if a status change is allowed
+QuotationSchema.methods.canTransitionTo = function (newStatus: QuotationStatus): boolean {
+  const allowed = QUOTATION_TRANSITIONS[this.status as QuotationStatus] || [];
+  return allowed.includes(newStatus);
+};
+
+// Instance method to update quotation status
+QuotationSchema.methods.updateStatus = async function (newStatus: QuotationStatus, reason?: string) {
+  const oldStatus = this.status;
+  if (!this.canTransitionTo(newStatus)) {
+    throw new StatusTransitionError(`Cannot move a quotation from "${oldStatus}" to "${newStatus}"`);
+  }
+
+  this.status = newStatus;
+  if (newStatus === 'sent' && !this.sentAt) {
+    this.sentAt = new Date();
+  }
+  if (newStatus === 'accepted' && !this.acceptedAt) {
+    this.acceptedAt = new Date();
+  }
+
+  await this.save();
+
+  logger.booking('QUOTATION_STATUS_UPDATE', this._id?.toString(), {
+    quotation: this.reference,
+    oldStatus,
+    newStatus,
+    reason,
+  });
+
+  return this;
+};
+
+// Instance method to (re)create the quotation-status rental orders backing each line
+QuotationSchema.methods.syncOrders = async function () {
+  // Draft lines may have changed; quotation orders never held stock, so they can simply be replaced
+  await RentalOrder.deleteMany({ quotationId: this._id, status: 'quotation' });
+
+  // The quotation keeps one order (and number) however often its lines are redrafted
+  let order = await Order.findOne({ quotationId: this._id });
+  if (!order) {
+    order = new Order({
+      orderNumber: await Order.nextOrderNumber(),
+      customerId: this.customerId,
+      customerName: this.customerName,
+      customerEmail: this.customerEmail,
+      customerPhone: this.customerPhone,
+      source: 'quotation',
+      quotationId: this._id,
+      paymentStatus: 'pending',
+    });
+  }
+  order.set({
+    endUserIds: [this.endUserId],
+    deliveryAddress: this.deliveryAddress ? { address: this.deliveryAddress } : undefined,
+    subtotal: this.untaxedTotal,
+    tax: this.tax,
+    total: this.total,
+    lineCount: this.lines.length,
+  });
+  await order.save();
+
+  for (const line of this.lines) {
+    const rentalOrder = await RentalOrder.create({
+      productId: line.productId,
+      customerId: this.customerId,
+      endUserId: this.endUserId,
+      customerName: this.customerName,
+      customerEmail: this.customerEmail,
+      customerPhone: this.customerPhone,
+      startDate: line.startDate,
+      endDate: line.endDate,
+      duration: 1, // Recalculated from the dates on save
+      durationUnit: line.durationUnit,
+      quantity: line.quantity,
+      totalPrice: line.unitPrice * line.quantity,
+      status: 'quotation',
+      deliveryAddress: this.deliveryAddress,
+      notes: `${this.reference}${this.notes ? ` - ${this.notes}` : ''}`.slice(0, 1000),
+      quotationId: this._id,
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      stockReleased: true,
+    });
+    line.rentalOrderId = rentalOrder._id;
+  }
+
+  await this.save();
+  return this;
+};
+
+// Instance method to cancel the orders of lines that were never confirmed
+QuotationSchema.methods.cancelOpenOrders = async function (reason: string, actor?: StatusActor) {
+  const orders = await RentalOrder.find({ quotationId: this._id, status: 'quotation' });
+  for (const order of orders) {
+    await order.updateStatus('cancelled', reason, actor);
+  }
+  return orders.length;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Quotation = (mongoose.models.Quotation as QuotationModel) || mongoose.model<IQuotation, QuotationModel>('Quotation', QuotationSchema);
+
+export default Quotation;
@@ -0,0 +1,145 @@
+/**
+ * Refund Model
+ * One row per refund issued for a cancelled rental order: the policy percentage applied,
+ * the amount sent back through the payment provider and the provider's refund reference.
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+// Define the interface for Refund
+interface IRefund extends mongoose.Document {
+  _id: Types.ObjectId;
+  rentalOrderId: Types.ObjectId;
+  paymentId?: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  orderTotal: number;
+  percent: number;
+  amount: number;
+  currency: string;
+  hoursBeforeStart: number;
+  reason?: string;
+  provider: 'razorpay' | 'stub';
+  providerRefundId?: string;
+  status: RefundStatus;
+  failureReason?: string;
+  requestedBy?: Types.ObjectId;
+  requestedByName?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Refund schema definition
+const RefundSchema: Schema<IRefund> = new Schema(
+  {
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order ID is required'],
+    },
+    paymentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payment',
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    // What the customer paid for the line: its price plus tax added on top, less its coupon discount
+    orderTotal: {
+      type: Number,
+      required: true,
+      min: [0, 'Order total cannot be negative'],
+    },
+    percent: {
+      type: Number,
+      required: true,
+      min: [0, 'Refund percentage cannot be negative'],
+      max: [100, 'Refund percentage cannot exceed 100'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Refund amount is required'],
+      min: [0, 'Refund amount cannot be negative'],
+    },
+    currency: {
+      type: String,
+      default: 'INR',
+    },
+    hoursBeforeStart: {
+      type: Number,
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Reason cannot exceed 300 characters'],
+    },
+    provider: {
+      type: String,
+      enum: ['razorpay', 'stub'],
+      required: true,
+    },
+    providerRefundId: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'processed', 'failed'],
+        message: 'Invalid refund status',
+      },
+      default: 'pending',
+      required: true,
+    },
+    failureReason: {
+      type: String,
+      trim: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    requestedByName: {
+      type: String,
+      trim: true,
+    },
+    processedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+RefundSchema.index({ rentalOrderId: 1 }, { unique: true }); // One cancellation refund per order
+RefundSchema.index({ endUserId: 1, createdAt: -1 }); // Enduser refund reporting
+RefundSchema.index({ providerRefundId: 1 }, { sparse: true }); // Webhook lookups
+
+RefundSchema.pre('save', function (next) {
+  logger.database('SAVE', 'Refund', {
+    rentalOrderId: this.rentalOrderId?.toString(),
+    amount: this.amount,
+    status: this.status,
+  });
+  next();
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Refund = mongoose.models.Refund || mongoose.model<IRefund>('Refund', RefundSchema);
+
+export default Refund;
@@ -0,0 +1,117 @@
+/**
+ * Refund Policy Model
+ * Per-enduser cancellation tiers: how much of an order is refunded depending on
+ * how long before the rental starts the customer cancels.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export interface RefundTier {
+  hoursBefore: number;
+  percent: number;
+}
+
+// Used when an enduser hasn't set a policy: 100% at 24h+, 50% at 12-24h, nothing after that
+export const DEFAULT_REFUND_TIERS: RefundTier[] = [
+  { hoursBefore: 24, percent: 100 },
+  { hoursBefore: 12, percent: 50 },
+];
+
+/**
+ * Refund percentage for a cancellation made hoursUntilStart before the rental begins.
+ * The tier with the longest notice the customer still meets wins; no tier met means no refund.
+ */
+export function refundPercentFor(tiers: RefundTier[], hoursUntilStart: number): number {
+  const match = [...tiers]
+    .sort((a, b) => b.hoursBefore - a.hoursBefore)
+    .find(tier => hoursUntilStart >= tier.hoursBefore);
+  return match ? match.percent : 0;
+}
+
+// Define the interface for RefundPolicy
+interface IRefundPolicy extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  tiers: RefundTier[];
+  allowCustomerCancellation: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundTierSchema = new Schema<RefundTier>(
+  {
+    hoursBefore: {
+      type: Number,
+      required: [true, 'Notice period is required'],
+      min: [0, 'Notice period cannot be negative'],
+    },
+    percent: {
+      type: Number,
+      required: [true, 'Refund percentage is required'],
+      min: [0, 'Refund percentage cannot be negative'],
+      max: [100, 'Refund percentage cannot exceed 100'],
+    },
+  },
+  { _id: false }
+);
+
+// Static methods of the RefundPolicy model
+interface IRefundPolicyStatics {
+  forEndUser(endUserId: string | Types.ObjectId): Promise<{ tiers: RefundTier[]; allowCustomerCancellation: boolean }>;
+}
+
+type RefundPolicyModel = Model<IRefundPolicy, {}, {}> & IRefundPolicyStatics;
+
+// Refund policy schema definition
+const RefundPolicySchema: Schema<IRefundPolicy> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+      unique: true,
+    },
+    tiers: {
+      type: [RefundTierSchema],
+      default: () => DEFAULT_REFUND_TIERS.map(tier => ({ ...tier })),
+      validate: {
+        validator: function (tiers: RefundTier[]) {
+          const notice = tiers.map(tier => tier.hoursBefore);
+          return new Set(notice).size === notice.length;
+        },
+        message: 'Each tier needs a different notice period',
+      },
+    },
+    allowCustomerCancellation: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+RefundPolicySchema.pre('save', function (next) {
+  logger.database('SAVE', 'RefundPolicy', {
+    endUserId: this.endUserId?.toString(),
+    tiers: this.tiers.length,
+  });
+  next();
+});
+
+// Static method to get an enduser's policy, falling back to the defaults when none is saved
+RefundPolicySchema.statics.forEndUser = async function (endUserId: string | Types.ObjectId) {
+  const policy = await this.findOne({ endUserId }).lean();
+  return {
+    tiers: (policy?.tiers?.length ? policy.tiers : DEFAULT_REFUND_TIERS) as RefundTier[],
+    allowCustomerCancellation: policy ? policy.allowCustomerCancellation !== false : true,
+  };
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const RefundPolicy = (mongoose.models.RefundPolicy as RefundPolicyModel) || mongoose.model<IRefundPolicy, RefundPolicyModel>('RefundPolicy', RefundPolicySchema);
+
+export default RefundPolicy;
@@ -3,9 +3,35 @@
  * Handles the complete rental lifecycle from quotation to return
  */
 
-import mongoose, { Schema } from 'mongoose';
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
 import { Types } from 'mongoose';
 import { logger } from '@/lib/logger';
+import { StatusHistorySchema, StatusTransitionError, buildHistoryEntry } from '@/lib/statusTransitions';
+import { priceRental } from '@/lib/pricing';
+import { IStatusHistoryEntry, StatusActor } from '@/types';
+import Product from '@/models/Product';
+import { notifyOrderStatus } from '@/lib/inAppNotifications';
+import LateFeePolicy, { DEFAULT_LATE_FEE_RULE, LateFeeLookup, calculateLateFee } from '@/models/LateFeePolicy';
+import type { LineTax, TaxComponent } from '@/lib/tax';
+
+export type RentalOrderStatus = 'quotation' | 'confirmed' | 'reserved' | 'delivered' | 'returned' | 'late' | 'cancelled';
+
+// Statuses an order may move to from each status; returned and cancelled are final
+export const ORDER_STATUS_TRANSITIONS: Record<RentalOrderStatus, RentalOrderStatus[]> = {
+  quotation: ['confirmed', 'cancelled'],
+  confirmed: ['reserved', 'delivered', 'cancelled'],
+  reserved: ['delivered', 'cancelled'],
+  delivered: ['returned', 'late'],
+  late: ['returned'],
+  returned: [],
+  cancelled: [],
+};
+
+// Rental order statuses that occupy units of the product for their rental window
+export const ACTIVE_ORDER_STATUSES = ['confirmed', 'reserved', 'delivered', 'late'];
+
+// Statuses at which units taken off the shelf by older lines go back on it
+const RELEASE_STATUSES = ['returned', 'cancelled'];
 
 // Define the interface for RentalOrder
 interface IRentalOrder extends mongoose.Document {
@@ -20,19 +46,75 @@ interface IRentalOrder extends mongoose.Document {
   endDate: Date;
   duration: number;
   durationUnit: 'hour' | 'day' | 'week' | 'month' | 'year';
+  quantity: number;
   totalPrice: number;
   depositAmount?: number;
-  status: 'quotation' | 'confirmed' | 'reserved' | 'delivered' | 'returned' | 'late' | 'cancelled';
+  depositStatus: 'none' | 'held' | 'settled';
+  tax?: LineTax;
+  discount?: number;
+  status: RentalOrderStatus;
+  statusHistory: IStatusHistoryEntry[];
   pickupDate?: Date;
   returnDate?: Date;
   lateFees?: number;
-  paymentStatus: 'pending' | 'partial' | 'paid' | 'refunded';
+  paymentStatus: 'pending' | 'partial' | 'paid' | 'failed' | 'refunded';
   deliveryAddress?: string;
   notes?: string;
+  quotationId?: Types.ObjectId;
+  orderId?: Types.ObjectId;
+  orderNumber?: string;
+  stockReleased?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Instance methods of a rental order
+interface IRentalOrderMethods {
+  canTransitionTo(newStatus: string): boolean;
+  updateStatus(newStatus: string, reason?: string, actor?: StatusActor): Promise<RentalOrderDocument>;
+  releaseStock(reason: string): Promise<boolean>;
+  recordBooking(type: 'reserve' | 'return', reason: string, actor?: StatusActor): Promise<boolean>;
+  calculatePricing(product: any): Promise<number>;
+  loadLateFeeRule(): Promise<LateFeeLookup>;
+}
+
+type RentalOrderDocument = HydratedDocument<IRentalOrder, IRentalOrderMethods>;
+
+// Static methods of the RentalOrder model
+interface IRentalOrderStatics {
+  findByCustomer(customerId: string): Query<RentalOrderDocument[], RentalOrderDocument>;
+  findByEndUser(endUserId: string): Query<RentalOrderDocument[], RentalOrderDocument>;
+  findActive(): Query<RentalOrderDocument[], RentalOrderDocument>;
+  findLate(): Query<RentalOrderDocument[], RentalOrderDocument>;
+  checkAvailability(productId: string, startDate: Date, endDate: Date, excludeOrderId?: string, quantity?: number): Promise<boolean>;
+}
+
+type RentalOrderModel = Model<IRentalOrder, {}, IRentalOrderMethods> & IRentalOrderStatics;
+
+// Tax component sub-schema (CGST, SGST or IGST on the line)
+const TaxComponentSchema = new Schema<TaxComponent>(
+  {
+    label: { type: String, required: true, trim: true },
+    rate: { type: Number, required: true, min: [0, 'Tax rate cannot be negative'] },
+    taxableValue: { type: Number, required: true },
+    amount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+// Line tax sub-schema, as worked out by lib/tax when the order was placed
+const LineTaxSchema = new Schema<LineTax>(
+  {
+    rate: { type: Number, required: true, min: [0, 'Tax rate cannot be negative'] },
+    inclusive: { type: Boolean, default: false },
+    supply: { type: String, enum: ['intra_state', 'inter_state'], default: 'intra_state' },
+    taxableValue: { type: Number, required: true },
+    amount: { type: Number, required: true, min: [0, 'Tax cannot be negative'] },
+    components: { type: [TaxComponentSchema], default: [] },
+  },
+  { _id: false }
+);
+
 // Rental Order schema definition with comprehensive business logic
 const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
   {
@@ -106,7 +188,9 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       type: Date,
       required: [true, 'Start date is required'],
       validate: {
-        validator: function (v: Date) {
+        validator: function (this: IRentalOrder, v: Date) {
+          // Only check when the date is being set, so existing orders can still change status
+          if (!this.isNew && !this.isModified('startDate')) return true;
           // Start date should not be in the past (with 1 hour buffer for time zones)
           const now = new Date();
           const oneHourAgo = new Date(now.getTime() - (60 * 60 * 1000));
@@ -140,6 +224,12 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       required: [true, 'Duration unit is required'],
       default: 'day',
     },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+      default: 1,
+    },
     totalPrice: {
       type: Number,
       required: [true, 'Total price is required'],
@@ -150,6 +240,21 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       min: [0, 'Deposit amount cannot be negative'],
       default: 0,
     },
+    depositStatus: {
+      type: String,
+      enum: {
+        values: ['none', 'held', 'settled'],
+        message: 'Invalid deposit status',
+      },
+      default: 'none',
+    },
+    // GST on totalPrice; unset on lines from before tax rules, which were taxed at a flat 1% on top
+    tax: LineTaxSchema,
+    // Share of the order's coupon discount charged to this line; unset on lines placed before it was recorded
+    discount: {
+      type: Number,
+      min: [0, 'Discount cannot be negative'],
+    },
     status: {
       type: String,
       enum: {
@@ -159,6 +264,10 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       default: 'quotation',
       required: true,
     },
+    statusHistory: {
+      type: [StatusHistorySchema],
+      default: [],
+    },
     pickupDate: {
       type: Date,
       validate: {
@@ -187,7 +296,7 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
     paymentStatus: {
       type: String,
       enum: {
-        values: ['pending', 'partial', 'paid', 'refunded'],
+        values: ['pending', 'partial', 'paid', 'failed', 'refunded'],
         message: 'Invalid payment status',
       },
       default: 'pending',
@@ -203,6 +312,25 @@ const RentalOrderSchema: Schema<IRentalOrder> = new Schema(
       trim: true,
       maxlength: [1000, 'Notes cannot exceed 1000 characters'],
     },
+    quotationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Quotation',
+    },
+    // The order this line belongs to; the number is copied so lists don't need the header
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+    },
+    orderNumber: {
+      type: String,
+      trim: true,
+    },
+    // Lines no longer take units off the shelf (the availability engine counts them for their dates), so new
+    // lines are created with this set. Lines placed when checkout did have it unset or false until the units
+    // are put back. No default: one applied on load would be saved and lose those units.
+    stockReleased: {
+      type: Boolean,
+    },
   },
   {
     timestamps: true, // Automatically add createdAt and updatedAt
@@ -218,6 +346,8 @@ RentalOrderSchema.index({ endUserId: 1 }); // End user orders lookup
 RentalOrderSchema.index({ status: 1 }); // Status filtering
 RentalOrderSchema.index({ startDate: 1, endDate: 1 }); // Date range queries
 RentalOrderSchema.index({ createdAt: -1 }); // Recent orders first
+RentalOrderSchema.index({ quotationId: 1 }); // Orders created from a quotation
+RentalOrderSchema.index({ orderId: 1 }); // Lines of an order
 
 // Compound index for availability checking
 RentalOrderSchema.index({ 
@@ -255,6 +385,11 @@ RentalOrderSchema.pre('save', function (next) {
       break;
   }
 
+  // Every order starts its history with the status it was created in
+  if (order.isNew && order.statusHistory.length === 0) {
+    order.statusHistory.push(buildHistoryEntry(undefined, order.status, 'Order created'));
+  }
+
   // Log rental order operation
   logger.booking('SAVE', order._id?.toString(), {
     product: order.productId,
@@ -275,31 +410,18 @@ RentalOrderSchema.virtual('isLate').get(function () {
   return this.status === 'delivered' && this.endDate < now;
 });
 
-// Virtual field to calculate late fees
+// Virtual field to calculate late fees under the enduser's late fee policy (see loadLateFeeRule)
 RentalOrderSchema.virtual('calculatedLateFee').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'delivered' && this.endDate < now;
-  if (!isLate) return 0;
-  
-  const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-  const feePerDay = 100; // ₹100 per day late fee
-  
-  return daysLate * feePerDay;
+  if (this.status !== 'delivered' && this.status !== 'late') return 0;
+
+  const { rule, dailyRate } = (this.$locals.lateFee as LateFeeLookup | undefined) || { rule: DEFAULT_LATE_FEE_RULE, dailyRate: 0 };
+  return calculateLateFee(rule, { endDate: this.endDate, quantity: this.quantity, dailyRate }).fee;
 });
 
 // Virtual field to get total amount including late fees
 RentalOrderSchema.virtual('totalAmountDue').get(function () {
-  const now = new Date();
-  const isLate = this.status === 'delivered' && this.endDate < now;
-  let calculatedLateFee = 0;
-  
-  if (isLate) {
-    const daysLate = Math.ceil((now.getTime() - this.endDate.getTime()) / (1000 * 60 * 60 * 24));
-    const feePerDay = 100; // ₹100 per day late fee
-    calculatedLateFee = daysLate * feePerDay;
-  }
-  
-  return this.totalPrice + (this.lateFees || calculatedLateFee);
+  const calculatedLateFee = this.get('calculatedLateFee') as number;
+  return this.totalPrice + Math.max(this.lateFees || 0, calculatedLateFee);
 });
 
 // Virtual field to get days until return
@@ -349,45 +471,37 @@ RentalOrderSchema.statics.findLate = function () {
     .sort({ endDate: 1 });
 };
 
-// Static method to check product availability
+// Static method to check product availability (quantity-aware, see lib/availability)
 RentalOrderSchema.statics.checkAvailability = async function (
   productId: string, 
   startDate: Date, 
   endDate: Date,
-  excludeOrderId?: string
+  excludeOrderId?: string,
+  quantity: number = 1
 ): Promise<boolean> {
-  const query: any = {
-    productId,
-    status: { $in: ['confirmed', 'reserved', 'delivered'] },
-    $or: [
-      {
-        startDate: { $lte: startDate },
-        endDate: { $gt: startDate },
-      },
-      {
-        startDate: { $lt: endDate },
-        endDate: { $gte: endDate },
-      },
-      {
-        startDate: { $gte: startDate },
-        endDate: { $lte: endDate },
-      },
-    ],
-  };
-
-  // Exclude current order if updating
-  if (excludeOrderId) {
-    query._id = { $ne: excludeOrderId };
-  }
+  // Imported lazily because the availability engine itself depends on this model
+  const { checkAvailability } = await import('@/lib/availability');
+  const result = await checkAvailability(productId, startDate, endDate, { quantity, excludeId: excludeOrderId });
+  return result.available;
+};
 
-  const conflictingOrders = await this.find(query);
-  return conflictingOrders.length === 0;
+// Instance method to check whether the order may move to a status
+RentalOrderSchema.methods.canTransitionTo = function (newStatus: string): boolean {
+  const allowed = ORDER_STATUS_TRANSITIONS[this.status as RentalOrderStatus] || [];
+  return allowed.includes(newStatus as RentalOrderStatus);
 };
 
 // Instance method to update order status
-RentalOrderSchema.methods.updateStatus = async function (newStatus: string, reason?: string) {
+RentalOrderSchema.methods.updateStatus = async function (newStatus: string, reason?: string, actor?: StatusActor) {
   const oldStatus = this.status;
+  if (newStatus === oldStatus) return this;
+
+  if (!this.canTransitionTo(newStatus)) {
+    throw new StatusTransitionError(`Cannot move an order from "${oldStatus}" to "${newStatus}"`);
+  }
+
   this.status = newStatus;
+  this.statusHistory.push(buildHistoryEntry(oldStatus, newStatus, reason, actor));
 
   // Set pickup/return dates based on status
   if (newStatus === 'delivered' && !this.pickupDate) {
@@ -406,36 +520,98 @@ RentalOrderSchema.methods.updateStatus = async function (newStatus: string, reas
     customer: this.customerEmail,
   });
 
+  await notifyOrderStatus(this, oldStatus, newStatus);
+
+  // Once the rental is over, lines that took units off the shelf put them back; the rest log them as back
+  if (RELEASE_STATUSES.includes(newStatus) && ACTIVE_ORDER_STATUSES.includes(oldStatus)) {
+    if (this.stockReleased) {
+      await this.recordBooking('return', reason || `Order ${newStatus}`, actor);
+    } else {
+      await this.releaseStock(reason || `Order ${newStatus}`);
+    }
+  }
+  // A quotation line confirmed now books its units
+  if (ACTIVE_ORDER_STATUSES.includes(newStatus) && !ACTIVE_ORDER_STATUSES.includes(oldStatus)) {
+    await this.recordBooking('reserve', reason || `Order ${newStatus}`, actor);
+  }
+
   return this;
 };
 
-// Instance method to calculate pricing
-RentalOrderSchema.methods.calculatePricing = async function (product: any) {
-  let unitPrice = 0;
+// Instance method to return held units to the product's stock; safe to call more than once
+RentalOrderSchema.methods.releaseStock = async function (reason: string) {
+  // Claim the release atomically so repeated or concurrent updates restore stock only once
+  const claimed = await (this.constructor as mongoose.Model<IRentalOrder>).findOneAndUpdate(
+    { _id: this._id, stockReleased: { $ne: true } },
+    { $set: { stockReleased: true } }
+  );
+  this.stockReleased = true;
+  if (!claimed) return false;
 
-  switch (this.durationUnit) {
-    case 'hour':
-      unitPrice = product.pricePerHour;
-      break;
-    case 'day':
-      unitPrice = product.pricePerDay;
-      break;
-    case 'week':
-      unitPrice = product.pricePerWeek;
-      break;
-    case 'month':
-      unitPrice = product.pricePerMonth;
-      break;
-    case 'year':
-      unitPrice = product.pricePerYear;
-      break;
+  try {
+    const product = await Product.findById(this.productId);
+    if (!product) {
+      logger.warn('Stock not released: product no longer exists', {
+        orderId: this._id?.toString(),
+        productId: this.productId?.toString(),
+      });
+      return false;
+    }
+
+    await product.adjustStock(this.quantity || 1, {
+      type: 'return',
+      reason,
+      rentalOrderId: this._id.toString(),
+    });
+  } catch (error) {
+    logger.error('Failed to release stock for rental order', {
+      error,
+      orderId: this._id?.toString(),
+      quantity: this.quantity,
+    });
+    return false;
   }
 
-  this.totalPrice = unitPrice * this.duration;
+  return true;
+};
+
+// Instance method to log the units this order books out or brings back in the product's stock ledger
+RentalOrderSchema.methods.recordBooking = async function (type: 'reserve' | 'return', reason: string, actor?: StatusActor) {
+  try {
+    const product = await Product.findById(this.productId);
+    if (!product) return false;
+
+    await product.recordBooking(type, this.quantity || 1, {
+      reason,
+      userId: actor?.id,
+      userName: actor?.name,
+      rentalOrderId: this._id.toString(),
+    });
+  } catch (error) {
+    // The ledger is an audit trail; a missing entry must not undo the status change
+    logger.error('Failed to record booking in stock ledger', { error, orderId: this._id?.toString(), type });
+    return false;
+  }
+
+  return true;
+};
+
+// Instance method to calculate pricing from the product's rates for this order's window
+RentalOrderSchema.methods.calculatePricing = async function (product: any) {
+  this.totalPrice = priceRental(product, this.startDate, this.endDate, this.quantity || 1).total;
   return this.totalPrice;
 };
 
+// Instance method to load the late fee rule for this order's product; the late fee virtuals use it once loaded
+RentalOrderSchema.methods.loadLateFeeRule = async function () {
+  const product = await Product.findById(this.productId?._id || this.productId)
+    .select('endUserId category pricePerHour pricePerDay pricePerWeek pricePerMonth pricePerYear')
+    .lean();
+  this.$locals.lateFee = await LateFeePolicy.ruleForProduct(product);
+  return this.$locals.lateFee;
+};
+
 // Export the model, ensuring it's not re-compiled in development
-const RentalOrder = mongoose.models.RentalOrder || mongoose.model<IRentalOrder>('RentalOrder', RentalOrderSchema);
+const RentalOrder = (mongoose.models.RentalOrder as RentalOrderModel) || mongoose.model<IRentalOrder, RentalOrderModel>('RentalOrder', RentalOrderSchema);
 
 export default RentalOrder;
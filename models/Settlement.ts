@@ -0,0 +1,163 @@
+/**
+ * Settlement Model for Enduser Earnings
+ * One row per enduser per order: what the enduser earned from their lines in it, late fees
+ * included, after the coupon discount on them, refunds, credit notes and the platform commission.
+ * Pending while the rentals run, available once they are over, paid once a payout statement
+ * includes it. Changes after a payout go on an adjustment row (revision 1, 2, ...) holding the
+ * difference, which can be negative.
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export type SettlementStatus = 'pending' | 'available' | 'paid';
+
+// Define the interface for Settlement
+interface ISettlement extends mongoose.Document {
+  _id: Types.ObjectId;
+  orderId: Types.ObjectId;
+  orderNumber: string;
+  endUserId: Types.ObjectId;
+  rentalOrderIds: Types.ObjectId[];
+  gross: number;
+  lateFees: number;
+  discount: number;
+  refunded: number;
+  credited: number;
+  commissionRate: number;
+  commission: number;
+  depositDeductions: number;
+  net: number;
+  status: SettlementStatus;
+  availableAt?: Date;
+  payoutId?: Types.ObjectId;
+  revision?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Amounts are never negative, except on an adjustment, which holds what changed since the payout
+function notNegativeUnlessAdjustment(this: any, value: number) {
+  return this.revision !== undefined || value >= 0;
+}
+
+// Settlement schema definition
+const SettlementSchema: Schema<ISettlement> = new Schema(
+  {
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: [true, 'Order ID is required'],
+    },
+    orderNumber: {
+      type: String,
+      required: [true, 'Order number is required'],
+      trim: true,
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    rentalOrderIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    }],
+    // Rental charges of the enduser's lines, before discount
+    gross: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Gross cannot be negative'],
+      default: 0,
+    },
+    // Late fees the enduser's lines accrued, at their invoiced taxable value once returned
+    lateFees: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Late fees cannot be negative'],
+      default: 0,
+    },
+    // Coupon discount on the enduser's lines; a coupon only discounts its owner's products
+    discount: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Discount cannot be negative'],
+      default: 0,
+    },
+    refunded: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Refunded amount cannot be negative'],
+      default: 0,
+    },
+    // Taxable value of the credit notes on the enduser's invoices for the order
+    credited: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Credited amount cannot be negative'],
+      default: 0,
+    },
+    // Percent, fixed when the settlement is first written so later rate changes don't rewrite history
+    commissionRate: {
+      type: Number,
+      min: [0, 'Commission rate cannot be negative'],
+      max: [100, 'Commission rate cannot exceed 100'],
+      required: [true, 'Commission rate is required'],
+    },
+    commission: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Commission cannot be negative'],
+      default: 0,
+    },
+    // Security deposit kept for damage or late return belongs to the enduser in full
+    depositDeductions: {
+      type: Number,
+      validate: [notNegativeUnlessAdjustment, 'Deposit deductions cannot be negative'],
+      default: 0,
+    },
+    net: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'available', 'paid'],
+        message: 'Invalid settlement status',
+      },
+      default: 'pending',
+    },
+    availableAt: {
+      type: Date,
+    },
+    payoutId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payout',
+    },
+    // Set only on adjustments to a paid-out settlement, counting up from 1
+    revision: {
+      type: Number,
+      min: [1, 'Revision must be at least 1'],
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+SettlementSchema.index({ orderId: 1, endUserId: 1, revision: 1 }, { unique: true }); // One settlement per enduser per order, then its adjustments
+SettlementSchema.index({ endUserId: 1, status: 1, createdAt: -1 }); // Balances and earnings lists
+SettlementSchema.index({ payoutId: 1 }); // Settlements on a payout statement
+
+SettlementSchema.pre('save', function (next) {
+  logger.database(this.isNew ? 'CREATE' : 'UPDATE', 'Settlement', {
+    order: this.orderNumber,
+    endUser: this.endUserId?.toString(),
+    net: this.net,
+    status: this.status,
+  });
+
+  next();
+});
+
+// Export the model, ensuring it's not re-compiled in development
+const Settlement = mongoose.models.Settlement || mongoose.model<ISettlement>('Settlement', SettlementSchema);
+
+export default Settlement;
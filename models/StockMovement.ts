@@ -0,0 +1,130 @@
+/**
+ * Stock Movement Model for Inventory Auditing
+ * Append-only ledger of every change to a product's quantityAvailable, and of the units each rental order
+ * books out (reserve) and brings back (return), which leave the fleet size as it is (change 0)
+ */
+
+import mongoose, { HydratedDocument, Model, Query, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+export type StockMovementType = 'increase' | 'decrease' | 'reserve' | 'return';
+
+// Define the interface for StockMovement
+interface IStockMovement extends mongoose.Document {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  type: StockMovementType;
+  quantity: number;
+  change: number;
+  balanceAfter: number;
+  reason: string;
+  performedBy?: Types.ObjectId;
+  performedByName: string;
+  rentalOrderId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type StockMovementDocument = HydratedDocument<IStockMovement, {}>;
+
+// Static methods of the StockMovement model
+interface IStockMovementStatics {
+  findByProduct(productId: string, limit?: number): Query<StockMovementDocument[], StockMovementDocument>;
+}
+
+type StockMovementModel = Model<IStockMovement, {}, {}> & IStockMovementStatics;
+
+// Stock movement schema definition
+const StockMovementSchema: Schema<IStockMovement> = new Schema(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['increase', 'decrease', 'reserve', 'return'],
+        message: 'Invalid stock movement type',
+      },
+      required: [true, 'Movement type is required'],
+    },
+    quantity: {
+      type: Number,
+      required: [true, 'Quantity is required'],
+      min: [1, 'Quantity must be at least 1'],
+    },
+    change: {
+      type: Number,
+      required: true,
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+      min: [0, 'Balance cannot be negative'],
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+      maxlength: [200, 'Reason cannot exceed 200 characters'],
+    },
+    performedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    performedByName: {
+      type: String,
+      trim: true,
+      default: 'System',
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+// Indexes for efficient queries
+StockMovementSchema.index({ productId: 1, createdAt: -1 }); // Product history, newest first
+StockMovementSchema.index({ endUserId: 1, createdAt: -1 }); // Owner-wide audit
+StockMovementSchema.index({ rentalOrderId: 1 }); // Movements caused by an order
+
+// Ledger entries are never edited after being written
+StockMovementSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Stock movements are immutable'));
+  }
+
+  logger.database('INSERT', 'StockMovement', {
+    product: this.productId,
+    type: this.type,
+    change: this.change,
+    balanceAfter: this.balanceAfter,
+  });
+
+  next();
+});
+
+// Static method to fetch the history of a product
+StockMovementSchema.statics.findByProduct = function (productId: string, limit = 20) {
+  return this.find({ productId })
+    .sort({ createdAt: -1 })
+    .limit(limit);
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const StockMovement = (mongoose.models.StockMovement as StockMovementModel) || mongoose.model<IStockMovement, StockMovementModel>('StockMovement', StockMovementSchema);
+
+export default StockMovement;
@@ -0,0 +1,126 @@
+/**
+ * Tax Policy Model
+ * Per-enduser GST registration and rules: the GSTIN and state the enduser is registered in,
+ * a default rate with prices either including the tax or having it added, and overrides for
+ * whole categories. The maths lives in lib/tax.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import { DEFAULT_TAX_RULE, TaxCategoryRule, TaxPolicyLike } from '@/lib/tax';
+
+// 15 characters: state code, PAN, entity number, Z, checksum
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Define the interface for TaxPolicy
+interface ITaxPolicy extends mongoose.Document {
+  _id: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  gstin?: string;
+  state?: string;
+  label: string;
+  rate: number;
+  inclusive: boolean;
+  overrides: TaxCategoryRule[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Override fields left unset inherit from the policy's own rule
+const TaxCategoryRuleSchema = new Schema<TaxCategoryRule>(
+  {
+    category: {
+      type: String,
+      required: [true, 'Override category is required'],
+      trim: true,
+    },
+    rate: {
+      type: Number,
+      min: [0, 'Tax rate cannot be negative'],
+      max: [100, 'Tax rate cannot exceed 100%'],
+    },
+    inclusive: Boolean,
+  },
+  { _id: false }
+);
+
+// Static methods of the TaxPolicy model
+interface ITaxPolicyStatics {
+  forEndUsers(endUserIds: (string | Types.ObjectId)[]): Promise<Map<string, TaxPolicyLike>>;
+}
+
+type TaxPolicyModel = Model<ITaxPolicy, {}, {}> & ITaxPolicyStatics;
+
+// Tax policy schema definition
+const TaxPolicySchema: Schema<ITaxPolicy> = new Schema(
+  {
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+      unique: true,
+    },
+    gstin: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      match: [GSTIN_PATTERN, 'Please enter a valid GSTIN'],
+    },
+    // State the enduser is registered in; deliveries elsewhere are inter-state supplies
+    state: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'State cannot exceed 50 characters'],
+    },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [10, 'Tax label cannot exceed 10 characters'],
+      default: DEFAULT_TAX_RULE.label,
+    },
+    rate: {
+      type: Number,
+      min: [0, 'Tax rate cannot be negative'],
+      max: [100, 'Tax rate cannot exceed 100%'],
+      default: DEFAULT_TAX_RULE.rate,
+    },
+    inclusive: {
+      type: Boolean,
+      default: DEFAULT_TAX_RULE.inclusive,
+    },
+    overrides: {
+      type: [TaxCategoryRuleSchema],
+      default: [],
+      validate: {
+        validator: (overrides: TaxCategoryRule[]) => new Set(overrides.map(o => o.category)).size === overrides.length,
+        message: 'Each category can only have one override',
+      },
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+TaxPolicySchema.pre('save', function (next) {
+  logger.database('SAVE', 'TaxPolicy', {
+    endUserId: this.endUserId?.toString(),
+    rate: this.rate,
+    inclusive: this.inclusive,
+    overrides: this.overrides.length,
+  });
+  next();
+});
+
+// Static method to get the policies of several endusers at once, keyed by enduser id; endusers without one are left out
+TaxPolicySchema.statics.forEndUsers = async function (endUserIds: (string | Types.ObjectId)[]): Promise<Map<string, TaxPolicyLike>> {
+  const ids = Array.from(new Set(endUserIds.filter(Boolean).map(id => id.toString())));
+  const policies = ids.length ? await this.find({ endUserId: { $in: ids } }).lean() : [];
+  return new Map(policies.map((policy: any) => [policy.endUserId.toString(), policy as TaxPolicyLike]));
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const TaxPolicy = (mongoose.models.TaxPolicy as TaxPolicyModel) || mongoose.model<ITaxPolicy, TaxPolicyModel>('TaxPolicy', TaxPolicySchema);
+
+export default TaxPolicy;
@@ -0,0 +1,386 @@
+/**
+ * Transfer Model for Pickups and Returns
+ * Tracks the physical movement of rented items between the warehouse and the customer
+ */
+
+import mongoose, { HydratedDocument, Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+import Counter from '@/models/Counter';
+
+export type TransferType = 'pickup' | 'return';
+export type TransferStatus = 'draft' | 'ready' | 'waiting' | 'done' | 'cancelled';
+
+// Allowed status changes per transfer type (pickup: draft → ready → done, return: draft → waiting → ready → done)
+export const TRANSFER_TRANSITIONS: Record<TransferType, Record<TransferStatus, TransferStatus[]>> = {
+  pickup: {
+    draft: ['ready', 'cancelled'],
+    ready: ['waiting', 'done', 'cancelled'],
+    waiting: ['done', 'cancelled'],
+    done: [],
+    cancelled: [],
+  },
+  return: {
+    draft: ['waiting', 'cancelled'],
+    waiting: ['ready', 'done', 'cancelled'],
+    ready: ['done', 'cancelled'],
+    done: [],
+    cancelled: [],
+  },
+};
+
+// Define the interface for a transfer line
+interface ITransferLine {
+  productId: Types.ObjectId;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  subTotal: number;
+}
+
+// Define the interface for Transfer
+interface ITransfer extends mongoose.Document {
+  _id: Types.ObjectId;
+  reference: string;
+  type: TransferType;
+  status: TransferStatus;
+  rentalOrderId: Types.ObjectId;
+  endUserId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  customerName: string;
+  customerEmail: string;
+  invoiceAddress?: string;
+  deliveryAddress?: string;
+  sourceLocation: string;
+  destinationLocation?: string;
+  scheduleDate: Date;
+  responsible?: string;
+  transferType: 'pickup' | 'delivery';
+  lines: ITransferLine[];
+  untaxedTotal: number;
+  tax: number;
+  total: number;
+  notes?: string;
+  doneAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Transfer line sub-schema
+const TransferLineSchema = new Schema<ITransferLine>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product ID is required'],
+    },
+    productName: {
+      type: String,
+      required: [true, 'Product name is required'],
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: [1, 'Quantity must be at least 1'],
+      default: 1,
+    },
+    unitPrice: {
+      type: Number,
+      required: true,
+      min: [0, 'Price cannot be negative'],
+    },
+    subTotal: {
+      type: Number,
+      required: true,
+      min: [0, 'Sub total cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+// Instance methods of a transfer
+interface ITransferMethods {
+  canTransitionTo(newStatus: TransferStatus): boolean;
+  updateStatus(newStatus: TransferStatus, reason?: string): Promise<TransferDocument>;
+}
+
+type TransferDocument = HydratedDocument<ITransfer, ITransferMethods>;
+
+// Static methods of the Transfer model
+interface ITransferStatics {
+  nextReference(endUserId: string, type: TransferType): Promise<string>;
+  createFromOrder(order: any, type: TransferType, options?: { responsible?: string; warehouseLocation?: string }): Promise<TransferDocument>;
+}
+
+type TransferModel = Model<ITransfer, {}, ITransferMethods> & ITransferStatics;
+
+// Transfer schema definition
+const TransferSchema: Schema<ITransfer, TransferModel, ITransferMethods> = new Schema(
+  {
+    reference: {
+      type: String,
+      required: [true, 'Transfer reference is required'],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['pickup', 'return'],
+        message: 'Invalid transfer type',
+      },
+      required: [true, 'Transfer type is required'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['draft', 'ready', 'waiting', 'done', 'cancelled'],
+        message: 'Invalid transfer status',
+      },
+      default: 'draft',
+      required: true,
+    },
+    rentalOrderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'RentalOrder',
+      required: [true, 'Rental order ID is required'],
+    },
+    endUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'End user ID is required'],
+    },
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer ID is required'],
+    },
+    customerName: {
+      type: String,
+      required: [true, 'Customer name is required'],
+      trim: true,
+    },
+    customerEmail: {
+      type: String,
+      required: [true, 'Customer email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    invoiceAddress: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Invoice address cannot exceed 300 characters'],
+    },
+    deliveryAddress: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Delivery address cannot exceed 300 characters'],
+    },
+    sourceLocation: {
+      type: String,
+      required: [true, 'Source location is required'],
+      trim: true,
+      maxlength: [300, 'Source location cannot exceed 300 characters'],
+    },
+    destinationLocation: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Destination location cannot exceed 300 characters'],
+    },
+    scheduleDate: {
+      type: Date,
+      required: [true, 'Schedule date is required'],
+    },
+    responsible: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Responsible name cannot exceed 50 characters'],
+    },
+    transferType: {
+      type: String,
+      enum: {
+        values: ['pickup', 'delivery'],
+        message: 'Invalid transfer mode',
+      },
+      default: 'pickup',
+    },
+    lines: {
+      type: [TransferLineSchema],
+      default: [],
+    },
+    untaxedTotal: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0,
+    },
+    tax: {
+      type: Number,
+      min: [0, 'Tax cannot be negative'],
+      default: 0,
+    },
+    total: {
+      type: Number,
+      min: [0, 'Total cannot be negative'],
+      default: 0,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    doneAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Indexes for efficient queries
+TransferSchema.index({ endUserId: 1, reference: 1 }, { unique: true }); // References are unique per end user
+TransferSchema.index({ endUserId: 1, type: 1, status: 1 }); // Transfer list filtering
+TransferSchema.index({ rentalOrderId: 1, type: 1 }); // One active transfer per order and type
+TransferSchema.index({ scheduleDate: 1 }); // Schedule lookups
+
+// Pre-save middleware to keep totals consistent with the lines
+TransferSchema.pre('save', function (next) {
+  const transfer = this as ITransfer;
+
+  transfer.lines.forEach((line) => {
+    line.subTotal = Math.round(line.unitPrice * line.quantity * 100) / 100;
+  });
+  transfer.untaxedTotal = transfer.lines.reduce((sum, line) => sum + line.subTotal, 0);
+  transfer.total = transfer.untaxedTotal + (transfer.tax || 0);
+
+  logger.database('SAVE', 'Transfer', {
+    reference: transfer.reference,
+    type: transfer.type,
+    status: transfer.status,
+    order: transfer.rentalOrderId,
+  });
+
+  next();
+});
+
+/**
+ * Turn the stored delivery address (plain text or the JSON blob written at checkout) into one line
+ */
+function formatAddress(raw?: string): string {
+  if (!raw) return '';
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') {
+      return [parsed.name, parsed.address, parsed.city, parsed.state, parsed.zipCode, parsed.country]
+        .filter(Boolean)
+        .join(', ');
+    }
+  } catch {
+    // Not JSON, use as-is
+  }
+  return raw;
+}
+
+// Static method to take the next reference number for an end user (PICKUP/OUT/0001, RETURN/IN/0001).
+// Numbers come from a counter, so a deleted draft's number is never handed out again.
+TransferSchema.statics.nextReference = async function (endUserId: string, type: TransferType): Promise<string> {
+  const prefix = type === 'pickup' ? 'PICKUP/OUT/' : 'RETURN/IN/';
+  const sequence = `transfer:${endUserId}:${type}`;
+  const format = (seq: number) => `${prefix}${String(seq).padStart(4, '0')}`;
+
+  let seq = await Counter.next(sequence);
+  // Transfers numbered before the counter existed: carry on after the highest reference already taken
+  if (await this.exists({ endUserId, reference: format(seq) })) {
+    const taken = await this.find({ endUserId, type }).select('reference').lean();
+    const highest = Math.max(0, ...taken.map((transfer: any) => Number(transfer.reference.slice(prefix.length)) || 0));
+    await Counter.updateOne({ _id: sequence }, { $max: { seq: highest } });
+    seq = await Counter.next(sequence);
+  }
+  return format(seq);
+};
+
+// Static method to generate a draft transfer from a rental order
+TransferSchema.statics.createFromOrder = async function (
+  order: any,
+  type: TransferType,
+  options: { responsible?: string; warehouseLocation?: string } = {}
+) {
+  const warehouse = options.warehouseLocation || 'Warehouse';
+  const customerAddress = formatAddress(order.deliveryAddress);
+  const product: any = order.productId;
+  // The line's taxable value and the GST charged on it, per unit; lines from before tax rules carry only a price
+  const quantity = Math.max(1, order.quantity || 1);
+  const lineValue = order.tax?.taxableValue ?? (order.totalPrice || 0);
+  const unitPrice = lineValue / quantity;
+
+  const transfer = new this({
+    reference: await this.nextReference(order.endUserId.toString(), type),
+    type,
+    status: 'draft',
+    rentalOrderId: order._id,
+    endUserId: order.endUserId,
+    customerId: order.customerId,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    invoiceAddress: customerAddress,
+    deliveryAddress: customerAddress,
+    sourceLocation: type === 'pickup' ? warehouse : customerAddress || 'Customer Location',
+    destinationLocation: type === 'pickup' ? customerAddress : warehouse,
+    scheduleDate: type === 'pickup' ? order.startDate : order.endDate,
+    responsible: options.responsible,
+    transferType: order.deliveryAddress ? 'delivery' : 'pickup',
+    lines: [
+      {
+        productId: product?._id || product,
+        productName: product?.name || 'Product',
+        quantity,
+        unitPrice,
+        subTotal: lineValue,
+      },
+    ],
+    tax: order.tax?.amount || 0,
+  });
+
+  await transfer.save();
+
+  logger.booking('TRANSFER_CREATE', order._id?.toString(), {
+    transfer: transfer.reference,
+    type,
+  });
+
+  return transfer;
+};
+
+// Instance method to check if a status change is allowed
+TransferSchema.methods.canTransitionTo = function (newStatus: TransferStatus): boolean {
+  const allowed = TRANSFER_TRANSITIONS[this.type as TransferType]?.[this.status as TransferStatus] || [];
+  return allowed.includes(newStatus);
+};
+
+// Instance method to update transfer status
+TransferSchema.methods.updateStatus = async function (newStatus: TransferStatus, reason?: string) {
+  const oldStatus = this.status;
+  this.status = newStatus;
+
+  if (newStatus === 'done' && !this.doneAt) {
+    this.doneAt = new Date();
+  }
+
+  await this.save();
+
+  logger.booking('TRANSFER_STATUS_UPDATE', this.rentalOrderId?.toString(), {
+    transfer: this.reference,
+    oldStatus,
+    newStatus,
+    reason,
+  });
+
+  return this;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Transfer = (mongoose.models.Transfer as TransferModel) || mongoose.model<ITransfer, TransferModel>('Transfer', TransferSchema);
+
+export default Transfer;
@@ -0,0 +1,89 @@
+/**
+ * Wishlist Model
+ * One row per product a customer has saved. Customers who opt in to alerts hear when the
+ * product's daily price drops or it comes back in stock; the watched values are what the
+ * customer last saw, so each change is announced once.
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { Types } from 'mongoose';
+import { logger } from '@/lib/logger';
+
+// Define the interface for a wishlist entry
+interface IWishlist extends mongoose.Document {
+  _id: Types.ObjectId;
+  customerId: Types.ObjectId;
+  productId: Types.ObjectId;
+  alerts: boolean;
+  watchedPrice?: number;
+  watchedAvailable?: boolean;
+  lastAlertAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Instance methods of a wishlist entry
+interface IWishlistMethods {
+  watch(product: any): void;
+}
+
+type WishlistModel = Model<IWishlist, {}, IWishlistMethods>;
+
+// Wishlist schema definition
+const WishlistSchema: Schema<IWishlist> = new Schema(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Customer is required'],
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: [true, 'Product is required'],
+    },
+    // Price-drop and back-in-stock alerts are opt-in per product
+    alerts: {
+      type: Boolean,
+      default: false,
+    },
+    watchedPrice: {
+      type: Number,
+      min: 0,
+    },
+    watchedAvailable: {
+      type: Boolean,
+    },
+    lastAlertAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically add createdAt and updatedAt
+  }
+);
+
+WishlistSchema.index({ customerId: 1, productId: 1 }, { unique: true });
+WishlistSchema.index({ alerts: 1, productId: 1 });
+
+WishlistSchema.pre('save', function (next) {
+  if (this.isNew) {
+    logger.database('CREATE', 'Wishlist', {
+      customerId: this.customerId?.toString(),
+      productId: this.productId?.toString(),
+      alerts: this.alerts,
+    });
+  }
+  next();
+});
+
+// Instance method to remember the product's price and stock as the customer sees them now
+WishlistSchema.methods.watch = function (product: any) {
+  this.watchedPrice = product?.pricePerDay || 0;
+  this.watchedAvailable = !!product?.availability;
+};
+
+// Export the model, ensuring it's not re-compiled in development
+const Wishlist = (mongoose.models.Wishlist as WishlistModel) || mongoose.model<IWishlist, WishlistModel>('Wishlist', WishlistSchema);
+
+export default Wishlist;
@@ -0,0 +1,102 @@
+/**
+ * Razorpay Webhook Fixture Sender
+ * Signs a sample webhook payload with RAZORPAY_WEBHOOK_SECRET and posts it to the local app,
+ * so the webhook can be exercised without a public URL.
+ *
+ * Usage:
+ *   node scripts/razorpay-webhook.js payment.captured <razorpay_order_id> [amount_in_rupees]
+ *   node scripts/razorpay-webhook.js payment.failed <razorpay_order_id> [amount_in_rupees]
+ *   node scripts/razorpay-webhook.js refund.processed <razorpay_order_id> <amount_in_rupees> <razorpay_payment_id>
+ *
+ * Re-run with the same EVENT_ID environment variable to check that redeliveries are ignored.
+ */
+
+const crypto = require('crypto');
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:3000/api/payments/webhook';
+const SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+const [event, orderId, amountArg, paymentIdArg] = process.argv.slice(2);
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(7).toString('hex')}`;
+
+function buildPayload() {
+  const amount = Math.round(Number(amountArg || 100) * 100);
+  const paymentId = paymentIdArg || randomId('pay');
+
+  const payment = {
+    id: paymentId,
+    entity: 'payment',
+    amount,
+    currency: 'INR',
+    order_id: orderId,
+    email: 'customer@example.com',
+  };
+
+  switch (event) {
+    case 'payment.captured':
+      return { event, payload: { payment: { entity: { ...payment, status: 'captured', captured: true } } } };
+    case 'payment.failed':
+      return {
+        event,
+        payload: {
+          payment: {
+            entity: {
+              ...payment,
+              status: 'failed',
+              error_reason: 'payment_failed',
+              error_description: 'Payment declined by the bank',
+            },
+          },
+        },
+      };
+    case 'refund.processed':
+      return {
+        event,
+        payload: {
+          refund: { entity: { id: randomId('rfnd'), entity: 'refund', amount, currency: 'INR', payment_id: paymentId, status: 'processed' } },
+          payment: { entity: { ...payment, status: 'refunded' } },
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+async function main() {
+  if (!SECRET) {
+    console.error('❌ RAZORPAY_WEBHOOK_SECRET is not set in .env.local');
+    process.exit(1);
+  }
+
+  const payload = event && orderId ? buildPayload() : null;
+  if (!payload) {
+    console.error('Usage: node scripts/razorpay-webhook.js <payment.captured|payment.failed|refund.processed> <razorpay_order_id> [amount] [payment_id]');
+    process.exit(1);
+  }
+
+  const body = JSON.stringify({ entity: 'event', account_id: 'acc_fixture', contains: Object.keys(payload.payload), created_at: Math.floor(Date.now() / 1000), ...payload });
+  const signature = crypto.createHmac('sha256', SECRET).update(body).digest('hex');
+  const eventId = process.env.EVENT_ID || randomId('evt');
+
+  console.log(`📨 Sending ${event} for ${orderId} (event ${eventId})`);
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Razorpay-Signature': signature,
+      'X-Razorpay-Event-Id': eventId,
+    },
+    body,
+  });
+
+  console.log(`↩️  ${response.status}`, await response.text());
+}
+
+main().catch((error) => {
+  console.error('❌ Failed to send webhook:', error.message);
+  process.exit(1);
+});
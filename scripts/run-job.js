@@ -0,0 +1,52 @@
+/**
+ * Scheduled Job Runner
+ * Triggers one of the app's internal job endpoints with CRON_SECRET, so jobs can be
+ * scheduled from crontab or run by hand next to the dev server.
+ *
+ * Usage:
+ *   node scripts/run-job.js late-returns
+ *   node scripts/run-job.js reminders
+ *   node scripts/run-job.js wishlist-alerts
+ *   node scripts/run-job.js payouts
+ *
+ * Example crontab entries (every 30 minutes; wishlist alerts hourly; payouts weekly on Monday morning):
+ *   0,30 * * * * cd /path/to/rimo && npm run jobs:late-returns
+ *   15,45 * * * * cd /path/to/rimo && npm run jobs:reminders
+ *   5 * * * * cd /path/to/rimo && npm run jobs:wishlist-alerts
+ *   0 6 * * 1 cd /path/to/rimo && npm run jobs:payouts
+ */
+
+// Load environment variables
+require('dotenv').config({ path: '.env.local' });
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const SECRET = process.env.CRON_SECRET;
+
+const JOBS = ['late-returns', 'reminders', 'wishlist-alerts', 'payouts'];
+
+async function main() {
+  const job = process.argv[2];
+  if (!JOBS.includes(job)) {
+    console.error(`Usage: node scripts/run-job.js <${JOBS.join('|')}>`);
+    process.exit(1);
+  }
+  if (!SECRET) {
+    console.error('❌ CRON_SECRET is not set in .env.local');
+    process.exit(1);
+  }
+
+  console.log(`⏱️  Running ${job}`);
+  const response = await fetch(`${APP_URL}/api/jobs/${job}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${SECRET}` },
+  });
+
+  const body = await response.text();
+  console.log(`↩️  ${response.status}`, body);
+  if (!response.ok) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('❌ Job failed:', error.message);
+  process.exit(1);
+});
@@ -219,6 +219,7 @@ const rentalOrderSchema = new mongoose.Schema({
   totalPrice: Number,
   status: { type: String, default: 'confirmed' },
   paymentStatus: { type: String, default: 'paid' },
+  stockReleased: { type: Boolean, default: true }, // seeded orders never took units off the shelf
 }, { timestamps: true });
 
 // Hash password before saving
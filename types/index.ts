@@ -32,14 +32,33 @@ export interface IProduct extends Document {
   pricePerWeek: number;
   pricePerMonth: number;
   pricePerYear: number;
+  securityDeposit: number; // Refundable deposit per unit, collected at checkout
   availability: boolean;
   endUserId: Types.ObjectId; // Owner of the product
   units: 'hour' | 'day' | 'week' | 'month' | 'year';
   quantityAvailable: number;
+  minimumStock: number;
+  maximumStock: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Status History Types (rental orders and bookings)
+export interface IStatusHistoryEntry {
+  from?: string;
+  to: string;
+  changedBy?: Types.ObjectId;
+  changedByName: string;
+  reason?: string;
+  changedAt: Date;
+}
+
+// Who triggered a status change; omitted for system changes
+export interface StatusActor {
+  id?: string;
+  name?: string;
+}
+
 // Booking Types
 export interface IBooking extends Document {
   _id: Types.ObjectId;
@@ -52,6 +71,7 @@ export interface IBooking extends Document {
   durationDays: number;
   totalPrice: number;
   status: 'pending' | 'confirmed' | 'returned' | 'late' | 'cancelled';
+  statusHistory: IStatusHistoryEntry[];
   createdAt: Date;
   updatedAt: Date;
 }